@@ -1,47 +1,93 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Header } from './components/Header';
 import { ControlPanel } from './components/ControlPanel';
 import { PortfolioChart } from './components/PortfolioChart';
 import { StockTable } from './components/StockTable';
 import { SimulationResults } from './components/SimulationResults';
+import { RiskPanel } from './components/RiskPanel';
 import { StockDetailModal } from './components/StockDetailModal';
 import { RebalanceModal } from './components/RebalanceModal';
+import { ModelSettingsModal } from './components/ModelSettingsModal';
+import { UsagePanel } from './components/UsagePanel';
 import { PerformanceComparison } from './components/PerformanceComparison';
 import { NewsTicker } from './components/NewsTicker';
+import { SentimentGauge } from './components/SentimentGauge';
 import { Logo } from './components/Logo';
 import { ErrorBoundary } from './components/ErrorBoundary';
-import { GeneratedPortfolio, StockPosition, StockAnalysisResult, NewsHeadline } from './types';
-import { generateETFPortfolio, analyzeStock, refreshPortfolioPrices, fetchMarketHeadlines } from './services/geminiService';
+import { GeneratedPortfolio, StockPosition, StockAnalysisResult, NewsHeadline, NewsScope, ProgressEvent } from './types';
+import { generateETFPortfolio, analyzeStock, refreshPortfolioPrices, fetchMarketHeadlines, fetchPortfolioHeadlines, health } from './services/proxyClient';
+import { tagHeadlines, attachHeadlines } from './utils/newsTagging';
+import { applyCalculatedMetrics } from './utils/calculations';
+import { sentimentHistory } from './services/sentimentHistory';
+import { isCancellation } from './services/requestScheduler';
+import { BudgetExceededError } from './services/usageMeter';
 
 const App: React.FC = () => {
   const [portfolio, setPortfolio] = useState<GeneratedPortfolio | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [loadingStatus, setLoadingStatus] = useState<string>("");
+  // Structured progress for the current (or last) construct/rebalance/refresh, kept for the step log
+  const [progressEvents, setProgressEvents] = useState<ProgressEvent[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [marketHeadlines, setMarketHeadlines] = useState<NewsHeadline[]>([]);
   const [isRefreshingNews, setIsRefreshingNews] = useState(false);
   const [isLoadingHeadlines, setIsLoadingHeadlines] = useState(true);
+  const [newsScope, setNewsScope] = useState<NewsScope>(() =>
+    localStorage.getItem('climateshift-news-scope') === 'market' ? 'market' : 'portfolio'
+  );
+  // Holding the news ticker is narrowed to, if any
+  const [newsTickerFilter, setNewsTickerFilter] = useState<string | null>(null);
+  // Null until chosen; without a saved choice the server's configuration decides
+  const [crossVerify, setCrossVerify] = useState<boolean | null>(() => {
+    const saved = localStorage.getItem('climateshift-cross-verify');
+    return saved === null ? null : saved === 'true';
+  });
 
   // Rebalance State
   const [isRebalanceModalOpen, setIsRebalanceModalOpen] = useState(false);
+  const [isModelSettingsOpen, setIsModelSettingsOpen] = useState(false);
+  const [isUsagePanelOpen, setIsUsagePanelOpen] = useState(false);
 
   // Stock Detail Modal State
   const [selectedStock, setSelectedStock] = useState<StockPosition | null>(null);
   const [stockAnalysis, setStockAnalysis] = useState<StockAnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
+  // Abort controllers for in-flight work: construct/rebalance/refresh share one, stock analysis has its own
+  const operationControllerRef = useRef<AbortController | null>(null);
+  const analysisControllerRef = useRef<AbortController | null>(null);
+
+  const startOperation = (ref: React.MutableRefObject<AbortController | null>): AbortController => {
+    ref.current?.abort();
+    const controller = new AbortController();
+    ref.current = controller;
+    return controller;
+  };
+
+  const finishOperation = (ref: React.MutableRefObject<AbortController | null>, controller: AbortController) => {
+    if (ref.current === controller) ref.current = null;
+  };
+
+  const handleProgress = (event: ProgressEvent) => {
+    setLoadingStatus(event.message);
+    setProgressEvents(events => [...events, event]);
+  };
+
   // Initial Data Fetch & Load LocalStorage
   useEffect(() => {
     let isMounted = true;
+    const headlinesController = new AbortController();
 
     const loadHeadlines = async () => {
       try {
-        const headlines = await fetchMarketHeadlines();
+        const headlines = await fetchMarketHeadlines(undefined, headlinesController.signal);
         if (isMounted) {
           setMarketHeadlines(headlines);
         }
+      } catch (e) {
+        if (!isCancellation(e)) console.error('Failed to load headlines', e);
       } finally {
         if (isMounted) {
           setIsLoadingHeadlines(false);
@@ -54,7 +100,8 @@ const App: React.FC = () => {
     const saved = localStorage.getItem('climateshift-portfolio');
     if (saved) {
       try {
-        setPortfolio(JSON.parse(saved));
+        // Recompute metrics so portfolios saved before they were computed get labelled too
+        setPortfolio(applyCalculatedMetrics(JSON.parse(saved)));
       } catch (e) {
         console.error('Failed to load saved portfolio', e);
       }
@@ -62,21 +109,57 @@ const App: React.FC = () => {
 
     return () => {
       isMounted = false;
+      headlinesController.abort();
+      operationControllerRef.current?.abort();
+      analysisControllerRef.current?.abort();
     };
   }, []);
 
+  useEffect(() => {
+    if (crossVerify !== null) return;
+    const controller = new AbortController();
+    health(controller.signal)
+      .then(status => setCrossVerify(current => current ?? status.verification))
+      .catch(e => {
+        if (!isCancellation(e)) console.warn('Proxy server unavailable', e);
+      });
+    return () => controller.abort();
+  }, [crossVerify]);
+
+  const handleToggleCrossVerify = (enabled: boolean) => {
+    setCrossVerify(enabled);
+    localStorage.setItem('climateshift-cross-verify', String(enabled));
+  };
+
+  useEffect(() => {
+    localStorage.setItem('climateshift-news-scope', newsScope);
+  }, [newsScope]);
+
+  // Market news is tagged against the holdings too, so either scope can be filtered by ticker
+  const displayedHeadlines = useMemo(() => {
+    if (!portfolio) return marketHeadlines;
+    const source = newsScope === 'portfolio' ? portfolio.headlines || [] : marketHeadlines;
+    return tagHeadlines(source, portfolio.positions);
+  }, [portfolio, marketHeadlines, newsScope]);
+
   // Initial Construction
   const handleConstruct = async () => {
+    const controller = startOperation(operationControllerRef);
     setIsGenerating(true);
     setLoadingStatus("Initializing Engine...");
+    setProgressEvents([]);
     setError(null);
     try {
-      const result = await generateETFPortfolio(undefined, (status) => setLoadingStatus(status));
+      const result = await generateETFPortfolio(undefined, handleProgress, controller.signal, { verify: !!crossVerify });
       setPortfolio(result);
+      sentimentHistory.record(result.positions);
       localStorage.setItem('climateshift-portfolio', JSON.stringify(result));
     } catch (err: any) {
-      setError(err.message || 'Failed to generate portfolio. Please check your API key.');
+      if (!isCancellation(err)) {
+        setError(err.message || 'Failed to generate portfolio. Please check your API key.');
+      }
     } finally {
+      finishOperation(operationControllerRef, controller);
       setIsGenerating(false);
       setLoadingStatus("");
     }
@@ -89,17 +172,23 @@ const App: React.FC = () => {
 
   const handleConfirmRebalance = async (preferences: string) => {
     setIsRebalanceModalOpen(false);
+    const controller = startOperation(operationControllerRef);
     setIsGenerating(true);
     setLoadingStatus("Processing Rebalance Request...");
+    setProgressEvents([]);
     setError(null);
     try {
-      // Pass user preferences to the service
-      const result = await generateETFPortfolio(preferences, (status) => setLoadingStatus(status));
+      // Pass user preferences to the service; the current portfolio stays in place until this succeeds
+      const result = await generateETFPortfolio(preferences, handleProgress, controller.signal, { verify: !!crossVerify });
       setPortfolio(result);
+      sentimentHistory.record(result.positions);
       localStorage.setItem('climateshift-portfolio', JSON.stringify(result));
     } catch (err: any) {
-      setError(err.message || 'Failed to rebalance portfolio. Please check your API key.');
+      if (!isCancellation(err)) {
+        setError(err.message || 'Failed to rebalance portfolio. Please check your API key.');
+      }
     } finally {
+      finishOperation(operationControllerRef, controller);
       setIsGenerating(false);
       setLoadingStatus("");
     }
@@ -108,34 +197,48 @@ const App: React.FC = () => {
   // Data Refresh
   const handleRefresh = async () => {
     if (!portfolio) return;
+    const controller = startOperation(operationControllerRef);
     setIsRefreshing(true);
     setLoadingStatus("Connecting to markets...");
+    setProgressEvents([]);
     setError(null);
     try {
       // Pass the progress callback to show users what we are fixing
-      const updatedPortfolio = await refreshPortfolioPrices(portfolio, (status) => setLoadingStatus(status));
-      setPortfolio({ ...updatedPortfolio }); // Force react re-render
+      const updatedPortfolio = await refreshPortfolioPrices(portfolio, handleProgress, { signal: controller.signal, verify: !!crossVerify });
+      setPortfolio(updatedPortfolio);
       localStorage.setItem('climateshift-portfolio', JSON.stringify(updatedPortfolio));
     } catch (err: any) {
-      console.error(err);
-      setError('Failed to refresh prices. Please try again.');
+      if (!isCancellation(err)) {
+        console.error(err);
+        setError(err instanceof BudgetExceededError ? err.message : 'Failed to refresh prices. Please try again.');
+      }
     } finally {
+      finishOperation(operationControllerRef, controller);
       setIsRefreshing(false);
       setLoadingStatus("");
     }
   };
 
+  const handleCancelOperation = () => {
+    operationControllerRef.current?.abort();
+  };
+
   const handleRefreshNews = async () => {
     setIsRefreshingNews(true);
     setError(null);
     try {
-      const freshHeadlines = await fetchMarketHeadlines();
-      if (portfolio) {
-        const updatedPortfolio = { ...portfolio, headlines: freshHeadlines };
+      if (portfolio && newsScope === 'portfolio') {
+        const freshHeadlines = await fetchPortfolioHeadlines(portfolio.positions);
+        const updatedPortfolio = {
+          ...portfolio,
+          headlines: freshHeadlines,
+          positions: attachHeadlines(portfolio.positions, freshHeadlines),
+        };
         setPortfolio(updatedPortfolio);
         localStorage.setItem('climateshift-portfolio', JSON.stringify(updatedPortfolio));
+        sentimentHistory.record(updatedPortfolio.positions);
       } else {
-        setMarketHeadlines(freshHeadlines);
+        setMarketHeadlines(await fetchMarketHeadlines());
       }
     } catch (e) {
       console.error("Failed to refresh news", e);
@@ -145,35 +248,51 @@ const App: React.FC = () => {
     }
   };
 
+  // Narrows the news ticker to one holding's portfolio news
+  const handleFilterNews = (ticker: string) => {
+    setNewsScope('portfolio');
+    setNewsTickerFilter(ticker);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const handleClearPortfolio = () => {
     localStorage.removeItem('climateshift-portfolio');
     setPortfolio(null);
+    setNewsTickerFilter(null);
   };
 
   // Stock Detail Logic
   const handleSelectStock = async (stock: StockPosition) => {
+    const controller = startOperation(analysisControllerRef);
     setSelectedStock(stock);
     setStockAnalysis(null);
     setIsAnalyzing(true);
     
     try {
-      const result = await analyzeStock(stock.ticker);
+      const result = await analyzeStock(stock.ticker, controller.signal);
       setStockAnalysis(result);
     } catch (err) {
-      console.error("Failed to analyze stock", err);
+      if (!isCancellation(err)) console.error("Failed to analyze stock", err);
     } finally {
-      setIsAnalyzing(false);
+      // A newer selection owns the loading state once this one was superseded
+      if (analysisControllerRef.current === controller) setIsAnalyzing(false);
+      finishOperation(analysisControllerRef, controller);
     }
   };
 
   const handleCloseModal = () => {
+    analysisControllerRef.current?.abort();
+    setIsAnalyzing(false);
     setSelectedStock(null);
     setStockAnalysis(null);
   };
 
   return (
     <div className="min-h-screen bg-fin-bg text-fin-text font-sans pb-12">
-      <Header />
+      <Header
+        onOpenSettings={() => setIsModelSettingsOpen(true)}
+        onOpenUsage={() => setIsUsagePanelOpen(true)}
+      />
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Top Section: Controls and Chart/Intro */}
@@ -186,9 +305,13 @@ const App: React.FC = () => {
               onRequestRebalance={handleRebalanceRequest}
               onRefresh={handleRefresh}
               onClear={handleClearPortfolio}
+              onCancel={handleCancelOperation}
               isGenerating={isGenerating}
               loadingStatus={loadingStatus}
+              progressEvents={progressEvents}
               isRefreshing={isRefreshing}
+              crossVerify={!!crossVerify}
+              onToggleCrossVerify={handleToggleCrossVerify}
               hasPortfolio={!!portfolio}
             />
             {error && (
@@ -202,12 +325,22 @@ const App: React.FC = () => {
           <div className="lg:col-span-8 flex flex-col gap-6">
             
             {/* 1. News Ticker - Visually placed between Control Panel (Left) and Results (Below) in the grid flow */}
-            <NewsTicker 
-              headlines={portfolio?.headlines || marketHeadlines} 
-              onRefresh={handleRefreshNews}
-              isRefreshing={isRefreshingNews}
-              isLoading={isLoadingHeadlines && !portfolio}
-            />
+            <div className="flex items-stretch gap-3">
+              <div className="flex-1 min-w-0">
+                <NewsTicker 
+                  headlines={displayedHeadlines} 
+                  onRefresh={handleRefreshNews}
+                  isRefreshing={isRefreshingNews}
+                  isLoading={isLoadingHeadlines && !(portfolio && newsScope === 'portfolio')}
+                  scope={portfolio ? newsScope : undefined}
+                  onScopeChange={setNewsScope}
+                  holdings={portfolio?.positions}
+                  tickerFilter={newsTickerFilter}
+                  onTickerFilterChange={setNewsTickerFilter}
+                />
+              </div>
+              <SentimentGauge headlines={displayedHeadlines} positions={portfolio?.positions} />
+            </div>
 
             {/* 2. Main Result Area */}
             <div className="flex-grow">
@@ -236,20 +369,26 @@ const App: React.FC = () => {
         {portfolio && (
           <div className="space-y-8 animate-fade-in-up">
             
-            {/* 1. Historical Backtest */}
+            {/* 1. Risk Analytics */}
+            <ErrorBoundary>
+              <RiskPanel portfolio={portfolio} />
+            </ErrorBoundary>
+
+            {/* 2. Historical Backtest */}
             <ErrorBoundary>
               <PerformanceComparison portfolio={portfolio} />
             </ErrorBoundary>
 
-            {/* 2. Stock Table */}
+            {/* 3. Stock Table */}
             <ErrorBoundary>
               <StockTable 
                 portfolio={portfolio} 
                 onSelectStock={handleSelectStock}
+                onFilterNews={handleFilterNews}
               />
             </ErrorBoundary>
 
-            {/* 3. Strategy & Allocation Breakdown */}
+            {/* 4. Strategy & Allocation Breakdown */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
               <ErrorBoundary>
                 <PortfolioChart portfolio={portfolio} />
@@ -303,6 +442,22 @@ const App: React.FC = () => {
           onConfirm={handleConfirmRebalance}
         />
       </ErrorBoundary>
+
+      {/* Model Settings Modal */}
+      <ErrorBoundary>
+        <ModelSettingsModal
+          isOpen={isModelSettingsOpen}
+          onClose={() => setIsModelSettingsOpen(false)}
+        />
+      </ErrorBoundary>
+
+      {/* Usage Panel */}
+      <ErrorBoundary>
+        <UsagePanel
+          isOpen={isUsagePanelOpen}
+          onClose={() => setIsUsagePanelOpen(false)}
+        />
+      </ErrorBoundary>
     </div>
   );
 };
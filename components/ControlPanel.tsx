@@ -1,15 +1,21 @@
 
-import React, { useMemo } from 'react';
-import { Target, Shield, Zap, RefreshCw, Layers, Lock } from 'lucide-react';
+import React from 'react';
+import { Target, Shield, Zap, RefreshCw, Layers, Lock, XCircle, BadgeCheck } from 'lucide-react';
+import { ProgressEvent } from '../types';
+import { ProgressStepLog } from './ProgressStepLog';
 
 interface ControlPanelProps {
   onGenerate: () => void;
   onRequestRebalance: () => void;
   onRefresh?: () => void;
   onClear?: () => void;
+  onCancel?: () => void; // Aborts an in-flight generation or refresh
   isGenerating: boolean;
   loadingStatus?: string;
+  progressEvents?: ProgressEvent[]; // Structured progress of the current or last run
   isRefreshing?: boolean;
+  crossVerify?: boolean; // Compare fetched values against a second, independent fetch
+  onToggleCrossVerify?: (enabled: boolean) => void;
   hasPortfolio: boolean;
   headlines?: any[]; // Kept for prop compatibility but unused in UI
 }
@@ -19,9 +25,13 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   onRequestRebalance, 
   onRefresh,
   onClear,
+  onCancel,
   isGenerating,
   loadingStatus,
+  progressEvents = [],
   isRefreshing, 
+  crossVerify = false,
+  onToggleCrossVerify,
   hasPortfolio
 }) => {
   
@@ -33,17 +43,19 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     }
   };
 
-  // Determine width based on status string (approximate progress mapping)
-  const progressWidth = useMemo(() => {
-     if (!loadingStatus) return '0%';
-     const lower = loadingStatus.toLowerCase();
-     if (lower.includes("initializing")) return '15%';
-     if (lower.includes("optimiz") || lower.includes("construct")) return '45%';
-     if (lower.includes("fetching") || lower.includes("market") || lower.includes("connecting")) return '70%';
-     if (lower.includes("news") || lower.includes("analyz") || lower.includes("repair")) return '90%';
-     if (lower.includes("finaliz")) return '95%';
-     return '10%';
-  }, [loadingStatus]);
+  const cancelButton = onCancel && (
+    <button
+      onClick={onCancel}
+      className="w-full text-xs text-fin-mute hover:text-fin-danger py-2 mt-1 transition-colors flex items-center justify-center"
+    >
+      <XCircle className="h-3.5 w-3.5 mr-1.5" />
+      Cancel
+    </button>
+  );
+
+  // Completion reported by the service; the bar starts with a sliver until the first event arrives
+  const latestProgress = progressEvents[progressEvents.length - 1];
+  const progressWidth = `${Math.max(5, Math.round((latestProgress?.fraction ?? 0) * 100))}%`;
 
   return (
     <div className="bg-fin-card rounded-lg border border-fin-border p-6 shadow-lg h-full flex flex-col">
@@ -117,6 +129,24 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             {isRefreshing && loadingStatus ? loadingStatus : 'Refresh Real-Time Data'}
           </button>
         )}
+        {isRefreshing && !isGenerating && cancelButton}
+
+        {onToggleCrossVerify && (
+          <label
+            className="flex items-center justify-center gap-2 text-xs text-fin-mute mb-3 cursor-pointer select-none"
+            title="Fetch every price and return twice from independent requests and flag values that disagree"
+          >
+            <input
+              type="checkbox"
+              checked={crossVerify}
+              onChange={(e) => onToggleCrossVerify(e.target.checked)}
+              disabled={isGenerating || isRefreshing}
+              className="accent-emerald-500"
+            />
+            <BadgeCheck className={`h-3.5 w-3.5 ${crossVerify ? 'text-fin-accent' : ''}`} />
+            Cross-verify market data
+          </label>
+        )}
 
         {/* Main Action Area */}
         {isGenerating ? (
@@ -133,6 +163,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <p className="text-center text-xs text-fin-mute italic font-medium animate-pulse">
               {loadingStatus || "Processing..."}
             </p>
+            {cancelButton}
           </div>
         ) : (
           <button
@@ -157,6 +188,8 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             )}
           </button>
         )}
+
+        <ProgressStepLog events={progressEvents} isActive={isGenerating || !!isRefreshing} />
       </div>
     </div>
   );
@@ -1,9 +1,14 @@
 
 import React from 'react';
-import { TrendingUp } from 'lucide-react';
+import { TrendingUp, SlidersHorizontal, Gauge } from 'lucide-react';
 import { Logo } from './Logo';
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  onOpenSettings?: () => void;
+  onOpenUsage?: () => void;
+}
+
+export const Header: React.FC<HeaderProps> = ({ onOpenSettings, onOpenUsage }) => {
   return (
     <header className="bg-fin-card border-b border-fin-border sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -22,6 +27,26 @@ export const Header: React.FC = () => {
             </div>
             <div className="h-4 w-px bg-fin-border"></div>
             <div className="text-xs text-fin-mute">v1.2.0-stable</div>
+            {onOpenUsage && (
+              <button
+                onClick={onOpenUsage}
+                title="Model usage"
+                aria-label="Model usage"
+                className="p-2 hover:bg-fin-border rounded-full text-fin-mute hover:text-white transition-colors"
+              >
+                <Gauge className="h-4 w-4" />
+              </button>
+            )}
+            {onOpenSettings && (
+              <button
+                onClick={onOpenSettings}
+                title="Model settings"
+                aria-label="Model settings"
+                className="p-2 hover:bg-fin-border rounded-full text-fin-mute hover:text-white transition-colors"
+              >
+                <SlidersHorizontal className="h-4 w-4" />
+              </button>
+            )}
           </div>
         </div>
       </div>
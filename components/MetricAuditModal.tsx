@@ -1,17 +1,21 @@
 import React from 'react';
-import { X, FileText, Link as LinkIcon, Calculator, Database, ShieldCheck } from 'lucide-react';
+import { X, FileText, Link as LinkIcon, Calculator, Database, ShieldCheck, Fingerprint } from 'lucide-react';
+import { ProvenanceList, ProvenanceEntry } from './ProvenanceList';
+
+export interface MetricAuditData {
+  label: string;
+  value: string;
+  description: string;
+  equation: string;
+  explanation: string;
+  sources: { name: string; url?: string }[];
+  inputs?: ProvenanceEntry[]; // Fetched values this metric is computed from
+}
 
 interface MetricAuditModalProps {
   isOpen: boolean;
   onClose: () => void;
-  data: {
-    label: string;
-    value: string;
-    description: string;
-    equation: string;
-    explanation: string;
-    sources: { name: string; url?: string }[];
-  } | null;
+  data: MetricAuditData | null;
 }
 
 export const MetricAuditModal: React.FC<MetricAuditModalProps> = ({ isOpen, onClose, data }) => {
@@ -93,7 +97,21 @@ export const MetricAuditModal: React.FC<MetricAuditModalProps> = ({ isOpen, onCl
                 </div>
               ))}
             </div>
-            <p className="mt-4 text-[10px] text-fin-mute italic border-t border-fin-border pt-2 text-center">
+          </div>
+
+          {/* Input provenance */}
+          {data.inputs && (
+            <div>
+              <div className="flex items-center gap-2 text-white font-semibold mb-3 text-lg">
+                <Fingerprint className="w-5 h-5 text-amber-400" />
+                <h3>Input Data Provenance</h3>
+              </div>
+              <ProvenanceList entries={data.inputs} emptyMessage="No holdings have fetched values for this metric yet." />
+            </div>
+          )}
+
+          <div>
+            <p className="text-[10px] text-fin-mute italic border-t border-fin-border pt-2 text-center">
               *All calculations are verified against real-time market data streams. External data availability may vary.
             </p>
           </div>
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { X, SlidersHorizontal } from 'lucide-react';
+import { ModelConfig, ModelTask, TaskModelSettings } from '../types';
+import { MODEL_TASKS, MODEL_TASK_LABELS, SUGGESTED_MODELS, getModelConfig, setModelConfig } from '../services/modelConfig';
+
+interface ModelSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type NumericParameter = 'temperature' | 'seed' | 'maxOutputTokens';
+
+const PARAMETER_FIELDS: { key: NumericParameter; label: string; step: string; placeholder: string }[] = [
+  { key: 'temperature', label: 'Temperature', step: '0.1', placeholder: 'Default (0-2)' },
+  { key: 'seed', label: 'Seed', step: '1', placeholder: 'Random' },
+  { key: 'maxOutputTokens', label: 'Max tokens', step: '1', placeholder: 'Model limit' },
+];
+
+export const ModelSettingsModal: React.FC<ModelSettingsModalProps> = ({ isOpen, onClose }) => {
+  const [draft, setDraft] = useState<ModelConfig>(getModelConfig);
+
+  // Start each edit from the saved settings so cancelled edits are discarded
+  useEffect(() => {
+    if (isOpen) setDraft(getModelConfig());
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (task: ModelTask, changes: Partial<TaskModelSettings>) => {
+    setDraft(prev => ({ ...prev, [task]: { ...prev[task], ...changes } }));
+  };
+
+  const updateParameter = (task: ModelTask, key: NumericParameter, raw: string) => {
+    const value = raw.trim() === '' ? undefined : Number(raw);
+    update(task, { [key]: value });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Out-of-range values are dropped when saved, so the stored config is always usable
+    setModelConfig(draft);
+    onClose();
+  };
+
+  const handleReset = () => {
+    setModelConfig(null);
+    setDraft(getModelConfig());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
+      <div
+        className="bg-fin-card border border-fin-border rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col animate-scale-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-6 border-b border-fin-border bg-fin-bg/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-fin-accent/10 rounded-full text-fin-accent">
+              <SlidersHorizontal className="w-5 h-5" />
+            </div>
+            <h2 className="text-xl font-bold text-white">Model Settings</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-fin-border rounded-full text-fin-mute hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <datalist id="model-suggestions">
+            {SUGGESTED_MODELS.map(model => <option key={model} value={model} />)}
+          </datalist>
+
+          {MODEL_TASKS.map(task => (
+            <div key={task} className="bg-fin-bg border border-fin-border rounded-md p-4">
+              <div className="flex items-center justify-between gap-4 mb-3">
+                <span className="text-sm font-semibold text-fin-text">{MODEL_TASK_LABELS[task]}</span>
+                <input
+                  list="model-suggestions"
+                  value={draft[task].model}
+                  onChange={(e) => update(task, { model: e.target.value })}
+                  aria-label={`${MODEL_TASK_LABELS[task]} model`}
+                  className="w-56 bg-fin-card border border-fin-border rounded-md px-2 py-1 text-sm text-fin-text font-mono focus:ring-2 focus:ring-fin-accent outline-none"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                {PARAMETER_FIELDS.map(field => (
+                  <label key={field.key} className="text-xs text-fin-mute">
+                    {field.label}
+                    <input
+                      type="number"
+                      step={field.step}
+                      min={0}
+                      value={draft[task][field.key] ?? ''}
+                      placeholder={field.placeholder}
+                      onChange={(e) => updateParameter(task, field.key, e.target.value)}
+                      className="mt-1 w-full bg-fin-card border border-fin-border rounded-md px-2 py-1 text-sm text-fin-text font-mono focus:ring-2 focus:ring-fin-accent outline-none placeholder-fin-mute/50"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex justify-between gap-3 pt-2">
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-4 py-2 text-sm font-medium text-fin-mute hover:text-white transition-colors"
+            >
+              Reset to Defaults
+            </button>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-fin-mute hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-md text-sm font-bold text-white bg-fin-accent/80 hover:bg-fin-accent transition-all"
+              >
+                Save Settings
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,32 @@
 
 import React from 'react';
-import { Globe, ExternalLink } from 'lucide-react';
-import { NewsHeadline } from '../types';
+import { Globe, ExternalLink, Search } from 'lucide-react';
+import { NewsHeadline, NewsScope, StockPosition } from '../types';
+import { headlinesForTicker } from '../utils/newsTagging';
+import { SENTIMENT_STYLES, formatSentimentScore } from './SentimentGauge';
 
 interface NewsTickerProps {
   headlines: NewsHeadline[];
   onRefresh?: () => void;
   isRefreshing?: boolean;
   isLoading?: boolean;
+  // Scope and holding controls are shown only when a portfolio exists
+  scope?: NewsScope;
+  onScopeChange?: (scope: NewsScope) => void;
+  holdings?: StockPosition[];
+  tickerFilter?: string | null;
+  onTickerFilterChange?: (ticker: string | null) => void;
 }
 
-export const NewsTicker: React.FC<NewsTickerProps> = ({ headlines, onRefresh, isRefreshing, isLoading }) => {
+export const NewsTicker: React.FC<NewsTickerProps> = ({
+  headlines, onRefresh, isRefreshing, isLoading, scope, onScopeChange, holdings, tickerFilter, onTickerFilterChange
+}) => {
   // Use headlines if available, but component structure renders even if empty to show the container
-  const items = headlines || [];
+  const all = headlines || [];
+  const items = tickerFilter ? headlinesForTicker(all, tickerFilter) : all;
+  const hasControls = !!scope && !!onScopeChange;
   
-  if (items.length === 0) {
+  if (items.length === 0 && !hasControls) {
     if (isLoading) {
       return (
         <div className="bg-fin-card border border-fin-border rounded-lg overflow-hidden relative h-12 flex items-center shadow-lg animate-pulse">
@@ -39,13 +51,20 @@ export const NewsTicker: React.FC<NewsTickerProps> = ({ headlines, onRefresh, is
         onClick={onRefresh}
         disabled={isRefreshing}
         className="absolute left-0 top-0 bottom-0 z-20 px-3 bg-fin-card border-r border-fin-border hover:bg-fin-border transition-colors flex items-center justify-center cursor-pointer disabled:cursor-not-allowed"
-        title="Refresh Market News"
+        title={scope === 'portfolio' ? 'Refresh Portfolio News' : 'Refresh Market News'}
       >
         <Globe className={`w-4 h-4 text-fin-accent ${isRefreshing ? 'animate-spin' : ''}`} />
       </button>
 
       {/* Scroller Container */}
-      <div className="flex-1 overflow-hidden relative h-full ml-10">
+      <div className={`flex-1 overflow-hidden relative h-full ml-10 ${hasControls ? 'mr-44 sm:mr-56' : ''}`}>
+         {items.length === 0 ? (
+           <div className="h-full flex items-center px-4 text-xs text-fin-mute italic">
+             {isLoading
+               ? 'Loading headlines...'
+               : `No ${scope === 'portfolio' ? 'portfolio' : 'market'} headlines${tickerFilter ? ` mention ${tickerFilter}` : ' yet'}`}
+           </div>
+         ) : (
          <div className="flex w-max animate-infinite-scroll hover:[animation-play-state:paused]">
             {/* First Copy */}
             <div className="flex items-center gap-8 px-4">
@@ -60,10 +79,46 @@ export const NewsTicker: React.FC<NewsTickerProps> = ({ headlines, onRefresh, is
                ))}
             </div>
          </div>
+         )}
       </div>
       
       {/* Right Fade Overlay */}
-      <div className="absolute right-0 top-0 bottom-0 w-16 bg-gradient-to-l from-fin-card to-transparent z-10 pointer-events-none"></div>
+      <div className={`absolute top-0 bottom-0 w-16 bg-gradient-to-l from-fin-card to-transparent z-10 pointer-events-none ${hasControls ? 'right-44 sm:right-56' : 'right-0'}`}></div>
+
+      {/* Scope & Holding Filter */}
+      {hasControls && (
+        <div className="absolute right-0 top-0 bottom-0 z-20 w-44 sm:w-56 px-2 bg-fin-card border-l border-fin-border flex items-center gap-2">
+          <div className="flex bg-fin-bg rounded border border-fin-border p-0.5 shrink-0">
+            {(['market', 'portfolio'] as NewsScope[]).map(option => (
+              <button
+                key={option}
+                onClick={() => onScopeChange!(option)}
+                className={`px-1.5 py-0.5 text-[10px] uppercase tracking-wider rounded transition-colors ${
+                  scope === option ? 'bg-fin-border text-white' : 'text-fin-mute hover:text-fin-text'
+                }`}
+                title={option === 'portfolio' ? 'News about your holdings and sectors' : 'Market-wide news'}
+              >
+                {option === 'portfolio' ? 'Holdings' : 'Market'}
+              </button>
+            ))}
+          </div>
+          {holdings && holdings.length > 0 && onTickerFilterChange && (
+            <select
+              value={tickerFilter || ''}
+              onChange={(e) => onTickerFilterChange(e.target.value || null)}
+              className="min-w-0 flex-1 bg-fin-bg border border-fin-border rounded text-[10px] font-mono text-fin-text py-0.5 focus:outline-none focus:border-fin-accent"
+              title="Show only headlines that mention one holding"
+            >
+              <option value="">All</option>
+              {holdings.map(position => (
+                <option key={position.ticker} value={position.ticker}>
+                  {position.ticker} ({headlinesForTicker(all, position.ticker).length})
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -75,14 +130,30 @@ const NewsItem: React.FC<{ item: NewsHeadline }> = ({ item }) => (
       target="_blank" 
       rel="noopener noreferrer"
       className="flex items-center gap-2 transition-opacity"
+      title={item.verified === false ? 'No cited article matched this headline; the link searches the outlet for it' : undefined}
     >
-      <span className="text-xs font-mono font-bold text-white group-hover/item:text-fin-accent transition-colors whitespace-nowrap">
+      {item.sentiment && (
+        <span
+          className={`w-1.5 h-1.5 rounded-full shrink-0 ${SENTIMENT_STYLES[item.sentiment.label].bar}`}
+          title={`Sentiment ${formatSentimentScore(item.sentiment.score)} (${item.sentiment.label})${item.relevance !== undefined ? `, relevance ${item.relevance.toFixed(2)}` : ''}`}
+        />
+      )}
+      <span className={`text-xs font-mono font-bold group-hover/item:text-fin-accent transition-colors whitespace-nowrap ${item.verified === false ? 'text-fin-mute italic' : 'text-white'}`}>
         {item.title}
       </span>
       <span className="text-[10px] text-fin-mute uppercase tracking-wider bg-fin-bg px-1.5 py-0.5 rounded border border-fin-border group-hover/item:border-fin-accent/50 whitespace-nowrap">
         {item.source}
       </span>
-      <ExternalLink className="w-3 h-3 text-fin-mute opacity-0 group-hover/item:opacity-100 transition-opacity" />
+      {item.tickers?.map(ticker => (
+        <span key={ticker} className="text-[10px] font-mono font-bold text-fin-accent bg-fin-accent/10 px-1 py-0.5 rounded whitespace-nowrap">
+          {ticker}
+        </span>
+      ))}
+      {item.verified === false ? (
+        <Search className="w-3 h-3 text-fin-mute opacity-0 group-hover/item:opacity-100 transition-opacity" />
+      ) : (
+        <ExternalLink className="w-3 h-3 text-fin-mute opacity-0 group-hover/item:opacity-100 transition-opacity" />
+      )}
     </a>
   </div>
 );
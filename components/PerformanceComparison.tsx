@@ -1,17 +1,31 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { GeneratedPortfolio } from '../types';
-import { TrendingUp, AlertCircle, AlertTriangle } from 'lucide-react';
-import { calculateWeightedReturn, generateBacktestData } from '../utils/calculations';
+import { TrendingUp, AlertCircle, AlertTriangle, AlertOctagon } from 'lucide-react';
+import { calculateWeightedReturn, generateBacktestData, LowConfidencePolicy } from '../utils/calculations';
+import { isLowConfidence } from '../utils/crossVerification';
 
 interface PerformanceComparisonProps {
   portfolio: GeneratedPortfolio;
 }
 
+const RETURN_FIELDS = ['oneYearChangePercent', 'threeYearChangePercent', 'fiveYearChangePercent'] as const;
+
+const POLICY_OPTIONS: { value: LowConfidencePolicy; label: string }[] = [
+  { value: 'include', label: 'Include' },
+  { value: 'downweight', label: 'Down-weight' },
+  { value: 'exclude', label: 'Exclude' },
+];
+
 export const PerformanceComparison: React.FC<PerformanceComparisonProps> = ({ portfolio }) => {
   const { benchmark5YearReturn } = portfolio.metrics;
+  const [lowConfidence, setLowConfidence] = useState<LowConfidencePolicy>('include');
+
+  // Returns flagged by cross-verification; the policy selector only appears when there are any
+  const lowConfidenceCount = portfolio.positions.reduce(
+    (sum, pos) => sum + RETURN_FIELDS.filter(field => isLowConfidence(pos, field)).length, 0);
 
-  const fund5Y = calculateWeightedReturn(portfolio, 'fiveYearChangePercent');
+  const fund5Y = calculateWeightedReturn(portfolio, 'fiveYearChangePercent', { lowConfidence });
 
   // Check if we have enough data (Must have at least 5Y and 1Y for a decent chart)
   const hasEnoughData = typeof fund5Y === 'number' && typeof benchmark5YearReturn === 'number';
@@ -19,7 +33,7 @@ export const PerformanceComparison: React.FC<PerformanceComparisonProps> = ({ po
   // Calculate Alpha (5 Year Total)
   const alpha = hasEnoughData ? (fund5Y! - benchmark5YearReturn!) : 0;
 
-  const data = useMemo(() => generateBacktestData(portfolio), [portfolio]);
+  const data = useMemo(() => generateBacktestData(portfolio, new Date(), { lowConfidence }), [portfolio, lowConfidence]);
 
   return (
     <div className="bg-fin-card rounded-lg border border-fin-border p-6 shadow-lg">
@@ -62,6 +76,28 @@ export const PerformanceComparison: React.FC<PerformanceComparisonProps> = ({ po
         )}
       </div>
 
+      {lowConfidenceCount > 0 && (
+        <div className="mb-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-amber-500/5 border border-amber-500/30 p-3 rounded text-xs text-fin-mute">
+          <span className="flex items-center gap-2">
+            <AlertOctagon className="w-4 h-4 shrink-0 text-amber-500" />
+            {lowConfidenceCount} return value{lowConfidenceCount === 1 ? '' : 's'} disagreed across sources (low confidence).
+          </span>
+          <div className="flex rounded border border-fin-border overflow-hidden shrink-0">
+            {POLICY_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setLowConfidence(option.value)}
+                className={`px-3 py-1 transition-colors ${
+                  lowConfidence === option.value ? 'bg-amber-500/20 text-amber-500 font-semibold' : 'hover:bg-fin-border/50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="h-[350px] w-full flex items-center justify-center bg-fin-bg/20 rounded-lg">
         {hasEnoughData ? (
           <ResponsiveContainer width="100%" height="100%">
@@ -122,6 +158,15 @@ export const PerformanceComparison: React.FC<PerformanceComparisonProps> = ({ po
         )}
       </div>
       
+      {portfolio.metrics.benchmarkRejections && portfolio.metrics.benchmarkRejections.length > 0 && (
+        <div className="mt-4 flex items-start gap-2 bg-amber-500/5 border border-amber-500/30 p-3 rounded text-xs text-fin-mute">
+           <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5 text-amber-500" />
+           <p>
+             Benchmark data rejected by validation: {portfolio.metrics.benchmarkRejections.map(r => r.reason).join('; ')}
+           </p>
+        </div>
+      )}
+
       {hasEnoughData && (
         <div className="mt-4 flex items-start gap-2 bg-fin-bg/30 p-3 rounded text-xs text-fin-mute">
            <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, CheckCircle2, Loader2, AlertTriangle } from 'lucide-react';
+import { ProgressEvent } from '../types';
+import { STAGE_LABELS, summarizeProgress } from '../utils/progress';
+import { formatElapsed } from '../utils/formatting';
+
+interface ProgressStepLogProps {
+  events: ProgressEvent[];
+  isActive: boolean; // False once the operation finished, failed or was cancelled
+}
+
+const TickerList: React.FC<{ label: string; tickers: string[]; className: string }> = ({ label, tickers, className }) => (
+  <div className="text-[10px] mt-0.5">
+    <span className="text-fin-mute">{label}: </span>
+    <span className={`font-mono ${className}`}>{tickers.join(', ')}</span>
+  </div>
+);
+
+/**
+ * Collapsible per-stage log of a construct/rebalance/refresh run, listing pending and failed tickers.
+ */
+export const ProgressStepLog: React.FC<ProgressStepLogProps> = ({ events, isActive }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const stages = useMemo(() => summarizeProgress(events), [events]);
+  const latest = events[events.length - 1];
+
+  if (!latest) return null;
+
+  const failedCount = new Set(stages.flatMap(s => s.latest.failedTickers || [])).size;
+
+  return (
+    <div className="w-full mt-2 text-xs">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-fin-mute hover:text-fin-text transition-colors py-1"
+      >
+        <span className="flex items-center">
+          {isExpanded ? <ChevronDown className="h-3.5 w-3.5 mr-1" /> : <ChevronRight className="h-3.5 w-3.5 mr-1" />}
+          {isActive ? `Step ${latest.stageIndex + 1} of ${latest.stageCount}` : 'Last run'}
+          {failedCount > 0 && (
+            <span className="ml-2 text-amber-500 flex items-center">
+              <AlertTriangle className="h-3 w-3 mr-0.5" /> {failedCount} failed
+            </span>
+          )}
+        </span>
+        <span className="font-mono">
+          {Math.round(latest.fraction * 100)}% · {formatElapsed(latest.elapsedMs)}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <ul className="mt-1 space-y-1.5 bg-fin-bg/50 border border-fin-border rounded-md p-2 max-h-56 overflow-y-auto">
+          {stages.map(({ stage, status, latest: event }) => {
+            const stillActive = status === 'active' && isActive;
+            return (
+              <li key={stage} className="flex items-start">
+                {event.failedTickers?.length ? (
+                  <AlertTriangle className="h-3.5 w-3.5 mr-1.5 mt-0.5 shrink-0 text-amber-500" />
+                ) : stillActive ? (
+                  <Loader2 className="h-3.5 w-3.5 mr-1.5 mt-0.5 shrink-0 text-fin-accent animate-spin" />
+                ) : (
+                  <CheckCircle2 className="h-3.5 w-3.5 mr-1.5 mt-0.5 shrink-0 text-fin-accent" />
+                )}
+                <div className="min-w-0 flex-grow">
+                  <div className="flex justify-between">
+                    <span className="text-fin-text font-medium">{STAGE_LABELS[stage]}</span>
+                    <span className="text-fin-mute font-mono">
+                      {event.batch && `${event.batch.completed}/${event.batch.total} · `}
+                      {formatElapsed(event.elapsedMs)}
+                    </span>
+                  </div>
+                  <div className="text-[10px] text-fin-mute truncate" title={event.message}>{event.message}</div>
+                  {stillActive && event.pendingTickers && event.pendingTickers.length > 0 && (
+                    <TickerList label="Pending" tickers={event.pendingTickers} className="text-fin-text" />
+                  )}
+                  {event.failedTickers && event.failedTickers.length > 0 && (
+                    <TickerList label="Failed" tickers={event.failedTickers} className="text-fin-danger" />
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { ExternalLink, Database } from 'lucide-react';
+import { FieldProvenance, ReturnHistory } from '../types';
+import { describeSource } from '../utils/provenance';
+import { formatDataAge } from '../utils/formatting';
+
+export interface ProvenanceEntry {
+  label: string;     // e.g. "NEE · 5Y return"
+  value?: string;    // Formatted value the provenance belongs to
+  provenance?: FieldProvenance;
+}
+
+/**
+ * Entry for a monthly return series: the months it covers and where it was fetched.
+ */
+export const returnHistoryEntry = (label: string, { returns, provenance }: ReturnHistory): ProvenanceEntry => ({
+  label: `${label} · Monthly returns`,
+  value: returns.length > 0 ? `${returns.length} months, ${returns[0].month} to ${returns[returns.length - 1].month}` : undefined,
+  provenance,
+});
+
+interface ProvenanceListProps {
+  entries: ProvenanceEntry[];
+  emptyMessage?: string;
+}
+
+/**
+ * One row per fetched value: provider, pass, fetch time and the cited sources to verify it against.
+ */
+export const ProvenanceList: React.FC<ProvenanceListProps> = ({ entries, emptyMessage = 'No fetched values to trace yet.' }) => {
+  if (entries.length === 0) {
+    return <p className="text-xs text-fin-mute italic">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {entries.map((entry, idx) => {
+        const { provenance } = entry;
+        return (
+          <li key={idx} className="p-3 bg-fin-bg rounded border border-fin-border text-xs">
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-fin-text font-medium truncate">{entry.label}</span>
+              <span className="font-mono text-white shrink-0">{entry.value ?? '---'}</span>
+            </div>
+            {provenance ? (
+              <>
+                <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5 mt-1 text-[10px] text-fin-mute">
+                  <span className="flex items-center"><Database className="w-3 h-3 mr-1" />{provenance.provider}</span>
+                  <span>· {provenance.pass === 'repair' ? 'Repair pass' : 'First pass'}</span>
+                  <span>· fetched {formatDataAge(provenance.fetchedAt)} ({new Date(provenance.fetchedAt).toLocaleString()})</span>
+                  {provenance.fromCache && <span className="text-blue-400">· from cache</span>}
+                </div>
+                {provenance.sources.length > 0 ? (
+                  <div className="flex flex-wrap gap-1.5 mt-2">
+                    {provenance.sources.map(source => (
+                      <a
+                        key={source.uri}
+                        href={source.uri}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center px-2 py-0.5 rounded bg-fin-card border border-fin-border hover:border-fin-accent/50 text-fin-mute hover:text-fin-text transition-colors max-w-[220px]"
+                      >
+                        <ExternalLink className="w-3 h-3 mr-1 shrink-0" />
+                        <span className="truncate">{describeSource(source)}</span>
+                      </a>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="mt-1 text-[10px] text-fin-mute/60 italic">No citations returned by the provider</div>
+                )}
+              </>
+            ) : (
+              <div className="mt-1 text-[10px] text-fin-mute/60 italic">Provenance unknown (fetched before tracking or model estimate)</div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -1,6 +1,10 @@
 
-import React, { useState } from 'react';
-import { X, AlertTriangle, Layers } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { X, AlertTriangle, Layers, ShieldAlert } from 'lucide-react';
+import { DEFAULT_EXCLUSION_RULES } from '../utils/exclusionPolicy';
+import { guardUserText, PREFERENCES_GUARD } from '../utils/promptGuard';
+
+const POLICY_SUMMARY = DEFAULT_EXCLUSION_RULES.policies.map(policy => policy.label).join(', ');
 
 interface RebalanceModalProps {
   isOpen: boolean;
@@ -10,11 +14,16 @@ interface RebalanceModalProps {
 
 export const RebalanceModal: React.FC<RebalanceModalProps> = ({ isOpen, onClose, onConfirm }) => {
   const [preferences, setPreferences] = useState('');
+  // The same guard runs again in the service; this just explains the verdict before submitting
+  const guard = useMemo(() => guardUserText(preferences, PREFERENCES_GUARD), [preferences]);
+  // Empty text is allowed: it rebalances without extra preferences
+  const isBlocked = preferences.trim().length > 0 && guard.classification === 'blocked';
 
   if (!isOpen) return null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (isBlocked) return;
     onConfirm(preferences);
   };
 
@@ -49,13 +58,32 @@ export const RebalanceModal: React.FC<RebalanceModalProps> = ({ isOpen, onClose,
                 className="w-full h-32 bg-fin-bg border border-fin-border rounded-md p-3 text-fin-text text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none placeholder-fin-mute/50"
                 autoFocus
              />
+             <div className="flex justify-between mt-1 text-xs text-fin-mute">
+               <span>Your text is passed to the model as quoted data, never as instructions.</span>
+               <span className={preferences.length > PREFERENCES_GUARD.maxLength ? 'text-fin-danger' : ''}>
+                 {preferences.length}/{PREFERENCES_GUARD.maxLength}
+               </span>
+             </div>
+             {preferences.trim().length > 0 && guard.findings.length > 0 && (
+               <div className={`mt-3 rounded-md border p-3 text-xs ${isBlocked ? 'border-fin-danger/40 bg-fin-danger/10 text-fin-danger' : 'border-amber-500/40 bg-amber-500/10 text-amber-500'}`}>
+                 <div className="flex items-center gap-2 font-semibold mb-1">
+                   <ShieldAlert className="w-4 h-4" />
+                   {isBlocked ? 'This request will be rejected' : 'This request will be sent with caution'}
+                 </div>
+                 <ul className="list-disc list-inside space-y-0.5">
+                   {guard.findings.map(finding => (
+                     <li key={`${finding.layer}-${finding.rule}`}>{finding.message}</li>
+                   ))}
+                 </ul>
+               </div>
+             )}
           </div>
 
           <div className="bg-fin-bg border border-fin-border rounded-md p-4 mb-6 flex items-start gap-3">
              <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0 mt-0.5" />
              <div className="text-xs text-fin-mute">
                 <span className="text-fin-text font-semibold block mb-1">Safety Protocols Active</span>
-                Requests to include excluded sectors (Fossil Fuels, Weapons, Tobacco, AI-Obsolete) or speculative assets (Pre-revenue) will be strictly rejected by the quantitative engine.
+                Every rebalanced position is checked against the exclusion policy ({POLICY_SUMMARY}) and a {DEFAULT_EXCLUSION_RULES.minListingYears}-year minimum listing history. Violating holdings are removed or replaced, and each removal is listed with the rule that fired.
              </div>
           </div>
 
@@ -69,7 +97,8 @@ export const RebalanceModal: React.FC<RebalanceModalProps> = ({ isOpen, onClose,
             </button>
             <button
               type="submit"
-              className="px-4 py-2 rounded-md text-sm font-bold text-white bg-blue-600 hover:bg-blue-500 shadow-lg shadow-blue-900/20 transition-all"
+              disabled={isBlocked}
+              className="px-4 py-2 rounded-md text-sm font-bold text-white bg-blue-600 hover:bg-blue-500 shadow-lg shadow-blue-900/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Execute Rebalance
             </button>
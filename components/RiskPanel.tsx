@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { TrendingDown, ShieldAlert, Activity, Scale, Link2, Crosshair, Gauge, AlertTriangle, Flame, Info } from 'lucide-react';
+import { GeneratedPortfolio } from '../types';
+import { MetricAuditModal, MetricAuditData } from './MetricAuditModal';
+import { ProvenanceEntry, returnHistoryEntry } from './ProvenanceList';
+import { calculateRiskAnalytics, calculateCoverage, RISK_FREE_RATE, RiskAnalytics } from '../utils/calculations';
+import { shiftMonth } from '../utils/riskModel';
+import { tailMonthCount } from '../utils/riskMetrics';
+
+interface RiskPanelProps {
+  portfolio: GeneratedPortfolio;
+}
+
+interface RiskCardProps {
+  label: string;
+  value: string;
+  icon: React.FC<{ className?: string }>;
+  colorClass: string;
+  subtext?: string;
+  onClick: () => void;
+}
+
+const RiskCard: React.FC<RiskCardProps> = ({ label, value, icon: Icon, colorClass, subtext, onClick }) => (
+  <div
+    onClick={onClick}
+    className="bg-fin-bg rounded-lg border border-fin-border p-4 flex flex-col justify-between cursor-pointer hover:bg-fin-border/30 transition-all group relative overflow-hidden min-h-[96px]"
+  >
+    <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+       <Info className="w-3 h-3 text-fin-mute" />
+    </div>
+    <div className="flex justify-between items-start mb-2">
+      <span className="text-fin-mute text-xs uppercase font-semibold tracking-wider group-hover:text-white transition-colors">{label}</span>
+      <Icon className={`w-4 h-4 ${colorClass}`} />
+    </div>
+    <div className="text-xl font-mono font-bold text-white mb-1">{value}</div>
+    {subtext && <div className="text-[10px] text-fin-mute opacity-80">{subtext}</div>}
+  </div>
+);
+
+const pct = (value: number, digits = 1) => `${value.toFixed(digits)}%`;
+const ratio = (value: number | null) => (value === null ? 'N/A' : value.toFixed(2));
+
+const MPT_SOURCE = { name: 'Modern Portfolio Theory (Markowitz)', url: 'https://www.investopedia.com/terms/m/modernportfoliotheory.asp' };
+
+/**
+ * Audit entries for every metric, with the computed values and the series they came from.
+ */
+const buildAuditData = (portfolio: GeneratedPortfolio, risk: RiskAnalytics): Record<string, MetricAuditData> => {
+  const { holdings, returns, drawdown, historical, parametric, benchmark, confidence } = risk;
+  const months = holdings.months;
+  const window = `${months.length} months, ${months[0]} to ${months[months.length - 1]}`;
+  // Index k of the wealth path is the end of month k; 0 is the end of the month before the window
+  const monthAt = (index: number) => (index === 0 ? shiftMonth(months[0], -1) : months[index - 1]);
+  const level = `${Math.round(confidence * 100)}%`;
+
+  const holdingInputs: ProvenanceEntry[] = holdings.holdings.map(pos => returnHistoryEntry(pos.ticker, pos.returnHistory!));
+  const benchmarkHistory = portfolio.metrics.benchmarkReturnHistory;
+  const benchmarkInputs = benchmarkHistory ? [...holdingInputs, returnHistoryEntry('S&P 500', benchmarkHistory)] : holdingInputs;
+  const weights = holdings.holdings.map((pos, i) => `${pos.ticker} ${(holdings.weights[i] * 100).toFixed(1)}%`).join(', ');
+  const portfolioSeries = `  r_p,t = Σ w_i × r_i,t over ${window}\n  w = ${weights}`;
+
+  const worstMonths = months
+    .map((month, t) => ({ month, value: returns[t] }))
+    .sort((a, b) => a.value - b.value)
+    .slice(0, tailMonthCount(months.length, confidence));
+  const benchmarkWindow = benchmark ? `${benchmark.months.length} months shared with the S&P 500` : 'no S&P 500 series covering 24 shared months';
+
+  return {
+    drawdown: {
+      label: 'Maximum Drawdown',
+      value: pct(drawdown.maxDrawdown),
+      description: 'Worst Peak-to-Trough Loss',
+      equation: `MDD = min_t ( W_t / max_{s≤t} W_s ) - 1\n\nVariables:\n  W_t = Π (1 + r_p,k) for k ≤ t\n${portfolioSeries}\n\nResult:\n  Peak ${monthAt(drawdown.peak)} → Trough ${monthAt(drawdown.trough)}\n  Recovery: ${drawdown.recovery !== null ? `${monthAt(drawdown.recovery)} (${drawdown.recoveryMonths} months after the trough)` : 'not recovered by the end of the window'}`,
+      explanation: 'The largest percentage fall of the compounded value of today\'s weights, held through the monthly return history, from a previous high. Recovery time counts the months from the trough until the value is back at that high. Monthly data misses intra-month lows, so the true drawdown can be deeper.',
+      sources: [{ name: 'Maximum Drawdown (MDD)', url: 'https://www.investopedia.com/terms/m/maximum-drawdown-mdd.asp' }],
+      inputs: holdingInputs,
+    },
+    sortino: {
+      label: 'Sortino Ratio',
+      value: ratio(risk.sortinoRatio),
+      description: 'Return per Unit of Downside Risk',
+      equation: `Sortino = ( CAGR_p - R_f ) / DD\n\nVariables:\n  R_f = US 10-Year Treasury Yield (${RISK_FREE_RATE}%)\n  DD = Downside deviation below R_f / 12 = ${pct(risk.downsideDeviation, 2)}\n${portfolioSeries}`,
+      explanation: 'Like the Sharpe ratio, but only months that fall short of the monthly risk-free rate count as risk. The return is the compound annual growth of the portfolio\'s monthly series.',
+      sources: [{ name: 'Sortino Ratio', url: 'https://www.investopedia.com/terms/s/sortinoratio.asp' }],
+      inputs: holdingInputs,
+    },
+    downside: {
+      label: 'Downside Deviation',
+      value: pct(risk.downsideDeviation),
+      description: 'Annualized Shortfall Volatility',
+      equation: `DD = √ [ 12 × (1/N) × Σ min(r_p,t - T, 0)² ]\n\nVariables:\n  T = R_f / 12 = ${(RISK_FREE_RATE / 12).toFixed(3)}% per month\n  N = ${months.length}\n${portfolioSeries}`,
+      explanation: 'The root mean square of monthly shortfalls below the monthly risk-free rate, annualized. Months above the target count as zero.',
+      sources: [{ name: 'Downside Deviation', url: 'https://www.investopedia.com/terms/d/downside-deviation.asp' }],
+      inputs: holdingInputs,
+    },
+    beta: {
+      label: 'Beta vs S&P 500',
+      value: ratio(benchmark?.beta ?? null),
+      description: 'Market Sensitivity',
+      equation: `β = Cov(r_p, r_m) / Var(r_m)\n\nVariables:\n  r_m = S&P 500 monthly total return (SPY)\n  Window: ${benchmarkWindow}\n${portfolioSeries}`,
+      explanation: 'How much the portfolio has moved, on average, for each 1% move of the S&P 500, estimated from the months both series share.',
+      sources: [{ name: 'Beta', url: 'https://www.investopedia.com/terms/b/beta.asp' }, MPT_SOURCE],
+      inputs: benchmarkInputs,
+    },
+    correlation: {
+      label: 'Correlation to S&P 500',
+      value: ratio(benchmark?.correlation ?? null),
+      description: 'Co-movement with the Market',
+      equation: `ρ = Cov(r_p, r_m) / ( σ_p × σ_m )\n\nVariables:\n  r_m = S&P 500 monthly total return (SPY)\n  Window: ${benchmarkWindow}\n${portfolioSeries}`,
+      explanation: 'Pearson correlation of monthly portfolio and S&P 500 returns: 1 moves in lockstep, 0 is unrelated.',
+      sources: [{ name: 'Correlation', url: 'https://www.investopedia.com/terms/c/correlation.asp' }],
+      inputs: benchmarkInputs,
+    },
+    trackingError: {
+      label: 'Tracking Error',
+      value: benchmark ? pct(benchmark.trackingError) : 'N/A',
+      description: 'Active Risk vs S&P 500',
+      equation: `TE = σ( r_p - r_m ) × √12\n\nVariables:\n  r_m = S&P 500 monthly total return (SPY)\n  Window: ${benchmarkWindow}\n${portfolioSeries}`,
+      explanation: 'The annualized standard deviation of the monthly difference between portfolio and S&P 500 returns: how far the fund strays from its benchmark.',
+      sources: [{ name: 'Tracking Error', url: 'https://www.investopedia.com/terms/t/trackingerror.asp' }],
+      inputs: benchmarkInputs,
+    },
+    informationRatio: {
+      label: 'Information Ratio',
+      value: ratio(benchmark?.informationRatio ?? null),
+      description: 'Active Return per Unit of Active Risk',
+      equation: `IR = ( 12 × mean( r_p - r_m ) ) / TE\n\nVariables:\n  TE = ${benchmark ? pct(benchmark.trackingError, 2) : 'N/A'}\n  Window: ${benchmarkWindow}\n${portfolioSeries}`,
+      explanation: 'The annualized average monthly return above the S&P 500, divided by the tracking error. It shows how consistently the fund has beaten its benchmark.',
+      sources: [{ name: 'Information Ratio', url: 'https://www.investopedia.com/terms/i/informationratio.asp' }],
+      inputs: benchmarkInputs,
+    },
+    valueAtRisk: {
+      label: `Value at Risk (${level}, 1 Month)`,
+      value: pct(historical.valueAtRisk),
+      description: 'Loss Threshold',
+      equation: `Historical: VaR = -q_${(1 - confidence).toFixed(2)}( r_p ) = ${pct(historical.valueAtRisk, 2)}\nParametric: VaR = z_${confidence} × σ - μ = ${pct(parametric.valueAtRisk, 2)}\n\nWorst months:\n  ${worstMonths.map(m => `${m.month} ${pct(m.value, 2)}`).join('\n  ')}\n${portfolioSeries}`,
+      explanation: `The monthly loss the portfolio exceeded in only ${Math.round((1 - confidence) * 100)}% of months. The historical figure is read straight from the worst months of the series; the parametric figure assumes normally distributed returns with the series' mean and standard deviation, which understates fat tails.`,
+      sources: [{ name: 'Value at Risk (VaR)', url: 'https://www.investopedia.com/terms/v/var.asp' }],
+      inputs: holdingInputs,
+    },
+    expectedShortfall: {
+      label: `Conditional VaR (${level}, 1 Month)`,
+      value: pct(historical.expectedShortfall),
+      description: 'Average Tail Loss',
+      equation: `Historical: CVaR = -mean( worst ${worstMonths.length} months ) = ${pct(historical.expectedShortfall, 2)}\nParametric: CVaR = σ × φ(z) / (1 - ${confidence}) - μ = ${pct(parametric.expectedShortfall, 2)}\n${portfolioSeries}`,
+      explanation: 'The average loss in the months beyond the VaR threshold, so it reflects how bad the tail is and not only where it starts.',
+      sources: [{ name: 'Conditional Value at Risk (CVaR)', url: 'https://www.investopedia.com/terms/c/conditional_value_at_risk.asp' }],
+      inputs: holdingInputs,
+    },
+  };
+};
+
+/**
+ * Backward-looking risk statistics for the current weights, computed from the holdings'
+ * monthly return history. Each card opens the audit trail with its inputs.
+ */
+export const RiskPanel: React.FC<RiskPanelProps> = ({ portfolio }) => {
+  const risk = useMemo(() => calculateRiskAnalytics(portfolio), [portfolio]);
+  const audit = useMemo(() => (risk ? buildAuditData(portfolio, risk) : null), [portfolio, risk]);
+  const [selected, setSelected] = useState<MetricAuditData | null>(null);
+
+  if (!risk || !audit) {
+    return (
+      <div className="bg-fin-card rounded-lg border border-fin-border p-6 shadow-lg">
+        <h3 className="text-lg font-semibold text-white mb-2">Risk Analytics</h3>
+        <p className="text-sm text-fin-mute">
+          Needs monthly return history for more than half the portfolio, with at least 24 months in common.
+          Covered so far: {Math.round(calculateCoverage(portfolio, 'returnHistory'))}% of weight. Refresh data to fetch it.
+        </p>
+      </div>
+    );
+  }
+
+  const { drawdown, benchmark, historical, parametric, holdings } = risk;
+  const recovery = drawdown.maxDrawdown === 0
+    ? 'No drawdown in window'
+    : drawdown.recoveryMonths !== null ? `Recovered in ${drawdown.recoveryMonths} mo` : 'Not yet recovered';
+
+  return (
+    <>
+      <div className="bg-fin-card rounded-lg border border-fin-border p-6 shadow-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">Risk Analytics</h3>
+          <span className="text-xs text-fin-mute">
+            {holdings.months.length} months · {Math.round(holdings.coveredWeight)}% of weight
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <RiskCard label="Max Drawdown" value={pct(drawdown.maxDrawdown)} icon={TrendingDown} colorClass="text-fin-danger" subtext={recovery} onClick={() => setSelected(audit.drawdown)} />
+          <RiskCard label="Sortino Ratio" value={ratio(risk.sortinoRatio)} icon={ShieldAlert} colorClass="text-blue-400" subtext="Downside risk-adjusted" onClick={() => setSelected(audit.sortino)} />
+          <RiskCard label="Downside Dev." value={pct(risk.downsideDeviation)} icon={Activity} colorClass="text-amber-400" subtext="Annualized" onClick={() => setSelected(audit.downside)} />
+          <RiskCard label="Beta" value={ratio(benchmark?.beta ?? null)} icon={Scale} colorClass="text-purple-400" subtext="vs S&P 500" onClick={() => setSelected(audit.beta)} />
+          <RiskCard label="Correlation" value={ratio(benchmark?.correlation ?? null)} icon={Link2} colorClass="text-purple-400" subtext="vs S&P 500" onClick={() => setSelected(audit.correlation)} />
+          <RiskCard label="Tracking Error" value={benchmark ? pct(benchmark.trackingError) : 'N/A'} icon={Crosshair} colorClass="text-fin-accent" subtext="Annualized" onClick={() => setSelected(audit.trackingError)} />
+          <RiskCard label="Info. Ratio" value={ratio(benchmark?.informationRatio ?? null)} icon={Gauge} colorClass="text-fin-accent" subtext="Active return / TE" onClick={() => setSelected(audit.informationRatio)} />
+          <RiskCard label="VaR 95% (1M)" value={pct(historical.valueAtRisk)} icon={AlertTriangle} colorClass="text-fin-danger" subtext={`Parametric ${pct(parametric.valueAtRisk)}`} onClick={() => setSelected(audit.valueAtRisk)} />
+          <RiskCard label="CVaR 95% (1M)" value={pct(historical.expectedShortfall)} icon={Flame} colorClass="text-fin-danger" subtext={`Parametric ${pct(parametric.expectedShortfall)}`} onClick={() => setSelected(audit.expectedShortfall)} />
+        </div>
+
+        {!benchmark && (
+          <p className="mt-3 text-[10px] text-amber-500">
+            Beta, correlation, tracking error and information ratio need an S&P 500 monthly series covering 24 of the same months.
+          </p>
+        )}
+      </div>
+
+      <MetricAuditModal
+        isOpen={!!selected}
+        onClose={() => setSelected(null)}
+        data={selected}
+      />
+    </>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { NewsHeadline, SentimentLabel, StockPosition } from '../types';
+import { portfolioSentiment } from '../utils/newsSentiment';
+
+interface SentimentGaugeProps {
+  headlines: NewsHeadline[];
+  positions?: StockPosition[];
+}
+
+export const SENTIMENT_STYLES: Record<SentimentLabel, { text: string; bar: string }> = {
+  positive: { text: 'text-fin-accent', bar: 'bg-fin-accent' },
+  neutral: { text: 'text-fin-mute', bar: 'bg-fin-mute' },
+  negative: { text: 'text-fin-danger', bar: 'bg-fin-danger' },
+};
+
+export const formatSentimentScore = (score: number): string => `${score > 0 ? '+' : ''}${score.toFixed(2)}`;
+
+/**
+ * Weighted news sentiment for the displayed headlines, from -1 to +1.
+ * Renders nothing until at least one headline has been scored.
+ */
+export const SentimentGauge: React.FC<SentimentGaugeProps> = ({ headlines, positions = [] }) => {
+  const sentiment = portfolioSentiment(headlines, positions);
+  if (!sentiment) return null;
+
+  const style = SENTIMENT_STYLES[sentiment.label];
+  const Icon = sentiment.label === 'positive' ? TrendingUp : sentiment.label === 'negative' ? TrendingDown : Minus;
+  const scorers = Array.from(new Set(headlines.map(h => h.sentiment?.scorer).filter(Boolean))).join(', ');
+  // Marker position on a -1..+1 track
+  const offset = ((sentiment.score + 1) / 2) * 100;
+
+  return (
+    <div
+      className="bg-fin-card border border-fin-border rounded-lg h-12 px-3 flex items-center gap-3 shadow-lg shrink-0 animate-fade-in"
+      title={[
+        `News sentiment ${formatSentimentScore(sentiment.score)} (${sentiment.label})`,
+        `${sentiment.headlineCount} headline${sentiment.headlineCount === 1 ? '' : 's'}, weighted by relevance${positions.length > 0 ? ' and holding weight' : ''}`,
+        scorers ? `Scored by ${scorers}` : '',
+      ].filter(Boolean).join('\n')}
+    >
+      <Icon className={`w-4 h-4 ${style.text}`} />
+      <div className="flex flex-col gap-1 w-24">
+        <div className="flex items-baseline justify-between">
+          <span className="text-[10px] uppercase tracking-wider text-fin-mute">Sentiment</span>
+          <span className={`text-xs font-mono font-bold ${style.text}`}>{formatSentimentScore(sentiment.score)}</span>
+        </div>
+        <div className="relative h-1.5 rounded-full bg-gradient-to-r from-fin-danger/40 via-fin-border to-fin-accent/40">
+          <div
+            className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-2.5 h-2.5 rounded-full border border-fin-card ${style.bar}`}
+            style={{ left: `${offset}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
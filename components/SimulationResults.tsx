@@ -1,21 +1,13 @@
 import React, { useState } from 'react';
-import { GeneratedPortfolio } from '../types';
-import { ArrowUpRight, Activity, BarChart3, AlertCircle, Info, Calculator, Sparkles } from 'lucide-react';
-import { MetricAuditModal } from './MetricAuditModal';
-
-interface MetricAuditSource {
-  name: string;
-  url?: string;
-}
-
-interface MetricAuditData {
-  label: string;
-  value: string;
-  description: string;
-  equation: string;
-  explanation: string;
-  sources: MetricAuditSource[];
-}
+import { GeneratedPortfolio, MarketDataField, MetricEstimate } from '../types';
+import { ArrowUpRight, Activity, BarChart3, AlertCircle, Info, Calculator, Sparkles, Wrench, ShieldBan, SearchCheck } from 'lucide-react';
+import { MetricAuditModal, MetricAuditData } from './MetricAuditModal';
+import { ProvenanceEntry, returnHistoryEntry } from './ProvenanceList';
+import { MARKET_DATA_FIELD_LABELS, formatFieldValue } from '../utils/provenance';
+import { describeViolation } from '../utils/exclusionPolicy';
+import { describeSymbolIssue } from '../utils/symbolResolution';
+import { MODEL_TASKS, MODEL_TASK_LABELS, formatModelSettings } from '../services/modelConfig';
+import { formatLineage } from '../utils/promptTemplates';
 
 interface MetricCardProps {
   label: string;
@@ -23,7 +15,7 @@ interface MetricCardProps {
   icon: React.FC<{ className?: string }>;
   colorClass: string;
   subtext?: string;
-  isCalculated?: boolean;
+  estimate?: MetricEstimate;
   onClick: () => void;
 }
 
@@ -31,7 +23,25 @@ interface SimulationResultsProps {
   portfolio: GeneratedPortfolio;
 }
 
-const MetricCard: React.FC<MetricCardProps> = ({ label, value, icon: Icon, subtext, colorClass, isCalculated, onClick }) => (
+// Computed values name the data they cover; model estimates say so, with the coverage that fell short
+const SourceBadge: React.FC<{ estimate?: MetricEstimate }> = ({ estimate }) => {
+  if (!estimate) return null;
+  const computed = estimate.source === 'computed';
+  const Icon = computed ? Calculator : Sparkles;
+  return (
+    <div className="mt-1 text-[10px]">
+      <div className={`flex items-center gap-1 ${computed ? 'text-fin-accent' : 'text-amber-500'}`}>
+        <Icon className="w-3 h-3" />
+        <span>{computed ? 'Computed' : 'Model estimate'} · {Math.round(estimate.coverage)}% coverage</span>
+      </div>
+      {computed && estimate.modelEstimate && (
+        <div className="text-fin-mute/60">Model est. {estimate.modelEstimate}</div>
+      )}
+    </div>
+  );
+};
+
+const MetricCard: React.FC<MetricCardProps> = ({ label, value, icon: Icon, subtext, colorClass, estimate, onClick }) => (
   <div 
     onClick={onClick}
     className="bg-fin-bg rounded-lg border border-fin-border p-4 flex flex-col justify-between cursor-pointer hover:bg-fin-border/30 transition-all group relative overflow-hidden min-h-[110px]"
@@ -45,13 +55,65 @@ const MetricCard: React.FC<MetricCardProps> = ({ label, value, icon: Icon, subte
     </div>
     <div className="text-2xl font-mono font-bold text-white mb-1 group-hover:scale-[1.02] origin-left transition-transform">{value}</div>
     {subtext && <div className="text-[10px] text-fin-mute opacity-80">{subtext}</div>}
+    <SourceBadge estimate={estimate} />
   </div>
 );
 
+// Post-processing notes listed under the fund narrative; renders nothing when empty
+const NarrativeNotes: React.FC<{
+  icon: React.FC<{ className?: string }>;
+  title: string;
+  notes: { text: string; warning?: boolean }[];
+}> = ({ icon: Icon, title, notes }) => {
+  if (notes.length === 0) return null;
+  return (
+    <div className="mt-3 pt-3 border-t border-fin-border/50">
+      <h5 className="text-xs font-semibold text-fin-mute uppercase tracking-wider mb-1 flex items-center gap-1.5">
+        <Icon className="w-3 h-3" />
+        {title}
+      </h5>
+      <ul className="space-y-0.5">
+        {notes.map((note, idx) => (
+          <li key={idx} className={`text-xs leading-snug ${note.warning ? 'text-amber-500' : 'text-fin-mute'}`}>
+            {note.text}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
 export const SimulationResults: React.FC<SimulationResultsProps> = ({ portfolio }) => {
-  const { metrics, narrative } = portfolio;
+  const { metrics, narrative, corrections = [], policyViolations = [], symbolIssues = [], modelUsage, promptLineage } = portfolio;
+  // Portfolios saved before model settings were recorded were all built with Gemini 2.5 Flash
+  const structureModel = modelUsage?.structure ? formatModelSettings(modelUsage.structure) : 'Gemini 2.5 Flash';
+  const usageDetails = MODEL_TASKS
+    .filter(task => modelUsage?.[task] || promptLineage?.[task]?.length)
+    .map(task => {
+      const model = modelUsage?.[task] ? formatModelSettings(modelUsage[task]!) : 'model not recorded';
+      const prompts = (promptLineage?.[task] || []).map(formatLineage);
+      // Enrichment renders one prompt per batch, so long lists are summarized
+      const promptSummary = prompts.length > 3 ? `${prompts.slice(0, 2).join(', ')} +${prompts.length - 2} more` : prompts.join(', ');
+      return `${MODEL_TASK_LABELS[task]}: ${model}${promptSummary ? `\n  Prompts: ${promptSummary}` : ''}`;
+    })
+    .join('\n');
   const [selectedMetric, setSelectedMetric] = useState<MetricAuditData | null>(null);
 
+  // Per-holding fetched values (with provenance) that feed a metric
+  const inputsFor = (...fields: MarketDataField[]): ProvenanceEntry[] =>
+    portfolio.positions.flatMap(pos => fields
+      .filter(field => typeof pos[field] === 'number')
+      .map(field => ({
+        label: `${pos.ticker} · ${MARKET_DATA_FIELD_LABELS[field]}`,
+        value: formatFieldValue(field, pos[field]),
+        provenance: pos.provenance?.[field],
+      })));
+
+  // Per-holding monthly return series that feed the covariance matrix
+  const historyInputs: ProvenanceEntry[] = portfolio.positions
+    .filter(pos => pos.returnHistory && pos.returnHistory.returns.length > 0)
+    .map(pos => returnHistoryEntry(pos.ticker, pos.returnHistory!));
+
   // Define audit data for each metric with rigorous detail
   const auditDataDefinitions: Record<string, MetricAuditData> = {
     return: {
@@ -65,19 +127,21 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({ portfolio
         { name: "Methodology: CAPM & Alpha Generation", url: "https://www.investopedia.com/terms/c/capm.asp" },
         { name: "SEC EDGAR (10-K Filings for Fundamentals)", url: "https://www.sec.gov/edgar/search/" },
         { name: "Morningstar ETF Expense Benchmarks", url: "https://www.morningstar.com/etfs" }
-      ]
+      ],
+      inputs: inputsFor('oneYearChangePercent')
     },
     sharpe: {
       label: "Sharpe Ratio (Ex-Ante)",
       value: metrics.sharpeRatio,
       description: "Risk-Adjusted Efficiency",
-      equation: `Sharpe = ( E[R_portfolio] - R_risk_free ) / σ_portfolio\n\nVariables:\n  E[R_p] = Projected Annual Return (see above)\n  R_f = US 10-Year Treasury Yield (~4.25%)\n  σ_p = √ [ w' · Σ · w ] (Portfolio Volatility)\n  Σ = Covariance Matrix (60-month historical)`,
-      explanation: "The Sharpe Ratio measures the excess return per unit of deviation (risk). We use the current US 10-Year Treasury Yield as the risk-free rate proxy. The portfolio volatility (denominator) is derived from the covariance matrix of the 5-year historical returns of the selected assets, accounting for the diversification benefit between uncorrelated sectors.",
+      equation: `Sharpe = ( E[R_portfolio] - R_risk_free ) / σ_portfolio\n\nVariables:\n  E[R_p] = Projected Annual Return (see above)\n  R_f = US 10-Year Treasury Yield (~4.25%)\n  σ_p = √ [ 12 · w' · Σ · w ] (Annualized Portfolio Volatility${metrics.estimates?.projectedVolatility?.computed ? ` = ${metrics.estimates.projectedVolatility.computed}` : ''})\n  Σ = Covariance Matrix of monthly returns (up to 60 months)\n  w = Holding weights, renormalized over holdings with history`,
+      explanation: "The Sharpe Ratio measures the excess return per unit of deviation (risk). We use the current US 10-Year Treasury Yield as the risk-free rate proxy. The portfolio volatility (denominator) comes from the covariance matrix of the holdings' monthly total returns over the months they share, up to the last 60, so correlation between holdings is priced in. It is only computed when holdings with at least 24 months of history make up more than half the portfolio; otherwise the model's estimate is shown.",
       sources: [
         { name: "US Dept of Treasury (Daily Yield Curve)", url: "https://home.treasury.gov/resource-center/data-chart-center/interest-rates/TextView?type=daily_treasury_yield_curve" },
         { name: "Modern Portfolio Theory (Markowitz)", url: "https://www.investopedia.com/terms/m/modernportfoliotheory.asp" },
         { name: "CBOE Volatility Index (VIX) Methodology", url: "https://www.cboe.com/tradable_products/vix/" }
-      ]
+      ],
+      inputs: [...inputsFor('oneYearChangePercent'), ...historyInputs]
     },
     yield: {
       label: "Dividend Yield (TTM)",
@@ -89,7 +153,8 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({ portfolio
         { name: "Nasdaq Dividend History Database", url: "https://www.nasdaq.com/market-activity/stocks/screener?exchange=nasdaq&letter=0&render=download" },
         { name: "SEC Filings (Dividend Declarations)", url: "https://www.sec.gov/edgar/search/" },
         { name: "Company Investor Relations Portals" }
-      ]
+      ],
+      inputs: inputsFor('dividendYieldPercent')
     }
   };
 
@@ -98,8 +163,11 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({ portfolio
       <div className="bg-fin-card rounded-lg border border-fin-border p-6 shadow-lg h-full flex flex-col">
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-lg font-semibold text-white">Projected Performance</h3>
-          <span className="text-xs bg-fin-accent/10 text-fin-accent px-2 py-1 rounded border border-fin-accent/20">
-            Model: Gemini 2.5 Flash
+          <span
+            className="text-xs bg-fin-accent/10 text-fin-accent px-2 py-1 rounded border border-fin-accent/20"
+            title={usageDetails || undefined}
+          >
+            Model: {structureModel}
           </span>
         </div>
 
@@ -110,7 +178,7 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({ portfolio
             icon={ArrowUpRight}
             colorClass="text-fin-accent"
             subtext={metrics.isCalculated?.projectedReturn ? "Based on 1Y weighted returns" : "Targeting S&P 500 alpha"}
-            isCalculated={metrics.isCalculated?.projectedReturn}
+            estimate={metrics.estimates?.projectedReturn}
             onClick={() => setSelectedMetric(auditDataDefinitions.return)}
           />
           <MetricCard
@@ -118,8 +186,8 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({ portfolio
             value={metrics.sharpeRatio}
             icon={Activity}
             colorClass="text-blue-400"
-            subtext={metrics.isCalculated?.sharpeRatio ? "Risk-adjusted return" : "Risk-adjusted return"}
-            isCalculated={metrics.isCalculated?.sharpeRatio}
+            subtext={metrics.isCalculated?.sharpeRatio ? `σ ${metrics.projectedVolatility} from monthly covariance` : "Risk-adjusted return"}
+            estimate={metrics.estimates?.sharpeRatio}
             onClick={() => setSelectedMetric(auditDataDefinitions.sharpe)}
           />
           <MetricCard
@@ -128,7 +196,7 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({ portfolio
             icon={BarChart3}
             colorClass="text-purple-400"
             subtext={metrics.isCalculated?.dividendYield ? "Weighted avg TTM yield" : "Income generation"}
-            isCalculated={metrics.isCalculated?.dividendYield}
+            estimate={metrics.estimates?.dividendYield}
             onClick={() => setSelectedMetric(auditDataDefinitions.yield)}
           />
         </div>
@@ -141,6 +209,21 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({ portfolio
               <p className="text-sm text-fin-mute leading-relaxed">
                 {narrative}
               </p>
+              <NarrativeNotes
+                icon={Wrench}
+                title="Structure Corrections"
+                notes={corrections.map(c => ({ text: c.message, warning: c.kind === 'too-few-positions' }))}
+              />
+              <NarrativeNotes
+                icon={ShieldBan}
+                title="Exclusion Policy Enforced"
+                notes={policyViolations.map(v => ({ text: describeViolation(v) }))}
+              />
+              <NarrativeNotes
+                icon={SearchCheck}
+                title="Symbol Checks"
+                notes={symbolIssues.map(issue => ({ text: describeSymbolIssue(issue), warning: issue.action === 'flagged' }))}
+              />
             </div>
           </div>
         </div>
@@ -1,7 +1,13 @@
 import React, { useState, useMemo } from 'react';
-import { X, ExternalLink, RefreshCw, TrendingUp, TrendingDown, Sparkles } from 'lucide-react';
+import { X, ExternalLink, RefreshCw, TrendingUp, TrendingDown, Sparkles, Database, Newspaper, Search } from 'lucide-react';
 import { AreaChart, Area, Tooltip, ResponsiveContainer, ReferenceLine, YAxis, XAxis, CartesianGrid } from 'recharts';
-import { StockPosition, StockAnalysisResult } from '../types';
+import { StockPosition, StockAnalysisResult, MarketDataField } from '../types';
+import { ProvenanceList } from './ProvenanceList';
+import { MARKET_DATA_FIELD_LABELS, formatFieldValue } from '../utils/provenance';
+import { formatMoneyAmount } from '../utils/formatting';
+import { holdingSentiment } from '../utils/newsSentiment';
+import { sentimentHistory } from '../services/sentimentHistory';
+import { SENTIMENT_STYLES, formatSentimentScore } from './SentimentGauge';
 
 interface StockDetailModalProps {
   stock: StockPosition;
@@ -11,6 +17,7 @@ interface StockDetailModalProps {
 }
 
 const TIME_RANGES = ['1W', '1M', '3M', '1Y', '5Y'];
+const PROVENANCE_FIELDS = Object.keys(MARKET_DATA_FIELD_LABELS) as MarketDataField[];
 
 // Helper to calculate a past date string
 const getPastDate = (daysAgo: number) => {
@@ -28,27 +35,19 @@ const getIsoDate = (daysAgo: number) => {
 export const StockDetailModal: React.FC<StockDetailModalProps> = ({ stock, analysis, loading, onClose }) => {
   const [timeRange, setTimeRange] = useState('1M');
   const [showAnalysis, setShowAnalysis] = useState(false);
+  const [showSources, setShowSources] = useState(false);
+  const [showNews, setShowNews] = useState(false);
+  const headlines = stock.headlines || [];
+  const newsSentiment = holdingSentiment(headlines);
+  const sentimentTrend = useMemo(() => sentimentHistory.history(stock.ticker), [stock.ticker]);
   
   // Resolve Current Price
   const currentPrice = useMemo(() => {
-    if (analysis?.performance) {
-       // If we have performance data, we likely extracted the price in the service or can infer it, 
-       // but for now we rely on the prop passing or the enrichment phase.
-       // The service `analyzeStock` currently parses "content" for text. 
-       // We'll trust `stock.currentPrice` from the portfolio enrichment first for consistency, 
-       // or try to find it in analysis content if that fails.
-    }
-    
     // 1. Try Portfolio fetched price (most reliable from the batch fetch)
     if (stock.currentPrice) return stock.currentPrice;
 
-    // 2. Fallback to parsing analysis content
-    if (analysis?.content) {
-       const match = analysis.content.match(/\$([\d,]+\.\d{2})/);
-       if (match) return parseFloat(match[1].replace(/,/g, ''));
-    }
-
-    return null;
+    // 2. Fallback to the analysis' own price field
+    return analysis?.price ?? null;
   }, [analysis, stock.currentPrice]);
 
 
@@ -74,7 +73,7 @@ export const StockDetailModal: React.FC<StockDetailModalProps> = ({ stock, analy
     const perf = analysis.performance;
 
     // Helper to add point if data exists
-    const addPoint = (daysAgo: number, pctChange: number | undefined) => {
+    const addPoint = (daysAgo: number, pctChange: number | null) => {
       if (typeof pctChange === 'number') {
         // Price_old = Price_now / (1 + pct/100)
         const price = currentPrice / (1 + (pctChange / 100));
@@ -278,12 +277,55 @@ export const StockDetailModal: React.FC<StockDetailModalProps> = ({ stock, analy
               <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
                 {analysis ? (
                   <div className="max-w-4xl mx-auto">
+                     {/* Fundamentals */}
+                     <div className="grid grid-cols-3 gap-3 mb-6">
+                       {[
+                         { label: 'Market Cap', value: analysis.marketCap ? formatMoneyAmount(analysis.marketCap) : null },
+                         { label: 'P/E Ratio', value: analysis.peRatio !== null ? analysis.peRatio.toFixed(1) : null },
+                         { label: 'Dividend Yield', value: analysis.dividendYield !== null ? `${analysis.dividendYield.toFixed(2)}%` : null },
+                       ].map(({ label, value }) => (
+                         <div key={label} className="bg-fin-bg border border-fin-border rounded-md px-3 py-2">
+                           <div className="text-[10px] font-semibold text-fin-mute uppercase tracking-wider">{label}</div>
+                           <div className={`font-mono text-sm sm:text-base ${value ? 'text-white' : 'text-fin-mute'}`}>{value ?? 'N/A'}</div>
+                         </div>
+                       ))}
+                     </div>
+
                      <div className="prose prose-invert prose-p:text-fin-text prose-headings:text-white max-w-none">
                         <div className="whitespace-pre-wrap font-sans leading-relaxed text-base sm:text-lg">
                           {analysis.content}
                         </div>
                       </div>
 
+                      {/* Recent News */}
+                      {analysis.news.length > 0 && (
+                        <div className="mt-8 pt-6 border-t border-fin-border">
+                          <h4 className="text-xs font-semibold text-fin-mute uppercase mb-4">Recent News</h4>
+                          <ul className="space-y-2">
+                            {analysis.news.map((item, idx) => (
+                              <li key={idx} className="flex items-start gap-2 text-sm text-fin-text">
+                                <span className="mt-2 w-1 h-1 rounded-full bg-fin-accent shrink-0" />
+                                <span>
+                                  {item.summary}
+                                  {item.url && (
+                                    <a
+                                      href={item.url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="ml-2 inline-flex items-center gap-1 text-xs text-fin-mute hover:text-fin-accent"
+                                    >
+                                      <ExternalLink className="w-3 h-3" />
+                                      {item.source || new URL(item.url).hostname.replace(/^www\./, '')}
+                                    </a>
+                                  )}
+                                  {!item.url && item.source && <span className="ml-2 text-xs text-fin-mute">{item.source}</span>}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
                       {/* Sources */}
                       {analysis.groundingChunks && analysis.groundingChunks.length > 0 && (
                         <div className="mt-8 pt-6 border-t border-fin-border">
@@ -316,6 +358,123 @@ export const StockDetailModal: React.FC<StockDetailModalProps> = ({ stock, analy
               </div>
             </div>
           )}
+
+          {/* Holding News Slide-Up Panel */}
+          {showNews && (
+            <div className="absolute inset-x-0 bottom-0 top-1/3 bg-fin-card/95 backdrop-blur-md border-t border-fin-border shadow-[0_-10px_40px_rgba(0,0,0,0.5)] transition-all animate-slide-up flex flex-col z-20">
+              <div className="flex items-center justify-between p-4 border-b border-fin-border bg-fin-card/50">
+                <div className="flex items-center gap-2 text-sky-400">
+                  <Newspaper className="w-4 h-4" />
+                  <h3 className="font-semibold text-sm uppercase tracking-wider">Holding News</h3>
+                </div>
+                <button 
+                  onClick={() => setShowNews(false)}
+                  className="text-xs text-fin-mute hover:text-white underline"
+                >
+                  Minimize
+                </button>
+              </div>
+              <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+                <div className="max-w-4xl mx-auto">
+                  {(newsSentiment || sentimentTrend.length > 0) && (
+                    <div className="mb-6 flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                      {newsSentiment && (
+                        <div>
+                          <div className="text-xs font-semibold text-fin-mute uppercase mb-1">News Sentiment</div>
+                          <div className={`text-2xl font-mono font-bold ${SENTIMENT_STYLES[newsSentiment.label].text}`}>
+                            {formatSentimentScore(newsSentiment.score)}
+                            <span className="ml-2 text-xs font-sans uppercase tracking-wider">{newsSentiment.label}</span>
+                          </div>
+                        </div>
+                      )}
+                      {sentimentTrend.length > 0 && (
+                        <div>
+                          <div className="text-xs font-semibold text-fin-mute uppercase mb-1 sm:text-right">History ({sentimentTrend.length})</div>
+                          {/* One bar per fetch, height by magnitude, up for positive and down for negative */}
+                          <div className="flex items-center gap-0.5 h-10">
+                            {sentimentTrend.slice(-30).map(entry => (
+                              <div key={entry.at} className="relative w-1.5 h-full" title={`${new Date(entry.at).toLocaleString()}: ${formatSentimentScore(entry.score)} from ${entry.headlineCount} headline${entry.headlineCount === 1 ? '' : 's'}`}>
+                                <div
+                                  className={`absolute left-0 right-0 rounded-sm ${SENTIMENT_STYLES[entry.label].bar}`}
+                                  style={entry.score >= 0
+                                    ? { bottom: '50%', height: `${Math.max(4, Math.abs(entry.score) * 50)}%` }
+                                    : { top: '50%', height: `${Math.max(4, Math.abs(entry.score) * 50)}%` }}
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {headlines.length > 0 ? (
+                    <ul className="space-y-3">
+                      {headlines.map((item, idx) => (
+                        <li key={`${idx}-${item.url}`}>
+                          <a
+                            href={item.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-start gap-3 p-3 rounded-md bg-fin-bg border border-fin-border hover:border-sky-400/50 transition-all group"
+                            title={item.verified === false ? 'No cited article matched this headline; the link searches the outlet for it' : undefined}
+                          >
+                            {item.verified === false
+                              ? <Search className="w-4 h-4 mt-0.5 shrink-0 text-fin-mute group-hover:text-sky-400" />
+                              : <ExternalLink className="w-4 h-4 mt-0.5 shrink-0 text-fin-mute group-hover:text-sky-400" />}
+                            <div className="min-w-0">
+                              <div className={`text-sm ${item.verified === false ? 'text-fin-mute italic' : 'text-fin-text group-hover:text-white'}`}>{item.title}</div>
+                              <div className="mt-1 text-[10px] uppercase tracking-wider text-fin-mute">
+                                {item.sentiment && (
+                                  <span className={`mr-2 font-mono font-bold ${SENTIMENT_STYLES[item.sentiment.label].text}`} title={`Scored by ${item.sentiment.scorer}`}>
+                                    {formatSentimentScore(item.sentiment.score)}
+                                  </span>
+                                )}
+                                {item.source}
+                                {item.tickers && item.tickers.length > 1 && ` · also ${item.tickers.filter(t => t !== stock.ticker).join(', ')}`}
+                              </div>
+                            </div>
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-fin-mute text-center py-8">
+                      No portfolio headlines mention {stock.ticker}. Refresh the portfolio news to check again.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Data Sources Slide-Up Panel */}
+          {showSources && (
+            <div className="absolute inset-x-0 bottom-0 top-1/3 bg-fin-card/95 backdrop-blur-md border-t border-fin-border shadow-[0_-10px_40px_rgba(0,0,0,0.5)] transition-all animate-slide-up flex flex-col z-20">
+              <div className="flex items-center justify-between p-4 border-b border-fin-border bg-fin-card/50">
+                <div className="flex items-center gap-2 text-purple-400">
+                  <Database className="w-4 h-4" />
+                  <h3 className="font-semibold text-sm uppercase tracking-wider">Data Provenance</h3>
+                </div>
+                <button 
+                  onClick={() => setShowSources(false)}
+                  className="text-xs text-fin-mute hover:text-white underline"
+                >
+                  Minimize
+                </button>
+              </div>
+              <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+                <div className="max-w-4xl mx-auto">
+                  <ProvenanceList
+                    entries={PROVENANCE_FIELDS.map(field => ({
+                      label: MARKET_DATA_FIELD_LABELS[field],
+                      value: formatFieldValue(field, stock[field]),
+                      provenance: stock.provenance?.[field],
+                    }))}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Footer Controls */}
@@ -352,17 +511,41 @@ export const StockDetailModal: React.FC<StockDetailModalProps> = ({ stock, analy
               })}
            </div>
 
-           <button
-             onClick={() => setShowAnalysis(!showAnalysis)}
-             className={`w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg font-medium transition-all ${
-               showAnalysis 
-                 ? 'bg-fin-accent text-white shadow-[0_0_15px_rgba(16,185,129,0.3)]' 
-                 : 'bg-fin-bg border border-fin-border text-fin-text hover:border-fin-accent hover:text-fin-accent'
-             }`}
-           >
-             <Sparkles className="w-4 h-4" />
-             <span>{showAnalysis ? 'Hide Insights' : 'AI Insights'}</span>
-           </button>
+           <div className="flex gap-3 w-full sm:w-auto">
+             <button
+               onClick={() => { setShowNews(!showNews); setShowSources(false); setShowAnalysis(false); }}
+               className={`flex-1 sm:flex-none flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg font-medium transition-all ${
+                 showNews
+                   ? 'bg-sky-500 text-white shadow-[0_0_15px_rgba(14,165,233,0.3)]'
+                   : 'bg-fin-bg border border-fin-border text-fin-text hover:border-sky-400 hover:text-sky-400'
+               }`}
+             >
+               <Newspaper className="w-4 h-4" />
+               <span>News{headlines.length > 0 ? ` (${headlines.length})` : ''}</span>
+             </button>
+             <button
+               onClick={() => { setShowSources(!showSources); setShowAnalysis(false); setShowNews(false); }}
+               className={`flex-1 sm:flex-none flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg font-medium transition-all ${
+                 showSources
+                   ? 'bg-purple-500 text-white shadow-[0_0_15px_rgba(168,85,247,0.3)]'
+                   : 'bg-fin-bg border border-fin-border text-fin-text hover:border-purple-400 hover:text-purple-400'
+               }`}
+             >
+               <Database className="w-4 h-4" />
+               <span>Data Sources</span>
+             </button>
+             <button
+               onClick={() => { setShowAnalysis(!showAnalysis); setShowSources(false); setShowNews(false); }}
+               className={`flex-1 sm:flex-none flex items-center justify-center gap-2 px-6 py-2.5 rounded-lg font-medium transition-all ${
+                 showAnalysis 
+                   ? 'bg-fin-accent text-white shadow-[0_0_15px_rgba(16,185,129,0.3)]' 
+                   : 'bg-fin-bg border border-fin-border text-fin-text hover:border-fin-accent hover:text-fin-accent'
+               }`}
+             >
+               <Sparkles className="w-4 h-4" />
+               <span>{showAnalysis ? 'Hide Insights' : 'AI Insights'}</span>
+             </button>
+           </div>
         </div>
       </div>
     </div>
@@ -1,8 +1,14 @@
 
 import React, { useMemo } from 'react';
 import { AreaChart, Area, ResponsiveContainer, YAxis, Tooltip, XAxis } from 'recharts';
-import { StockPosition } from '../types';
+import { StockPosition, MarketDataField } from '../types';
 import { AlertCircle } from 'lucide-react';
+import { formatDataAge } from '../utils/formatting';
+import { MARKET_DATA_FIELD_LABELS, describeSource } from '../utils/provenance';
+import { describeVerification } from '../utils/crossVerification';
+
+// Values that feed the backtest, in display order
+const PROVENANCE_FIELDS: MarketDataField[] = ['currentPrice', 'dayChangePercent', 'oneYearChangePercent', 'fiveYearChangePercent', 'dividendYieldPercent'];
 
 interface StockHoverCardProps {
   stock: StockPosition;
@@ -43,8 +49,15 @@ export const StockHoverCard: React.FC<StockHoverCardProps> = ({ stock, position
   const is5YearPositive = fiveYearChange >= 0;
   const chartColor = is5YearPositive ? '#10b981' : '#ef4444';
 
-  const dayChange = stock.dayChangePercent || 0;
-  const isDayPositive = dayChange >= 0;
+  const priceAge = formatDataAge(stock.fetchedAt?.currentPrice);
+  const fiveYearAge = formatDataAge(stock.fetchedAt?.fiveYearChangePercent);
+
+  const disagreements = (Object.keys(stock.verification || {}) as MarketDataField[])
+    .filter(field => stock.verification![field]!.status === 'disagreed');
+
+  // No intraday change is shown rather than a misleading 0%
+  const dayChange = typeof stock.dayChangePercent === 'number' ? stock.dayChangePercent : null;
+  const isDayPositive = dayChange === null || dayChange >= 0;
 
   // --- Smart Positioning Logic ---
   const CARD_WIDTH = 320; // matches w-80 (20rem)
@@ -94,6 +107,11 @@ export const StockHoverCard: React.FC<StockHoverCardProps> = ({ stock, position
         <div>
           <h4 className="text-xl font-bold text-white font-mono">{stock.ticker}</h4>
           <span className="text-xs text-fin-mute">{stock.name}</span>
+          {stock.listing && (
+            <span className="text-[10px] text-fin-mute/60 block">
+              {stock.listing.exchange} · {stock.listing.currency} · listed {stock.listing.listedOn.slice(0, 4)}
+            </span>
+          )}
         </div>
         <div className="text-right">
            {hasData ? (
@@ -109,13 +127,21 @@ export const StockHoverCard: React.FC<StockHoverCardProps> = ({ stock, position
                
                <div className="flex flex-col text-right">
                  {/* Daily Change */}
-                 <span className={`text-xs font-semibold ${isDayPositive ? 'text-fin-accent' : 'text-fin-danger'}`}>
-                    {isDayPositive ? '+' : ''}{dayChange.toFixed(2)}% (Today)
-                 </span>
+                 {dayChange !== null && (
+                   <span className={`text-xs font-semibold ${isDayPositive ? 'text-fin-accent' : 'text-fin-danger'}`}>
+                      {isDayPositive ? '+' : ''}{dayChange.toFixed(2)}% (Today)
+                   </span>
+                 )}
                  {/* 5Y Trend */}
                  <span className={`text-[10px] ${is5YearPositive ? 'text-green-400/70' : 'text-red-400/70'}`}>
-                    {is5YearPositive ? '▲' : '▼'} {Math.abs(fiveYearChange).toFixed(1)}% (5Y)
+                    {is5YearPositive ? '▲' : '▼'} {Math.abs(fiveYearChange).toFixed(1)}% (5Y){fiveYearAge && <span className="text-fin-mute/60"> · {fiveYearAge}</span>}
                  </span>
+                 {typeof stock.dividendYieldPercent === 'number' && (
+                   <span className="text-[10px] text-fin-mute">Yield {stock.dividendYieldPercent.toFixed(2)}% (TTM)</span>
+                 )}
+                 {priceAge && (
+                   <span className="text-[10px] text-fin-mute/60">Price fetched {priceAge}</span>
+                 )}
                </div>
              </>
            ) : (
@@ -173,6 +199,51 @@ export const StockHoverCard: React.FC<StockHoverCardProps> = ({ stock, position
         )}
       </div>
 
+      {stock.provenance && Object.keys(stock.provenance).length > 0 && (
+        <div className="bg-fin-bg/30 rounded p-2 border border-fin-border/50 mb-3">
+          <span className="text-[10px] font-semibold text-fin-mute uppercase tracking-wider block mb-1">Data Sources</span>
+          <ul className="space-y-0.5">
+            {PROVENANCE_FIELDS.map(field => {
+              const provenance = stock.provenance?.[field];
+              if (!provenance) return null;
+              const sourceNames = provenance.sources.slice(0, 2).map(describeSource).join(', ');
+              const moreSources = provenance.sources.length > 2 ? ` +${provenance.sources.length - 2}` : '';
+              return (
+                <li key={field} className="text-[10px] text-fin-mute leading-snug truncate">
+                  <span className="text-fin-text">{MARKET_DATA_FIELD_LABELS[field]}:</span>{' '}
+                  {provenance.provider}{provenance.pass === 'repair' ? ' (repair)' : ''}
+                  {sourceNames && ` · ${sourceNames}${moreSources}`}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {stock.dataRejections && stock.dataRejections.length > 0 && (
+        <div className="bg-amber-500/5 rounded p-2 border border-amber-500/30 mb-3">
+          <span className="text-[10px] font-semibold text-amber-500 uppercase tracking-wider block mb-1">Rejected Data</span>
+          <ul className="space-y-0.5">
+            {stock.dataRejections.map((rejection, idx) => (
+              <li key={idx} className="text-[10px] text-fin-mute leading-snug">{rejection.reason}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {disagreements.length > 0 && (
+        <div className="bg-amber-500/5 rounded p-2 border border-amber-500/30 mb-3">
+          <span className="text-[10px] font-semibold text-amber-500 uppercase tracking-wider block mb-1">Low Confidence</span>
+          <ul className="space-y-0.5">
+            {disagreements.map(field => (
+              <li key={field} className="text-[10px] text-fin-mute leading-snug">
+                {describeVerification(field, stock[field], stock.verification![field]!)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="bg-fin-bg/30 rounded p-2 border border-fin-border/50">
         <span className="text-[10px] font-semibold text-fin-mute uppercase tracking-wider block mb-1">Inclusion Thesis</span>
         <p className="text-xs text-fin-text leading-snug italic line-clamp-3">
@@ -1,13 +1,65 @@
 import React, { useState, useRef } from 'react';
-import { GeneratedPortfolio, StockPosition } from '../types';
-import { ShieldCheck, TrendingUp, Anchor } from 'lucide-react';
+import { GeneratedPortfolio, StockPosition, MarketDataField, NewsHeadline } from '../types';
+import { ShieldCheck, TrendingUp, Anchor, AlertTriangle, BadgeCheck, AlertOctagon, HelpCircle, Newspaper } from 'lucide-react';
 import { StockHoverCard } from './StockHoverCard';
+import { formatDataAge } from '../utils/formatting';
+import { getConfidenceLevel, describeVerification } from '../utils/crossVerification';
+import { holdingSentiment } from '../utils/newsSentiment';
+import { formatSentimentScore } from './SentimentGauge';
 
 interface StockTableProps {
   portfolio: GeneratedPortfolio;
   onSelectStock: (stock: StockPosition) => void;
+  onFilterNews?: (ticker: string) => void; // Narrows the news ticker to this holding
 }
 
+const ConfidenceBadge = ({ stock }: { stock: StockPosition }) => {
+  const level = getConfidenceLevel(stock);
+  if (!level) return null;
+
+  const details = (Object.keys(stock.verification || {}) as MarketDataField[])
+    .filter(field => level === 'verified' || stock.verification![field]!.status === 'disagreed')
+    .map(field => describeVerification(field, stock[field], stock.verification![field]!))
+    .join('\n');
+
+  return level === 'verified' ? (
+    <span title={`Cross-verified\n${details}`}>
+      <BadgeCheck className="w-3.5 h-3.5 text-fin-accent" />
+    </span>
+  ) : (
+    <span
+      title={`Low confidence: sources disagree\n${details}`}
+      className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-500 text-[10px] font-sans font-semibold uppercase tracking-wider"
+    >
+      <AlertOctagon className="w-3 h-3" />
+      Low conf.
+    </span>
+  );
+};
+
+// Headline count, colored by the holding's news sentiment; narrows the news ticker on click
+const NewsBadge = ({ headlines, ticker, onClick }: { headlines: NewsHeadline[]; ticker: string; onClick: () => void }) => {
+  const sentiment = holdingSentiment(headlines);
+  const tone = sentiment?.label === 'positive'
+    ? 'bg-fin-accent/10 text-fin-accent hover:bg-fin-accent/20'
+    : sentiment?.label === 'negative'
+      ? 'bg-fin-danger/10 text-fin-danger hover:bg-fin-danger/20'
+      : 'bg-sky-500/10 text-sky-400 hover:bg-sky-500/20';
+  const count = `${headlines.length} headline${headlines.length === 1 ? '' : 's'}`;
+
+  return (
+    <button
+      onClick={(e) => { e.stopPropagation(); onClick(); }}
+      onTouchStart={(e) => e.stopPropagation()}
+      className={`inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] font-sans font-semibold ${tone}`}
+      title={`Show ${count} about ${ticker} in the news ticker${sentiment ? `\nSentiment ${formatSentimentScore(sentiment.score)} (${sentiment.label})` : ''}`}
+    >
+      <Newspaper className="w-3 h-3" />
+      {headlines.length}
+    </button>
+  );
+};
+
 const TypeIcon = ({ type }: { type: StockPosition['type'] }) => {
   switch (type) {
     case 'Core':
@@ -19,7 +71,7 @@ const TypeIcon = ({ type }: { type: StockPosition['type'] }) => {
   }
 };
 
-export const StockTable: React.FC<StockTableProps> = ({ portfolio, onSelectStock }) => {
+export const StockTable: React.FC<StockTableProps> = ({ portfolio, onSelectStock, onFilterNews }) => {
   const [hoveredStock, setHoveredStock] = useState<StockPosition | null>(null);
   const [hoverPos, setHoverPos] = useState({ x: 0, y: 0 });
   const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -75,6 +127,14 @@ export const StockTable: React.FC<StockTableProps> = ({ portfolio, onSelectStock
     setHoveredStock(null);
   };
 
+  // Ambiguous, mismatched or unchecked listings found when the ticker was resolved
+  const symbolFlags: Record<string, string[]> = {};
+  (portfolio.symbolIssues || [])
+    .filter(issue => issue.action === 'flagged')
+    .forEach(issue => (symbolFlags[issue.ticker] ||= []).push(issue.detail));
+
+  const rejectedFieldCount = portfolio.positions.reduce((sum, pos) => sum + (pos.dataRejections?.length || 0), 0);
+
   return (
     <div className="bg-fin-card rounded-lg border border-fin-border shadow-lg overflow-hidden relative">
       <div className="p-6 border-b border-fin-border">
@@ -82,6 +142,12 @@ export const StockTable: React.FC<StockTableProps> = ({ portfolio, onSelectStock
         <p className="text-sm text-fin-mute mt-1">
           Click row for details. Hover for 5-year trend (Long press on mobile).
         </p>
+        {rejectedFieldCount > 0 && (
+          <p className="text-xs text-amber-500 mt-2 flex items-center gap-1">
+            <AlertTriangle className="w-3 h-3" />
+            {rejectedFieldCount} fetched value{rejectedFieldCount === 1 ? '' : 's'} failed validation and {rejectedFieldCount === 1 ? 'is' : 'are'} excluded from calculations. Hover a flagged ticker for details.
+          </p>
+        )}
       </div>
       <div className="overflow-x-auto">
         <table className="w-full text-left text-sm text-fin-mute">
@@ -93,6 +159,7 @@ export const StockTable: React.FC<StockTableProps> = ({ portfolio, onSelectStock
               <th className="px-6 py-4">Sector</th>
               <th className="px-6 py-4 text-right">Weight</th>
               <th className="px-6 py-4 text-center">ESG</th>
+              <th className="px-6 py-4 text-right">Updated</th>
               <th className="px-6 py-4">Reasoning</th>
             </tr>
           </thead>
@@ -109,7 +176,25 @@ export const StockTable: React.FC<StockTableProps> = ({ portfolio, onSelectStock
                 onTouchEnd={handleTouchEnd}
                 className="hover:bg-fin-border/50 transition-colors cursor-pointer group select-none"
               >
-                <td className="px-6 py-4 font-mono text-fin-text font-bold group-hover:text-fin-accent transition-colors">{pos.ticker}</td>
+                <td className="px-6 py-4 font-mono text-fin-text font-bold group-hover:text-fin-accent transition-colors">
+                  <div className="flex items-center gap-1.5">
+                    {pos.ticker}
+                    {pos.dataRejections && pos.dataRejections.length > 0 && (
+                      <span title={pos.dataRejections.map(r => r.reason).join('\n')}>
+                        <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />
+                      </span>
+                    )}
+                    {symbolFlags[pos.ticker] && (
+                      <span title={symbolFlags[pos.ticker].join('\n')}>
+                        <HelpCircle className="w-3.5 h-3.5 text-amber-500" />
+                      </span>
+                    )}
+                    <ConfidenceBadge stock={pos} />
+                    {onFilterNews && pos.headlines && pos.headlines.length > 0 && (
+                      <NewsBadge headlines={pos.headlines} onClick={() => onFilterNews(pos.ticker)} ticker={pos.ticker} />
+                    )}
+                  </div>
+                </td>
                 <td className="px-6 py-4 text-fin-text">{pos.name}</td>
                 <td className="px-6 py-4">
                   <div className="flex items-center gap-2">
@@ -128,6 +213,12 @@ export const StockTable: React.FC<StockTableProps> = ({ portfolio, onSelectStock
                     {pos.esgScore}
                   </span>
                 </td>
+                <td
+                  className="px-6 py-4 text-right text-xs font-mono whitespace-nowrap"
+                  title={pos.fetchedAt?.currentPrice ? `Price fetched ${new Date(pos.fetchedAt.currentPrice).toLocaleString()}` : 'No price data'}
+                >
+                  {formatDataAge(pos.fetchedAt?.currentPrice) || '---'}
+                </td>
                 <td className="px-6 py-4 text-xs italic opacity-80 max-w-xs truncate" title={pos.reason}>
                   {pos.reason}
                 </td>
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { X, Gauge, Trash2 } from 'lucide-react';
+import { usageMeter, USAGE_OPERATION_LABELS, UsageOperation, UsageTotals } from '../services/usageMeter';
+
+interface UsagePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const TotalsRow: React.FC<{ label: string; totals: UsageTotals; emphasis?: boolean }> = ({ label, totals, emphasis }) => (
+  <tr className={emphasis ? 'text-white font-semibold border-t border-fin-border' : 'text-fin-text'}>
+    <td className="py-1.5 pr-3">{label}</td>
+    <td className="py-1.5 px-2 text-right font-mono">
+      {totals.calls}
+      {totals.failedCalls > 0 && <span className="text-fin-danger"> ({totals.failedCalls} failed)</span>}
+    </td>
+    <td className="py-1.5 px-2 text-right font-mono">{formatTokens(totals.inputTokens)}</td>
+    <td className="py-1.5 px-2 text-right font-mono">{formatTokens(totals.outputTokens)}</td>
+    <td className="py-1.5 px-2 text-right font-mono">{totals.calls > 0 ? `${Math.round(totals.latencyMs / totals.calls)} ms` : '—'}</td>
+    <td className="py-1.5 pl-2 text-right font-mono">
+      {formatCost(totals.cost)}
+      {totals.unpricedCalls > 0 && <span className="text-amber-500" title={`${totals.unpricedCalls} calls on models missing from the price table`}>*</span>}
+    </td>
+  </tr>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ isOpen, onClose }) => {
+  const [, setVersion] = useState(0);
+  const [budgetInput, setBudgetInput] = useState('');
+
+  // Re-render on every metered call while open
+  useEffect(() => {
+    if (!isOpen) return;
+    const budget = usageMeter.options().budgetUsd;
+    setBudgetInput(budget === null ? '' : String(budget));
+    return usageMeter.subscribe(() => setVersion(v => v + 1));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const session = usageMeter.sessionSummary();
+  const { budgetUsd } = usageMeter.options();
+  const pastSessions = usageMeter.history().slice(0, 10);
+  const operations = Object.keys(session.byOperation) as UsageOperation[];
+  // Unpriced calls count toward the budget at the highest listed prices
+  const spent = usageMeter.budgetSpent();
+  const overBudget = budgetUsd !== null && spent >= budgetUsd;
+
+  const handleBudgetSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = budgetInput.trim() === '' ? null : Number(budgetInput);
+    usageMeter.configure({ budgetUsd: value !== null && Number.isFinite(value) && value >= 0 ? value : null });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
+      <div
+        className="bg-fin-card border border-fin-border rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col animate-scale-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-6 border-b border-fin-border bg-fin-bg/50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-fin-accent/10 rounded-full text-fin-accent">
+              <Gauge className="w-5 h-5" />
+            </div>
+            <h2 className="text-xl font-bold text-white">Model Usage</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-fin-border rounded-full text-fin-mute hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <section>
+            <h3 className="text-sm font-semibold text-fin-text mb-2">This Session</h3>
+            {session.total.calls === 0 ? (
+              <p className="text-xs text-fin-mute">No model calls yet.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-fin-mute uppercase tracking-wider">
+                    <th className="text-left font-medium pb-2">Operation</th>
+                    <th className="text-right font-medium pb-2 px-2">Calls</th>
+                    <th className="text-right font-medium pb-2 px-2">Input tok.</th>
+                    <th className="text-right font-medium pb-2 px-2">Output tok.</th>
+                    <th className="text-right font-medium pb-2 px-2">Avg latency</th>
+                    <th className="text-right font-medium pb-2 pl-2">Est. cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {operations.map(operation => (
+                    <TotalsRow key={operation} label={USAGE_OPERATION_LABELS[operation]} totals={session.byOperation[operation]!} />
+                  ))}
+                  <TotalsRow label="Total" totals={session.total} emphasis />
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <form onSubmit={handleBudgetSubmit} className="bg-fin-bg border border-fin-border rounded-md p-4">
+            <label className="block text-sm font-semibold text-fin-text mb-1">Session budget (USD)</label>
+            <p className="text-xs text-fin-mute mb-3">
+              Once the estimated cost reaches the budget, further model calls fail until the page is reloaded. Leave empty for no cap.
+            </p>
+            <div className="flex gap-3 items-center">
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                placeholder="No cap"
+                className="w-32 bg-fin-card border border-fin-border rounded-md px-2 py-1 text-sm text-fin-text font-mono focus:ring-2 focus:ring-fin-accent outline-none placeholder-fin-mute/50"
+              />
+              <button
+                type="submit"
+                className="px-3 py-1.5 rounded-md text-xs font-bold text-white bg-fin-accent/80 hover:bg-fin-accent transition-all"
+              >
+                Set Budget
+              </button>
+              {budgetUsd !== null && (
+                <span className={`text-xs ${overBudget ? 'text-fin-danger font-semibold' : 'text-fin-mute'}`}>
+                  {formatCost(spent)} of {formatCost(budgetUsd)} used{overBudget ? ' — calls blocked' : ''}
+                </span>
+              )}
+            </div>
+          </form>
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-fin-text">Session History</h3>
+              {pastSessions.length > 0 && (
+                <button
+                  onClick={() => usageMeter.clearHistory()}
+                  className="flex items-center gap-1 text-xs text-fin-mute hover:text-fin-danger transition-colors"
+                >
+                  <Trash2 className="w-3 h-3" /> Clear
+                </button>
+              )}
+            </div>
+            {pastSessions.length === 0 ? (
+              <p className="text-xs text-fin-mute">No recorded sessions.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <tbody>
+                  {pastSessions.map(({ sessionId, startedAt, summary }) => (
+                    <TotalsRow key={sessionId} label={new Date(startedAt).toLocaleString()} totals={summary.total} />
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
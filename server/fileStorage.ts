@@ -0,0 +1,36 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+export type FileStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+/**
+ * The slice of localStorage the caches use, kept in one JSON file so the server's cache
+ * survives restarts. The file is read once; every change rewrites it.
+ */
+export const createFileStorage = (file: string): FileStorage => {
+  let items: Record<string, string> = {};
+  if (existsSync(file)) {
+    try {
+      items = JSON.parse(readFileSync(file, "utf8")) as Record<string, string>;
+    } catch (error) {
+      console.warn(`Ignoring unreadable storage file ${file}`, error);
+    }
+  }
+
+  const save = () => {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(items));
+  };
+
+  return {
+    getItem: (key) => (Object.prototype.hasOwnProperty.call(items, key) ? items[key] : null),
+    setItem: (key, value) => {
+      items[key] = String(value);
+      save();
+    },
+    removeItem: (key) => {
+      delete items[key];
+      save();
+    },
+  };
+};
@@ -0,0 +1,15 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { GeminiFixture } from "../services/geminiRecording";
+
+export const readGeminiFixture = (file: string): GeminiFixture =>
+  JSON.parse(readFileSync(file, "utf8")) as GeminiFixture;
+
+/**
+ * Writes the whole fixture, creating its directory. Called after every recorded exchange,
+ * so a session that crashes midway still leaves everything up to the failure on disk.
+ */
+export const writeGeminiFixture = (file: string, fixture: GeminiFixture): void => {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+};
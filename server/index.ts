@@ -0,0 +1,108 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadEnv } from "vite";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const DEFAULT_PORT = 8787;
+const DEFAULT_MARKET_CACHE_FILE = ".cache/market-data.json";
+
+// .env.local is read before any service is imported: the Gemini client takes its key at load time
+const env = loadEnv(process.env.NODE_ENV === "production" ? "production" : "development", ROOT, "");
+Object.entries(env).forEach(([key, value]) => {
+  if (process.env[key] === undefined) process.env[key] = value;
+});
+
+const numberFromEnv = (name: string): number | undefined => {
+  const value = process.env[name];
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) throw new Error(`${name} must be a non-negative number, got "${value}"`);
+  return parsed;
+};
+
+const start = async () => {
+  const { setGeminiBackend, isGeminiConfigured, getGeminiBackend } = await import("../services/geminiClient");
+  const { getVerificationConfig } = await import("../services/marketDataProvider");
+  const { createUsageMeter } = await import("../services/usageMeter");
+  const { createMarketDataCache } = await import("../services/marketDataCache");
+  const { createRecordingBackend, createReplayBackend } = await import("../services/geminiRecording");
+  const { createMockGeminiBackend } = await import("./mockGemini");
+  const { readGeminiFixture, writeGeminiFixture } = await import("./fixtureFiles");
+  const { loadStaticData } = await import("./staticData");
+  const { createFileStorage } = await import("./fileStorage");
+  const { createRateLimiter, LOOPBACK_ADDRESSES } = await import("./rateLimiter");
+  const { createProxyServer, DEFAULT_MODEL_LIMITS } = await import("./proxyServer");
+
+  const fixtureFile = process.env.GEMINI_FIXTURE ? path.resolve(process.env.GEMINI_FIXTURE) : null;
+  const backend = (process.env.GEMINI_BACKEND || "gemini").toLowerCase();
+  switch (backend) {
+    case "gemini":
+      break;
+    case "mock":
+      setGeminiBackend(createMockGeminiBackend());
+      break;
+    case "record": {
+      const file = fixtureFile || path.join(ROOT, "recordings", `gemini-${Date.now()}.json`);
+      setGeminiBackend(createRecordingBackend(getGeminiBackend(), {
+        onRecord: (_, fixture) => writeGeminiFixture(file, fixture),
+      }));
+      console.log(`Recording Gemini exchanges to ${file}`);
+      break;
+    }
+    case "replay":
+      if (!fixtureFile) throw new Error("GEMINI_BACKEND=replay needs GEMINI_FIXTURE set to a recorded session");
+      setGeminiBackend(createReplayBackend(readGeminiFixture(fixtureFile), {
+        matchOperation: (process.env.GEMINI_REPLAY_MATCH || "").toLowerCase() === "operation",
+      }));
+      break;
+    default:
+      throw new Error(`Unknown GEMINI_BACKEND "${backend}" (expected gemini, mock, record or replay)`);
+  }
+  if (!isGeminiConfigured()) {
+    console.warn("GEMINI_API_KEY is not set; model requests will fail until it is (or run with GEMINI_BACKEND=mock)");
+  }
+
+  loadStaticData(path.join(ROOT, "public"));
+
+  // The server meters calls for every client in memory, with a server-wide cap on top of
+  // each browser's own budget
+  const budgetUsd = numberFromEnv("USAGE_BUDGET_USD");
+  const usageMeter = createUsageMeter(null, budgetUsd !== undefined ? { budgetUsd } : {});
+
+  // Validated quotes are shared by all clients and kept on disk across restarts, as the browser's
+  // cache kept them across reloads; MARKET_CACHE_FILE=memory keeps them for this process only
+  const cacheSetting = process.env.MARKET_CACHE_FILE || DEFAULT_MARKET_CACHE_FILE;
+  const marketDataCache = createMarketDataCache(cacheSetting === "memory" ? null : createFileStorage(path.resolve(ROOT, cacheSetting)));
+
+  // Which models clients may run on this key, and how long their answers may be
+  const allowedModels = (process.env.GEMINI_ALLOWED_MODELS || "").split(",").map(model => model.trim()).filter(Boolean);
+  const maxOutputTokens = numberFromEnv("MAX_OUTPUT_TOKENS");
+
+  const limit = numberFromEnv("RATE_LIMIT_REQUESTS");
+  const windowMs = numberFromEnv("RATE_LIMIT_WINDOW_MS");
+  const server = createProxyServer({
+    rateLimiter: createRateLimiter({
+      ...(limit !== undefined ? { limit } : {}),
+      ...(windowMs !== undefined ? { windowMs } : {}),
+    }),
+    // Only behind the dev proxy is X-Forwarded-For the browser's address; any local process could set it
+    trustedProxies: process.env.TRUST_DEV_PROXY === "true" ? LOOPBACK_ADDRESSES : [],
+    verification: getVerificationConfig(),
+    usageMeter,
+    marketDataCache,
+    modelLimits: {
+      allowedModels: allowedModels.length > 0 ? allowedModels : DEFAULT_MODEL_LIMITS.allowedModels,
+      maxOutputTokens: maxOutputTokens ?? DEFAULT_MODEL_LIMITS.maxOutputTokens,
+    },
+  });
+
+  const port = numberFromEnv("PROXY_PORT") ?? DEFAULT_PORT;
+  server.listen(port, "127.0.0.1", () => {
+    console.log(`ClimateShift proxy listening on http://127.0.0.1:${port} (${getGeminiBackend().name})`);
+  });
+};
+
+start().catch(error => {
+  console.error("Failed to start the proxy server:", error);
+  process.exit(1);
+});
@@ -0,0 +1,172 @@
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { GeminiBackend } from "../services/geminiClient";
+import { lexiconScore } from "../utils/newsSentiment";
+
+// Established, policy-compliant listings from the bundled reference data, so screening keeps them all
+const MOCK_HOLDINGS = [
+  { ticker: "MSFT", name: "Microsoft Corporation", sector: "Information Technology", type: "Stabilizer", weight: 8 },
+  { ticker: "AAPL", name: "Apple Inc.", sector: "Information Technology", type: "Stabilizer", weight: 8 },
+  { ticker: "NVDA", name: "NVIDIA Corporation", sector: "Information Technology", type: "Growth", weight: 8 },
+  { ticker: "NEE", name: "NextEra Energy, Inc.", sector: "Utilities", type: "Core", weight: 8 },
+  { ticker: "FSLR", name: "First Solar, Inc.", sector: "Information Technology", type: "Growth", weight: 7 },
+  { ticker: "XYL", name: "Xylem Inc.", sector: "Industrials", type: "Core", weight: 8 },
+  { ticker: "WM", name: "Waste Management, Inc.", sector: "Industrials", type: "Core", weight: 8 },
+  { ticker: "AWK", name: "American Water Works Company, Inc.", sector: "Utilities", type: "Core", weight: 7 },
+  { ticker: "DHR", name: "Danaher Corporation", sector: "Health Care", type: "Stabilizer", weight: 8 },
+  { ticker: "TMO", name: "Thermo Fisher Scientific Inc.", sector: "Health Care", type: "Stabilizer", weight: 7 },
+  { ticker: "COST", name: "Costco Wholesale Corporation", sector: "Consumer Staples", type: "Stabilizer", weight: 8 },
+  { ticker: "PG", name: "The Procter & Gamble Company", sector: "Consumer Staples", type: "Stabilizer", weight: 7 },
+  { ticker: "V", name: "Visa Inc.", sector: "Financials", type: "Stabilizer", weight: 8 },
+];
+
+const MARKET_HEADLINES = [
+  { title: "Fed holds rates steady as inflation cools", source: "Reuters", url: "https://www.reuters.com/markets/fed-holds-rates-steady" },
+  { title: "Stocks rally to record high on earnings optimism", source: "Bloomberg", url: "https://www.bloomberg.com/news/stocks-rally-record-high" },
+  { title: "Oil slides on weak demand outlook", source: "CNBC", url: "https://www.cnbc.com/oil-slides-weak-demand" },
+  { title: "Utilities climb as bond yields fall", source: "MarketWatch", url: "https://www.marketwatch.com/story/utilities-climb" },
+];
+
+// Stable pseudo-random fraction in [0, 1) per ticker and field, so repeat fetches agree
+const hashFraction = (seed: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 4294967296;
+};
+
+const between = (seed: string, min: number, max: number): number =>
+  Math.round((min + hashFraction(seed) * (max - min)) * 100) / 100;
+
+const mockQuote = (ticker: string) => ({
+  price: between(`${ticker}:price`, 20, 520),
+  dayChange: between(`${ticker}:day`, -3, 3),
+  oneYearChange: between(`${ticker}:1y`, -15, 45),
+  threeYearChange: between(`${ticker}:3y`, -20, 90),
+  fiveYearChange: between(`${ticker}:5y`, 10, 250),
+  dividendYield: between(`${ticker}:yield`, 0, 3.5),
+});
+
+const promptOf = (params: GenerateContentParameters): string =>
+  typeof params.contents === "string" ? params.contents : JSON.stringify(params.contents);
+
+// The quoted text of a <user_data> block, as embedded by embedUserText
+const userData = (prompt: string, label: string): string => {
+  const match = prompt.match(new RegExp(`<user_data label="${label}">\\n(.*)\\n</user_data>`));
+  if (!match) return "";
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return "";
+  }
+};
+
+const respond = (text: string, groundingMetadata?: unknown): GenerateContentResponse => ({
+  text,
+  candidates: [{ content: { role: "model", parts: [{ text }] }, ...(groundingMetadata ? { groundingMetadata } : {}) }],
+  usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: 300, totalTokenCount: 1500 },
+}) as unknown as GenerateContentResponse;
+
+const headlinesResponse = (headlines: { title: string; source: string; url: string }[]): GenerateContentResponse =>
+  respond(
+    headlines.map((h, i) => `${i + 1}. ${h.title} - ${h.source}`).join("\n"),
+    { groundingChunks: headlines.map(h => ({ web: { uri: h.url, title: h.title } })) }
+  );
+
+// One headline per holding named in the portfolio news query, e.g. "NextEra Energy (NEE)"
+const portfolioHeadlines = (prompt: string) => {
+  const query = userData(prompt, "headline topic");
+  const companies = Array.from(query.matchAll(/(?:^|[:,]\s*)([^,:;()]+?)\s*\(([A-Z.]+)\)/g)).slice(0, 5);
+  const verbs = ["shares climb after strong quarter", "raises guidance on robust demand", "shares slide on weak outlook"];
+  return companies.map(([, name, ticker], i) => ({
+    title: `${name.trim()} ${verbs[i % verbs.length]}`,
+    source: "Reuters",
+    url: `https://www.reuters.com/business/${ticker.toLowerCase()}-${i + 1}`,
+  }));
+};
+
+const structureResponse = (): GenerateContentResponse => respond(JSON.stringify({
+  name: "ClimateShift Alpha",
+  description: "Mock portfolio served by the local development backend.",
+  narrative: "Deterministic sample allocation across sustainable leaders, growth names and stabilizers.",
+  metrics: { projectedReturn: "9-11%", projectedVolatility: "Medium", dividendYield: "1.1%", sharpeRatio: "0.9" },
+  positions: MOCK_HOLDINGS.map(h => ({ ...h, reason: `Sample holding in ${h.sector}.`, esgScore: "AA" })),
+}));
+
+const marketDataResponse = (prompt: string): GenerateContentResponse => {
+  const tickers = (prompt.match(/tickers: ([^\n]+)/)?.[1] || "").split(",").map(t => t.trim()).filter(Boolean);
+  const quotes: Record<string, ReturnType<typeof mockQuote>> = {};
+  tickers.forEach(ticker => { quotes[ticker] = mockQuote(ticker); });
+  return respond("```json\n" + JSON.stringify(quotes) + "\n```");
+};
+
+// A random walk of month-end closes per ticker, so the covariance-based volatility has data offline
+const monthlyClosesResponse = (prompt: string): GenerateContentResponse => {
+  const tickers = (prompt.match(/tickers: ([^\n]+)/)?.[1] || "").split(",").map(t => t.trim()).filter(Boolean);
+  const range = prompt.match(/all (\d+) calendar months from (\d{4})-(\d{2})/);
+  const months = Number(range?.[1] || 61);
+  const [startYear, startMonth] = range ? [Number(range[2]), Number(range[3])] : [2020, 1];
+  const closes: Record<string, Record<string, number>> = {};
+  tickers.forEach(ticker => {
+    let close = between(`${ticker}:price`, 20, 520);
+    closes[ticker] = {};
+    for (let i = 0; i < months; i++) {
+      const month = new Date(Date.UTC(startYear, startMonth - 1 + i, 1)).toISOString().slice(0, 7);
+      // Shared market factor plus a ticker-specific move, both within +/-6% a month
+      close *= 1 + (between(`market:${month}`, -6, 6) + between(`${ticker}:${month}`, -6, 6)) / 100;
+      closes[ticker][month] = Math.round(close * 100) / 100;
+    }
+  });
+  return respond("```json\n" + JSON.stringify(closes) + "\n```");
+};
+
+// Scores the numbered headlines with the lexicon so tone stays meaningful offline
+const sentimentResponse = (prompt: string): GenerateContentResponse => {
+  const lines = userData(prompt, "headlines").split("\n").filter(Boolean);
+  return respond(JSON.stringify(lines.map((line, i) => ({ index: i + 1, score: lexiconScore(line), relevance: 0.5 }))));
+};
+
+const analysisResponse = (prompt: string): GenerateContentResponse => {
+  const ticker = prompt.match(/data for ([A-Z0-9.:-]+?)\.?\s/)?.[1] || "UNKNOWN";
+  const quote = mockQuote(ticker);
+  return respond(JSON.stringify({
+    price: quote.price,
+    currency: "USD",
+    marketCap: { amount: Math.round(quote.price * 1e9), currency: "USD" },
+    peRatio: between(`${ticker}:pe`, 12, 45),
+    dividendYield: quote.dividendYield,
+    performance: { "1W": between(`${ticker}:1w`, -4, 4), "1M": between(`${ticker}:1m`, -8, 8), "3M": between(`${ticker}:3m`, -12, 15), "1Y": quote.oneYearChange, "5Y": quote.fiveYearChange },
+    news: [{ summary: `${ticker} reported results in line with expectations`, url: "https://www.reuters.com/business/mock", source: "Reuters" }],
+    analysis: `${ticker} is served by the mock backend; figures are deterministic samples, not market data.`,
+  }));
+};
+
+/**
+ * Offline stand-in for the Gemini API: deterministic answers shaped like the real ones
+ * for every operation, so the proxy and the app can run without a key.
+ */
+export const createMockGeminiBackend = (): GeminiBackend => ({
+  name: "Mock Gemini",
+  generateContent: async (params, operation) => {
+    const prompt = promptOf(params);
+    switch (operation) {
+      case "structure":
+        return structureResponse();
+      case "replacements":
+        return respond("[]");
+      case "market-data":
+        return prompt.includes("month-end closing prices") ? monthlyClosesResponse(prompt) : marketDataResponse(prompt);
+      case "benchmark":
+        return respond(JSON.stringify({ oneYearChange: 18.4, threeYearChange: 29.7, fiveYearChange: 92.3 }));
+      case "headlines":
+        return headlinesResponse(prompt.includes("Company news:") ? portfolioHeadlines(prompt) : MARKET_HEADLINES);
+      case "sentiment":
+        return sentimentResponse(prompt);
+      case "analysis":
+        return analysisResponse(prompt);
+      default:
+        return respond("");
+    }
+  },
+});
@@ -0,0 +1,313 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { GeneratedPortfolio, ModelConfig, ProgressEvent, StockPosition } from "../types";
+import {
+  analyzeStock,
+  fetchMarketHeadlines,
+  fetchPortfolioHeadlines,
+  generateETFPortfolio,
+  refreshPortfolioPrices,
+} from "../services/geminiService";
+import { getGeminiBackend, isGeminiConfigured } from "../services/geminiClient";
+import { getMarketDataProvider, VerificationConfig } from "../services/marketDataProvider";
+import { createMarketDataCache, MarketDataCache } from "../services/marketDataCache";
+import { MODEL_TASKS, sanitizeModelConfig, setModelConfigResolver } from "../services/modelConfig";
+import { BudgetExceededError, createUsageMeter, DEFAULT_PRICE_TABLE, setUsageMeterResolver, UsageMeter, UsageRecord } from "../services/usageMeter";
+import { CancelledRequestError, RequestError } from "../services/requestScheduler";
+import { isRecord } from "../utils/typeGuards";
+import { clientAddress, createRateLimiter, RateLimiter } from "./rateLimiter";
+
+/**
+ * How a failed request is reported to the browser, which rebuilds the matching error class.
+ * "failed" carries the message of any other error the pipeline raised.
+ */
+export type ProxyErrorKind = "budget" | "retryable" | "fatal" | "cancelled" | "bad-request" | "rate-limited" | "failed";
+
+export interface ProxyError {
+  kind: ProxyErrorKind;
+  message: string;
+  retryAfterMs?: number;
+  spent?: number;
+  budget?: number;
+}
+
+/**
+ * One line of a streamed (NDJSON) response: progress while the operation runs, then exactly
+ * one result or error line. Usage lists the model calls made for this request.
+ */
+export type StreamMessage =
+  | { type: "progress"; event: ProgressEvent }
+  | { type: "result"; data: GeneratedPortfolio; usage: UsageRecord[] }
+  | { type: "error"; error: ProxyError; usage: UsageRecord[] };
+
+export interface ProxyServerOptions {
+  rateLimiter: RateLimiter;
+  // Peers whose X-Forwarded-For is believed when keying the rate limiter (the dev proxy, when
+  // set up behind it); by default none, and every request is limited by its socket peer
+  trustedProxies: string[];
+  // Used when a client asks for cross-verification; null falls back to a repeat fetch
+  verification: VerificationConfig | null;
+  maxBodyBytes: number;
+  // Meters every call the server makes, across clients; holds the server-wide budget
+  usageMeter: UsageMeter;
+  // Shared by every client's refreshes; localStorage doesn't exist here, so the storage is explicit
+  marketDataCache: MarketDataCache;
+  modelLimits: ModelLimits;
+}
+
+// What clients may spend the server's key on; requests outside these limits are refused
+export interface ModelLimits {
+  allowedModels: string[];
+  // Also applied to tasks whose settings leave it unset
+  maxOutputTokens: number;
+}
+
+// The priced models, so every call the server makes counts toward its budget at its real rate
+export const DEFAULT_MODEL_LIMITS: ModelLimits = {
+  allowedModels: Object.keys(DEFAULT_PRICE_TABLE),
+  maxOutputTokens: 65_536,
+};
+
+// What one request runs with: the client's model settings, its server's meter, and the calls made on its behalf
+interface RequestContext {
+  models: ModelConfig;
+  meter: UsageMeter;
+  usage: UsageRecord[];
+}
+
+// Calls are made inside the request's async context, so settings and metering stay per request.
+// One context serves every server in the process, so servers never overwrite or reset each other's.
+const requestContext = new AsyncLocalStorage<RequestContext>();
+setModelConfigResolver(() => requestContext.getStore()?.models);
+setUsageMeterResolver(() => requestContext.getStore()?.meter);
+
+class HttpError extends Error {
+  readonly status: number;
+  readonly kind: ProxyErrorKind;
+
+  constructor(status: number, kind: ProxyErrorKind, message: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.kind = kind;
+  }
+}
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const TICKER_PATTERN = /^[A-Za-z0-9.:-]{1,20}$/;
+
+const badRequest = (message: string) => new HttpError(400, "bad-request", message);
+
+const toProxyError = (error: unknown): { status: number; error: ProxyError } => {
+  if (error instanceof HttpError) return { status: error.status, error: { kind: error.kind, message: error.message } };
+  if (error instanceof BudgetExceededError) {
+    return { status: 402, error: { kind: "budget", message: error.message, spent: error.spent, budget: error.budget } };
+  }
+  if (error instanceof CancelledRequestError) return { status: 499, error: { kind: "cancelled", message: error.message } };
+  if (error instanceof RequestError) {
+    return error.retryable
+      ? { status: 503, error: { kind: "retryable", message: error.message, ...(error.retryAfterMs !== undefined ? { retryAfterMs: error.retryAfterMs } : {}) } }
+      : { status: 502, error: { kind: "fatal", message: error.message } };
+  }
+  return { status: 500, error: { kind: "failed", message: error instanceof Error ? error.message : "Request failed" } };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, "bad-request", `Request body exceeds ${maxBytes} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        const parsed = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : {};
+        if (!isRecord(parsed)) throw new Error("not an object");
+        resolve(parsed);
+      } catch {
+        reject(badRequest("Request body must be a JSON object"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const optionalString = (body: Record<string, unknown>, key: string): string | undefined => {
+  const value = body[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") throw badRequest(`"${key}" must be a string`);
+  return value;
+};
+
+// The browser picks the models, but the key is the server's: unknown models and oversized
+// output limits are refused rather than quietly replaced
+const modelsFrom = (value: unknown, limits: ModelLimits): ModelConfig => {
+  if (value !== undefined && value !== null && !isRecord(value)) throw badRequest('"models" must be an object');
+  const models = sanitizeModelConfig(value);
+  MODEL_TASKS.forEach(task => {
+    const raw = isRecord(value) && isRecord(value[task]) ? value[task] : {};
+    const { model, maxOutputTokens } = models[task];
+    if (!limits.allowedModels.includes(model)) {
+      throw badRequest(`"models.${task}.model" must be one of ${limits.allowedModels.join(", ")}`);
+    }
+    const requested = raw.maxOutputTokens;
+    if ((requested !== undefined && maxOutputTokens === undefined) || (maxOutputTokens ?? 0) > limits.maxOutputTokens) {
+      throw badRequest(`"models.${task}.maxOutputTokens" must be a number from 1 to ${limits.maxOutputTokens}`);
+    }
+    models[task] = { ...models[task], maxOutputTokens: maxOutputTokens ?? limits.maxOutputTokens };
+  });
+  return models;
+};
+
+const positionsFrom = (value: unknown, key: string): StockPosition[] => {
+  if (!Array.isArray(value) || !value.every(p => isRecord(p) && typeof p.ticker === "string")) {
+    throw badRequest(`"${key}" must be an array of positions with tickers`);
+  }
+  return value as StockPosition[];
+};
+
+/**
+ * HTTP proxy that makes every Gemini call on the server, so the API key never reaches the browser.
+ * - GET /api/health: backend and configuration status (not rate limited)
+ * - POST /api/generate { preferences?, verify?, models? }: streams progress, then the portfolio
+ * - POST /api/refresh { portfolio, verify?, models? }: streams progress, then the refreshed portfolio
+ * - POST /api/headlines { scope: "market" | "portfolio", query?, positions?, models? }
+ * - POST /api/analyze { ticker, models? }
+ * Model settings come from the request (the browser owns them), limited to the allowed models and
+ * output size; each response lists the usage it incurred, so the browser's usage meter and budget
+ * keep working.
+ * Requests are rate limited per client address (forwarded by a trusted proxy), and a disconnect cancels the work in flight.
+ */
+export const createProxyServer = (options: Partial<ProxyServerOptions> = {}): Server => {
+  const rateLimiter = options.rateLimiter || createRateLimiter();
+  const trustedProxies = options.trustedProxies || [];
+  const verification = options.verification === undefined ? null : options.verification;
+  const maxBodyBytes = options.maxBodyBytes || DEFAULT_MAX_BODY_BYTES;
+  // Never the browser meter: nothing on the server persists its records, so keep them in memory
+  const usageMeter = options.usageMeter || createUsageMeter(null);
+  const marketDataCache = options.marketDataCache || createMarketDataCache(null);
+  const modelLimits = options.modelLimits || DEFAULT_MODEL_LIMITS;
+  const unsubscribe = usageMeter.subscribe(entry => {
+    const store = requestContext.getStore();
+    if (entry && store?.meter === usageMeter) store.usage.push(entry);
+  });
+
+  const verificationFor = (body: Record<string, unknown>): VerificationConfig | null =>
+    body.verify === true ? verification || {} : null;
+
+  // Streams progress lines while `run` works, then its result or error
+  const stream = async (
+    res: ServerResponse,
+    store: RequestContext,
+    run: (onProgress: (event: ProgressEvent) => void) => Promise<GeneratedPortfolio>
+  ) => {
+    res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store" });
+    const write = (message: StreamMessage) => {
+      if (!res.writableEnded) res.write(`${JSON.stringify(message)}\n`);
+    };
+    try {
+      const data = await run(event => write({ type: "progress", event }));
+      write({ type: "result", data, usage: store.usage });
+    } catch (error) {
+      write({ type: "error", error: toProxyError(error).error, usage: store.usage });
+    }
+    res.end();
+  };
+
+  const routes: Record<string, (body: Record<string, unknown>, res: ServerResponse, store: RequestContext, signal: AbortSignal) => Promise<void>> = {
+    "/api/generate": (body, res, store, signal) => {
+      const preferences = optionalString(body, "preferences");
+      const refreshOptions = { cache: marketDataCache, verification: verificationFor(body) };
+      return stream(res, store, onProgress => generateETFPortfolio(preferences, onProgress, signal, refreshOptions));
+    },
+    "/api/refresh": (body, res, store, signal) => {
+      if (!isRecord(body.portfolio)) throw badRequest('"portfolio" must be an object');
+      positionsFrom(body.portfolio.positions, "portfolio.positions");
+      const portfolio = body.portfolio as unknown as GeneratedPortfolio;
+      const refreshOptions = { cache: marketDataCache, signal, verification: verificationFor(body) };
+      return stream(res, store, onProgress => refreshPortfolioPrices(portfolio, onProgress, refreshOptions));
+    },
+    "/api/headlines": async (body, res, store, signal) => {
+      let data;
+      if (body.scope === "portfolio") {
+        data = await fetchPortfolioHeadlines(positionsFrom(body.positions, "positions"), signal);
+      } else if (body.scope === "market") {
+        data = await fetchMarketHeadlines(optionalString(body, "query"), signal);
+      } else {
+        throw badRequest('"scope" must be "market" or "portfolio"');
+      }
+      sendJson(res, 200, { data, usage: store.usage });
+    },
+    "/api/analyze": async (body, res, store, signal) => {
+      const ticker = optionalString(body, "ticker");
+      if (!ticker || !TICKER_PATTERN.test(ticker)) throw badRequest('"ticker" must be a ticker symbol');
+      sendJson(res, 200, { data: await analyzeStock(ticker.toUpperCase(), signal), usage: store.usage });
+    },
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const pathname = new URL(req.url || "/", "http://localhost").pathname;
+
+    if (pathname === "/api/health") {
+      if (req.method !== "GET") throw new HttpError(405, "bad-request", "Use GET");
+      sendJson(res, 200, {
+        status: "ok",
+        backend: getGeminiBackend().name,
+        configured: isGeminiConfigured(),
+        marketDataProvider: getMarketDataProvider().name,
+        verification: verification !== null,
+      });
+      return;
+    }
+
+    const route = routes[pathname];
+    if (!route) throw new HttpError(404, "bad-request", `No route for ${pathname}`);
+    if (req.method !== "POST") throw new HttpError(405, "bad-request", "Use POST");
+
+    const limit = rateLimiter.take(clientAddress(req.socket.remoteAddress, req.headers["x-forwarded-for"], trustedProxies));
+    if (!limit.allowed) {
+      const retryAfterSeconds = Math.ceil(limit.retryAfterMs / 1000);
+      sendJson(res, 429, { error: { kind: "rate-limited", message: "Too many requests, try again shortly", retryAfterMs: limit.retryAfterMs } }, {
+        "Retry-After": String(retryAfterSeconds),
+      });
+      return;
+    }
+
+    const body = await readJsonBody(req, maxBodyBytes);
+
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    const store: RequestContext = { models: modelsFrom(body.models, modelLimits), meter: usageMeter, usage: [] };
+    try {
+      await requestContext.run(store, () => route(body, res, store, controller.signal));
+    } catch (error) {
+      // Calls made before the failure were still billed
+      throw Object.assign(error instanceof Error ? error : new Error(String(error)), { usage: store.usage });
+    }
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      const { status, error: body } = toProxyError(error);
+      if (status === 500) console.error("Proxy request failed:", error);
+      if (!res.headersSent) sendJson(res, status, { error: body, usage: error?.usage || [] });
+      else if (!res.writableEnded) res.end();
+    });
+  });
+
+  server.on("close", unsubscribe);
+  return server;
+};
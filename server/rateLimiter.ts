@@ -0,0 +1,75 @@
+export interface RateLimitOptions {
+  // Requests allowed per client in each window
+  limit: number;
+  windowMs: number;
+  now: () => number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  // Until the client's window resets; 0 when allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (clientId: string) => RateLimitDecision;
+  reset: () => void;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = {
+  limit: 30,
+  windowMs: 60_000,
+  now: () => Date.now(),
+};
+
+/**
+ * Fixed-window limiter keyed by client. Each model-backed request counts once, however many
+ * Gemini calls it fans out into; the shared scheduler paces those separately.
+ */
+export const createRateLimiter = (options: Partial<RateLimitOptions> = {}): RateLimiter => {
+  const config: RateLimitOptions = { ...DEFAULT_RATE_LIMIT, ...options };
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return {
+    take: (clientId) => {
+      const now = config.now();
+      // Expired windows are dropped as they are seen so idle clients don't accumulate
+      windows.forEach((window, id) => {
+        if (now - window.startedAt >= config.windowMs) windows.delete(id);
+      });
+
+      const window = windows.get(clientId) || { startedAt: now, count: 0 };
+      if (window.count >= config.limit) {
+        return { allowed: false, remaining: 0, retryAfterMs: window.startedAt + config.windowMs - now };
+      }
+      window.count++;
+      windows.set(clientId, window);
+      return { allowed: true, remaining: config.limit - window.count, retryAfterMs: 0 };
+    },
+    reset: () => windows.clear(),
+  };
+};
+
+// Where the Vite dev proxy connects from: it runs on the same machine as the server
+export const LOOPBACK_ADDRESSES = ["127.0.0.1", "::1", "::ffff:127.0.0.1"];
+
+/**
+ * The address to rate limit a request by: the socket peer, unless that is a trusted proxy.
+ * Behind the dev proxy every request arrives from the proxy's own socket, so its X-Forwarded-For
+ * names the client instead. Only the last entry is used: that is the one the proxy appended,
+ * while earlier ones come from the client. With no trusted proxies the header is ignored.
+ */
+export const clientAddress = (
+  remoteAddress: string | undefined,
+  forwardedFor: string | string[] | undefined,
+  trustedProxies: string[]
+): string => {
+  const peer = remoteAddress || "unknown";
+  if (!trustedProxies.includes(peer) || forwardedFor === undefined) return peer;
+  const entries = (Array.isArray(forwardedFor) ? forwardedFor.join(",") : forwardedFor)
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return entries[entries.length - 1] || peer;
+};
@@ -0,0 +1,60 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { parseCompanyReference, setCompanyReference } from "../services/companyReference";
+import { parseSymbolMasterCsv, setSymbolMaster } from "../services/symbolMaster";
+import {
+  LocalMarketDataset,
+  createLocalMarketDataProvider,
+  parseHistoryCsv,
+  parseQuotesCsv,
+  parseQuotesJson,
+} from "../services/localMarketDataProvider";
+import { setMarketDataProvider, setVerificationConfig } from "../services/marketDataProvider";
+
+const DEFAULT_LOCAL_DATA_PATH = "/market-data";
+
+const readOptional = (file: string): string | null => (existsSync(file) ? readFileSync(file, "utf8") : null);
+
+/**
+ * Reads market data fixtures from disk, with the same files and precedence as
+ * loadLocalMarketDataset: quotes.json or quotes.csv, plus an optional history.csv.
+ */
+export const readLocalMarketDataset = (directory: string): LocalMarketDataset => {
+  const quotesJson = readOptional(path.join(directory, "quotes.json"));
+  const quotesCsv = quotesJson ? null : readOptional(path.join(directory, "quotes.csv"));
+  if (!quotesJson && !quotesCsv) {
+    throw new Error(`No market data fixtures found at ${directory} (expected quotes.json or quotes.csv)`);
+  }
+
+  const dataset = quotesJson ? parseQuotesJson(quotesJson) : { quotes: parseQuotesCsv(quotesCsv!) };
+  const historyCsv = readOptional(path.join(directory, "history.csv"));
+  if (historyCsv) {
+    dataset.history = { ...dataset.history, ...parseHistoryCsv(historyCsv) };
+  }
+  return dataset;
+};
+
+/**
+ * The browser loads reference data and fixtures over HTTP from public/; the server has no
+ * origin to fetch from, so this reads the same files from disk and installs them as overrides.
+ * Missing reference files are skipped and fall back to the services' own degraded behavior.
+ */
+export const loadStaticData = (publicDir: string, env: NodeJS.ProcessEnv = process.env): void => {
+  const companies = readOptional(path.join(publicDir, "reference-data", "companies.json"));
+  if (companies) setCompanyReference(parseCompanyReference(companies));
+
+  // The bundled symbols.csv is a sample; set SYMBOL_MASTER_COMPLETE=true after replacing it
+  // with a full exchange listing so unknown tickers are rejected instead of flagged
+  const symbols = readOptional(path.join(publicDir, "reference-data", "symbols.csv"));
+  if (symbols) setSymbolMaster(parseSymbolMasterCsv(symbols, { complete: env.SYMBOL_MASTER_COMPLETE === "true" }));
+
+  const usesLocal = (env.MARKET_DATA_PROVIDER || "").toLowerCase() === "local";
+  const verifiesLocal = (env.MARKET_DATA_VERIFICATION || "").toLowerCase() === "local";
+  if (!usesLocal && !verifiesLocal) return;
+
+  // MARKET_DATA_PATH is a URL path under public/, as it is for the browser
+  const dataPath = (env.MARKET_DATA_PATH || DEFAULT_LOCAL_DATA_PATH).replace(/^\/+/, "");
+  const provider = createLocalMarketDataProvider(readLocalMarketDataset(path.join(publicDir, dataPath)));
+  if (usesLocal) setMarketDataProvider(provider);
+  if (verifiesLocal) setVerificationConfig({ provider });
+};
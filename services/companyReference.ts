@@ -0,0 +1,43 @@
+import { CompanyReferenceDataset } from "../utils/exclusionPolicy";
+import { createReferenceCache, loadReferenceFile } from "../utils/referenceFiles";
+
+const DEFAULT_REFERENCE_URL = '/reference-data/companies.json';
+
+/**
+ * Parses a companies.json dataset. Tickers are upper-cased so lookups match normalized positions.
+ */
+export const parseCompanyReference = (text: string): CompanyReferenceDataset => {
+  const parsed = JSON.parse(text) as CompanyReferenceDataset;
+  const companies: CompanyReferenceDataset['companies'] = {};
+  Object.entries(parsed.companies || {}).forEach(([ticker, company]) => {
+    companies[ticker.toUpperCase()] = company;
+  });
+  return { ...parsed, companies };
+};
+
+/**
+ * Loads the company reference dataset (sectors, listing dates, revenue flags) used by the
+ * exclusion policy.
+ */
+export const loadCompanyReference = (url: string): Promise<CompanyReferenceDataset> =>
+  loadReferenceFile(url, parseCompanyReference, 'company reference data');
+
+// If the dataset cannot be loaded the policy still runs on ticker blocklists and reported sectors
+const reference = createReferenceCache<CompanyReferenceDataset>(
+  () => loadCompanyReference(DEFAULT_REFERENCE_URL),
+  error => {
+    console.warn('Company reference data unavailable, screening on tickers and reported sectors only', error);
+    return { companies: {} };
+  }
+);
+
+/**
+ * Returns the shared reference dataset, loading it on first use.
+ */
+export const getCompanyReference = (): Promise<CompanyReferenceDataset> => reference.get();
+
+/**
+ * Overrides the reference dataset (e.g. a vendor feed or a test fixture).
+ * Pass null to go back to loading the bundled file.
+ */
+export const setCompanyReference = (dataset: CompanyReferenceDataset | null): void => reference.set(dataset);
@@ -0,0 +1,64 @@
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { createRequestScheduler } from "./requestScheduler";
+import { getUsageMeter, UsageOperation } from "./usageMeter";
+
+// Only ever set on the server; the browser bundle talks to the proxy instead
+const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY || '';
+
+// Shared Gemini client used by every service that talks to the model
+export const ai = new GoogleGenAI({ apiKey });
+
+/**
+ * Whatever answers model calls: the Gemini API by default, or a stand-in such as the
+ * proxy server's mock backend. `operation` says which task the call belongs to.
+ */
+export interface GeminiBackend {
+  name: string;
+  generateContent: (params: GenerateContentParameters, operation: UsageOperation) => Promise<GenerateContentResponse>;
+  // When the backend's answers are from; a replay answers as of its recording. Defaults to now.
+  now?: () => number;
+}
+
+const sdkBackend: GeminiBackend = {
+  name: 'Gemini API',
+  generateContent: (params) => ai.models.generateContent(params),
+};
+
+let activeBackend: GeminiBackend | null = null;
+
+export const getGeminiBackend = (): GeminiBackend => activeBackend || sdkBackend;
+
+/**
+ * Overrides the backend (e.g. the mock used for local development and tests).
+ * Pass null to go back to the Gemini API.
+ */
+export const setGeminiBackend = (backend: GeminiBackend | null): void => {
+  activeBackend = backend;
+};
+
+// The time date-dependent prompts are written for, so replayed sessions ask what was recorded
+export const geminiNow = (): number => getGeminiBackend().now?.() ?? Date.now();
+
+// True when calls can be made: an API key is configured or a backend override is set
+export const isGeminiConfigured = (): boolean => activeBackend !== null || apiKey !== '';
+
+// One scheduler for the whole key so concurrency and the per-minute budget are global
+export const geminiScheduler = createRequestScheduler();
+
+/**
+ * Calls Gemini through the shared scheduler, metering every attempt under `operation`.
+ * Rejects with a RetryableRequestError (retries exhausted) or FatalRequestError,
+ * a BudgetExceededError once the session's usage budget is spent,
+ * or a CancelledRequestError once `signal` aborts (the HTTP request is aborted too).
+ */
+export const generateContent = (
+  params: GenerateContentParameters,
+  signal?: AbortSignal,
+  operation: UsageOperation = 'other'
+): Promise<GenerateContentResponse> =>
+  geminiScheduler.schedule(
+    () => getUsageMeter().measure(operation, params.model, () =>
+      getGeminiBackend().generateContent(signal ? { ...params, config: { ...params.config, abortSignal: signal } } : params, operation)
+    ),
+    signal
+  );
@@ -0,0 +1,162 @@
+import { GenerateContentResponse } from "@google/genai";
+import { SourcedQuote, SourcedBenchmark, SourcedReturnSeries } from "../types";
+import { geminiNow, generateContent, isGeminiConfigured } from "./geminiClient";
+import { MarketDataProvider } from "./marketDataProvider";
+import { modelRequestFor } from "./modelConfig";
+import { renderPrompt } from "../utils/promptTemplates";
+import { lastCompleteMonth, monthlyReturnsFromCloses, shiftMonth } from "../utils/riskModel";
+import { attributeSourcesToTickers, collectGroundingSources, GroundingMetadataLike } from "../utils/provenance";
+import { isRecord } from "../utils/typeGuards";
+
+const BENCHMARK_TICKER = "SPY";
+
+const groundingMetadata = (response: GenerateContentResponse): GroundingMetadataLike | undefined =>
+  response.candidates?.[0]?.groundingMetadata as GroundingMetadataLike | undefined;
+
+const fetchStockBatch = async (tickers: string[], signal?: AbortSignal): Promise<Record<string, SourcedQuote>> => {
+  const { model, config: parameters } = modelRequestFor("enrichment");
+  const tickerString = tickers.join(", ");
+  const { text: prompt, lineage } = renderPrompt("stock-batch-data", { tickers: tickerString });
+
+  // API failures propagate as classified RequestErrors so the caller can tell transient from fatal
+  const response = await generateContent({
+    model,
+    contents: prompt,
+    config: {
+      ...parameters,
+      tools: [{ googleSearch: {} }]
+    }
+  }, signal, "market-data");
+
+  const text = response.text || "";
+  // Robust JSON extraction
+  const cleanJson = text.replace(/```json|```/g, '').trim();
+  const jsonMatch = cleanJson.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+      let parsed: unknown;
+      try {
+          parsed = JSON.parse(jsonMatch[0]);
+      } catch (e) {
+          console.warn(`Failed to parse stock batch JSON for ${tickerString}:`, e);
+          return {};
+      }
+      if (!isRecord(parsed)) return {};
+
+      // Attach the search results each ticker's numbers were grounded on
+      const sources = attributeSourcesToTickers(Object.keys(parsed), groundingMetadata(response));
+      const quotes: Record<string, SourcedQuote> = {};
+      Object.entries(parsed).forEach(([ticker, quote]) => {
+        const cited = sources[ticker];
+        // The prompt that produced each quote travels with it, like its sources
+        quotes[ticker] = (isRecord(quote) ? { ...quote, ...(cited.length > 0 ? { sources: cited } : {}), prompt: lineage } : quote) as SourcedQuote;
+      });
+      return quotes;
+  }
+  return {};
+};
+
+const fetchBenchmarkData = async (signal?: AbortSignal): Promise<SourcedBenchmark> => {
+  const { model, config: parameters } = modelRequestFor("enrichment");
+  const { text: prompt, lineage } = renderPrompt("benchmark-returns");
+
+  const response = await generateContent({
+    model,
+    contents: prompt,
+    config: {
+      ...parameters,
+      tools: [{ googleSearch: {} }]
+    }
+  }, signal, "benchmark");
+
+  const text = response.text || "";
+  const cleanJson = text.replace(/```json|```/g, '').trim();
+  const jsonMatch = cleanJson.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+      try {
+          const parsed = JSON.parse(jsonMatch[0]);
+          if (!isRecord(parsed)) return parsed;
+          const sources = collectGroundingSources(groundingMetadata(response));
+          return { ...parsed, ...(sources.length > 0 ? { sources } : {}), prompt: lineage };
+      } catch (e) {
+          console.warn('Failed to parse benchmark JSON:', e);
+          return {};
+      }
+  }
+  return {};
+};
+
+// Month-end closes through the last completed month; one more close than returns is needed
+const fetchMonthlyCloses = async (tickers: string[], months: number, signal?: AbortSignal): Promise<Record<string, SourcedReturnSeries>> => {
+  const { model, config: parameters } = modelRequestFor("enrichment");
+  const lastMonth = lastCompleteMonth(new Date(geminiNow()));
+  const { text: prompt, lineage } = renderPrompt("monthly-closes", {
+    tickers: tickers.join(", "),
+    months: months + 1,
+    firstMonth: shiftMonth(lastMonth, -months),
+    lastMonth,
+  });
+
+  const response = await generateContent({
+    model,
+    contents: prompt,
+    config: {
+      ...parameters,
+      tools: [{ googleSearch: {} }]
+    }
+  }, signal, "market-data");
+
+  const cleanJson = (response.text || "").replace(/```json|```/g, '').trim();
+  const jsonMatch = cleanJson.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (e) {
+    console.warn(`Failed to parse monthly closes JSON for ${tickers.join(", ")}:`, e);
+    return {};
+  }
+  if (!isRecord(parsed)) return {};
+
+  const sources = attributeSourcesToTickers(Object.keys(parsed), groundingMetadata(response));
+  const series: Record<string, SourcedReturnSeries> = {};
+  Object.entries(parsed).forEach(([ticker, closes]) => {
+    if (!isRecord(closes)) return;
+    const points = Object.entries(closes)
+      .filter((entry): entry is [string, number] => typeof entry[1] === "number")
+      .map(([date, close]) => ({ date, close }));
+    const returns = monthlyReturnsFromCloses(points, months);
+    if (returns.length === 0) return;
+    const cited = sources[ticker];
+    series[ticker] = { returns, ...(cited.length > 0 ? { sources: cited } : {}), prompt: lineage };
+  });
+  return series;
+};
+
+/**
+ * Market data sourced from search-grounded Gemini answers.
+ * Small batches keep each prompt focused enough for the model to find every ticker;
+ * calls go through the shared scheduler for concurrency, rate limiting and retries.
+ */
+export const geminiMarketDataProvider: MarketDataProvider = {
+  name: "Gemini Search",
+  batchSize: 4,
+  fetchQuotes: async (tickers, signal) => {
+    if (!isGeminiConfigured()) throw new Error("API Key is missing");
+    return fetchStockBatch(tickers, signal);
+  },
+  fetchBenchmark: async (signal) => {
+    if (!isGeminiConfigured()) throw new Error("API Key is missing");
+    return fetchBenchmarkData(signal);
+  },
+  fetchMonthlyReturns: async (tickers, months, signal) => {
+    if (!isGeminiConfigured()) throw new Error("API Key is missing");
+    return fetchMonthlyCloses(tickers, months, signal);
+  },
+  // SPY's adjusted closes stand in for the S&P 500 total return
+  fetchBenchmarkMonthlyReturns: async (months, signal) => {
+    if (!isGeminiConfigured()) throw new Error("API Key is missing");
+    const series = await fetchMonthlyCloses([BENCHMARK_TICKER], months, signal);
+    return series[BENCHMARK_TICKER] || { returns: [] };
+  },
+  modelSettings: () => modelRequestFor("enrichment").settings,
+};
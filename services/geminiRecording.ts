@@ -0,0 +1,209 @@
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { GeminiBackend } from "./geminiClient";
+import { UsageMetadataLike, UsageOperation } from "./usageMeter";
+import { extractStatus, FatalRequestError } from "./requestScheduler";
+import { hashPrompt } from "../utils/promptTemplates";
+
+export const GEMINI_FIXTURE_VERSION = 1;
+
+// What was asked: the request minus anything tied to the live call, such as the abort signal
+export interface RecordedRequest {
+  model: string;
+  contents: unknown;
+  config?: Record<string, unknown>;
+}
+
+export interface RecordedCandidate {
+  finishReason?: string;
+  groundingMetadata?: unknown;
+}
+
+export interface RecordedResponse {
+  text: string;
+  candidates: RecordedCandidate[];
+  usageMetadata?: UsageMetadataLike;
+}
+
+// A failed call, replayed as the same error so retry handling is reproduced too
+export interface RecordedError {
+  message: string;
+  status?: number;
+}
+
+export interface RecordedExchange {
+  fingerprint: string;
+  operation: UsageOperation;
+  recordedAt: number;
+  request: RecordedRequest;
+  response?: RecordedResponse;
+  error?: RecordedError;
+}
+
+export interface GeminiFixture {
+  version: number;
+  exchanges: RecordedExchange[];
+}
+
+/**
+ * Raised in replay when no recorded exchange matches a request, usually because a prompt
+ * template, model setting or input changed since the fixture was recorded.
+ */
+export class ReplayMissError extends FatalRequestError {
+  readonly fingerprint: string;
+
+  constructor(operation: UsageOperation, fingerprint: string) {
+    super(`No recorded Gemini response for ${operation} request ${fingerprint}`);
+    this.name = "ReplayMissError";
+    this.fingerprint = fingerprint;
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+// JSON with sorted keys and without undefined values, so equal requests serialize identically
+const canonical = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (!isPlainObject(value)) return value;
+  const sorted: Record<string, unknown> = {};
+  Object.keys(value).sort().forEach(key => {
+    if (value[key] !== undefined) sorted[key] = canonical(value[key]);
+  });
+  return sorted;
+};
+
+/**
+ * The replayable part of a request; the abort signal and other per-call values are dropped.
+ */
+export const toRecordedRequest = (params: GenerateContentParameters): RecordedRequest => {
+  const { abortSignal, httpOptions, ...config } = params.config || {};
+  return canonical({
+    model: params.model,
+    contents: params.contents,
+    ...(Object.keys(config).length > 0 ? { config } : {}),
+  }) as RecordedRequest;
+};
+
+/**
+ * Stable hash of model, contents and config. Key order and per-call options don't change it.
+ */
+export const fingerprintRequest = (params: GenerateContentParameters): string =>
+  hashPrompt(JSON.stringify(toRecordedRequest(params)));
+
+const toRecordedResponse = (response: GenerateContentResponse): RecordedResponse => ({
+  text: response.text || "",
+  candidates: (response.candidates || []).map(candidate => canonical({
+    finishReason: candidate.finishReason,
+    groundingMetadata: candidate.groundingMetadata,
+  }) as RecordedCandidate),
+  ...(response.usageMetadata ? { usageMetadata: response.usageMetadata } : {}),
+});
+
+const toResponse = ({ text, candidates, usageMetadata }: RecordedResponse): GenerateContentResponse => ({
+  text,
+  candidates: (candidates.length > 0 ? candidates : [{}]).map(candidate => ({
+    content: { role: "model", parts: [{ text }] },
+    ...candidate,
+  })),
+  ...(usageMetadata ? { usageMetadata } : {}),
+}) as unknown as GenerateContentResponse;
+
+export interface RecordingBackend extends GeminiBackend {
+  fixture: () => GeminiFixture;
+}
+
+export interface RecordingOptions {
+  // Called after every exchange, e.g. to write the fixture file as the session goes
+  onRecord?: (exchange: RecordedExchange, fixture: GeminiFixture) => void;
+  now: () => number;
+}
+
+/**
+ * Passes every call to `inner` and records the request with its response or error,
+ * in call order. Text and grounding metadata are kept; nothing else from the response is.
+ */
+export const createRecordingBackend = (
+  inner: GeminiBackend,
+  options: Partial<RecordingOptions> = {}
+): RecordingBackend => {
+  const now = options.now || (() => Date.now());
+  const exchanges: RecordedExchange[] = [];
+  const fixture = (): GeminiFixture => ({ version: GEMINI_FIXTURE_VERSION, exchanges: [...exchanges] });
+
+  const record = (exchange: RecordedExchange) => {
+    exchanges.push(exchange);
+    options.onRecord?.(exchange, fixture());
+  };
+
+  return {
+    name: `${inner.name} (recording)`,
+    fixture,
+    ...(inner.now ? { now: inner.now } : {}),
+    generateContent: async (params, operation) => {
+      const base = { fingerprint: fingerprintRequest(params), operation, recordedAt: now(), request: toRecordedRequest(params) };
+      try {
+        const response = await inner.generateContent(params, operation);
+        record({ ...base, response: toRecordedResponse(response) });
+        return response;
+      } catch (error) {
+        // A cancelled call says nothing about the model, so it isn't recorded
+        if (!params.config?.abortSignal?.aborted) {
+          const status = extractStatus(error);
+          record({ ...base, error: { message: error instanceof Error ? error.message : String(error), ...(status !== undefined ? { status } : {}) } });
+        }
+        throw error;
+      }
+    },
+  };
+};
+
+export interface ReplayOptions {
+  // When nothing matches the fingerprint, serve the next unused exchange of the same operation
+  // instead of failing. Useful once prompts have drifted from the recording.
+  matchOperation: boolean;
+}
+
+/**
+ * Serves recorded exchanges by request fingerprint. Repeated identical requests get the
+ * recorded answers in order, and the last one again once those run out.
+ * Unmatched requests reject with ReplayMissError. The backend's clock stands at the start of
+ * the recording, so prompts that name months (monthly closes) match in later months too.
+ */
+export const createReplayBackend = (
+  fixture: GeminiFixture,
+  options: Partial<ReplayOptions> = {}
+): GeminiBackend => {
+  if (fixture.version !== GEMINI_FIXTURE_VERSION) {
+    throw new Error(`Unsupported Gemini fixture version ${fixture.version}`);
+  }
+
+  const served = new Map<string, number>();
+  const used = new Set<RecordedExchange>();
+  const recordedAt = fixture.exchanges.length > 0 ? fixture.exchanges[0].recordedAt : null;
+
+  const next = (candidates: RecordedExchange[], key: string): RecordedExchange | undefined => {
+    if (candidates.length === 0) return undefined;
+    const index = served.get(key) ?? 0;
+    served.set(key, index + 1);
+    return candidates[Math.min(index, candidates.length - 1)];
+  };
+
+  return {
+    name: "Gemini replay",
+    now: () => recordedAt ?? Date.now(),
+    generateContent: async (params, operation) => {
+      const fingerprint = fingerprintRequest(params);
+      let exchange = next(fixture.exchanges.filter(e => e.fingerprint === fingerprint), fingerprint);
+      if (!exchange && options.matchOperation) {
+        exchange = fixture.exchanges.find(e => e.operation === operation && !used.has(e));
+      }
+      if (!exchange) throw new ReplayMissError(operation, fingerprint);
+      used.add(exchange);
+
+      if (exchange.error) {
+        throw Object.assign(new Error(exchange.error.message), exchange.error.status !== undefined ? { status: exchange.error.status } : {});
+      }
+      return toResponse(exchange.response!);
+    },
+  };
+};
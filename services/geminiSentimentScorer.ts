@@ -0,0 +1,59 @@
+import { Type } from "@google/genai";
+import { generateContent, isGeminiConfigured } from "./geminiClient";
+import { modelRequestFor } from "./modelConfig";
+import { HeadlineScore, SentimentScorer } from "./sentimentScorer";
+import { renderPrompt } from "../utils/promptTemplates";
+import { embedUserText } from "../utils/promptGuard";
+
+const SCORE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      index: { type: Type.NUMBER, description: "Headline number from the list" },
+      score: { type: Type.NUMBER, description: "-1 (very negative) to 1 (very positive)" },
+      relevance: { type: Type.NUMBER, description: "0 (unrelated to the holdings) to 1 (about a holding)" }
+    },
+    required: ["index", "score", "relevance"]
+  }
+};
+
+/**
+ * LLM scorer: one structured-output call per batch of headlines, using the headlines model settings.
+ * Headline text comes from the web, so it is embedded as quoted data.
+ */
+export const geminiSentimentScorer: SentimentScorer = {
+  name: "Gemini",
+  scoreHeadlines: async (headlines, positions, signal) => {
+    if (!isGeminiConfigured()) throw new Error("API Key is missing");
+
+    const holdings = positions.length > 0
+      ? positions.map(p => `- ${p.ticker}, ${p.name}, ${p.weight.toFixed(1)}%, ${p.sector}`).join("\n")
+      : "- None (score for the broad market)";
+    const numbered = headlines.map((h, i) => `${i + 1}. ${h.title} (${h.source})`).join("\n");
+    const { text: prompt } = renderPrompt("headline-sentiment", { holdings, headlines: embedUserText("headlines", numbered) });
+
+    const { model, config: parameters } = modelRequestFor("headlines");
+    const response = await generateContent({
+      model,
+      contents: prompt,
+      config: {
+        ...parameters,
+        responseMimeType: "application/json",
+        responseSchema: SCORE_SCHEMA
+      }
+    }, signal, "sentiment");
+
+    const parsed = JSON.parse(response.text || "[]");
+    const scores: (HeadlineScore | undefined)[] = new Array(headlines.length).fill(undefined);
+    if (!Array.isArray(parsed)) return scores;
+
+    parsed.forEach(entry => {
+      const index = typeof entry?.index === "number" ? entry.index - 1 : -1;
+      if (index >= 0 && index < headlines.length && typeof entry.score === "number" && typeof entry.relevance === "number") {
+        scores[index] = { score: entry.score, relevance: entry.relevance };
+      }
+    });
+    return scores;
+  },
+};
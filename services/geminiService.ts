@@ -1,280 +1,190 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { GeneratedPortfolio, StockAnalysisResult, StockPosition, NewsHeadline, GroundingChunk } from "../types";
-
-const apiKey = process.env.API_KEY || '';
-
-// Initialize the Gemini client
-const ai = new GoogleGenAI({ apiKey });
+import { Type } from "@google/genai";
+import { GeneratedPortfolio, StockAnalysisResult, NewsHeadline, GroundingChunk, MarketQuote, BenchmarkReturns, DataRejection, ProgressEvent, FieldProvenance, BenchmarkField, MarketDataField, FieldVerification, StockPosition, PolicyViolation, SymbolIssue, PromptLineage, ReturnHistory, SourcedReturnSeries } from "../types";
+import { generateContent, isGeminiConfigured } from "./geminiClient";
+import { MarketDataProvider, VerificationConfig, getMarketDataProvider, getVerificationConfig } from "./marketDataProvider";
+import { MarketDataCache, CachedQuote, marketDataCache } from "./marketDataCache";
+import { RetryableRequestError, isCancellation, throwIfAborted } from "./requestScheduler";
+import { ValidatedQuote, ValidatedBenchmark, validateQuoteBatch, validateBenchmark, validateReturnSeries, QUOTE_TO_POSITION_FIELD, BENCHMARK_FIELD } from "../utils/marketDataValidation";
+import { sanitizeSources, GroundingMetadataLike } from "../utils/provenance";
+import { parseStockAnalysis } from "../utils/stockAnalysisParser";
+import { parseHeadlineList, matchHeadlines, headlinesFromChunks } from "../utils/headlineMatching";
+import { createProgressReporter, ProgressReporter, GENERATION_STAGES, REFRESH_STAGES, VERIFIED_REFRESH_STAGES } from "../utils/progress";
+import { compareQuotes } from "../utils/crossVerification";
+import { applyCalculatedMetrics } from "../utils/calculations";
+import { COVARIANCE_WINDOW_MONTHS, lastCompleteMonth } from "../utils/riskModel";
+import { normalizePortfolio, DEFAULT_NORMALIZATION_RULES } from "../utils/portfolioNormalization";
+import { checkPosition } from "../utils/exclusionPolicy";
+import { resolveSymbol, requiresReplacement, isBlockingIssue, toListingInfo } from "../utils/symbolResolution";
+import { getCompanyReference } from "./companyReference";
+import { getSymbolMaster } from "./symbolMaster";
+import { modelRequestFor } from "./modelConfig";
+import { scoreHeadlines } from "./sentimentScorer";
+import { renderPrompt, uniqueLineage, lineageOf } from "../utils/promptTemplates";
+import { buildPortfolioNewsQuery, tagHeadlines, attachHeadlines } from "../utils/newsTagging";
+import { guardUserText, embedUserText, describeFindings, PREFERENCES_GUARD, SEARCH_QUERY_GUARD } from "../utils/promptGuard";
+
+// Shared by the structure prompt and the replacement prompt
+const POSITION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    ticker: { type: Type.STRING },
+    name: { type: Type.STRING },
+    weight: { type: Type.NUMBER, description: "Percentage as a number, e.g. 5.5" },
+    sector: { type: Type.STRING },
+    reason: { type: Type.STRING, description: "Why it was included given the constraints." },
+    esgScore: { type: Type.STRING, description: "Rating like AAA, AA, A" },
+    type: { type: Type.STRING, enum: ["Core", "Growth", "Stabilizer"] }
+  },
+  required: ["ticker", "name", "weight", "sector", "reason", "esgScore", "type"]
+};
 
 /**
  * Validates and sanitizes user preferences input to prevent prompt injection.
- * Returns sanitized string or throws an error if invalid.
+ * Returns sanitized string or throws an error listing why the input was blocked.
+ * Suspicious but allowed text (e.g. "instead of") passes; it is embedded as quoted data either way.
  */
 export const validateUserPreferences = (input: string): string => {
-  // Check for empty input
-  if (!input || input.trim().length === 0) {
-    throw new Error("Preferences cannot be empty");
-  }
-  
-  // Enforce maximum length (500 characters)
-  if (input.length > 500) {
-    throw new Error("Preferences must be under 500 characters");
-  }
-  
-  // Remove any potential injection patterns (instructions to ignore rules)
-  const suspiciousPatterns = [
-    /ignore\s+(the\s+)?(previous|above|all|safety|instructions?|rules?|guidelines?)/gi,
-    /disregard\s+(the\s+)?(previous|above|all|safety|instructions?|rules?|guidelines?)/gi,
-    /override\s+(the\s+)?(previous|above|all|safety|instructions?|rules?|guidelines?)/gi,
-    /forget\s+(the\s+)?(previous|above|all|safety|instructions?|rules?|guidelines?)/gi,
-  ];
-  
-  for (const pattern of suspiciousPatterns) {
-    if (pattern.test(input)) {
-      throw new Error("Invalid input detected. Please rephrase your preferences.");
-    }
+  const result = guardUserText(input, PREFERENCES_GUARD);
+  if (result.classification === 'blocked') {
+    throw new Error(`Invalid input detected: ${describeFindings(result.findings.filter(f => f.severity === 'block'))}. Please rephrase your preferences.`);
   }
-  
-  // Sanitize: trim whitespace and collapse multiple spaces
-  const sanitized = input.trim().replace(/\s+/g, ' ');
-  
-  return sanitized;
+  return result.sanitized;
 };
 
+const DEFAULT_HEADLINES_QUERY = "major global financial news and market movers";
+
 /**
  * Validates and sanitizes the headlines query parameter.
- * Returns sanitized string or the default query if invalid.
+ * Returns the sanitized query, or the default query unless the guard finds nothing at all.
  */
 const sanitizeHeadlinesQuery = (input: string): string => {
-  const defaultQuery = "major global financial news and market movers";
-  
-  // If empty or too short, use default
-  if (!input || input.trim().length < 3) {
-    return defaultQuery;
-  }
-  
-  // Enforce maximum length (200 characters for a search query)
-  if (input.length > 200) {
-    return defaultQuery;
-  }
-  
-  // Check for prompt injection patterns
-  const suspiciousPatterns = [
-    /ignore\s+(the\s+)?(previous|above|all|safety|instructions?|rules?|guidelines?)/gi,
-    /disregard\s+(the\s+)?(previous|above|all|safety|instructions?|rules?|guidelines?)/gi,
-    /override\s+(the\s+)?(previous|above|all|safety|instructions?|rules?|guidelines?)/gi,
-    /forget\s+(the\s+)?(previous|above|all|safety|instructions?|rules?|guidelines?)/gi,
-    /instead\s+(of|,)/gi,
-    /do\s+not\s+follow/gi,
-  ];
-  
-  for (const pattern of suspiciousPatterns) {
-    if (pattern.test(input)) {
-      return defaultQuery;
-    }
-  }
-  
-  // Sanitize: trim whitespace and collapse multiple spaces
-  return input.trim().replace(/\s+/g, ' ');
+  const result = guardUserText(input, SEARCH_QUERY_GUARD);
+  return result.classification === 'safe' ? result.sanitized : DEFAULT_HEADLINES_QUERY;
 };
 
-export const fetchMarketHeadlines = async (query: string = "major global financial news and market movers"): Promise<NewsHeadline[]> => {
-  if (!apiKey) return [];
-  
-  const sanitizedQuery = sanitizeHeadlinesQuery(query);
-  
-  const model = "gemini-2.5-flash";
-  const prompt = `
-    Find 10 of the most significant and latest financial news headlines relevant to: ${sanitizedQuery}.
-    
-    STRICT SOURCE WHITELIST:
-    You MUST ONLY include news from the following reputable sources. Do NOT use any other sources.
-    - The Wall Street Journal (WSJ)
-    - Reuters
-    - Financial Times (FT)
-    - Bloomberg
-    - The Economist
-    - Barron's
-    - CNBC
-    - Forbes
-    - Fortune
-    - MarketWatch
-    - The New York Times (NYT)
-    - Bloomberg Businessweek
-    - Yahoo Finance
-    - CNN Business
-    - The Motley Fool
-    - Seeking Alpha
-    - TheStreet
-    - BBC Business
-    - Business Insider
-    - Vox
-    - The Washington Post
-    
-    CONTENT GUIDELINES:
-    - Focus on noteworthy events for active investors (e.g., Fed/Central Bank policy, major M&A, earnings surprises, geopolitical shifts, macro economy).
-    - The news does NOT need to be strictly about ESG or sustainability. General market news is preferred if it is more significant.
-    
-    For each article, provide:
-    1. The actual article headline (concise and professional)
-    2. The publication source name
-    
-    Format your response as a numbered list:
-    1. [Headline text here] - Source Name
-    2. [Headline text here] - Source Name
-    ...etc
-  `;
+const renderHeadlinesPrompt = (templateId: "market-headlines" | "portfolio-headlines", query: string) =>
+  renderPrompt(templateId, { query: embedUserText("headline topic", sanitizeHeadlinesQuery(query)) });
+
+/**
+ * Runs one headlines prompt. Failures degrade to an empty list,
+ * except cancellation, which rejects so callers don't mistake it for "no news".
+ */
+const requestHeadlines = async (
+  templateId: "market-headlines" | "portfolio-headlines",
+  query: string,
+  signal?: AbortSignal
+): Promise<{ headlines: NewsHeadline[]; lineage: PromptLineage }> => {
+  const { text: prompt, lineage } = renderHeadlinesPrompt(templateId, query);
+  if (!isGeminiConfigured()) return { headlines: [], lineage };
+
+  const { model, config: parameters } = modelRequestFor("headlines");
   
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model,
       contents: prompt,
       config: {
+        ...parameters,
         tools: [{ googleSearch: {} }]
       }
-    });
+    }, signal, "headlines");
 
-    const text = response.text || "";
-    const parsedHeadlines: {title: string, source: string}[] = [];
-    const regex = /^\d+\.\s*(.+?)\s*-\s*(.+)$/gm;
-    let match;
-    while ((match = regex.exec(text)) !== null) {
-      parsedHeadlines.push({
-        title: match[1].trim().replace(/\*\*/g, ''), // Remove markdown bold if present
-        source: match[2].trim().replace(/\*\*/g, '')
-      });
-    }
-    
-    const groundingChunks = (response.candidates?.[0]?.groundingMetadata?.groundingChunks || []) as GroundingChunk[];
+    const metadata = response.candidates?.[0]?.groundingMetadata as GroundingMetadataLike | undefined;
 
-    // Extract valid URLs from chunks
-    const validUrls = groundingChunks
-      .filter(chunk => chunk.web?.uri)
-      .map(chunk => chunk.web!.uri);
-
-    // STRATEGY 1: Text-First (High Precision)
-    // We prioritize the model's generated text because it follows the strict whitelist instructions.
-    // We then attach URLs from grounding chunks sequentially.
+    // Headlines are paired with the articles the answer actually cited, never by list position;
+    // the source whitelist is enforced on article domains
+    const parsedHeadlines = parseHeadlineList(response.text || "");
     if (parsedHeadlines.length > 0) {
-      return parsedHeadlines.map((headline, index) => {
-        // Attempt to find a URL. If we run out of grounding chunks, we construct a Google Search URL
-        // to ensure the headline is still clickable and useful.
-        const url = validUrls[index] || `https://www.google.com/search?q=${encodeURIComponent(headline.title + " " + headline.source)}`;
-        
-        return {
-          title: headline.title,
-          source: headline.source,
-          url: url
-        };
-      }).slice(0, 10);
+      return { headlines: matchHeadlines(parsedHeadlines, metadata), lineage };
     }
 
-    // STRATEGY 2: Chunk-Fallback (Low Precision)
-    // Only used if regex parsing completely fails.
-    if (validUrls.length > 0) {
-      return groundingChunks
-        .filter(chunk => chunk.web?.uri)
-        .map(chunk => {
-          let title = chunk.web?.title || "Financial News";
-          // BUG FIX: Prevent internal tool names from leaking into UI
-          if (["Vertex AI Search", "Google Search", "Search Result"].includes(title)) {
-            title = "Market Update";
-          }
-
-          let source = "News";
-          try {
-            const hostname = new URL(chunk.web!.uri).hostname;
-            const domain = hostname.replace(/^www\./, '').split('.')[0];
-            source = domain.charAt(0).toUpperCase() + domain.slice(1);
-          } catch (e) {
-            source = "News";
-          }
-          
-          return {
-            title: title,
-            url: chunk.web!.uri,
-            source: source
-          };
-        })
-        .slice(0, 10);
-    }
-
-    return [];
-      
+    // Only used if the numbered list could not be parsed at all
+    return { headlines: headlinesFromChunks(metadata), lineage };
   } catch (error) {
-    console.warn("Error fetching market headlines:", error);
-    return [];
+    if (isCancellation(error)) throw error;
+    console.warn("Error fetching headlines:", error);
+    return { headlines: [], lineage };
   }
 };
 
+/**
+ * Fetches whitelisted market headlines, scored for sentiment. Failures degrade to an empty list,
+ * except cancellation, which rejects so callers don't mistake it for "no news".
+ */
+export const fetchMarketHeadlines = async (
+  query: string = DEFAULT_HEADLINES_QUERY,
+  signal?: AbortSignal
+): Promise<NewsHeadline[]> =>
+  scoreHeadlines((await requestHeadlines("market-headlines", query, signal)).headlines, [], signal);
+
+// Queries news on the holdings and sectors; a portfolio with nothing to query gets market news
+const requestPortfolioHeadlines = async (positions: StockPosition[], signal?: AbortSignal) => {
+  const query = buildPortfolioNewsQuery(positions);
+  const result = query
+    ? await requestHeadlines("portfolio-headlines", query, signal)
+    : await requestHeadlines("market-headlines", DEFAULT_HEADLINES_QUERY, signal);
+  // Tags first: relevance depends on which holdings a headline mentions
+  return { ...result, headlines: await scoreHeadlines(tagHeadlines(result.headlines, positions), positions, signal) };
+};
+
+/**
+ * Fetches whitelisted headlines about the portfolio's holdings and sectors,
+ * each tagged with the tickers it mentions and scored for sentiment and relevance.
+ * Fails like fetchMarketHeadlines.
+ */
+export const fetchPortfolioHeadlines = async (
+  positions: StockPosition[],
+  signal?: AbortSignal
+): Promise<NewsHeadline[]> =>
+  (await requestPortfolioHeadlines(positions, signal)).headlines;
+
+/**
+ * Builds the portfolio in three stages: structure, market data enrichment and news.
+ * Aborting `signal` stops at the next call and rejects with CancelledRequestError.
+ * `refreshOptions` are passed to the enrichment stage (see refreshPortfolioPrices).
+ */
 export const generateETFPortfolio = async (
   userPreferences?: string,
-  onProgress?: (status: string) => void
+  onProgress?: (event: ProgressEvent) => void,
+  signal?: AbortSignal,
+  refreshOptions: Omit<RefreshOptions, 'signal'> = {}
 ): Promise<GeneratedPortfolio> => {
-  if (!apiKey) {
+  if (!isGeminiConfigured()) {
     throw new Error("API Key is missing");
   }
 
-  const model = "gemini-2.5-flash";
+  // Settings are captured once so the run is recorded with what it actually used
+  const { model, config: parameters, settings: structureSettings } = modelRequestFor("structure");
+  const headlinesSettings = modelRequestFor("headlines").settings;
+  const progress = createProgressReporter(GENERATION_STAGES, onProgress);
+  const { minPositions, maxPositions, minWeight, maxWeight } = DEFAULT_NORMALIZATION_RULES;
 
-  if (onProgress) onProgress("Initializing Quantum Strategy Engine...");
+  progress.emit('initializing', "Initializing Quantum Strategy Engine...");
 
   // --- STAGE 1: Structure Generation (No Tools, Strict Schema) ---
-  let specificInstructions = "";
-  if (userPreferences) {
-    specificInstructions = `
-    **REBALANCING CONTEXT (CRITICAL):**
-    The user is rebalancing the fund with the following input: "${userPreferences}".
-    
-    1. **Adapt:** Adjust sector weights and stock selection to align with this input (e.g., if they ask for more defensive stocks, increase 'Stabilizer' weight).
-    2. **Strict Override:** If the user requests excluded industries (Fossil Fuels, Weapons, Tobacco, AI-Obsolete, Speculative/Pre-revenue), YOU MUST IGNORE that specific request and strictly adhere to the safety/exclusion policy.
-    3. **Narrative:** Update the 'narrative' field to explain how the portfolio was rebalanced to meet this request while maintaining core principles.
-    `;
-  }
-
-  const structurePrompt = `
-    Act as a senior quantitative portfolio manager and climate scientist.
-    Design the ultimate "ClimateShift Alpha" ETF.
-
-    **Objective:**
-    Construct a portfolio that outperforms the S&P 500 while strictly adhering to high-impact sustainability goals and technological resilience.
-
-    **Strategy Parameters:**
-    - **Fund Name:** ClimateShift Alpha
-    - **Benchmark:** S&P 500 (Targeting Alpha)
-    - **Risk Profile:** Growth with Downside Protection (Match S&P 500 Beta)
-    - **Exclusion Policy:** Strict (Zero tolerance for Fossil Fuels, Weapons, Predatory Lending, Tobacco, and **AI-Obsolete Business Models**).
-
-    **Core Philosophy:**
-    1. **Alpha Generation:** We are not just "green"; we are profitable. Prioritize companies with strong free cash flow and competitive moats.
-    2. **Safety Over Speculation:** Exclude pre-revenue startups. Focus on "Core" sustainable leaders and "Stabilizer" neutral giants (e.g., Tech with Net Zero goals).
-    3. **AI Resilience:** **CRITICAL**: Strictly exclude companies whose primary business models are at extreme risk of being disrupted or made obsolete by reasonable projections of advancements in Generative AI and Automation (e.g., pure-play BPO, manual data processing, basic translation services, generic coding shops).
-    4. **Diversification:** Ensure sector balance to minimize volatility relative to the S&P 500.
-    5. **Data Availability:** **CRITICAL**: Exclude any companies that have been public for less than 5 years. We REQUIRE at least 5 years of historical trading data for backtesting. Do NOT include recent IPOs. Founded before 2019 is Mandatory.
-
-    ${specificInstructions}
-
-    **Task:**
-    Generate a JSON response representing this ETF.
-    - Include 12-18 distinct stock positions.
-    - Weights must sum to approximately 100%.
-    - Categorize stocks as:
-      - 'Core' (Sustainable leaders/transition enablers)
-      - 'Growth' (High-growth clean tech/innovation)
-      - 'Stabilizer' (Low volatility neutral companies to balance risk)
-    - Provide estimated annual financial metrics based on current market conditions.
-  `;
+  const rebalanceContext = userPreferences?.trim()
+    ? renderPrompt("rebalance-context", { userPreferences: embedUserText("rebalance preferences", validateUserPreferences(userPreferences)) })
+    : null;
+  const structurePrompt = renderPrompt("portfolio-structure", {
+    minPositions,
+    maxPositions,
+    minWeight,
+    maxWeight,
+    rebalanceContext: rebalanceContext ? rebalanceContext.text : "",
+  });
+  const structureLineage = rebalanceContext ? [rebalanceContext.lineage, structurePrompt.lineage] : [structurePrompt.lineage];
 
   let portfolio: GeneratedPortfolio;
 
   try {
-    if (onProgress) onProgress("Optimizing Sector Allocation & Selecting Constituents...");
+    progress.emit('structure', "Optimizing Sector Allocation & Selecting Constituents...");
     
     // 1. Generate the Strategy Structure
-    const structureResponse = await ai.models.generateContent({
+    const structureResponse = await generateContent({
       model,
-      contents: structurePrompt,
+      contents: structurePrompt.text,
       config: {
+        ...parameters,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -294,332 +204,798 @@ export const generateETFPortfolio = async (
             },
             positions: {
               type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  ticker: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  weight: { type: Type.NUMBER, description: "Percentage as a number, e.g. 5.5" },
-                  sector: { type: Type.STRING },
-                  reason: { type: Type.STRING, description: "Why it was included given the constraints." },
-                  esgScore: { type: Type.STRING, description: "Rating like AAA, AA, A" },
-                  type: { type: Type.STRING, enum: ["Core", "Growth", "Stabilizer"] }
-                },
-                required: ["ticker", "name", "weight", "sector", "reason", "esgScore", "type"]
-              }
+              items: POSITION_SCHEMA
             }
           },
           required: ["name", "description", "positions", "metrics", "narrative"]
         }
       }
-    });
+    }, signal, "structure");
 
     const structureText = structureResponse.text;
     if (!structureText) throw new Error("No data returned from Gemini for structure");
-    portfolio = JSON.parse(structureText) as GeneratedPortfolio;
+    // The exclusion policy and ticker existence are enforced in code, not just requested in the prompt
+    const generated = JSON.parse(structureText) as GeneratedPortfolio;
+    generated.promptLineage = { structure: structureLineage };
+    portfolio = await screenPositions(generated, progress, signal);
+
+    // The model only approximates the structural rules; fix weights and counts deterministically
+    portfolio = normalizePortfolio(portfolio);
+    if (portfolio.corrections!.length > 0) {
+      console.warn('Corrected generated portfolio:', portfolio.corrections);
+    }
+    portfolio.modelUsage = { structure: structureSettings };
 
     // --- STAGE 2: Real-time Data Enrichment (Tools enabled, No Schema) ---
-    if (onProgress) onProgress("Fetching Real-Time Market Data & Historical Anchors...");
+    progress.emit('market-data', "Fetching Real-Time Market Data & Historical Anchors...", {
+      tickers: portfolio.positions.map(p => p.ticker)
+    });
     
     // Use the separate refresh logic to keep it DRY
-    portfolio = await refreshPortfolioPrices(portfolio, onProgress);
+    portfolio = await refreshPortfolioPrices(portfolio, progress.forward, { ...refreshOptions, signal });
+
+    // A ticker the sample symbol master can't vouch for, which no provider could price either,
+    // is most likely made up: replace it like an unresolved one, then price what came in
+    const unpriced = unpricedUnlisted(portfolio);
+    if (unpriced.size > 0) {
+      const rescreened = await screenPositions(portfolio, progress, signal, unpriced);
+      const renormalized = normalizePortfolio({
+        ...rescreened,
+        // Outcomes from the first screening stay; flags are recomputed for the current holdings
+        symbolIssues: [...(portfolio.symbolIssues || []).filter(issue => issue.action !== 'flagged'), ...(rescreened.symbolIssues || [])],
+        policyViolations: [...(portfolio.policyViolations || []), ...(rescreened.policyViolations || [])],
+      });
+      progress.emit('repair', 'Fetching market data for replacement positions...');
+      portfolio = await refreshPortfolioPrices(
+        { ...renormalized, corrections: [...(portfolio.corrections || []), ...(renormalized.corrections || [])] },
+        undefined,
+        { ...refreshOptions, signal }
+      );
+    }
 
     // --- STAGE 3: News Enrichment for Portfolio Context ---
-    if (onProgress) onProgress("Analyzing Global Financial News & Sentiment...");
+    progress.emit('news', "Analyzing Global Financial News & Sentiment...");
     
-    // Fetch news specific to the constructed portfolio
-    const freshHeadlines = await fetchMarketHeadlines();
-    portfolio.headlines = freshHeadlines;
+    // Fetch news specific to the constructed portfolio, tagged onto the positions it mentions
+    const news = await requestPortfolioHeadlines(portfolio.positions, signal);
+    portfolio.headlines = news.headlines;
+    portfolio.positions = attachHeadlines(portfolio.positions, news.headlines);
+    portfolio.modelUsage = { ...portfolio.modelUsage, headlines: headlinesSettings };
+    portfolio.promptLineage = { ...portfolio.promptLineage, headlines: [news.lineage] };
 
-    if (onProgress) onProgress("Finalizing Portfolio Construction...");
+    progress.emit('finalizing', "Finalizing Portfolio Construction...", { stageFraction: 1 });
 
     return portfolio;
 
   } catch (error) {
-    console.error("Error generating portfolio:", error);
+    if (!isCancellation(error)) console.error("Error generating portfolio:", error);
     throw error;
   }
 };
 
-const fetchStockBatch = async (tickers: string[]): Promise<Record<string, any>> => {
-  const model = "gemini-2.5-flash";
-  const tickerString = tickers.join(", ");
-  
-  const prompt = `
-    Find REAL-TIME stock data for these tickers: ${tickerString}
-
-    For EACH ticker, search and find:
-    1. Current stock price in USD
-    2. 1-year total return percentage
-    3. 3-year total return percentage
-    4. 5-year total return percentage
-    
-    Return ONLY a JSON code block with this exact format:
-    {
-      "AAPL": { "price": 185.50, "oneYearChange": 25.5, "threeYearChange": 45.0, "fiveYearChange": 280.5 },
-      "MSFT": { "price": 420.25, "oneYearChange": 18.2, "threeYearChange": 52.0, "fiveYearChange": 210.3 }
-    }
+interface MergedQuote extends ValidatedQuote {
+  provenance: Partial<Record<keyof MarketQuote, FieldProvenance>>;
+}
 
-    RULES:
-    - Search "{TICKER} stock 1 year return", "{TICKER} stock 3 year return", "{TICKER} stock 5 year return"
-    - The 5-year return is MOST CRITICAL - prioritize finding this
-    - If you cannot find a specific return period, omit that field (but include others you found)
-    - If you cannot find ANY data for a ticker, omit the ticker entirely
-    - Do NOT guess values
-  `;
+interface MergedBenchmark extends ValidatedBenchmark {
+  provenance: Partial<Record<keyof BenchmarkReturns, FieldProvenance>>;
+}
 
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }]
-      }
-    });
+// Who produced a batch, and in which pass
+type FetchOrigin = Omit<FieldProvenance, 'sources' | 'fromCache'>;
 
-    const text = response.text || "";
-    // Robust JSON extraction
-    const cleanJson = text.replace(/```json|```/g, '').trim();
-    const jsonMatch = cleanJson.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-        try {
-            return JSON.parse(jsonMatch[0]);
-        } catch (e) {
-            console.warn('Failed to parse stock batch JSON:', e);
-            return {};
-        }
-    }
-    return {};
-  } catch (error) {
-    console.warn(`Batch fetch failed for ${tickerString}`, error);
-    return {};
+const stampProvenance = <K extends string>(fields: K[], origin: FetchOrigin, rawRecord: unknown): Partial<Record<K, FieldProvenance>> => {
+  const sources = sanitizeSources((rawRecord as { sources?: unknown } | null)?.sources);
+  const provenance: Partial<Record<K, FieldProvenance>> = {};
+  fields.forEach(field => {
+    provenance[field] = { ...origin, sources };
+  });
+  return provenance;
+};
+
+const fetchedAtFrom = <K extends string>(provenance: Partial<Record<K, FieldProvenance>>): Partial<Record<K, number>> => {
+  const fetchedAt: Partial<Record<K, number>> = {};
+  (Object.keys(provenance) as K[]).forEach(field => {
+    fetchedAt[field] = provenance[field]!.fetchedAt;
+  });
+  return fetchedAt;
+};
+
+export interface RefreshOptions {
+  provider?: MarketDataProvider;
+  // Pass null to bypass the cache (always fetch, never persist)
+  cache?: MarketDataCache | null;
+  // Aborting rejects with CancelledRequestError and leaves the input portfolio untouched
+  signal?: AbortSignal;
+  // Cross-check fetched values against a second fetch; defaults to the configured mode, null disables
+  verification?: VerificationConfig | null;
+}
+
+// Price, day change, trailing returns and yield: a ticker missing any of these is refetched,
+// unless the provider's answer that it has none is still cached
+const CORE_QUOTE_FIELDS: (keyof MarketQuote)[] = ['price', 'dayChange', 'oneYearChange', 'threeYearChange', 'fiveYearChange', 'dividendYield'];
+// Fields a ticker can legitimately lack (no dividend, no trade yet today). When the provider
+// answers without one, that answer is cached for the field's TTL like a value.
+const OPTIONAL_QUOTE_FIELDS: (keyof MarketQuote)[] = ['dayChange', 'dividendYield'];
+
+const isRejected = (data: MergedQuote, field: keyof MarketQuote): boolean =>
+  data.rejections.some(rejection => rejection.field === QUOTE_TO_POSITION_FIELD[field]);
+
+// The repair pass retries tickers missing the 5Y return the backtest depends on, and
+// tickers whose day change or yield was rejected; an absent optional field is not a gap
+const needsRepair = (data: MergedQuote | undefined): boolean =>
+  !data || typeof data.quote.fiveYearChange !== 'number' || OPTIONAL_QUOTE_FIELDS.some(field => isRejected(data, field));
+
+// Optional fields the provider answered without a value (and did not have rejected), stamped with `at`
+const unavailableFields = (data: MergedQuote, at: number): Partial<Record<keyof MarketQuote, number>> => {
+  const unavailable: Partial<Record<keyof MarketQuote, number>> = {};
+  OPTIONAL_QUOTE_FIELDS
+    .filter(field => typeof data.quote[field] !== 'number' && !isRejected(data, field))
+    .forEach(field => { unavailable[field] = at; });
+  return unavailable;
+};
+const BENCHMARK_CACHE_TICKER = '__BENCHMARK__';
+
+// A return history is reused until a newer month has closed or the provider changes
+const needsHistory = (history: ReturnHistory | undefined, providerName: string, latestMonth: string): boolean => {
+  if (!history || history.provenance.provider !== providerName) return true;
+  const lastMonth = history.returns[history.returns.length - 1]?.month;
+  return !lastMonth || lastMonth < latestMonth;
+};
+
+const toBatches = (tickers: string[], size: number): string[][] => {
+  const batches: string[][] = [];
+  for (let i = 0; i < tickers.length; i += size) {
+    batches.push(tickers.slice(i, i + size));
   }
+  return batches;
 };
 
-const fetchBenchmarkData = async (): Promise<any> => {
-  const model = "gemini-2.5-flash";
-  const prompt = `
-    Find the S&P 500 (SPY) total return percentages:
+/**
+ * Validates a raw provider batch and folds it into the running result.
+ * Later passes fill gaps and clear rejections for fields they resolve, but never
+ * overwrite a value that already passed validation with a rejection.
+ * Every accepted value is stamped with its origin and the sources the provider cited.
+ */
+const mergeValidatedBatch = (target: Record<string, MergedQuote>, rawBatch: unknown, origin: FetchOrigin) => {
+  Object.entries(validateQuoteBatch(rawBatch)).forEach(([ticker, result]) => {
+    const key = ticker.toUpperCase();
+    const existing = target[key] || { quote: {}, rejections: [], provenance: {} };
+
+    const quote = { ...existing.quote, ...result.quote };
+    const provenance = {
+      ...existing.provenance,
+      ...stampProvenance(Object.keys(result.quote) as (keyof MarketQuote)[], origin, (rawBatch as Record<string, unknown>)[ticker]),
+    };
 
-    1-year total return
-    3-year total return
-    5-year total return
-    Return ONLY a JSON code block:
+    const acceptedFields: string[] = (Object.keys(quote) as (keyof MarketQuote)[]).map(field => QUOTE_TO_POSITION_FIELD[field]);
+    // Keep only the latest rejection per field that is still unresolved
+    const rejectionsByField = new Map<string, DataRejection>();
+    [...existing.rejections, ...result.rejections]
+      .filter(rejection => !acceptedFields.includes(rejection.field))
+      .forEach(rejection => rejectionsByField.set(rejection.field, rejection));
 
-    {
-      "oneYearChange": 12.5,
-      "threeYearChange": 35.2,
-      "fiveYearChange": 85.0
+    target[key] = { quote, rejections: Array.from(rejectionsByField.values()), provenance };
+  });
+};
+
+interface BatchHandlers {
+  onBatch: (batch: string[], data: unknown) => void;
+  onBatchFailed?: (batch: string[], error: unknown) => void;
+}
+
+/**
+ * Fetches every batch concurrently, handing each to `onBatch` as it arrives.
+ * A batch whose retries were exhausted is reported through `onBatchFailed` and skipped
+ * (its tickers stay missing); any other error, such as a fatal API error, aborts the refresh.
+ */
+const fetchBatchesConcurrently = async (
+  fetchBatch: (batch: string[]) => Promise<unknown>,
+  batches: string[][],
+  handlers: BatchHandlers,
+  signal?: AbortSignal
+): Promise<void> => {
+  const results = await Promise.allSettled(batches.map(async batch => {
+    try {
+      handlers.onBatch(batch, await fetchBatch(batch));
+    } catch (error) {
+      if (!(error instanceof RetryableRequestError)) throw error;
+      console.warn(`Batch fetch failed for ${batch.join(', ')}`, error);
+      handlers.onBatchFailed?.(batch, error);
     }
-  `;
-  
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }]
+  }));
+  throwIfAborted(signal);
+
+  const fatal = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (fatal) throw fatal.reason;
+};
+
+/**
+ * Tracks which tickers are still outstanding across a set of batches so progress
+ * events can list pending and failed tickers.
+ */
+const createBatchTracker = (batches: string[][]) => {
+  const pending = new Set(batches.flat());
+  const failed: string[] = [];
+  let completed = 0;
+
+  const settle = (batch: string[], ok: boolean) => {
+    batch.forEach(ticker => pending.delete(ticker));
+    if (!ok) failed.push(...batch);
+    completed++;
+  };
+
+  return {
+    succeeded: (batch: string[]) => settle(batch, true),
+    failed: (batch: string[]) => settle(batch, false),
+    detail: (tickers?: string[]) => ({
+      batch: { completed, total: batches.length },
+      tickers,
+      pendingTickers: Array.from(pending),
+      failedTickers: failed.length > 0 ? [...failed] : undefined,
+    }),
+  };
+};
+
+/**
+ * Asks the model for one replacement per rejected position (policy violation or unusable ticker).
+ * Replacements come back in the same order as `rejected`.
+ */
+const requestReplacements = async (
+  portfolio: GeneratedPortfolio,
+  rejected: { position: StockPosition; reasons: string[] }[],
+  signal?: AbortSignal
+): Promise<{ positions: StockPosition[]; lineage: PromptLineage }> => {
+  const held = portfolio.positions.map(p => p.ticker).join(", ");
+  const removedList = rejected
+    .map(({ position, reasons }, i) => `${i + 1}. ${position.ticker} (${position.type}, ${position.sector}): ${reasons.join("; ")}`)
+    .join("\n");
+
+  const { text: prompt, lineage } = renderPrompt("position-replacements", {
+    removedList,
+    count: rejected.length,
+    excludedTickers: `${held}${held ? ", " : ""}${rejected.map(r => r.position.ticker).join(", ")}`,
+  });
+
+  // Replacements are part of structure generation, so they use its model settings
+  const { model, config: parameters } = modelRequestFor("structure");
+  const response = await generateContent({
+    model,
+    contents: prompt,
+    config: {
+      ...parameters,
+      responseMimeType: "application/json",
+      responseSchema: { type: Type.ARRAY, items: POSITION_SCHEMA }
+    }
+  }, signal, "replacements");
+
+  const parsed = JSON.parse(response.text || "[]");
+  return { positions: Array.isArray(parsed) ? parsed as StockPosition[] : [], lineage };
+};
+
+// Holdings flagged as missing from a partial symbol master that got neither a price nor a history
+const unpricedUnlisted = (portfolio: GeneratedPortfolio): Set<string> => {
+  const unlisted = new Set((portfolio.symbolIssues || []).filter(issue => issue.kind === 'unlisted').map(issue => issue.ticker));
+  const bare = (ticker: string) => ticker.trim().toUpperCase().split(':').pop()!;
+  return new Set(portfolio.positions
+    .filter(p => unlisted.has(bare(p.ticker)) && typeof p.currentPrice !== 'number' && !p.returnHistory)
+    .map(p => bare(p.ticker)));
+};
+
+/**
+ * Screens generated positions against the exclusion policy and the symbol master.
+ * Policy violators and tickers that are listed too recently, or missing from a complete symbol
+ * master, are swapped for model-proposed replacements, each of which must pass the same checks
+ * and not already be held. A replacement inherits the weight of the position it replaces;
+ * positions with no usable replacement are just removed. Ambiguous listings, name mismatches
+ * and tickers missing from a partial master stay in, flagged, unless they are in `unpriced`:
+ * missing from the master and without market data, they are replaced too.
+ * Resolved positions carry their listing; every finding is recorded on the returned portfolio.
+ */
+const screenPositions = async (
+  portfolio: GeneratedPortfolio,
+  progress: ProgressReporter,
+  signal?: AbortSignal,
+  unpriced: Set<string> = new Set()
+): Promise<GeneratedPortfolio> => {
+  const [reference, symbolMaster] = await Promise.all([getCompanyReference(), getSymbolMaster()]);
+
+  const screen = (position: StockPosition) => {
+    const matches = checkPosition(position, reference);
+    const resolution = symbolMaster ? resolveSymbol(position, symbolMaster) : null;
+    const unverified = !!resolution && unpriced.has(resolution.ticker) && resolution.issues.some(issue => issue.kind === 'unlisted');
+    const rejected = matches.length > 0 || unverified || (!!resolution && requiresReplacement(resolution));
+    return { position, matches, resolution, unverified, rejected };
+  };
+  type Screened = ReturnType<typeof screen>;
+
+  // Exchange-qualified tickers ("NASDAQ:ASML") are stored bare once resolved
+  const withListing = ({ position, resolution }: Screened): StockPosition =>
+    resolution?.listing ? { ...position, ticker: resolution.ticker, listing: toListingInfo(resolution.listing) } : position;
+  const flagsOf = ({ resolution }: Screened): SymbolIssue[] =>
+    (resolution?.issues || []).map(issue => ({ ...issue, action: 'flagged' }));
+
+  const screened = portfolio.positions.map(screen);
+  const kept = screened.filter(s => !s.rejected);
+  const rejected = screened.filter(s => s.rejected);
+
+  const violations: PolicyViolation[] = [];
+  const symbolIssues: SymbolIssue[] = kept.flatMap(flagsOf);
+  const replacements: StockPosition[] = [];
+  let replacementLineage: PromptLineage | undefined;
+
+  // The issues a rejected position was replaced or removed for
+  const causesOf = ({ resolution, unverified }: Screened) =>
+    (resolution?.issues || []).filter(issue => isBlockingIssue(issue) || (unverified && issue.kind === 'unlisted'));
+
+  if (rejected.length > 0) {
+    progress.emit(unpriced.size > 0 ? 'repair' : 'structure', `Replacing ${rejected.length} positions that failed policy or symbol checks...`);
+    const reasonsFor = ({ matches, resolution, unverified }: Screened) => [
+      ...matches.map(match => `${match.policyLabel}: ${match.detail}`),
+      ...(resolution?.issues || []).map(issue => issue.detail),
+      ...(unverified ? ['no price or return history could be found for it'] : []),
+    ];
+
+    let proposals: StockPosition[] = [];
+    try {
+      const response = await requestReplacements(
+        { ...portfolio, positions: kept.map(s => s.position) },
+        rejected.map(s => ({ position: s.position, reasons: reasonsFor(s) })),
+        signal
+      );
+      proposals = response.positions;
+      replacementLineage = response.lineage;
+    } catch (error) {
+      if (isCancellation(error)) throw error;
+      console.warn("Replacement request failed, removing rejected positions", error);
+    }
+
+    const tickerOf = (pos: StockPosition) => String(pos.ticker ?? "").trim().toUpperCase();
+    const held = new Set(screened.map(s => tickerOf(s.position)));
+
+    rejected.forEach((original, i) => {
+      const proposal = proposals[i] && typeof proposals[i].ticker === "string" ? screen(proposals[i]) : null;
+      const usable = !!proposal && !proposal.rejected && !held.has(tickerOf(proposal.position));
+      const replacement = usable ? tickerOf(proposal!.position) : undefined;
+      if (usable) {
+        held.add(replacement!);
+        replacements.push(withListing({ ...proposal!, position: { ...proposal!.position, weight: original.position.weight } }));
+        symbolIssues.push(...flagsOf(proposal!));
       }
+
+      const outcome = usable
+        ? { action: 'replaced' as const, replacement }
+        : { action: 'removed' as const };
+      original.matches.forEach(match => violations.push({ ...match, ...outcome }));
+      causesOf(original).forEach(issue => symbolIssues.push({ ...issue, ...outcome }));
     });
 
-    const text = response.text || "";
-    const cleanJson = text.replace(/```json|```/g, '').trim();
-    const jsonMatch = cleanJson.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-        try {
-            return JSON.parse(jsonMatch[0]);
-        } catch (e) {
-            console.warn('Failed to parse benchmark JSON:', e);
-            return {};
-        }
-    }
-    return {};
-  } catch (error) {
-    console.warn("Benchmark fetch failed", error);
-    return {};
+    console.warn('Positions rejected during screening:', { violations, symbolIssues });
   }
+
+  return {
+    ...portfolio,
+    positions: [...kept.map(withListing), ...replacements],
+    policyViolations: violations,
+    symbolIssues,
+    promptLineage: replacementLineage
+      ? { ...portfolio.promptLineage, structure: [...(portfolio.promptLineage?.structure || []), replacementLineage] }
+      : portfolio.promptLineage,
+  };
 };
 
 /**
  * Re-fetches current prices and historical returns (1Y, 3Y, 5Y) for all stocks in the portfolio.
+ * Data comes from the configured MarketDataProvider unless one is passed explicitly.
+ * Every value is validated before merging; rejected fields are cleared and listed on the position.
+ * Values still within their cache TTL are reused, so only tickers with expired entries are fetched.
+ * With verification enabled, freshly fetched values are compared against an independent second
+ * fetch and each field's agreement is recorded on the position.
+ * Providers with price history also supply each holding's monthly returns, refetched once a
+ * newer month has closed; these feed the covariance-based volatility.
+ * Portfolio metrics are then recomputed from the merged data (see applyCalculatedMetrics).
+ * Returns a new portfolio object; the one passed in is never modified.
  */
 export const refreshPortfolioPrices = async (
   portfolio: GeneratedPortfolio,
-  onProgress?: (status: string) => void
+  onProgress?: (event: ProgressEvent) => void,
+  options: RefreshOptions = {}
 ): Promise<GeneratedPortfolio> => {
-  if (!apiKey) throw new Error("API Key is missing");
+  const provider = options.provider || getMarketDataProvider();
+  const cache = options.cache === undefined ? marketDataCache : options.cache;
+  const verification = options.verification === undefined ? getVerificationConfig() : options.verification;
+  const { signal } = options;
+  const cacheKey = (ticker: string) => `${provider.name}:${ticker}`;
+  const now = Date.now();
+  const origin = (pass: FieldProvenance['pass']): FetchOrigin => ({ provider: provider.name, fetchedAt: Date.now(), pass });
+
+  // Entries cached before provenance was recorded fall back to a bare origin
+  const fromCache = (cached: CachedQuote) => {
+    const provenance: Partial<Record<keyof MarketQuote, FieldProvenance>> = {};
+    (Object.keys(cached.quote) as (keyof MarketQuote)[]).forEach(field => {
+      const stored = cached.provenance[field];
+      provenance[field] = {
+        ...(stored || { provider: provider.name, pass: 'initial', sources: [] }),
+        fetchedAt: cached.fetchedAt[field]!,
+        fromCache: true,
+      };
+    });
+    return provenance;
+  };
+  const progress = createProgressReporter(verification ? VERIFIED_REFRESH_STAGES : REFRESH_STAGES, onProgress);
 
-  if (onProgress) onProgress("Syncing with Global Exchanges...");
+  progress.emit('market-data', `Syncing with Global Exchanges (${provider.name})...`, {
+    tickers: portfolio.positions.map(p => p.ticker)
+  });
 
-  const allMarketData: Record<string, any> = {};
-  
-  // Step 1: Split tickers into batches of 4
-  const batchSize = 4;
+  // Prompts behind this run's model-backed fetches, as reported by the provider on each record
+  const renderedPrompts: PromptLineage[] = [];
+  const collectPrompts = (rawBatch: unknown) => {
+    if (typeof rawBatch !== 'object' || rawBatch === null) return;
+    Object.values(rawBatch).forEach(record => {
+      const prompt = lineageOf(record);
+      if (prompt) renderedPrompts.push(prompt);
+    });
+  };
+
+  // Step 0: Seed with cached values that are still fresh
+  const allMarketData: Record<string, MergedQuote> = {};
   const positions = portfolio.positions;
-  const tickerBatches: string[][] = [];
-  
-  for (let i = 0; i < positions.length; i += batchSize) {
-    tickerBatches.push(positions.slice(i, i + batchSize).map(p => p.ticker));
-  }
 
-  // Step 2: Fetch each batch sequentially
-  for (const batch of tickerBatches) {
-    if (onProgress) onProgress(`Fetching data for: ${batch.join(', ')}...`);
-    const batchData = await fetchStockBatch(batch);
-    Object.assign(allMarketData, batchData);
+  const cachedUnavailable: Record<string, (keyof MarketQuote)[]> = {};
+
+  positions.forEach(p => {
+    if (!cache) return;
+    const cached = cache.read(cacheKey(p.ticker), now);
+    if (Object.keys(cached.quote).length > 0) {
+      allMarketData[p.ticker.toUpperCase()] = { quote: cached.quote, rejections: [], provenance: fromCache(cached) };
+    }
+    cachedUnavailable[p.ticker.toUpperCase()] = cached.unavailable;
+  });
+
+  // A field is settled by a fresh cached value or a fresh "no value" answer
+  const staleTickers = positions
+    .filter(p => {
+      const data = allMarketData[p.ticker.toUpperCase()];
+      const unavailable = cachedUnavailable[p.ticker.toUpperCase()] || [];
+      return !data || CORE_QUOTE_FIELDS.some(field => typeof data.quote[field] !== 'number' && !unavailable.includes(field));
+    })
+    .map(p => p.ticker);
+  const staleSet = new Set(staleTickers.map(t => t.toUpperCase()));
+
+  // Step 1: Split stale tickers into provider-sized batches
+  const batchSize = provider.batchSize || staleTickers.length || 1;
+  const tickerBatches = toBatches(staleTickers, batchSize);
+
+  if (staleTickers.length < positions.length) {
+    progress.emit('market-data', `Using cached data for ${positions.length - staleTickers.length} tickers...`, {
+      tickers: positions.map(p => p.ticker).filter(ticker => !staleSet.has(ticker.toUpperCase()))
+    });
   }
 
-  // Step 3: Fetch benchmark separately
-  if (onProgress) onProgress('Fetching S&P 500 benchmark data...');
-  const benchmarkData = await fetchBenchmarkData();
+  // Step 2: Fetch benchmark (unless all of it is cached) alongside all batches.
+  // The provider's scheduler decides how many calls actually run at once.
+  const cachedBenchmark: CachedQuote = cache
+    ? cache.read(cacheKey(BENCHMARK_CACHE_TICKER), now)
+    : { quote: {}, fetchedAt: {}, provenance: {}, unavailable: [] };
+  const benchmarkIsFresh = (['oneYearChange', 'threeYearChange', 'fiveYearChange'] as const)
+    .every(field => typeof cachedBenchmark.quote[field] === 'number');
+
+  const benchmarkPromise: Promise<MergedBenchmark> = benchmarkIsFresh
+    ? Promise.resolve({ benchmark: cachedBenchmark.quote, rejections: [], provenance: fromCache(cachedBenchmark) })
+    : provider.fetchBenchmark(signal)
+        .catch(error => {
+          if (!(error instanceof RetryableRequestError)) throw error;
+          console.warn('Benchmark fetch failed', error);
+          return {};
+        })
+        .then(raw => {
+          const prompt = lineageOf(raw);
+          if (prompt) renderedPrompts.push(prompt);
+          const validated = validateBenchmark(raw);
+          const provenance = stampProvenance(Object.keys(validated.benchmark) as (keyof BenchmarkReturns)[], origin('initial'), raw);
+          if (cache) {
+            cache.write(cacheKey(BENCHMARK_CACHE_TICKER), validated.benchmark, fetchedAtFrom(provenance), provenance);
+          }
+          return { ...validated, provenance };
+        });
+  // Avoid an unhandled rejection if a batch fails fatally before the benchmark settles
+  benchmarkPromise.catch(() => undefined);
+
+  // Monthly return histories for the covariance-based volatility, fetched alongside the quotes.
+  // Bypassing the cache also refetches histories that are still current.
+  const latestMonth = lastCompleteMonth();
+  const historyTickers = provider.fetchMonthlyReturns
+    ? positions.filter(p => cache === null || needsHistory(p.returnHistory, provider.name, latestMonth)).map(p => p.ticker)
+    : [];
+  const toReturnHistory = (series: SourcedReturnSeries | undefined): ReturnHistory | undefined => {
+    const returns = validateReturnSeries(series?.returns);
+    if (returns.length === 0) return undefined;
+    const prompt = lineageOf(series);
+    if (prompt) renderedPrompts.push(prompt);
+    return {
+      returns: returns.slice(-COVARIANCE_WINDOW_MONTHS),
+      provenance: stampProvenance(['returns'], origin('initial'), series).returns!,
+    };
+  };
+  const histories: Record<string, ReturnHistory> = {};
+  const historyPromise = historyTickers.length === 0 ? Promise.resolve() : fetchBatchesConcurrently(
+    batch => provider.fetchMonthlyReturns!(batch, COVARIANCE_WINDOW_MONTHS, signal),
+    toBatches(historyTickers, batchSize),
+    {
+      onBatch: (_, raw) => {
+        Object.entries((raw || {}) as Record<string, SourcedReturnSeries>).forEach(([ticker, series]) => {
+          const history = toReturnHistory(series);
+          if (history) histories[ticker.toUpperCase()] = history;
+        });
+      },
+    },
+    signal
+  );
+  historyPromise.catch(() => undefined);
+
+  // The S&P 500 series behind beta and tracking error; a failed fetch keeps the previous one
+  const benchmarkHistoryPromise: Promise<ReturnHistory | undefined> =
+    provider.fetchBenchmarkMonthlyReturns && (cache === null || needsHistory(portfolio.metrics.benchmarkReturnHistory, provider.name, latestMonth))
+      ? provider.fetchBenchmarkMonthlyReturns(COVARIANCE_WINDOW_MONTHS, signal)
+          .catch(error => {
+            if (!(error instanceof RetryableRequestError)) throw error;
+            console.warn('Benchmark history fetch failed', error);
+            return undefined;
+          })
+          .then(toReturnHistory)
+      : Promise.resolve(undefined);
+  benchmarkHistoryPromise.catch(() => undefined);
+  if (historyTickers.length > 0) {
+    progress.emit('market-data', `Fetching monthly return history for ${historyTickers.length} tickers...`, { tickers: historyTickers });
+  }
 
-  // Step 4: Repair Pass - Retry tickers that failed to get critical 5Y data
-  const missingTickers = positions.filter(p => {
-    // Check main ticker or upper case version
-    const data = allMarketData[p.ticker] || allMarketData[p.ticker.toUpperCase()];
-    return !data || typeof data.fiveYearChange !== 'number';
-  }).map(p => p.ticker);
+  const fetchTracker = createBatchTracker(tickerBatches);
+  if (tickerBatches.length > 0) {
+    progress.emit('market-data', `Fetching data for ${staleTickers.length} tickers in ${tickerBatches.length} batches...`, fetchTracker.detail(staleTickers));
+  }
+  await fetchBatchesConcurrently(batch => provider.fetchQuotes(batch, signal), tickerBatches, {
+    onBatch: (batch, batchData) => {
+      mergeValidatedBatch(allMarketData, batchData, origin('initial'));
+      collectPrompts(batchData);
+      fetchTracker.succeeded(batch);
+      const { completed, total } = fetchTracker.detail().batch;
+      progress.emit('market-data', `Fetching market data: received ${batch.join(', ')} (${completed}/${total})...`, fetchTracker.detail(batch));
+    },
+    onBatchFailed: (batch) => {
+      fetchTracker.failed(batch);
+      const { completed, total } = fetchTracker.detail().batch;
+      progress.emit('market-data', `Fetching market data: failed ${batch.join(', ')} (${completed}/${total})...`, fetchTracker.detail(batch));
+    },
+  }, signal);
+
+  // Step 3: Wait for the benchmark and the return histories
+  if (!benchmarkIsFresh) progress.emit('benchmark', 'Fetching S&P 500 benchmark data...');
+  const benchmarkData = await benchmarkPromise;
+  await historyPromise;
+  const benchmarkHistory = await benchmarkHistoryPromise;
+
+  // Step 4: Repair Pass - Retry fetched tickers missing 5Y data or with a rejected day change or yield
+  const missingTickers = staleTickers.filter(ticker => needsRepair(allMarketData[ticker.toUpperCase()]));
 
   if (missingTickers.length > 0) {
-    if (onProgress) onProgress(`Repairing data for: ${missingTickers.length} tickers...`);
-    const retryBatches: string[][] = [];
-    for (let i = 0; i < missingTickers.length; i += batchSize) {
-      retryBatches.push(missingTickers.slice(i, i + batchSize));
-    }
+    const retryBatches = toBatches(missingTickers, batchSize);
+    const repairTracker = createBatchTracker(retryBatches);
+    progress.emit('repair', `Repairing data for: ${missingTickers.length} tickers...`, repairTracker.detail(missingTickers));
     
-    for (const batch of retryBatches) {
-      const retryData = await fetchStockBatch(batch);
-      Object.assign(allMarketData, retryData);
-    }
+    await fetchBatchesConcurrently(batch => provider.fetchQuotes(batch, signal), retryBatches, {
+      onBatch: (batch, retryData) => {
+        mergeValidatedBatch(allMarketData, retryData, origin('repair'));
+        collectPrompts(retryData);
+        repairTracker.succeeded(batch);
+        progress.emit('repair', `Repairing data for: ${missingTickers.length} tickers...`, repairTracker.detail(batch));
+      },
+      onBatchFailed: (batch) => {
+        repairTracker.failed(batch);
+        progress.emit('repair', `Repairing data for: ${missingTickers.length} tickers...`, repairTracker.detail(batch));
+      },
+    }, signal);
+
+    // Whatever still lacks critical data after the repair pass is reported as failed
+    const unresolved = missingTickers.filter(ticker => needsRepair(allMarketData[ticker.toUpperCase()]));
+    progress.emit('repair', `Repair pass complete: ${missingTickers.length - unresolved.length}/${missingTickers.length} resolved`, {
+      ...repairTracker.detail(),
+      failedTickers: unresolved.length > 0 ? unresolved : undefined,
+    });
+  }
+
+  // Step 5: Cross-verify freshly fetched values against an independent second fetch (never cached)
+  const verificationByTicker: Record<string, Partial<Record<MarketDataField, FieldVerification>>> = {};
+  const verifiedTickers = verification ? staleTickers.filter(ticker => allMarketData[ticker.toUpperCase()]) : [];
+
+  if (verification && verifiedTickers.length > 0) {
+    const verifier = verification.provider || provider;
+    const verifyBatches = toBatches(verifiedTickers, verifier.batchSize || verifiedTickers.length);
+    const verifyTracker = createBatchTracker(verifyBatches);
+    const secondary: Record<string, MarketQuote> = {};
+    const message = `Cross-verifying ${verifiedTickers.length} tickers against ${verifier.name}...`;
+    progress.emit('verification', message, verifyTracker.detail(verifiedTickers));
+
+    await fetchBatchesConcurrently(batch => verifier.fetchQuotes(batch, signal), verifyBatches, {
+      onBatch: (batch, raw) => {
+        Object.entries(validateQuoteBatch(raw)).forEach(([ticker, result]) => {
+          secondary[ticker.toUpperCase()] = result.quote;
+        });
+        collectPrompts(raw);
+        verifyTracker.succeeded(batch);
+        progress.emit('verification', message, verifyTracker.detail(batch));
+      },
+      onBatchFailed: (batch) => {
+        verifyTracker.failed(batch);
+        progress.emit('verification', message, verifyTracker.detail(batch));
+      },
+    }, signal);
+
+    const checkedAt = Date.now();
+    verifiedTickers.forEach(ticker => {
+      const key = ticker.toUpperCase();
+      verificationByTicker[key] = compareQuotes(allMarketData[key].quote, secondary[key], {
+        provider: verifier.name,
+        checkedAt,
+        tolerances: verification.tolerances,
+      });
+    });
+    const flagged = verifiedTickers.filter(ticker =>
+      Object.values(verificationByTicker[ticker.toUpperCase()]).some(check => check?.status === 'disagreed'));
+    progress.emit('verification', `Cross-verification complete: ${flagged.length} tickers with disagreeing values`, {
+      ...verifyTracker.detail(),
+      stageFraction: 1,
+    });
+  }
+
+  // Nothing is cached or merged once the caller has given up on this refresh
+  throwIfAborted(signal);
+
+  // Persist everything that passed validation in this run, and which optional fields had no value
+  if (cache) {
+    const answeredAt = Date.now();
+    staleTickers.forEach(ticker => {
+      const data = allMarketData[ticker.toUpperCase()];
+      if (data) cache.write(cacheKey(ticker), data.quote, fetchedAtFrom(data.provenance), data.provenance, unavailableFields(data, answeredAt));
+    });
   }
 
   // Logging for debug
   console.log('📊 Market Data Retrieved:', allMarketData);
   console.log('📈 Data Coverage Summary:', {
+    provider: provider.name,
     totalTickers: portfolio.positions.length,
-    tickersWithPrice: Object.keys(allMarketData).filter(k => allMarketData[k]?.price).length,
-    tickersWithFiveYear: Object.keys(allMarketData).filter(k => allMarketData[k]?.fiveYearChange).length,
-    hasBenchmarkData: !!benchmarkData?.fiveYearChange
+    fetchedTickers: staleTickers.length,
+    tickersWithPrice: Object.keys(allMarketData).filter(k => allMarketData[k].quote.price).length,
+    tickersWithFiveYear: Object.keys(allMarketData).filter(k => allMarketData[k].quote.fiveYearChange).length,
+    rejectedFields: Object.values(allMarketData).reduce((sum, d) => sum + d.rejections.length, 0),
+    hasBenchmarkData: !!benchmarkData.benchmark.fiveYearChange
   });
 
-  // Step 5: Merge data into portfolio
-  portfolio.positions = portfolio.positions.map(pos => {
-    // Check for ticker or upper case ticker
-    const data = allMarketData[pos.ticker] || allMarketData[pos.ticker.toUpperCase()];
+  // Step 6: Merge data into a copy of the portfolio
+  const refreshed: GeneratedPortfolio = { ...portfolio, metrics: { ...portfolio.metrics } };
+  // Only model-backed providers have settings to record; a switch to another provider clears them
+  const enrichment = provider.modelSettings?.();
+  if (enrichment || portfolio.modelUsage) {
+    refreshed.modelUsage = { ...portfolio.modelUsage, enrichment };
+  }
+  // Values served from cache keep the lineage of the run that fetched them
+  if (renderedPrompts.length > 0 || portfolio.promptLineage) {
+    refreshed.promptLineage = {
+      ...portfolio.promptLineage,
+      enrichment: renderedPrompts.length > 0
+        ? uniqueLineage(renderedPrompts)
+        : enrichment ? portfolio.promptLineage?.enrichment : undefined,
+    };
+  }
+  refreshed.positions = portfolio.positions.map(pos => {
+    const data = allMarketData[pos.ticker.toUpperCase()];
+    // Holdings whose history fetch came back empty keep the one they had
+    const returnHistory = histories[pos.ticker.toUpperCase()] || pos.returnHistory;
     
     if (data) {
+      const { quote, rejections } = data;
+      const rejected = new Set(rejections.map(r => r.field));
+      const fetchedAt = { ...pos.fetchedAt };
+      const provenance = { ...pos.provenance };
+
+      // Valid new value wins; a rejected field is cleared so stale or bad data can't reach the backtest
+      const pick = (field: keyof MarketQuote, current?: number) => {
+        const positionField = QUOTE_TO_POSITION_FIELD[field];
+        const fieldProvenance = data.provenance[field];
+        if (typeof quote[field] === 'number' && fieldProvenance) {
+          fetchedAt[positionField] = fieldProvenance.fetchedAt;
+          provenance[positionField] = fieldProvenance;
+          return quote[field];
+        }
+        if (rejected.has(positionField)) {
+          delete fetchedAt[positionField];
+          delete provenance[positionField];
+          return undefined;
+        }
+        return current;
+      };
+
       return {
         ...pos,
-        currentPrice: typeof data.price === 'number' ? data.price : pos.currentPrice,
-        oneYearChangePercent: typeof data.oneYearChange === 'number' ? data.oneYearChange : pos.oneYearChangePercent,
-        threeYearChangePercent: typeof data.threeYearChange === 'number' ? data.threeYearChange : pos.threeYearChangePercent,
-        fiveYearChangePercent: typeof data.fiveYearChange === 'number' ? data.fiveYearChange : pos.fiveYearChangePercent,
-        dayChangePercent: pos.dayChangePercent,
+        currentPrice: pick('price', pos.currentPrice),
+        dayChangePercent: pick('dayChange', pos.dayChangePercent),
+        oneYearChangePercent: pick('oneYearChange', pos.oneYearChangePercent),
+        threeYearChangePercent: pick('threeYearChange', pos.threeYearChangePercent),
+        fiveYearChangePercent: pick('fiveYearChange', pos.fiveYearChangePercent),
+        dividendYieldPercent: pick('dividendYield', pos.dividendYieldPercent),
+        // Tickers served entirely from cache keep the rejections from their last fetch
+        dataRejections: staleSet.has(pos.ticker.toUpperCase())
+          ? (rejections.length > 0 ? rejections : undefined)
+          : pos.dataRejections,
+        fetchedAt,
+        provenance,
+        // Refetched tickers are only trusted as far as this run's check went
+        verification: staleSet.has(pos.ticker.toUpperCase())
+          ? verificationByTicker[pos.ticker.toUpperCase()]
+          : pos.verification,
+        returnHistory,
       };
     }
-    return pos;
+    return returnHistory ? { ...pos, returnHistory } : pos;
   });
 
   // Add benchmark data
-  if (benchmarkData) {
-      if (typeof benchmarkData.oneYearChange === 'number') portfolio.metrics.benchmark1YearReturn = benchmarkData.oneYearChange;
-      if (typeof benchmarkData.threeYearChange === 'number') portfolio.metrics.benchmark3YearReturn = benchmarkData.threeYearChange;
-      if (typeof benchmarkData.fiveYearChange === 'number') portfolio.metrics.benchmark5YearReturn = benchmarkData.fiveYearChange;
-  }
+  const { benchmark, rejections: benchmarkRejections, provenance: benchmarkProvenance } = benchmarkData;
+  const metricProvenance: Partial<Record<BenchmarkField, FieldProvenance>> = { ...portfolio.metrics.benchmarkProvenance };
+  (Object.keys(benchmarkProvenance) as (keyof BenchmarkReturns)[]).forEach(field => {
+    metricProvenance[BENCHMARK_FIELD[field]] = benchmarkProvenance[field];
+  });
+  if (typeof benchmark.oneYearChange === 'number') refreshed.metrics.benchmark1YearReturn = benchmark.oneYearChange;
+  if (typeof benchmark.threeYearChange === 'number') refreshed.metrics.benchmark3YearReturn = benchmark.threeYearChange;
+  if (typeof benchmark.fiveYearChange === 'number') refreshed.metrics.benchmark5YearReturn = benchmark.fiveYearChange;
+  const rejectedBenchmarkFields = new Set(benchmarkRejections.map(r => r.field));
+  (['benchmark1YearReturn', 'benchmark3YearReturn', 'benchmark5YearReturn'] as const).forEach(field => {
+    if (rejectedBenchmarkFields.has(field)) {
+      delete refreshed.metrics[field];
+      delete metricProvenance[field];
+    }
+  });
+  refreshed.metrics.benchmarkProvenance = metricProvenance;
+  if (benchmarkHistory) refreshed.metrics.benchmarkReturnHistory = benchmarkHistory;
+  refreshed.metrics.benchmarkRejections = benchmarkRejections.length > 0 ? benchmarkRejections : undefined;
 
-  return portfolio;
+  // Computed metrics replace the model's estimates wherever the fresh data covers enough weight
+  return applyCalculatedMetrics(refreshed);
 };
 
-export const analyzeStock = async (ticker: string): Promise<StockAnalysisResult> => {
-  if (!apiKey) {
+/**
+ * Grounded fundamentals, performance, news and commentary for one ticker, as a fully typed result.
+ */
+export const analyzeStock = async (ticker: string, signal?: AbortSignal): Promise<StockAnalysisResult> => {
+  if (!isGeminiConfigured()) {
     throw new Error("API Key is missing");
   }
 
-  const model = "gemini-2.5-flash";
-  const prompt = `
-    Find real-time financial data for ${ticker}. 
-    
-    1. Current Price (USD)
-    2. Market Cap
-    3. P/E Ratio
-    4. Dividend Yield (%)
-    5. 3 bullet points on recent news.
-    6. Performance Percentages for:
-       - 1 Week
-       - 1 Month
-       - 3 Months
-       - 1 Year
-       - 5 Years
-
-    Output Format:
-    - First section: Text description with bold labels.
-    - Second section: A strict JSON block with the performance data (DO NOT use markdown code blocks for the JSON, just the string at the end).
-    JSON Example: 
-    { 
-      "1W": 1.2, 
-      "1M": -2.4, 
-      "3M": 5.5, 
-      "1Y": 12.0, 
-      "5Y": 40.5,
-      "marketCap": "2.5T",
-      "peRatio": 30.5,
-      "dividendYield": 0.5
-    }
-  `;
+  const { model, config: parameters } = modelRequestFor("analysis");
+  const { text: prompt, lineage } = renderPrompt("stock-analysis", { ticker });
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent({
       model,
       contents: prompt,
       config: {
+        ...parameters,
         tools: [{ googleSearch: {} }]
       }
-    });
+    }, signal, "analysis");
 
-    const fullText = response.text || "";
     const groundingChunks = (response.candidates?.[0]?.groundingMetadata?.groundingChunks || []) as GroundingChunk[];
 
-    // Extract JSON from text
-    let performance = {};
-    let marketCap, peRatio, dividendYield;
-
-    const jsonMatch = fullText.match(/\{[\s\S]*"1W"[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        const parsed = JSON.parse(jsonMatch[0]);
-        performance = {
-          oneWeek: parsed["1W"],
-          oneMonth: parsed["1M"],
-          threeMonth: parsed["3M"],
-          oneYear: parsed["1Y"],
-          fiveYear: parsed["5Y"]
-        };
-        marketCap = parsed.marketCap;
-        peRatio = parsed.peRatio;
-        dividendYield = parsed.dividendYield;
-      } catch (e) {
-        console.warn("Failed to parse performance JSON", e);
-      }
-    }
-
-    // Clean text by removing the JSON block if it looks messy
-    const content = fullText.replace(jsonMatch ? jsonMatch[0] : "", "").trim();
-    
-    // Extract price from content
-    const priceMatch = content.match(/\$([\d,]+\.\d{2})/);
-    const price = priceMatch ? parseFloat(priceMatch[1].replace(/,/g, '')) : undefined;
-
+    // Search grounding can't be combined with a response schema, so the JSON shape the prompt
+    // asks for is enforced by the parser: every field is validated and missing ones are null
     return {
-      content,
+      ...parseStockAnalysis(response.text || ""),
       groundingChunks,
-      performance,
-      price,
-      marketCap,
-      peRatio,
-      dividendYield
+      prompt: lineage
     };
   } catch (error) {
-    console.error("Error analyzing stock:", error);
+    if (!isCancellation(error)) console.error("Error analyzing stock:", error);
     throw error;
   }
 };
@@ -0,0 +1,215 @@
+import { MarketQuote, BenchmarkReturns, SourcedReturnSeries } from "../types";
+import { MarketDataProvider } from "./marketDataProvider";
+import { throwIfAborted } from "./requestScheduler";
+import { parseCsvRows } from "../utils/csv";
+import { monthlyReturnsFromCloses } from "../utils/riskModel";
+import { createReferenceCache, fetchReferenceText } from "../utils/referenceFiles";
+
+export interface PriceHistoryPoint {
+  date: string; // ISO date (YYYY-MM-DD)
+  close: number;
+}
+
+/**
+ * Fixture data backing the local provider.
+ * Explicit quote fields always win over values derived from history.
+ */
+export interface LocalMarketDataset {
+  asOf?: string;
+  benchmarkTicker?: string;
+  quotes: Record<string, MarketQuote>;
+  history?: Record<string, PriceHistoryPoint[]>;
+}
+
+const DEFAULT_BENCHMARK_TICKER = 'SPY';
+
+const QUOTE_FIELDS: (keyof MarketQuote)[] = ['price', 'dayChange', 'oneYearChange', 'threeYearChange', 'fiveYearChange', 'dividendYield'];
+
+/**
+ * Parses a quotes CSV with a `ticker` column followed by any MarketQuote fields.
+ * Blank or non-numeric cells are omitted rather than treated as zero.
+ */
+export const parseQuotesCsv = (text: string): Record<string, MarketQuote> => {
+  const quotes: Record<string, MarketQuote> = {};
+
+  parseCsvRows(text).forEach(row => {
+    const ticker = row.ticker?.toUpperCase();
+    if (!ticker) return;
+
+    const quote: MarketQuote = {};
+    QUOTE_FIELDS.forEach(field => {
+      const value = parseFloat(row[field]);
+      if (Number.isFinite(value)) quote[field] = value;
+    });
+    quotes[ticker] = quote;
+  });
+
+  return quotes;
+};
+
+/**
+ * Parses a quotes.json LocalMarketDataset, upper-casing its tickers.
+ */
+export const parseQuotesJson = (text: string): LocalMarketDataset => {
+  const parsed = JSON.parse(text) as LocalMarketDataset;
+  const quotes: Record<string, MarketQuote> = {};
+  Object.entries(parsed.quotes || {}).forEach(([ticker, quote]) => {
+    quotes[ticker.toUpperCase()] = quote;
+  });
+  return { ...parsed, quotes };
+};
+
+/**
+ * Parses a price history CSV with `ticker,date,close` columns into per-ticker series sorted by date.
+ */
+export const parseHistoryCsv = (text: string): Record<string, PriceHistoryPoint[]> => {
+  const history: Record<string, PriceHistoryPoint[]> = {};
+
+  parseCsvRows(text).forEach(row => {
+    const ticker = row.ticker?.toUpperCase();
+    const close = parseFloat(row.close);
+    if (!ticker || !row.date || !Number.isFinite(close)) return;
+
+    (history[ticker] ||= []).push({ date: row.date, close });
+  });
+
+  Object.values(history).forEach(series => series.sort((a, b) => a.date.localeCompare(b.date)));
+  return history;
+};
+
+/**
+ * Derives the latest price and 1Y/3Y/5Y total returns from a close series.
+ * A period is omitted when the series does not reach back far enough.
+ */
+export const deriveReturnsFromHistory = (series: PriceHistoryPoint[]): MarketQuote => {
+  if (series.length === 0) return {};
+
+  const sorted = [...series].sort((a, b) => a.date.localeCompare(b.date));
+  const latest = sorted[sorted.length - 1];
+  const latestDate = new Date(latest.date);
+
+  const changeSince = (years: number): number | undefined => {
+    const target = new Date(latestDate);
+    target.setFullYear(target.getFullYear() - years);
+
+    // Last close on or before the target date
+    const anchor = [...sorted].reverse().find(point => new Date(point.date) <= target);
+    if (!anchor || anchor.close <= 0) return undefined;
+
+    return Math.round((latest.close / anchor.close - 1) * 10000) / 100;
+  };
+
+  const derived: MarketQuote = { price: latest.close };
+  const oneYear = changeSince(1);
+  const threeYear = changeSince(3);
+  const fiveYear = changeSince(5);
+  if (oneYear !== undefined) derived.oneYearChange = oneYear;
+  if (threeYear !== undefined) derived.threeYearChange = threeYear;
+  if (fiveYear !== undefined) derived.fiveYearChange = fiveYear;
+
+  return derived;
+};
+
+const resolveQuote = (dataset: LocalMarketDataset, ticker: string): MarketQuote | null => {
+  const key = ticker.toUpperCase();
+  const quote = dataset.quotes[key];
+  const series = dataset.history?.[key];
+
+  if (!quote && !series) return null;
+
+  return {
+    ...(series ? deriveReturnsFromHistory(series) : {}),
+    ...quote,
+  };
+};
+
+/**
+ * Loads fixtures from a static directory:
+ * - quotes.json (a LocalMarketDataset) or quotes.csv
+ * - history.csv (optional, ticker,date,close)
+ */
+export const loadLocalMarketDataset = async (basePath: string): Promise<LocalMarketDataset> => {
+  const root = basePath.replace(/\/$/, '');
+  let dataset: LocalMarketDataset | null = null;
+
+  const quotesJson = await fetchReferenceText(`${root}/quotes.json`);
+  if (quotesJson) {
+    dataset = parseQuotesJson(quotesJson);
+  } else {
+    const quotesCsv = await fetchReferenceText(`${root}/quotes.csv`);
+    if (quotesCsv) dataset = { quotes: parseQuotesCsv(quotesCsv) };
+  }
+
+  if (!dataset) {
+    throw new Error(`No market data fixtures found at ${root} (expected quotes.json or quotes.csv)`);
+  }
+
+  const historyCsv = await fetchReferenceText(`${root}/history.csv`);
+  if (historyCsv) {
+    dataset.history = { ...dataset.history, ...parseHistoryCsv(historyCsv) };
+  }
+
+  return dataset;
+};
+
+/**
+ * Offline, deterministic provider backed by fixture data.
+ * Accepts an in-memory dataset or a base path that is loaded lazily on first use.
+ */
+export const createLocalMarketDataProvider = (source: LocalMarketDataset | string): MarketDataProvider => {
+  // A failed load is retried on the next call, once the fixtures are in place
+  const fixtures = createReferenceCache(
+    () => loadLocalMarketDataset(source as string),
+    error => { throw error; }
+  );
+  if (typeof source !== 'string') fixtures.set(source);
+  const getDataset = fixtures.get;
+
+  return {
+    name: 'Local Fixtures',
+    fetchQuotes: async (tickers, signal) => {
+      // The dataset load is shared across callers, so only check the signal once it settles
+      const dataset = await getDataset();
+      throwIfAborted(signal);
+      const result: Record<string, MarketQuote> = {};
+
+      tickers.forEach(ticker => {
+        const quote = resolveQuote(dataset, ticker);
+        if (quote) result[ticker] = quote;
+      });
+
+      return result;
+    },
+    fetchBenchmark: async (signal) => {
+      const dataset = await getDataset();
+      throwIfAborted(signal);
+      const quote = resolveQuote(dataset, dataset.benchmarkTicker || DEFAULT_BENCHMARK_TICKER);
+      if (!quote) return {};
+
+      const benchmark: BenchmarkReturns = {};
+      if (typeof quote.oneYearChange === 'number') benchmark.oneYearChange = quote.oneYearChange;
+      if (typeof quote.threeYearChange === 'number') benchmark.threeYearChange = quote.threeYearChange;
+      if (typeof quote.fiveYearChange === 'number') benchmark.fiveYearChange = quote.fiveYearChange;
+      return benchmark;
+    },
+    // Month-end closes from history.csv; tickers without at least two months are omitted
+    fetchMonthlyReturns: async (tickers, months, signal) => {
+      const dataset = await getDataset();
+      throwIfAborted(signal);
+      const result: Record<string, SourcedReturnSeries> = {};
+
+      tickers.forEach(ticker => {
+        const returns = monthlyReturnsFromCloses(dataset.history?.[ticker.toUpperCase()] || [], months);
+        if (returns.length > 0) result[ticker] = { returns };
+      });
+
+      return result;
+    },
+    fetchBenchmarkMonthlyReturns: async (months, signal) => {
+      const dataset = await getDataset();
+      throwIfAborted(signal);
+      const ticker = (dataset.benchmarkTicker || DEFAULT_BENCHMARK_TICKER).toUpperCase();
+      return { returns: monthlyReturnsFromCloses(dataset.history?.[ticker] || [], months) };
+    },
+  };
+};
@@ -0,0 +1,170 @@
+import { MarketQuote, FieldProvenance } from "../types";
+
+type QuoteField = keyof MarketQuote;
+
+export type MarketDataCacheTtls = Record<QuoteField, number>;
+
+export interface CachedQuote {
+  quote: MarketQuote;                                // Only values that have not expired
+  fetchedAt: Partial<Record<QuoteField, number>>;    // Epoch ms per returned value
+  provenance: Partial<Record<QuoteField, FieldProvenance>>; // Only for values written with provenance
+  unavailable: QuoteField[];                         // Fields the provider had no value for, not expired
+}
+
+export interface MarketDataCache {
+  read: (key: string, now?: number) => CachedQuote;
+  write: (
+    key: string,
+    quote: MarketQuote,
+    fetchedAt: Partial<Record<QuoteField, number>>,
+    provenance?: Partial<Record<QuoteField, FieldProvenance>>,
+    // Fields the provider answered without a value (e.g. no dividend), keyed by when it was asked
+    unavailable?: Partial<Record<QuoteField, number>>
+  ) => void;
+  setTtls: (ttls: Partial<MarketDataCacheTtls>) => void;
+  clear: () => void;
+}
+
+type CacheStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+interface CachedValue {
+  value: number | null; // null: the provider had no value
+  fetchedAt: number;
+  provenance?: FieldProvenance;
+}
+
+type CacheStore = Record<string, Partial<Record<QuoteField, CachedValue>>>;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Prices and the day's change move intraday; trailing returns and yields barely change within a day
+export const DEFAULT_CACHE_TTLS: MarketDataCacheTtls = {
+  price: 15 * MINUTE,
+  dayChange: 15 * MINUTE,
+  oneYearChange: 12 * HOUR,
+  threeYearChange: 24 * HOUR,
+  fiveYearChange: 24 * HOUR,
+  dividendYield: 24 * HOUR,
+};
+
+const STORAGE_KEY = 'climateshift-market-cache';
+
+/**
+ * Persistent per-ticker, per-field cache of validated market data.
+ * Everything lives under a single storage key so clearing it is one operation.
+ * Expired fields are dropped whenever the cache is read or written, so it doesn't keep growing
+ * with tickers no portfolio holds any more.
+ */
+export const createMarketDataCache = (
+  storage: CacheStorage | null = typeof localStorage !== 'undefined' ? localStorage : null,
+  ttls: Partial<MarketDataCacheTtls> = {}
+): MarketDataCache => {
+  let activeTtls: MarketDataCacheTtls = { ...DEFAULT_CACHE_TTLS, ...ttls };
+  let memoryStore: CacheStore = {};
+
+  const load = (): CacheStore => {
+    if (!storage) return memoryStore;
+    try {
+      const raw = storage.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) as CacheStore : {};
+    } catch (e) {
+      console.warn('Failed to read market data cache', e);
+      return {};
+    }
+  };
+
+  const save = (store: CacheStore) => {
+    if (!storage) {
+      memoryStore = store;
+      return;
+    }
+    try {
+      storage.setItem(STORAGE_KEY, JSON.stringify(store));
+    } catch (e) {
+      // Quota errors shouldn't break a refresh; the next one just fetches again
+      console.warn('Failed to write market data cache', e);
+    }
+  };
+
+  // Drops fields past their TTL, and tickers left with none, so the store only holds what read()
+  // could still return. Reports whether anything was dropped.
+  const prune = (store: CacheStore, now: number): boolean => {
+    let pruned = false;
+    Object.keys(store).forEach(key => {
+      const entry = store[key];
+      (Object.keys(entry) as QuoteField[]).forEach(field => {
+        const ttl = activeTtls[field];
+        if (ttl === undefined || now - entry[field]!.fetchedAt > ttl) {
+          delete entry[field];
+          pruned = true;
+        }
+      });
+      if (Object.keys(entry).length === 0) {
+        delete store[key];
+        pruned = true;
+      }
+    });
+    return pruned;
+  };
+
+  return {
+    read: (key, now = Date.now()) => {
+      const store = load();
+      if (prune(store, now)) save(store);
+      const entry = store[key.toUpperCase()] || {};
+      const result: CachedQuote = { quote: {}, fetchedAt: {}, provenance: {}, unavailable: [] };
+
+      (Object.keys(entry) as QuoteField[]).forEach(field => {
+        const cached = entry[field];
+        const ttl = activeTtls[field];
+        if (!cached || ttl === undefined || now - cached.fetchedAt > ttl) return;
+        if (cached.value === null) {
+          result.unavailable.push(field);
+          return;
+        }
+        result.quote[field] = cached.value;
+        result.fetchedAt[field] = cached.fetchedAt;
+        if (cached.provenance) result.provenance[field] = cached.provenance;
+      });
+
+      return result;
+    },
+    write: (key, quote, fetchedAt, provenance = {}, unavailable = {}) => {
+      const store = load();
+      const entry = store[key.toUpperCase()] || {};
+
+      (Object.keys(unavailable) as QuoteField[]).forEach(field => {
+        const timestamp = unavailable[field];
+        if (typeof timestamp === 'number') entry[field] = { value: null, fetchedAt: timestamp };
+      });
+
+      (Object.keys(quote) as QuoteField[]).forEach(field => {
+        const value = quote[field];
+        const timestamp = fetchedAt[field];
+        if (typeof value === 'number' && typeof timestamp === 'number') {
+          const fieldProvenance = provenance[field];
+          entry[field] = fieldProvenance
+            ? { value, fetchedAt: timestamp, provenance: { ...fieldProvenance, fromCache: undefined } }
+            : { value, fetchedAt: timestamp };
+        }
+      });
+
+      store[key.toUpperCase()] = entry;
+      // As of the newest value written, which is when this data was fetched
+      const written = [...Object.values(fetchedAt), ...Object.values(unavailable)].filter((t): t is number => typeof t === 'number');
+      if (written.length > 0) prune(store, Math.max(...written));
+      save(store);
+    },
+    setTtls: (ttls) => {
+      activeTtls = { ...activeTtls, ...ttls };
+    },
+    clear: () => {
+      memoryStore = {};
+      storage?.removeItem(STORAGE_KEY);
+    },
+  };
+};
+
+// Shared browser cache used by refreshPortfolioPrices
+export const marketDataCache = createMarketDataCache();
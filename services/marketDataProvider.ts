@@ -0,0 +1,109 @@
+import { SourcedQuote, SourcedBenchmark, SourcedReturnSeries, TaskModelSettings } from "../types";
+import { geminiMarketDataProvider } from "./geminiMarketDataProvider";
+import { createLocalMarketDataProvider } from "./localMarketDataProvider";
+import { VerificationTolerances } from "../utils/crossVerification";
+
+/**
+ * A source of prices, historical returns and dividend yields.
+ * Implementations return only the fields they could find; missing tickers are omitted.
+ * Answers may list the sources they were read from, which end up in each field's provenance.
+ * They should stop work and reject once the optional signal aborts.
+ */
+export interface MarketDataProvider {
+  name: string;
+  // Maximum tickers per fetchQuotes call (unbounded if omitted)
+  batchSize?: number;
+  fetchQuotes: (tickers: string[], signal?: AbortSignal) => Promise<Record<string, SourcedQuote>>;
+  fetchBenchmark: (signal?: AbortSignal) => Promise<SourcedBenchmark>;
+  // Up to `months` monthly total returns per ticker, oldest first. Providers without price
+  // history leave this out, and volatility then falls back to the model's estimate.
+  fetchMonthlyReturns?: (tickers: string[], months: number, signal?: AbortSignal) => Promise<Record<string, SourcedReturnSeries>>;
+  // The same for the S&P 500 benchmark; returns an empty series when unavailable
+  fetchBenchmarkMonthlyReturns?: (months: number, signal?: AbortSignal) => Promise<SourcedReturnSeries>;
+  // Model and parameters behind the data, for providers backed by a generative model
+  modelSettings?: () => TaskModelSettings;
+}
+
+const DEFAULT_LOCAL_DATA_PATH = '/market-data';
+
+let activeProvider: MarketDataProvider | null = null;
+
+/**
+ * Builds the provider selected by the MARKET_DATA_PROVIDER env variable ("gemini" or "local").
+ */
+const createConfiguredProvider = (): MarketDataProvider => {
+  const selected = (process.env.MARKET_DATA_PROVIDER || 'gemini').toLowerCase();
+
+  switch (selected) {
+    case 'local':
+      return createLocalMarketDataProvider(process.env.MARKET_DATA_PATH || DEFAULT_LOCAL_DATA_PATH);
+    case 'gemini':
+      return geminiMarketDataProvider;
+    default:
+      console.warn(`Unknown market data provider "${selected}", falling back to Gemini`);
+      return geminiMarketDataProvider;
+  }
+};
+
+export const getMarketDataProvider = (): MarketDataProvider => {
+  if (!activeProvider) {
+    activeProvider = createConfiguredProvider();
+  }
+  return activeProvider;
+};
+
+/**
+ * Overrides the configured provider (e.g. a vendor integration or a test double).
+ * Pass null to fall back to the env configuration.
+ */
+export const setMarketDataProvider = (provider: MarketDataProvider | null): void => {
+  activeProvider = provider;
+};
+
+/**
+ * Cross-verification settings: fetched values are compared against a second, independent fetch.
+ */
+export interface VerificationConfig {
+  // Second source; defaults to a repeat fetch from the primary provider
+  provider?: MarketDataProvider;
+  tolerances?: Partial<VerificationTolerances>;
+}
+
+// undefined until first read, then the env configuration or an override; null means disabled
+let activeVerification: VerificationConfig | null | undefined;
+
+/**
+ * Reads the MARKET_DATA_VERIFICATION env variable: "off" (default), "repeat" (second fetch from
+ * the primary provider), or "gemini" / "local" to cross-check against that provider.
+ */
+const createConfiguredVerification = (): VerificationConfig | null => {
+  const selected = (process.env.MARKET_DATA_VERIFICATION || 'off').toLowerCase();
+
+  switch (selected) {
+    case 'off':
+      return null;
+    case 'repeat':
+      return {};
+    case 'local':
+      return { provider: createLocalMarketDataProvider(process.env.MARKET_DATA_PATH || DEFAULT_LOCAL_DATA_PATH) };
+    case 'gemini':
+      return { provider: geminiMarketDataProvider };
+    default:
+      console.warn(`Unknown verification mode "${selected}", cross-verification disabled`);
+      return null;
+  }
+};
+
+export const getVerificationConfig = (): VerificationConfig | null => {
+  if (activeVerification === undefined) {
+    activeVerification = createConfiguredVerification();
+  }
+  return activeVerification;
+};
+
+/**
+ * Enables cross-verification with the given settings, or disables it with null.
+ */
+export const setVerificationConfig = (config: VerificationConfig | null): void => {
+  activeVerification = config;
+};
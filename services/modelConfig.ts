@@ -0,0 +1,127 @@
+import { GenerateContentConfig } from "@google/genai";
+import { ModelConfig, ModelTask, TaskModelSettings } from "../types";
+
+export const DEFAULT_MODEL = "gemini-2.5-flash";
+
+// Suggestions for the settings panel. Other names can be entered, but the proxy server only
+// runs the models it allows (GEMINI_ALLOWED_MODELS, by default the priced ones)
+export const SUGGESTED_MODELS = ["gemini-2.5-flash", "gemini-2.5-flash-lite", "gemini-2.5-pro"];
+
+export const MODEL_TASKS: ModelTask[] = ["structure", "enrichment", "headlines", "analysis"];
+
+export const MODEL_TASK_LABELS: Record<ModelTask, string> = {
+  structure: "Portfolio structure",
+  enrichment: "Market data enrichment",
+  headlines: "Headlines",
+  analysis: "Stock analysis",
+};
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+  structure: { model: DEFAULT_MODEL },
+  enrichment: { model: DEFAULT_MODEL },
+  headlines: { model: DEFAULT_MODEL },
+  analysis: { model: DEFAULT_MODEL },
+};
+
+const STORAGE_KEY = 'climateshift-model-config';
+
+interface ConfigStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+const storage: ConfigStorage | null = typeof localStorage !== 'undefined' ? localStorage : null;
+
+const finiteIn = (value: unknown, min: number, max: number): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : undefined;
+
+/**
+ * Drops out-of-range parameters and fills missing tasks with defaults,
+ * so stored or hand-edited settings can never produce an invalid request.
+ */
+export const sanitizeModelConfig = (input: unknown): ModelConfig => {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Partial<Record<ModelTask, Partial<TaskModelSettings>>>;
+  const config = {} as ModelConfig;
+
+  MODEL_TASKS.forEach(task => {
+    const raw = source[task] || {};
+    const settings: TaskModelSettings = {
+      model: typeof raw.model === 'string' && raw.model.trim() ? raw.model.trim() : DEFAULT_MODEL_CONFIG[task].model,
+    };
+    const temperature = finiteIn(raw.temperature, 0, 2);
+    const seed = finiteIn(raw.seed, 0, Number.MAX_SAFE_INTEGER);
+    const maxOutputTokens = finiteIn(raw.maxOutputTokens, 1, 1_000_000);
+    if (temperature !== undefined) settings.temperature = temperature;
+    if (seed !== undefined) settings.seed = Math.floor(seed);
+    if (maxOutputTokens !== undefined) settings.maxOutputTokens = Math.floor(maxOutputTokens);
+    config[task] = settings;
+  });
+
+  return config;
+};
+
+let activeConfig: ModelConfig | null = null;
+
+const loadStoredConfig = (): ModelConfig => {
+  try {
+    const raw = storage?.getItem(STORAGE_KEY);
+    return sanitizeModelConfig(raw ? JSON.parse(raw) : DEFAULT_MODEL_CONFIG);
+  } catch (e) {
+    console.warn('Failed to read model settings', e);
+    return DEFAULT_MODEL_CONFIG;
+  }
+};
+
+export const getModelConfig = (): ModelConfig => {
+  if (!activeConfig) {
+    activeConfig = loadStoredConfig();
+  }
+  return activeConfig;
+};
+
+/**
+ * Replaces and persists the model settings. Pass null to restore the defaults.
+ */
+export const setModelConfig = (config: ModelConfig | null): void => {
+  activeConfig = config ? sanitizeModelConfig(config) : DEFAULT_MODEL_CONFIG;
+  try {
+    if (config) {
+      storage?.setItem(STORAGE_KEY, JSON.stringify(activeConfig));
+    } else {
+      storage?.removeItem(STORAGE_KEY);
+    }
+  } catch (e) {
+    console.warn('Failed to save model settings', e);
+  }
+};
+
+let configResolver: (() => ModelConfig | undefined) | null = null;
+
+/**
+ * Lets the settings come from somewhere other than this module, e.g. the proxy server
+ * applying each client's settings to its own request. Pass null to remove it.
+ */
+export const setModelConfigResolver = (resolver: (() => ModelConfig | undefined) | null): void => {
+  configResolver = resolver;
+};
+
+/**
+ * Model name and sampling parameters for one task's request.
+ * `settings` is what was used, for recording alongside the result.
+ */
+export const modelRequestFor = (task: ModelTask): { model: string; config: GenerateContentConfig; settings: TaskModelSettings } => {
+  const settings = (configResolver?.() || getModelConfig())[task];
+  const { model, ...parameters } = settings;
+  return { model, config: parameters, settings };
+};
+
+/**
+ * Compact label such as "gemini-2.5-pro · temp 0.2 · seed 7 · max 2048 tokens".
+ */
+export const formatModelSettings = (settings: TaskModelSettings): string => [
+  settings.model,
+  settings.temperature !== undefined ? `temp ${settings.temperature}` : null,
+  settings.seed !== undefined ? `seed ${settings.seed}` : null,
+  settings.maxOutputTokens !== undefined ? `max ${settings.maxOutputTokens} tokens` : null,
+].filter(Boolean).join(' · ');
@@ -0,0 +1,171 @@
+import type { ProxyError, StreamMessage } from "../server/proxyServer";
+import { GeneratedPortfolio, NewsHeadline, ProgressEvent, StockAnalysisResult, StockPosition } from "../types";
+import { getModelConfig } from "./modelConfig";
+import { BudgetExceededError, UsageRecord, usageMeter } from "./usageMeter";
+import { CancelledRequestError, FatalRequestError, RetryableRequestError } from "./requestScheduler";
+
+export interface ProxyClientOptions {
+  baseUrl: string;
+  fetch: typeof fetch;
+}
+
+export interface ProxyHealth {
+  status: "ok";
+  backend: string;
+  configured: boolean;
+  marketDataProvider: string;
+  // Whether the server has cross-verification configured; the default for the toggle
+  verification: boolean;
+}
+
+export interface ProxyRefreshOptions {
+  signal?: AbortSignal;
+  // Cross-check fetched values with the server's verification source
+  verify?: boolean;
+}
+
+export interface ProxyClient {
+  health: (signal?: AbortSignal) => Promise<ProxyHealth>;
+  generateETFPortfolio: (
+    userPreferences?: string,
+    onProgress?: (event: ProgressEvent) => void,
+    signal?: AbortSignal,
+    options?: Pick<ProxyRefreshOptions, "verify">
+  ) => Promise<GeneratedPortfolio>;
+  refreshPortfolioPrices: (
+    portfolio: GeneratedPortfolio,
+    onProgress?: (event: ProgressEvent) => void,
+    options?: ProxyRefreshOptions
+  ) => Promise<GeneratedPortfolio>;
+  fetchMarketHeadlines: (query?: string, signal?: AbortSignal) => Promise<NewsHeadline[]>;
+  fetchPortfolioHeadlines: (positions: StockPosition[], signal?: AbortSignal) => Promise<NewsHeadline[]>;
+  analyzeStock: (ticker: string, signal?: AbortSignal) => Promise<StockAnalysisResult>;
+}
+
+export const DEFAULT_PROXY_CLIENT_OPTIONS: ProxyClientOptions = {
+  baseUrl: "/api",
+  fetch: (input, init) => fetch(input, init),
+};
+
+// Rebuilds the error class the server reported, so callers handle it as if the call were local
+const toError = (error: ProxyError | undefined, status: number): Error => {
+  if (!error) return new FatalRequestError(`Proxy request failed with status ${status}`, status);
+  switch (error.kind) {
+    case "budget":
+      return new BudgetExceededError(error.spent ?? 0, error.budget ?? 0);
+    case "retryable":
+    case "rate-limited":
+      return new RetryableRequestError(error.message, status, error.retryAfterMs);
+    case "fatal":
+      return new FatalRequestError(error.message, status);
+    case "cancelled":
+      return new CancelledRequestError(error.message);
+    default:
+      return new Error(error.message);
+  }
+};
+
+/**
+ * Browser side of the proxy server: the same operations as geminiService, made over HTTP so
+ * the Gemini key stays on the server. Requests carry the current model settings; the usage each
+ * response reports is recorded on the local usage meter, whose budget is checked before sending.
+ */
+export const createProxyClient = (options: Partial<ProxyClientOptions> = {}): ProxyClient => {
+  const config: ProxyClientOptions = { ...DEFAULT_PROXY_CLIENT_OPTIONS, ...options };
+
+  const post = async (path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    usageMeter.checkBudget();
+    try {
+      return await config.fetch(`${config.baseUrl}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, models: getModelConfig() }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw new CancelledRequestError();
+      throw new RetryableRequestError("Could not reach the proxy server");
+    }
+  };
+
+  const failure = async (response: Response): Promise<Error> => {
+    const payload = await response.json().catch(() => null) as { error?: ProxyError; usage?: UsageRecord[] } | null;
+    if (payload?.usage) usageMeter.ingest(payload.usage);
+    return toError(payload?.error, response.status);
+  };
+
+  const requestJson = async <T>(path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<T> => {
+    const response = await post(path, body, signal);
+    if (!response.ok) throw await failure(response);
+    const payload = await response.json() as { data: T; usage: UsageRecord[] };
+    usageMeter.ingest(payload.usage || []);
+    return payload.data;
+  };
+
+  // Reads NDJSON progress lines as they arrive until the result or error line
+  const requestStream = async (
+    path: string,
+    body: Record<string, unknown>,
+    onProgress?: (event: ProgressEvent) => void,
+    signal?: AbortSignal
+  ): Promise<GeneratedPortfolio> => {
+    const response = await post(path, body, signal);
+    if (!response.ok || !response.body) throw await failure(response);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const lines = buffered.split("\n");
+        buffered = done ? "" : lines.pop()!;
+
+        for (const line of lines.filter(l => l.trim())) {
+          const message = JSON.parse(line) as StreamMessage;
+          if (message.type === "progress") {
+            onProgress?.(message.event);
+            continue;
+          }
+          usageMeter.ingest(message.usage || []);
+          if (message.type === "error") throw toError(message.error, response.status);
+          return message.data;
+        }
+        if (done) throw new RetryableRequestError("Proxy stream ended without a result");
+      }
+    } catch (error) {
+      if (signal?.aborted) throw new CancelledRequestError();
+      throw error;
+    } finally {
+      reader.cancel().catch(() => undefined);
+    }
+  };
+
+  return {
+    health: async (signal) => {
+      const response = await config.fetch(`${config.baseUrl}/health`, { signal });
+      if (!response.ok) throw await failure(response);
+      return await response.json() as ProxyHealth;
+    },
+    generateETFPortfolio: (userPreferences, onProgress, signal, refreshOptions = {}) =>
+      requestStream("/generate", { preferences: userPreferences, verify: !!refreshOptions.verify }, onProgress, signal),
+    refreshPortfolioPrices: (portfolio, onProgress, refreshOptions = {}) =>
+      requestStream("/refresh", { portfolio, verify: !!refreshOptions.verify }, onProgress, refreshOptions.signal),
+    fetchMarketHeadlines: (query, signal) => requestJson("/headlines", { scope: "market", query }, signal),
+    fetchPortfolioHeadlines: (positions, signal) => requestJson("/headlines", { scope: "portfolio", positions }, signal),
+    analyzeStock: (ticker, signal) => requestJson("/analyze", { ticker }, signal),
+  };
+};
+
+// Shared client used by the app; each export matches the geminiService function it replaces
+export const proxyClient = createProxyClient();
+
+export const {
+  health,
+  generateETFPortfolio,
+  refreshPortfolioPrices,
+  fetchMarketHeadlines,
+  fetchPortfolioHeadlines,
+  analyzeStock,
+} = proxyClient;
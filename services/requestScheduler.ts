@@ -0,0 +1,238 @@
+import { isRecord } from '../utils/typeGuards';
+
+/**
+ * Base class for errors surfaced by the request scheduler.
+ * `retryable` tells callers whether the failure was transient (and retries were exhausted)
+ * or fatal (retrying can never succeed, e.g. a bad API key).
+ */
+export class RequestError extends Error {
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryable: boolean, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'RequestError';
+    this.retryable = retryable;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class RetryableRequestError extends RequestError {
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message, true, status, retryAfterMs);
+    this.name = 'RetryableRequestError';
+  }
+}
+
+export class FatalRequestError extends RequestError {
+  constructor(message: string, status?: number) {
+    super(message, false, status);
+    this.name = 'FatalRequestError';
+  }
+}
+
+export class CancelledRequestError extends RequestError {
+  constructor(message: string = 'Request cancelled') {
+    super(message, false);
+    this.name = 'CancelledRequestError';
+  }
+}
+
+/**
+ * True for our own cancellation error and for native AbortErrors raised by fetch or the SDK.
+ */
+export const isCancellation = (error: unknown): boolean =>
+  error instanceof CancelledRequestError || (isRecord(error) && error.name === 'AbortError');
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw new CancelledRequestError();
+};
+
+/**
+ * Rejects with CancelledRequestError as soon as the signal aborts, otherwise mirrors the promise.
+ */
+const raceAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new CancelledRequestError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CancelledRequestError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const TRANSIENT_MESSAGE = /fetch failed|failed to fetch|network|timed? ?out|ECONNRESET|ETIMEDOUT|socket hang up|RESOURCE_EXHAUSTED|UNAVAILABLE/i;
+
+const errorMessage = (error: unknown): string =>
+  isRecord(error) && typeof error.message === 'string' ? error.message : String(error);
+
+/**
+ * HTTP status of a thrown value: its numeric `status` or `code`, or one quoted in its message.
+ */
+export const extractStatus = (error: unknown): number | undefined => {
+  if (!isRecord(error)) return undefined;
+  const status = error.status ?? error.code;
+  if (typeof status === 'number') return status;
+
+  // Some SDK errors only carry the status in the message, e.g. "got status: 429 Too Many Requests"
+  const match = typeof error.message === 'string' && error.message.match(/status(?: code)?:?\s*(\d{3})|"code":\s*(\d{3})/i);
+  return match ? parseInt(match[1] || match[2], 10) : undefined;
+};
+
+/**
+ * Maps any thrown value to a RetryableRequestError or FatalRequestError.
+ * Rate limits, server errors and network failures are retryable; everything else is fatal.
+ */
+export const classifyError = (error: unknown): RequestError => {
+  if (error instanceof RequestError) return error;
+  if (isCancellation(error)) return new CancelledRequestError();
+
+  const message = errorMessage(error);
+  const status = extractStatus(error);
+
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.has(status)
+      ? new RetryableRequestError(message, status)
+      : new FatalRequestError(message, status);
+  }
+
+  return TRANSIENT_MESSAGE.test(message)
+    ? new RetryableRequestError(message)
+    : new FatalRequestError(message);
+};
+
+export interface SchedulerOptions {
+  concurrency: number;     // Max tasks in flight at once
+  maxRetries: number;      // Retries after the first attempt for retryable errors
+  baseDelayMs: number;     // Backoff for the first retry, doubled on each subsequent one
+  maxDelayMs: number;      // Backoff cap
+  callsPerMinute: number;  // Rolling one-minute call budget (each attempt counts)
+  sleep: (ms: number) => Promise<void>;
+  random: () => number;
+  now: () => number;
+}
+
+export interface RequestScheduler {
+  // The signal cancels the task while it is queued, waiting on the budget, backing off or running
+  schedule: <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+  configure: (options: Partial<SchedulerOptions>) => void;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 3,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+  callsPerMinute: 15,
+  sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms)),
+  random: Math.random,
+  now: () => Date.now(),
+};
+
+/**
+ * Runs async tasks with a concurrency limit, a per-minute call budget and
+ * exponential backoff with jitter for retryable failures.
+ * Tasks that still fail reject with a classified RequestError; aborted tasks reject
+ * with CancelledRequestError and free their slot immediately.
+ */
+export const createRequestScheduler = (options: Partial<SchedulerOptions> = {}): RequestScheduler => {
+  let config: SchedulerOptions = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  const callTimes: number[] = [];
+
+  const acquireSlot = (signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledRequestError());
+      return;
+    }
+    if (active < config.concurrency) {
+      active++;
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      const index = waiting.indexOf(grant);
+      if (index >= 0) waiting.splice(index, 1);
+      reject(new CancelledRequestError());
+    };
+    const grant = () => {
+      signal?.removeEventListener('abort', onAbort);
+      active++;
+      resolve();
+    };
+    waiting.push(grant);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  const releaseSlot = () => {
+    active--;
+    const next = waiting.shift();
+    if (next) next();
+  };
+
+  const consumeBudget = async (signal?: AbortSignal) => {
+    while (true) {
+      throwIfAborted(signal);
+      const now = config.now();
+      while (callTimes.length > 0 && now - callTimes[0] >= MINUTE_MS) callTimes.shift();
+
+      if (callTimes.length < config.callsPerMinute) {
+        callTimes.push(now);
+        return;
+      }
+      // Wait until the oldest call in the window ages out
+      await raceAbort(config.sleep(MINUTE_MS - (now - callTimes[0])), signal);
+    }
+  };
+
+  // "Equal jitter": half the exponential delay is fixed, the other half random
+  const backoffDelay = (attempt: number, error: RequestError): number => {
+    const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+    const jittered = exponential / 2 + config.random() * (exponential / 2);
+    return Math.max(jittered, error.retryAfterMs ?? 0);
+  };
+
+  const schedule = async <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    await acquireSlot(signal);
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await consumeBudget(signal);
+        try {
+          return await raceAbort(task(), signal);
+        } catch (err) {
+          if (signal?.aborted) throw new CancelledRequestError();
+          const error = classifyError(err);
+          if (!error.retryable || attempt >= config.maxRetries) throw error;
+          console.warn(`Request failed (${error.message}), retrying (attempt ${attempt + 2}/${config.maxRetries + 1})`);
+          await raceAbort(config.sleep(backoffDelay(attempt, error)), signal);
+        }
+      }
+    } finally {
+      releaseSlot();
+    }
+  };
+
+  return {
+    schedule,
+    configure: (overrides) => {
+      config = { ...config, ...overrides };
+    },
+  };
+};
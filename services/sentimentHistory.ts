@@ -0,0 +1,93 @@
+import { SentimentSnapshot, StockPosition } from '../types';
+import { holdingSentiment } from '../utils/newsSentiment';
+
+type HistoryStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+type HistoryStore = Record<string, SentimentSnapshot[]>;
+
+const STORAGE_KEY = 'climateshift-sentiment-history';
+
+export interface SentimentHistoryOptions {
+  maxEntries: number; // Per holding; the oldest snapshots are dropped first
+  now: () => number;
+}
+
+export const DEFAULT_SENTIMENT_HISTORY_OPTIONS: SentimentHistoryOptions = {
+  maxEntries: 60,
+  now: () => Date.now(),
+};
+
+export interface SentimentHistory {
+  // Appends a snapshot for every position whose headlines carry sentiment
+  record: (positions: Pick<StockPosition, 'ticker' | 'headlines'>[]) => void;
+  // Oldest first
+  history: (ticker: string) => SentimentSnapshot[];
+  clear: () => void;
+}
+
+/**
+ * Per-holding news sentiment over time, kept in `storage` so it survives refreshes and reloads.
+ */
+export const createSentimentHistory = (
+  storage: HistoryStorage | null = typeof localStorage !== 'undefined' ? localStorage : null,
+  options: Partial<SentimentHistoryOptions> = {}
+): SentimentHistory => {
+  const config: SentimentHistoryOptions = { ...DEFAULT_SENTIMENT_HISTORY_OPTIONS, ...options };
+  let memoryStore: HistoryStore = {};
+
+  const load = (): HistoryStore => {
+    if (!storage) return memoryStore;
+    try {
+      const raw = storage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : null;
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as HistoryStore : {};
+    } catch (e) {
+      console.warn('Failed to read sentiment history', e);
+      return {};
+    }
+  };
+
+  const save = (store: HistoryStore) => {
+    if (!storage) {
+      memoryStore = store;
+      return;
+    }
+    try {
+      storage.setItem(STORAGE_KEY, JSON.stringify(store));
+    } catch (e) {
+      console.warn('Failed to write sentiment history', e);
+    }
+  };
+
+  return {
+    record: (positions) => {
+      const at = config.now();
+      const store = load();
+      let changed = false;
+      positions.forEach(position => {
+        const sentiment = holdingSentiment(position.headlines || []);
+        if (!sentiment) return;
+        const entries = Array.isArray(store[position.ticker]) ? store[position.ticker] : [];
+        store[position.ticker] = [...entries, { at, ...sentiment }].slice(-config.maxEntries);
+        changed = true;
+      });
+      if (changed) save(store);
+    },
+    history: (ticker) => {
+      const entries = load()[ticker];
+      return Array.isArray(entries) ? entries : [];
+    },
+    clear: () => {
+      memoryStore = {};
+      if (!storage) return;
+      try {
+        storage.removeItem(STORAGE_KEY);
+      } catch (e) {
+        console.warn('Failed to clear sentiment history', e);
+      }
+    },
+  };
+};
+
+// Shared history used by the app
+export const sentimentHistory = createSentimentHistory();
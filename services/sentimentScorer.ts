@@ -0,0 +1,107 @@
+import { NewsHeadline, StockPosition } from "../types";
+import { lexiconScore, headlineRelevance, sentimentLabel } from "../utils/newsSentiment";
+import { geminiSentimentScorer } from "./geminiSentimentScorer";
+import { isCancellation } from "./requestScheduler";
+
+export interface HeadlineScore {
+  score: number;     // -1 to 1
+  relevance: number; // 0 to 1
+}
+
+export type ScoredPosition = Pick<StockPosition, 'ticker' | 'name' | 'sector' | 'weight'>;
+
+/**
+ * Scores headlines for sentiment and relevance to the holdings.
+ * Results are index-aligned with `headlines`; entries left undefined are scored by the lexicon.
+ * Implementations should reject once the optional signal aborts.
+ */
+export interface SentimentScorer {
+  name: string;
+  scoreHeadlines: (
+    headlines: NewsHeadline[],
+    positions: ScoredPosition[],
+    signal?: AbortSignal
+  ) => Promise<(HeadlineScore | undefined)[]>;
+}
+
+/**
+ * Offline, deterministic scorer: a finance word list for sentiment, ticker and sector mentions for relevance.
+ */
+export const lexiconSentimentScorer: SentimentScorer = {
+  name: "Lexicon",
+  scoreHeadlines: async (headlines, positions) =>
+    headlines.map(headline => ({ score: lexiconScore(headline.title), relevance: headlineRelevance(headline, positions) })),
+};
+
+let activeScorer: SentimentScorer | null = null;
+
+/**
+ * Builds the scorer selected by the NEWS_SENTIMENT_SCORER env variable ("lexicon" or "gemini").
+ */
+const createConfiguredScorer = (): SentimentScorer => {
+  const selected = (process.env.NEWS_SENTIMENT_SCORER || 'lexicon').toLowerCase();
+
+  switch (selected) {
+    case 'lexicon':
+      return lexiconSentimentScorer;
+    case 'gemini':
+      return geminiSentimentScorer;
+    default:
+      console.warn(`Unknown sentiment scorer "${selected}", falling back to the lexicon`);
+      return lexiconSentimentScorer;
+  }
+};
+
+export const getSentimentScorer = (): SentimentScorer => {
+  if (!activeScorer) {
+    activeScorer = createConfiguredScorer();
+  }
+  return activeScorer;
+};
+
+/**
+ * Overrides the configured scorer (e.g. a vendor model or a test double).
+ * Pass null to fall back to the env configuration.
+ */
+export const setSentimentScorer = (scorer: SentimentScorer | null): void => {
+  activeScorer = scorer;
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const isUsableScore = (entry: HeadlineScore | undefined): entry is HeadlineScore =>
+  !!entry && Number.isFinite(entry.score) && Number.isFinite(entry.relevance);
+
+/**
+ * Adds sentiment and relevance to each headline with the active scorer.
+ * Headlines the scorer leaves out, or every headline if it fails, are scored by the lexicon;
+ * only cancellation rejects.
+ */
+export const scoreHeadlines = async (
+  headlines: NewsHeadline[],
+  positions: ScoredPosition[],
+  signal?: AbortSignal,
+  scorer: SentimentScorer = getSentimentScorer()
+): Promise<NewsHeadline[]> => {
+  if (headlines.length === 0) return headlines;
+
+  let scores: (HeadlineScore | undefined)[] = [];
+  try {
+    scores = await scorer.scoreHeadlines(headlines, positions, signal);
+  } catch (error) {
+    if (isCancellation(error)) throw error;
+    console.warn(`Sentiment scorer "${scorer.name}" failed, using the lexicon:`, error);
+  }
+  const fallback = await lexiconSentimentScorer.scoreHeadlines(headlines, positions);
+
+  return headlines.map((headline, i) => {
+    const own = isUsableScore(scores[i]) ? scores[i] : undefined;
+    const { score, relevance } = own || fallback[i]!;
+    const clamped = Math.round(clamp(score, -1, 1) * 100) / 100;
+    return {
+      ...headline,
+      sentiment: { score: clamped, label: sentimentLabel(clamped), scorer: own ? scorer.name : lexiconSentimentScorer.name },
+      relevance: Math.round(clamp(relevance, 0, 1) * 100) / 100,
+    };
+  });
+};
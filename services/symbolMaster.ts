@@ -0,0 +1,54 @@
+import { SymbolListing, SymbolMaster } from "../utils/symbolResolution";
+import { parseCsvRows } from "../utils/csv";
+import { createReferenceCache, loadReferenceFile } from "../utils/referenceFiles";
+
+const DEFAULT_SYMBOL_MASTER_URL = '/reference-data/symbols.csv';
+
+/**
+ * Parses a listing file with `ticker,exchange,name,listedOn,currency,sector` columns.
+ * Rows without a ticker or exchange are skipped. Only mark the file `complete` when it is a
+ * full exchange listing: tickers missing from a complete master are rejected as nonexistent.
+ */
+export const parseSymbolMasterCsv = (text: string, options: { complete?: boolean } = {}): SymbolMaster => {
+  const listings: Record<string, SymbolListing[]> = {};
+
+  parseCsvRows(text).forEach(row => {
+    const ticker = row.ticker?.toUpperCase();
+    if (!ticker || !row.exchange) return;
+    (listings[ticker] ||= []).push({
+      ticker,
+      exchange: row.exchange.toUpperCase(),
+      name: row.name,
+      listedOn: row.listedOn,
+      currency: (row.currency || 'USD').toUpperCase(),
+      sector: row.sector,
+    });
+  });
+
+  return { listings, complete: options.complete ?? false };
+};
+
+export const loadSymbolMaster = (url: string): Promise<SymbolMaster> =>
+  loadReferenceFile(url, parseSymbolMasterCsv, 'symbol master');
+
+// Without a listing file no ticker can be judged, so symbol checks are skipped rather than
+// failing every position
+const master = createReferenceCache<SymbolMaster | null>(
+  () => loadSymbolMaster(DEFAULT_SYMBOL_MASTER_URL),
+  error => {
+    console.warn('Symbol master unavailable, skipping ticker resolution', error);
+    return null;
+  }
+);
+
+/**
+ * Returns the shared symbol master, loading it on first use. Resolves to null when the
+ * listing file is unavailable.
+ */
+export const getSymbolMaster = (): Promise<SymbolMaster | null> => master.get();
+
+/**
+ * Overrides the symbol master (e.g. a vendor listing feed or a test fixture).
+ * Pass null to go back to loading the bundled file.
+ */
+export const setSymbolMaster = (listing: SymbolMaster | null): void => master.set(listing);
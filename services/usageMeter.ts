@@ -0,0 +1,327 @@
+import { FatalRequestError } from "./requestScheduler";
+
+// What a Gemini call was made for; usage is aggregated along these
+export type UsageOperation = 'structure' | 'replacements' | 'market-data' | 'benchmark' | 'headlines' | 'sentiment' | 'analysis' | 'other';
+
+export const USAGE_OPERATION_LABELS: Record<UsageOperation, string> = {
+  structure: 'Portfolio structure',
+  replacements: 'Position replacements',
+  'market-data': 'Market data batches',
+  benchmark: 'Benchmark',
+  headlines: 'Headlines',
+  sentiment: 'Headline sentiment',
+  analysis: 'Stock analysis',
+  other: 'Other',
+};
+
+// USD per million tokens; thinking tokens are billed as output
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPricing>;
+
+// Published paid-tier list prices (prompts up to 200k tokens); adjust with usageMeter.configure
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+};
+
+export interface UsageRecord {
+  sessionId: string;
+  operation: UsageOperation;
+  model: string;
+  timestamp: number;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number | null;  // Null when the model is missing from the price table
+  failed: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  cost: number;
+  unpricedCalls: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byOperation: Partial<Record<UsageOperation, UsageTotals>>;
+}
+
+export interface SessionUsage {
+  sessionId: string;
+  startedAt: number;
+  summary: UsageSummary;
+}
+
+export interface UsageMeterOptions {
+  prices: PriceTable;
+  // Session spend in USD after which further calls are refused; null for no cap
+  budgetUsd: number | null;
+  maxRecords: number;
+  now: () => number;
+}
+
+export interface UsageMeter {
+  // Runs one model call, refusing it when over budget and recording its usage either way
+  measure: <T extends { usageMetadata?: UsageMetadataLike }>(operation: UsageOperation, model: string, call: () => Promise<T>) => Promise<T>;
+  // Throws BudgetExceededError once this session's spend has reached the budget
+  checkBudget: () => void;
+  // This session's spend as the budget sees it: unpriced calls count at the highest listed prices
+  budgetSpent: () => number;
+  // Adds calls made on this session's behalf elsewhere, e.g. by the proxy server
+  ingest: (records: UsageRecord[]) => void;
+  sessionSummary: () => UsageSummary;
+  history: () => SessionUsage[];
+  options: () => UsageMeterOptions;
+  configure: (options: Partial<Omit<UsageMeterOptions, 'now'>>) => void;
+  clearHistory: () => void;
+  // Listeners receive the new record when the change is a recorded call
+  subscribe: (listener: (entry?: UsageRecord) => void) => () => void;
+}
+
+// Subset of the SDK's usageMetadata that is metered
+export interface UsageMetadataLike {
+  promptTokenCount?: number;
+  toolUsePromptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export class BudgetExceededError extends FatalRequestError {
+  readonly spent: number;
+  readonly budget: number;
+
+  constructor(spent: number, budget: number) {
+    super(`Usage budget of $${budget.toFixed(2)} reached ($${spent.toFixed(4)} spent this session); further model calls are blocked`);
+    this.name = 'BudgetExceededError';
+    this.spent = spent;
+    this.budget = budget;
+  }
+}
+
+type UsageStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+interface UsageStore {
+  records: UsageRecord[];
+  budgetUsd?: number | null;
+}
+
+const STORAGE_KEY = 'climateshift-usage';
+
+export const DEFAULT_USAGE_OPTIONS: UsageMeterOptions = {
+  prices: DEFAULT_PRICE_TABLE,
+  budgetUsd: null,
+  maxRecords: 1000,
+  now: () => Date.now(),
+};
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0, failedCalls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, latencyMs: 0, cost: 0, unpricedCalls: 0,
+});
+
+// Adds one call to a summary in place
+const addToSummary = (summary: UsageSummary, record: UsageRecord) => {
+  const operation = summary.byOperation[record.operation] || (summary.byOperation[record.operation] = emptyTotals());
+  [summary.total, operation].forEach(totals => {
+    totals.calls++;
+    if (record.failed) totals.failedCalls++;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.totalTokens += record.totalTokens;
+    totals.latencyMs += record.latencyMs;
+    if (record.cost === null) totals.unpricedCalls++;
+    else totals.cost += record.cost;
+  });
+};
+
+const copySummary = (summary: UsageSummary): UsageSummary => ({
+  total: { ...summary.total },
+  byOperation: Object.fromEntries(Object.entries(summary.byOperation).map(([operation, totals]) => [operation, { ...totals }])),
+});
+
+/**
+ * Adds up calls, tokens, latency and cost overall and per operation.
+ * Calls on unpriced models contribute tokens but no cost and are counted separately.
+ */
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+  const summary: UsageSummary = { total: emptyTotals(), byOperation: {} };
+  records.forEach(record => addToSummary(summary, record));
+  return summary;
+};
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number, prices: PriceTable): number | null => {
+  const pricing = prices[model];
+  if (!pricing) return null;
+  return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+};
+
+/**
+ * What a call counts for against a budget. Calls on models missing from the price table are
+ * charged at the table's highest input and output prices, so naming an unknown model can't
+ * slip past the cap.
+ */
+export const budgetCost = (record: Pick<UsageRecord, 'cost' | 'inputTokens' | 'outputTokens'>, prices: PriceTable): number => {
+  if (record.cost !== null) return record.cost;
+  const rates = Object.values(prices);
+  const highest = (key: keyof ModelPricing) => Math.max(0, ...rates.map(pricing => pricing[key]));
+  return (record.inputTokens * highest('inputPerMillion') + record.outputTokens * highest('outputPerMillion')) / 1_000_000;
+};
+
+const tokensFrom = (usage: UsageMetadataLike | undefined) => {
+  const inputTokens = (usage?.promptTokenCount || 0) + (usage?.toolUsePromptTokenCount || 0);
+  const outputTokens = (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0);
+  return { inputTokens, outputTokens, totalTokens: usage?.totalTokenCount || inputTokens + outputTokens };
+};
+
+/**
+ * Meters every model call: token counts from `usageMetadata`, latency and estimated cost.
+ * Records persist across page loads (capped at `maxRecords`) and are grouped into sessions,
+ * one per meter instance. The budget applies to the current session only: a page reload starts
+ * a new session with nothing spent. Session totals are kept as a running sum so a long-lived
+ * meter (the proxy server's) stays constant in size and cost.
+ */
+export const createUsageMeter = (
+  storage: UsageStorage | null = typeof localStorage !== 'undefined' ? localStorage : null,
+  options: Partial<UsageMeterOptions> = {}
+): UsageMeter => {
+  let memoryStore: UsageStore = { records: [] };
+
+  const load = (): UsageStore => {
+    if (!storage) return memoryStore;
+    try {
+      const raw = storage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) as UsageStore : null;
+      return parsed && Array.isArray(parsed.records) ? parsed : { records: [] };
+    } catch (e) {
+      console.warn('Failed to read usage history', e);
+      return { records: [] };
+    }
+  };
+
+  const save = (store: UsageStore) => {
+    if (!storage) {
+      memoryStore = store;
+      return;
+    }
+    try {
+      storage.setItem(STORAGE_KEY, JSON.stringify(store));
+    } catch (e) {
+      console.warn('Failed to write usage history', e);
+    }
+  };
+
+  const stored = load();
+  let config: UsageMeterOptions = {
+    ...DEFAULT_USAGE_OPTIONS,
+    ...(stored.budgetUsd !== undefined ? { budgetUsd: stored.budgetUsd } : {}),
+    ...options,
+  };
+  const sessionId = String(config.now());
+  const sessionTotals: UsageSummary = { total: emptyTotals(), byOperation: {} };
+  const listeners = new Set<(entry?: UsageRecord) => void>();
+  const notify = (entry?: UsageRecord) => listeners.forEach(listener => listener(entry));
+
+  let budgetSpent = 0;
+
+  const record = (entry: UsageRecord) => {
+    addToSummary(sessionTotals, entry);
+    budgetSpent += budgetCost(entry, config.prices);
+    const store = load();
+    save({ ...store, records: [...store.records, entry].slice(-config.maxRecords) });
+    notify(entry);
+  };
+
+  const checkBudget = () => {
+    if (config.budgetUsd !== null && budgetSpent >= config.budgetUsd) {
+      throw new BudgetExceededError(budgetSpent, config.budgetUsd);
+    }
+  };
+
+  const measure: UsageMeter['measure'] = async (operation, model, call) => {
+    checkBudget();
+
+    const startedAt = config.now();
+    const base = { sessionId, operation, model, timestamp: startedAt };
+    try {
+      const response = await call();
+      const tokens = tokensFrom(response.usageMetadata);
+      record({
+        ...base,
+        ...tokens,
+        latencyMs: config.now() - startedAt,
+        cost: estimateCost(model, tokens.inputTokens, tokens.outputTokens, config.prices),
+        failed: false,
+      });
+      return response;
+    } catch (error) {
+      // Failed attempts aren't billed, but their latency and count still matter
+      record({ ...base, inputTokens: 0, outputTokens: 0, totalTokens: 0, latencyMs: config.now() - startedAt, cost: 0, failed: true });
+      throw error;
+    }
+  };
+
+  return {
+    measure,
+    checkBudget,
+    budgetSpent: () => budgetSpent,
+    // Recorded under this session whatever session they were made in
+    ingest: (records) => records.forEach(entry => record({ ...entry, sessionId })),
+    sessionSummary: () => copySummary(sessionTotals),
+    history: () => {
+      const bySession = new Map<string, UsageRecord[]>();
+      load().records.forEach(entry => {
+        bySession.set(entry.sessionId, [...(bySession.get(entry.sessionId) || []), entry]);
+      });
+      return Array.from(bySession.entries())
+        .map(([id, records]) => ({ sessionId: id, startedAt: records[0].timestamp, summary: summarizeUsage(records) }))
+        .sort((a, b) => b.startedAt - a.startedAt);
+    },
+    options: () => config,
+    configure: (overrides) => {
+      config = { ...config, ...overrides };
+      if (overrides.budgetUsd !== undefined) save({ ...load(), budgetUsd: config.budgetUsd });
+      notify();
+    },
+    clearHistory: () => {
+      memoryStore = { records: [], budgetUsd: config.budgetUsd };
+      save({ records: [], budgetUsd: config.budgetUsd });
+      notify();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// The browser's meter: its usage panel, budget and the usage the proxy reports back
+export const usageMeter = createUsageMeter();
+
+let meterResolver: (() => UsageMeter | undefined) | null = null;
+
+/**
+ * The meter wrapped around a Gemini call: the resolver's, when it has one, else the browser's.
+ */
+export const getUsageMeter = (): UsageMeter => meterResolver?.() || usageMeter;
+
+/**
+ * Lets calls be metered somewhere else, e.g. the proxy server metering each request with the
+ * meter of the server that took it. Pass null to remove it.
+ */
+export const setUsageMeterResolver = (resolver: (() => UsageMeter | undefined) | null): void => {
+  meterResolver = resolver;
+};
@@ -8,9 +8,13 @@ import {
   calculateProjectedReturn,
   estimateVolatility,
   calculateSharpeRatio,
-  calculateAllMetrics
+  calculateAllMetrics,
+  calculateCoverage,
+  calculateRiskAnalytics,
+  applyCalculatedMetrics
 } from '../utils/calculations';
-import { GeneratedPortfolio, StockPosition } from '../types';
+import { GeneratedPortfolio, ReturnHistory, StockPosition } from '../types';
+import { shiftMonth } from '../utils/riskModel';
 
 const mockPortfolio: GeneratedPortfolio = {
   name: "Test Fund",
@@ -156,60 +160,102 @@ describe('calculateProjectedReturn', () => {
   });
 });
 
+// Monthly return history repeating `pattern` from January 2020
+const history = (pattern: number[], months = 24): ReturnHistory => ({
+  returns: Array.from({ length: months }, (_, i) => ({ month: shiftMonth('2020-01', i), return: pattern[i % pattern.length] })),
+  provenance: { provider: 'Test', fetchedAt: 0, pass: 'initial', sources: [] },
+});
+
+// A and B move together (B at half A's size); C is uncorrelated with both
+const riskPortfolio: GeneratedPortfolio = {
+  ...mockPortfolio,
+  positions: [
+    { ticker: 'A', weight: 50, oneYearChangePercent: 25, returnHistory: history([4, -4]) } as StockPosition,
+    { ticker: 'B', weight: 25, oneYearChangePercent: 15, returnHistory: history([2, -2]) } as StockPosition,
+    { ticker: 'C', weight: 25, oneYearChangePercent: 10, returnHistory: history([2, 2, -2, -2]) } as StockPosition,
+  ]
+};
+
 describe('estimateVolatility', () => {
-  it('returns null if fewer than 3 positions have data', () => {
-    // mockPortfolio only has 2 positions, so it should return null
-    const result = estimateVolatility(mockPortfolio);
-    expect(result).toBeNull();
+  it('returns null without return histories', () => {
+    expect(estimateVolatility(mockPortfolio)).toBeNull();
   });
 
-  it('estimates volatility from cross-sectional return dispersion', () => {
-    const multiPositionPortfolio: GeneratedPortfolio = {
-      ...mockPortfolio,
-      positions: [
-        { ticker: "A", weight: 30, oneYearChangePercent: 25, dividendYieldPercent: 1.5 } as StockPosition,
-        { ticker: "B", weight: 30, oneYearChangePercent: 15, dividendYieldPercent: 2.0 } as StockPosition,
-        { ticker: "C", weight: 40, oneYearChangePercent: 10, dividendYieldPercent: 1.0 } as StockPosition,
-      ]
+  it('computes annualized volatility from the covariance of monthly returns', () => {
+    // Each series has mean 0 over 24 months, so sample variances are 24x²/23.
+    // Portfolio months are 0.5·A + 0.25·B = ±2.5, plus 0.25·C = ±0.5 uncorrelated with them:
+    // w'Σw = (2.5² + 0.5²) · 24/23 per month
+    const expected = Math.sqrt(12 * (2.5 ** 2 + 0.5 ** 2) * 24 / 23);
+    expect(estimateVolatility(riskPortfolio)).toBeCloseTo(expected, 6);
+  });
+
+  it('shrinks the covariance toward the average correlation when asked', () => {
+    // Pair correlations are 1, 0 and 0, so full shrinkage gives every pair a correlation of 1/3
+    const sigma = (x: number) => x * Math.sqrt(24 / 23);
+    const [sa, sb, sc] = [sigma(4), sigma(2), sigma(2)];
+    const variance = 0.25 * sa ** 2 + 0.0625 * sb ** 2 + 0.0625 * sc ** 2
+      + 2 * (1 / 3) * (0.5 * 0.25 * sa * sb + 0.5 * 0.25 * sa * sc + 0.25 * 0.25 * sb * sc);
+    expect(estimateVolatility(riskPortfolio, { shrinkage: 1 })).toBeCloseTo(Math.sqrt(12 * variance), 6);
+  });
+
+  it('renormalizes weights over holdings with history and needs more than half the weight', () => {
+    const withoutC = { ...riskPortfolio, positions: riskPortfolio.positions.map(pos => (pos.ticker === 'C' ? { ...pos, returnHistory: undefined } : pos)) };
+    // A and B at 2/3 and 1/3: ±(8/3 + 2/3) per month
+    expect(estimateVolatility(withoutC)).toBeCloseTo(Math.sqrt(12 * (10 / 3) ** 2 * 24 / 23), 6);
+
+    const onlyB = { ...riskPortfolio, positions: riskPortfolio.positions.map(pos => (pos.ticker === 'B' ? pos : { ...pos, returnHistory: undefined })) };
+    expect(estimateVolatility(onlyB)).toBeNull();
+  });
+
+  it('needs 24 months shared by every holding', () => {
+    const short = {
+      ...riskPortfolio,
+      positions: riskPortfolio.positions.map(pos => (pos.ticker === 'A' ? { ...pos, returnHistory: history([4, -4], 23) } : pos)),
     };
-    // Returns: [25, 15, 10]. Mean = 16.67
-    // Variance = ((25-16.67)^2 + (15-16.67)^2 + (10-16.67)^2) / 3
-    //          = (69.39 + 2.79 + 44.49) / 3 = 38.89
-    // StdDev = 6.24
-    // With diversification factor 0.7: 6.24 * 0.7 = 4.37
-    const result = estimateVolatility(multiPositionPortfolio);
-    expect(result).toBeCloseTo(4.37, 1);
+    expect(estimateVolatility(short)).toBeNull();
   });
 });
 
 describe('calculateSharpeRatio', () => {
   it('returns null when volatility cannot be estimated', () => {
-    // Our mock only has 2 positions, so volatility will be null
+    // The mock portfolio has no return history
     const result = calculateSharpeRatio(mockPortfolio);
     expect(result).toBeNull();
   });
 
-  it('calculates Sharpe ratio with enough positions', () => {
-    const multiPositionPortfolio: GeneratedPortfolio = {
-      ...mockPortfolio,
-      positions: [
-        { ticker: "A", weight: 30, oneYearChangePercent: 25, dividendYieldPercent: 1.5 } as StockPosition,
-        { ticker: "B", weight: 30, oneYearChangePercent: 15, dividendYieldPercent: 2.0 } as StockPosition,
-        { ticker: "C", weight: 40, oneYearChangePercent: 10, dividendYieldPercent: 1.0 } as StockPosition,
-      ]
-    };
-    // 1Y return: (30*25 + 30*15 + 40*10)/100 = (750+450+400)/100 = 16
-    // Projected return = 16 - 0.10 = 15.9
-    // Returns: [25, 15, 10]. Mean = 16.67
-    // Variance = ((25-16.67)^2 + (15-16.67)^2 + (10-16.67)^2) / 3
-    //          = (69.39 + 2.79 + 44.49) / 3 = 38.89
-    // StdDev = 6.24
-    // Volatility = 6.24 * 0.7 = 4.37
-    // Risk-free rate = 4.25%
-    // Sharpe = (15.9 - 4.25) / 4.37 = 2.67
-    const result = calculateSharpeRatio(multiPositionPortfolio);
-    expect(result).not.toBeNull();
-    expect(result).toBeCloseTo(2.67, 1);
+  it('divides the excess projected return by the covariance volatility', () => {
+    // 1Y return: 0.5·25 + 0.25·15 + 0.25·10 = 18.75, minus the 0.10 expense ratio
+    const volatility = Math.sqrt(12 * (2.5 ** 2 + 0.5 ** 2) * 24 / 23);
+    expect(calculateSharpeRatio(riskPortfolio)).toBeCloseTo((18.65 - 4.25) / volatility, 6);
+  });
+});
+
+describe('calculateRiskAnalytics', () => {
+  it('returns null without enough return history', () => {
+    expect(calculateRiskAnalytics(mockPortfolio)).toBeNull();
+  });
+
+  it('computes the tail and benchmark statistics of the weighted monthly series', () => {
+    // Portfolio months repeat 3, -2, 2, -3; the benchmark alternates ±1 like A and B
+    const withBenchmark = { ...riskPortfolio, metrics: { ...riskPortfolio.metrics, benchmarkReturnHistory: history([1, -1]) } };
+    const risk = calculateRiskAnalytics(withBenchmark)!;
+
+    expect(risk.holdings.months).toHaveLength(24);
+    expect(risk.returns.slice(0, 4).map(r => Number(r.toFixed(6)))).toEqual([3, -2, 2, -3]);
+    // ceil(5% of 24) = the two worst months, both -3
+    expect(risk.historical).toEqual({ valueAtRisk: 3, expectedShortfall: 3 });
+    expect(risk.drawdown.maxDrawdown).toBeLessThan(0);
+
+    // C is uncorrelated with the benchmark, so beta is A and B's combined 2.5
+    expect(risk.benchmark!.months).toHaveLength(24);
+    expect(risk.benchmark!.beta).toBeCloseTo(2.5, 6);
+    expect(risk.benchmark!.correlation).toBeCloseTo(2.5 / Math.sqrt(2.5 ** 2 + 0.5 ** 2), 6);
+  });
+
+  it('leaves the benchmark statistics out without a long enough S&P 500 series', () => {
+    const shortBenchmark = { ...riskPortfolio, metrics: { ...riskPortfolio.metrics, benchmarkReturnHistory: history([1, -1], 12) } };
+    expect(calculateRiskAnalytics(riskPortfolio)!.benchmark).toBeNull();
+    expect(calculateRiskAnalytics(shortBenchmark)!.benchmark).toBeNull();
   });
 });
 
@@ -223,10 +269,104 @@ describe('calculateAllMetrics', () => {
     // Dividend yield should be formatted
     expect(result.dividendYield).toBe('1.50%');
 
-    // Sharpe ratio should be null (not enough positions for volatility)
+    // Sharpe ratio should be null (no return history for volatility)
     expect(result.sharpeRatio).toBeNull();
 
-    // Volatility should be null (only 2 positions)
+    // Volatility should be null (no return history)
     expect(result.annualizedVolatility).toBeNull();
   });
-});
\ No newline at end of file
+});
+describe('applyCalculatedMetrics', () => {
+  it('overwrites model estimates where coverage allows and keeps the estimate alongside', () => {
+    const { metrics } = applyCalculatedMetrics(mockPortfolio);
+
+    expect(metrics.projectedReturn).toBe('+14.9%');
+    expect(metrics.estimates?.projectedReturn).toEqual({ source: 'computed', modelEstimate: '10%', computed: '+14.9%', coverage: 100 });
+    // Without return histories there is no volatility, so the Sharpe ratio stays the model's
+    expect(metrics.sharpeRatio).toBe('1.0');
+    expect(metrics.estimates?.sharpeRatio).toMatchObject({ source: 'model', computed: null });
+    expect(metrics.isCalculated).toEqual({ projectedReturn: true, dividendYield: true, sharpeRatio: false });
+  });
+
+  it('computes volatility and Sharpe from return histories, covered as far as both inputs go', () => {
+    const partial = { ...riskPortfolio, positions: riskPortfolio.positions.map(pos => (pos.ticker === 'C' ? { ...pos, oneYearChangePercent: undefined } : pos)) };
+    const { metrics } = applyCalculatedMetrics(partial);
+
+    expect(metrics.estimates?.projectedVolatility).toMatchObject({ source: 'computed', modelEstimate: 'Med', coverage: 100 });
+    expect(metrics.projectedVolatility).toMatch(/^\d+\.\d%$/);
+    expect(metrics.estimates?.sharpeRatio).toMatchObject({ source: 'computed', coverage: 75 });
+  });
+
+  it('falls back to the original model estimate when a later refresh loses coverage', () => {
+    const computed = applyCalculatedMetrics(mockPortfolio);
+    const sparse = applyCalculatedMetrics({
+      ...computed,
+      positions: computed.positions.map((pos, i) => (i === 0 ? { ...pos, oneYearChangePercent: undefined } : pos)),
+    });
+
+    expect(sparse.metrics.projectedReturn).toBe('10%');
+    expect(sparse.metrics.estimates?.projectedReturn).toEqual({ source: 'model', modelEstimate: '10%', computed: null, coverage: 50 });
+  });
+});
+
+describe('calculateCoverage', () => {
+  it('counts only the weight of usable values', () => {
+    const portfolio = {
+      ...mockPortfolio,
+      positions: [
+        { ...mockPortfolio.positions[0], weight: 70, dataRejections: [{ field: 'dividendYieldPercent', value: 90, reason: 'too high' }] },
+        mockPortfolio.positions[1],
+      ].map(pos => pos as StockPosition),
+    };
+    expect(calculateCoverage(portfolio, 'dividendYieldPercent')).toBe(50);
+    expect(calculateCoverage(portfolio, 'oneYearChangePercent')).toBe(100);
+  });
+});
+
+describe('rejected market data', () => {
+  it('excludes fields flagged by validation from weighted returns', () => {
+    const flaggedPortfolio: GeneratedPortfolio = {
+      ...mockPortfolio,
+      positions: [
+        {
+          ...mockPortfolio.positions[0],
+          weight: 60,
+          dataRejections: [{ field: 'oneYearChangePercent', value: 900, reason: 'implausible' }]
+        },
+        { ...mockPortfolio.positions[1], weight: 40 }
+      ]
+    };
+    // A's 1Y value is ignored, leaving only 40% coverage
+    expect(calculateWeightedReturn(flaggedPortfolio, 'oneYearChangePercent')).toBeNull();
+    // Other fields on A are still used
+    expect(calculateWeightedReturn(flaggedPortfolio, 'fiveYearChangePercent')).toBeCloseTo(52);
+  });
+});
+
+describe('low-confidence market data', () => {
+  const disagreed = { status: 'disagreed' as const, provider: 'Second', secondaryValue: 20, difference: 40, tolerance: 20, checkedAt: 0 };
+  const flaggedPortfolio: GeneratedPortfolio = {
+    ...mockPortfolio,
+    positions: [
+      { ...mockPortfolio.positions[0], weight: 60, verification: { fiveYearChangePercent: disagreed } },
+      { ...mockPortfolio.positions[1], weight: 40 }
+    ]
+  };
+
+  it('includes flagged values by default', () => {
+    expect(calculateWeightedReturn(flaggedPortfolio, 'fiveYearChangePercent')).toBeCloseTo(52);
+  });
+
+  it('down-weights flagged values while keeping their coverage', () => {
+    // A: 60 * 0.5 = 30 effective weight at 60%, B: 40 at 40% -> (1800 + 1600) / 70
+    const result = calculateWeightedReturn(flaggedPortfolio, 'fiveYearChangePercent', { lowConfidence: 'downweight' });
+    expect(result).toBeCloseTo(3400 / 70);
+  });
+
+  it('excludes flagged values, which can drop coverage below the threshold', () => {
+    expect(calculateWeightedReturn(flaggedPortfolio, 'fiveYearChangePercent', { lowConfidence: 'exclude' })).toBeNull();
+    expect(generateBacktestData(flaggedPortfolio, new Date(), { lowConfidence: 'exclude' })).toEqual([]);
+    // Unflagged fields on the same position are unaffected
+    expect(calculateWeightedReturn(flaggedPortfolio, 'oneYearChangePercent', { lowConfidence: 'exclude' })).toBeCloseTo(16);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { compareQuotes, getConfidenceLevel, describeVerification } from '../utils/crossVerification';
+import { refreshPortfolioPrices } from '../services/geminiService';
+import { MarketDataProvider } from '../services/marketDataProvider';
+import { GeneratedPortfolio, StockPosition } from '../types';
+
+const context = { provider: 'Second', checkedAt: 1000 };
+
+describe('compareQuotes', () => {
+  it('flags fields that differ beyond their tolerance', () => {
+    const result = compareQuotes(
+      { price: 100, oneYearChange: 10, fiveYearChange: 50 },
+      { price: 101, oneYearChange: 30, fiveYearChange: 60 },
+      context
+    );
+    expect(result.currentPrice).toMatchObject({ status: 'agreed', difference: 1, tolerance: 2 });
+    expect(result.oneYearChangePercent).toMatchObject({ status: 'disagreed', secondaryValue: 30, difference: 20 });
+    expect(result.fiveYearChangePercent?.status).toBe('agreed');
+    // Only fields present in the primary quote are checked
+    expect(result.threeYearChangePercent).toBeUndefined();
+  });
+
+  it('checks the day change and dividend yield in percentage points', () => {
+    const result = compareQuotes({ dayChange: 1.2, dividendYield: 2.8 }, { dayChange: -0.4, dividendYield: 2.6 }, context);
+    expect(result.dayChangePercent).toMatchObject({ status: 'disagreed', tolerance: 1 });
+    expect(result.dividendYieldPercent).toMatchObject({ status: 'agreed', tolerance: 0.5 });
+  });
+
+  it('measures price differences relative to the primary price', () => {
+    const result = compareQuotes({ price: 10 }, { price: 10.5 }, context);
+    expect(result.currentPrice).toMatchObject({ status: 'disagreed', difference: 5 });
+  });
+
+  it('honours custom tolerances', () => {
+    const result = compareQuotes({ oneYearChange: 10 }, { oneYearChange: 18 }, { ...context, tolerances: { oneYearChange: 10 } });
+    expect(result.oneYearChangePercent?.status).toBe('agreed');
+  });
+
+  it('marks fields missing from the second fetch as unverified', () => {
+    const result = compareQuotes({ price: 100, fiveYearChange: 50 }, { price: 100 }, context);
+    expect(result.fiveYearChangePercent).toEqual({ status: 'unverified', provider: 'Second', tolerance: 20, checkedAt: 1000 });
+    expect(compareQuotes({ price: 100 }, undefined, context).currentPrice?.status).toBe('unverified');
+  });
+});
+
+describe('getConfidenceLevel', () => {
+  const position = (verification: StockPosition['verification']) => ({ ticker: 'AAA', verification } as StockPosition);
+
+  it('is low when any value disagrees, verified when all agree, null otherwise', () => {
+    const agreed = compareQuotes({ price: 100, oneYearChange: 10 }, { price: 100, oneYearChange: 11 }, context);
+    const mixed = compareQuotes({ price: 100, oneYearChange: 10 }, { price: 100, oneYearChange: 40 }, context);
+    const partial = compareQuotes({ price: 100, oneYearChange: 10 }, { price: 100 }, context);
+
+    expect(getConfidenceLevel(position(agreed))).toBe('verified');
+    expect(getConfidenceLevel(position(mixed))).toBe('low');
+    expect(getConfidenceLevel(position(partial))).toBeNull();
+    expect(getConfidenceLevel(position(undefined))).toBeNull();
+  });
+});
+
+describe('describeVerification', () => {
+  it('explains a disagreement with both values and the tolerance', () => {
+    const check = compareQuotes({ fiveYearChange: 45 }, { fiveYearChange: 80 }, context).fiveYearChangePercent!;
+    expect(describeVerification('fiveYearChangePercent', 45, check))
+      .toBe('5Y return: 45.00% vs 80.00% from Second (35.0pp apart, tolerance 20pp)');
+  });
+});
+
+describe('refreshPortfolioPrices cross-verification', () => {
+  const portfolio = (): GeneratedPortfolio => ({
+    name: 'Test Fund',
+    description: 'Test',
+    narrative: 'Narrative',
+    metrics: { projectedReturn: '10%', projectedVolatility: 'Med', dividendYield: '1%', sharpeRatio: '1.0' },
+    positions: [{ ticker: 'AAA', weight: 50 } as StockPosition, { ticker: 'BBB', weight: 50 } as StockPosition],
+  });
+  const stub = (name: string, quotes: Record<string, object>): MarketDataProvider => ({
+    name,
+    fetchQuotes: async () => quotes,
+    fetchBenchmark: async () => ({}),
+  });
+  const primary = stub('Primary', {
+    AAA: { price: 100, oneYearChange: 10, threeYearChange: 30, fiveYearChange: 50 },
+    BBB: { price: 20, oneYearChange: 5, threeYearChange: 15, fiveYearChange: 25 },
+  });
+
+  it('records per-field agreement against the second provider', async () => {
+    const second = stub('Second', {
+      AAA: { price: 100.5, oneYearChange: 11, threeYearChange: 31, fiveYearChange: 120 },
+      BBB: { price: 20, oneYearChange: 5 },
+    });
+    const stages: string[] = [];
+
+    const refreshed = await refreshPortfolioPrices(portfolio(), event => stages.push(event.stage), {
+      provider: primary,
+      cache: null,
+      verification: { provider: second },
+    });
+    const [aaa, bbb] = refreshed.positions;
+
+    expect(aaa.verification?.fiveYearChangePercent).toMatchObject({ status: 'disagreed', provider: 'Second', secondaryValue: 120 });
+    expect(aaa.verification?.currentPrice?.status).toBe('agreed');
+    expect(getConfidenceLevel(aaa)).toBe('low');
+    // The primary value is kept; only its confidence changes
+    expect(aaa.fiveYearChangePercent).toBe(50);
+    expect(bbb.verification?.fiveYearChangePercent?.status).toBe('unverified');
+    expect(stages).toContain('verification');
+  });
+
+  it('skips the second fetch when verification is disabled', async () => {
+    const refreshed = await refreshPortfolioPrices(portfolio(), undefined, { provider: primary, cache: null, verification: null });
+    expect(refreshed.positions[0].verification).toBeUndefined();
+  });
+});
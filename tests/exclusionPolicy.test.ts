@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { checkPosition, describeViolation, CompanyReferenceDataset } from '../utils/exclusionPolicy';
+import { StockPosition } from '../types';
+
+const reference: CompanyReferenceDataset = {
+  companies: {
+    MSFT: { sector: 'Information Technology', industry: 'Software', listedOn: '1986-03-13', revenueFlags: [] },
+    XOM: { sector: 'Energy', industry: 'Oil, Gas & Consumable Fuels', listedOn: '1950-01-03', revenueFlags: ['fossil-fuels'] },
+    QS: { sector: 'Consumer Discretionary', industry: 'Automobile Components', listedOn: '2020-11-27', revenueFlags: ['pre-revenue'] },
+    RIVN: { sector: 'Consumer Discretionary', industry: 'Automobiles', listedOn: '2021-11-10', revenueFlags: [] },
+    ENVA: { sector: 'Financials', industry: 'Consumer Finance', listedOn: '2014-11-13', revenueFlags: ['predatory-lending'] },
+  },
+};
+
+const referenceDate = new Date('2026-10-16');
+const position = (ticker: string, sector = 'Technology'): StockPosition =>
+  ({ ticker, sector, weight: 10, type: 'Core' } as StockPosition);
+
+describe('checkPosition', () => {
+  it('passes a compliant company', () => {
+    expect(checkPosition(position('MSFT'), reference, undefined, referenceDate)).toEqual([]);
+  });
+
+  it('fires the ticker blocklist before other rules of the same policy', () => {
+    const [match] = checkPosition(position('xom'), reference, undefined, referenceDate);
+    expect(match).toMatchObject({ ticker: 'XOM', policyId: 'fossil-fuels', rule: 'ticker' });
+  });
+
+  it('matches industry terms as whole words in reference or reported sectors', () => {
+    const fromReported = checkPosition(position('ACME', 'Aerospace & Defense'), reference, undefined, referenceDate);
+    expect(fromReported[0]).toMatchObject({ policyId: 'weapons', rule: 'industry' });
+    expect(fromReported[0].detail).toBe('reported sector "Aerospace & Defense" matches "defense"');
+
+    // "gas" must not match inside another word
+    expect(checkPosition(position('ACME', 'Gaseous Diffusion Research'), reference, undefined, referenceDate)).toEqual([]);
+  });
+
+  it('uses revenue flags and listing dates from the reference dataset', () => {
+    expect(checkPosition(position('ENVA'), reference, undefined, referenceDate).map(m => m.policyId)).toEqual(['predatory-lending']);
+
+    // Listed just under six years ago: only the pre-revenue flag fires
+    expect(checkPosition(position('QS'), reference, undefined, referenceDate).map(m => m.rule)).toEqual(['revenue-flag']);
+    expect(checkPosition(position('RIVN'), reference, undefined, referenceDate)[0].detail).toMatch(/listed 2021-11-10 \(4\.9 years ago\)/);
+  });
+});
+
+describe('describeViolation', () => {
+  it('names the replacement when there is one', () => {
+    const base = { ticker: 'XOM', policyId: 'fossil-fuels', policyLabel: 'Fossil fuels', rule: 'ticker' as const, detail: 'XOM is on the blocklist' };
+    expect(describeViolation({ ...base, action: 'replaced', replacement: 'NEE' }))
+      .toBe('Replaced XOM with NEE: Fossil fuels (XOM is on the blocklist)');
+    expect(describeViolation({ ...base, action: 'removed' })).toBe('Removed XOM: Fossil fuels (XOM is on the blocklist)');
+  });
+});
@@ -0,0 +1,169 @@
+import path from 'node:path';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { GenerateContentParameters, GenerateContentResponse } from '@google/genai';
+import {
+  createRecordingBackend,
+  createReplayBackend,
+  fingerprintRequest,
+  ReplayMissError,
+} from '../services/geminiRecording';
+import { GeminiBackend, generateContent, geminiScheduler, setGeminiBackend } from '../services/geminiClient';
+import { geminiMarketDataProvider } from '../services/geminiMarketDataProvider';
+import { fetchMarketHeadlines } from '../services/geminiService';
+import { DEFAULT_SCHEDULER_OPTIONS, FatalRequestError, RetryableRequestError } from '../services/requestScheduler';
+import { readGeminiFixture } from '../server/fixtureFiles';
+
+const request = (contents: string, config: Record<string, unknown> = {}): GenerateContentParameters =>
+  ({ model: 'gemini-2.5-flash', contents, config });
+
+const answer = (text: string, groundingMetadata?: unknown) => ({
+  text,
+  candidates: [{ finishReason: 'STOP', ...(groundingMetadata ? { groundingMetadata } : {}) }],
+  usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+}) as unknown as GenerateContentResponse;
+
+const scripted = (responses: (GenerateContentResponse | Error)[]): GeminiBackend => ({
+  name: 'Scripted',
+  generateContent: async () => {
+    const next = responses.shift()!;
+    if (next instanceof Error) throw next;
+    return next;
+  },
+});
+
+describe('fingerprintRequest', () => {
+  it('ignores key order and per-call options', () => {
+    const controller = new AbortController();
+    const a = fingerprintRequest(request('prompt', { temperature: 0.2, tools: [{ googleSearch: {} }] }));
+    const b = fingerprintRequest({ contents: 'prompt', config: { tools: [{ googleSearch: {} }], abortSignal: controller.signal, temperature: 0.2 }, model: 'gemini-2.5-flash' });
+    expect(a).toBe(b);
+  });
+
+  it('changes with the model, prompt or parameters', () => {
+    const base = fingerprintRequest(request('prompt'));
+    expect(fingerprintRequest({ ...request('prompt'), model: 'gemini-2.5-pro' })).not.toBe(base);
+    expect(fingerprintRequest(request('prompt!'))).not.toBe(base);
+    expect(fingerprintRequest(request('prompt', { seed: 7 }))).not.toBe(base);
+  });
+});
+
+describe('record and replay', () => {
+  afterEach(() => {
+    setGeminiBackend(null);
+    geminiScheduler.configure(DEFAULT_SCHEDULER_OPTIONS);
+    vi.useRealTimers();
+  });
+
+  it('records text, grounding and errors, then replays them in order', async () => {
+    const grounding = { groundingChunks: [{ web: { uri: 'https://www.reuters.com/a', title: 'A' } }] };
+    const failure = Object.assign(new Error('Service unavailable'), { status: 503 });
+    const recorder = createRecordingBackend(scripted([failure, answer('first', grounding), answer('second')]), { now: () => 42 });
+
+    await expect(recorder.generateContent(request('p'), 'headlines')).rejects.toThrow('Service unavailable');
+    await recorder.generateContent(request('p'), 'headlines');
+    await recorder.generateContent(request('other'), 'analysis');
+
+    const fixture = recorder.fixture();
+    expect(fixture.exchanges.map(e => [e.operation, e.error?.status ?? e.response?.text])).toEqual([
+      ['headlines', 503], ['headlines', 'first'], ['analysis', 'second'],
+    ]);
+    expect(fixture.exchanges[1]).toMatchObject({
+      recordedAt: 42,
+      request: { model: 'gemini-2.5-flash', contents: 'p' },
+      response: { candidates: [{ finishReason: 'STOP', groundingMetadata: grounding }], usageMetadata: { totalTokenCount: 15 } },
+    });
+
+    // A JSON round trip is what a fixture file goes through
+    const replay = createReplayBackend(JSON.parse(JSON.stringify(fixture)));
+    await expect(replay.generateContent(request('p'), 'headlines')).rejects.toMatchObject({ status: 503 });
+    const replayed = await replay.generateContent(request('p'), 'headlines');
+    expect(replayed.text).toBe('first');
+    expect(replayed.candidates?.[0].groundingMetadata).toEqual(grounding);
+    // Exhausted requests keep getting the last recorded answer
+    expect((await replay.generateContent(request('p'), 'headlines')).text).toBe('first');
+  });
+
+  it('does not record cancelled calls', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const recorder = createRecordingBackend(scripted([new Error('aborted')]));
+    await expect(recorder.generateContent(request('p', { abortSignal: controller.signal }), 'analysis')).rejects.toThrow();
+    expect(recorder.fixture().exchanges).toEqual([]);
+  });
+
+  it('rejects unmatched requests unless asked to match by operation', async () => {
+    const recorder = createRecordingBackend(scripted([answer('old prompt answer')]));
+    await recorder.generateContent(request('old prompt'), 'analysis');
+
+    const strict = createReplayBackend(recorder.fixture());
+    const miss = strict.generateContent(request('new prompt'), 'analysis');
+    await expect(miss).rejects.toBeInstanceOf(ReplayMissError);
+    // Fatal, so the scheduler doesn't retry a request that can never match
+    await expect(miss).rejects.toBeInstanceOf(FatalRequestError);
+
+    const lenient = createReplayBackend(recorder.fixture(), { matchOperation: true });
+    expect((await lenient.generateContent(request('new prompt'), 'analysis')).text).toBe('old prompt answer');
+    await expect(lenient.generateContent(request('new prompt'), 'headlines')).rejects.toBeInstanceOf(ReplayMissError);
+  });
+
+  it('asks for the months the recording asked for, whatever month it is replayed in', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    const closes = answer(JSON.stringify({ MSFT: { '2026-01-31': 400, '2026-02-28': 410 } }));
+    const recorder = createRecordingBackend(scripted([closes]));
+    setGeminiBackend(recorder);
+    const recorded = await geminiMarketDataProvider.fetchMonthlyReturns!(['MSFT'], 1);
+    expect(recorded.MSFT.returns.map(r => r.month)).toEqual(['2026-02']);
+
+    vi.setSystemTime(new Date('2026-07-01T00:00:00Z'));
+    setGeminiBackend(createReplayBackend(recorder.fixture()));
+    expect(await geminiMarketDataProvider.fetchMonthlyReturns!(['MSFT'], 1)).toEqual(recorded);
+  });
+
+  it('retries a replayed transient failure through the scheduler like a live one', async () => {
+    geminiScheduler.configure({ sleep: async () => {}, random: () => 0, callsPerMinute: 1000 });
+    const recorder = createRecordingBackend(scripted([Object.assign(new Error('overloaded'), { status: 503 }), answer('ok')]));
+    setGeminiBackend(recorder);
+    await generateContent(request('p'), undefined, 'analysis');
+
+    setGeminiBackend(createReplayBackend(recorder.fixture()));
+    expect((await generateContent(request('p'), undefined, 'analysis')).text).toBe('ok');
+
+    setGeminiBackend(createReplayBackend({ version: 1, exchanges: recorder.fixture().exchanges.slice(0, 1) }));
+    geminiScheduler.configure({ maxRetries: 0 });
+    await expect(generateContent(request('p'), undefined, 'analysis')).rejects.toBeInstanceOf(RetryableRequestError);
+  });
+});
+
+// Regression tests against a recorded production-shaped session: messy answers, redirect
+// grounding URIs, an off-whitelist outlet and a duplicate headline
+describe('replayed session: market data and headlines', () => {
+  const fixture = readGeminiFixture(path.resolve(__dirname, 'fixtures/gemini/market-data-and-headlines.json'));
+
+  afterEach(() => setGeminiBackend(null));
+
+  it('parses the fenced stock batch JSON and attributes each ticker its own source', async () => {
+    setGeminiBackend(createReplayBackend(fixture));
+    const quotes = await geminiMarketDataProvider.fetchQuotes(['MSFT', 'NEE', 'ENPH']);
+
+    expect(quotes.MSFT).toMatchObject({ price: 418.32, dayChange: -0.74, fiveYearChange: 182.6, dividendYield: 0.72 });
+    expect(quotes.NEE.threeYearChange).toBe(-9.8);
+    expect(quotes.ENPH.fiveYearChange).toBeUndefined();
+    expect(quotes.ENPH.dividendYield).toBe(0);
+    expect(quotes.MSFT.sources).toEqual([{ uri: expect.stringContaining('AUZIYQ-msft'), title: 'finance.yahoo.com' }]);
+    expect(quotes.ENPH.prompt).toMatchObject({ templateId: 'stock-batch-data', version: 2 });
+  });
+
+  it('keeps whitelisted headlines, drops the rest and collapses duplicates', async () => {
+    setGeminiBackend(createReplayBackend(fixture));
+    const headlines = await fetchMarketHeadlines();
+
+    expect(headlines.map(h => [h.title, h.source, h.verified])).toEqual([
+      ['Fed Holds Rates Steady, Signals Two Cuts Later This Year', 'Reuters', true],
+      ['Treasury Yields Slide as Jobs Data Cools', 'Bloomberg', true],
+      ['Oil Prices Tumble on Weak China Demand', 'CNBC', true],
+      ['Chipmakers Rally After Record Data-Center Orders', 'WSJ', false],
+    ]);
+    expect(headlines[0].url).toContain('reuters.com/markets');
+  });
+});
@@ -1,8 +1,26 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { fetchMarketHeadlines } from '../services/geminiService';
+import path from 'node:path';
+import { readFileSync } from 'node:fs';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fetchMarketHeadlines, refreshPortfolioPrices, generateETFPortfolio, analyzeStock } from '../services/geminiService';
+import { usageMeter, BudgetExceededError } from '../services/usageMeter';
+import { setMarketDataProvider } from '../services/marketDataProvider';
+import { marketDataCache } from '../services/marketDataCache';
+import { setCompanyReference } from '../services/companyReference';
+import { setSymbolMaster, parseSymbolMasterCsv } from '../services/symbolMaster';
+import { setModelConfig, DEFAULT_MODEL_CONFIG } from '../services/modelConfig';
+import { hashPrompt } from '../utils/promptTemplates';
+import { geminiScheduler } from '../services/geminiClient';
+import { geminiMarketDataProvider } from '../services/geminiMarketDataProvider';
+import { geminiSentimentScorer } from '../services/geminiSentimentScorer';
+import { setSentimentScorer } from '../services/sentimentScorer';
+import { FatalRequestError, CancelledRequestError } from '../services/requestScheduler';
+import { GeneratedPortfolio, StockPosition } from '../types';
 
 // Mock the GoogleGenAI library
-const mockGenerateContent = vi.fn();
+const { mockGenerateContent } = vi.hoisted(() => {
+  process.env.API_KEY = 'test-key';
+  return { mockGenerateContent: vi.fn() };
+});
 vi.mock('@google/genai', () => {
   return {
     GoogleGenAI: vi.fn().mockImplementation(() => ({
@@ -26,24 +44,24 @@ describe('geminiService', () => {
   });
 
   describe('fetchMarketHeadlines', () => {
-    it('returns parsed headlines when API returns valid data with grounding chunks', async () => {
-      // Logic expects numbered list in text + grounding chunks
+    it('returns parsed headlines paired with the cited articles', async () => {
       const mockResponseText = `
-      1. Test News - Test Source
-      2. Another Story - Source Two
+      1. Fed holds rates steady as inflation cools - Reuters
+      2. Oil slides on weak China demand - Bloomberg
       `;
       
+      // Listed in the opposite order to the headlines: pairing must follow content, not position
       const mockChunks = [
         {
           web: {
-            uri: "http://test.com/some/article",
-            title: "Test News"
+            uri: "https://www.bloomberg.com/news/articles/oil-slides",
+            title: "Oil Slides on Weak China Demand"
           }
         },
         {
           web: {
-            uri: "http://example.com/another/story",
-            title: "Another Story"
+            uri: "https://www.reuters.com/markets/fed-holds-rates",
+            title: "Fed holds rates steady as inflation cools"
           }
         }
       ];
@@ -60,13 +78,13 @@ describe('geminiService', () => {
       const headlines = await fetchMarketHeadlines();
       
       expect(headlines).toHaveLength(2);
-      expect(headlines[0].title).toBe("Test News");
-      expect(headlines[0].url).toBe("http://test.com/some/article");
-      expect(headlines[0].source).toBe("Test"); // Extracted from domain
+      expect(headlines[0].title).toBe("Fed holds rates steady as inflation cools");
+      expect(headlines[0].url).toBe("https://www.reuters.com/markets/fed-holds-rates");
+      expect(headlines[0].source).toBe("Reuters");
 
-      expect(headlines[1].title).toBe("Another Story");
-      expect(headlines[1].url).toBe("http://example.com/another/story");
-      expect(headlines[1].source).toBe("Example"); // Extracted from domain
+      expect(headlines[1].title).toBe("Oil slides on weak China demand");
+      expect(headlines[1].url).toBe("https://www.bloomberg.com/news/articles/oil-slides");
+      expect(headlines[1].source).toBe("Bloomberg");
       
       expect(mockGenerateContent).toHaveBeenCalledTimes(1);
     });
@@ -112,5 +130,419 @@ describe('geminiService', () => {
       expect(headlines[0].title).toBe("Market Up");
       expect(headlines[0].source).toBe("Bloomberg"); // Extracted from URL
     });
+
+    it('scores headlines with the lexicon by default', async () => {
+      mockGenerateContent.mockResolvedValue({
+        text: "1. Oil slides on weak China demand - Bloomberg",
+        candidates: [{ groundingMetadata: { groundingChunks: [
+          { web: { uri: "https://www.bloomberg.com/news/oil", title: "Oil slides on weak China demand" } }
+        ] } }]
+      });
+
+      const [headline] = await fetchMarketHeadlines();
+      expect(headline.sentiment).toMatchObject({ label: 'negative', scorer: 'Lexicon' });
+      expect(headline.relevance).toBe(0.3);
+      expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+    });
+
+    describe('with the Gemini sentiment scorer', () => {
+      beforeEach(() => setSentimentScorer(geminiSentimentScorer));
+      afterEach(() => setSentimentScorer(null));
+
+      it('scores headlines in one structured call with the text embedded as data', async () => {
+        mockGenerateContent.mockImplementation(async ({ config, contents }: { config?: { responseSchema?: unknown }; contents: string }) => {
+          if (config?.responseSchema) {
+            expect(contents).toContain('<user_data label="headlines">');
+            return { text: JSON.stringify([{ index: 1, score: 0.7, relevance: 0.4 }]) };
+          }
+          return {
+            text: "1. Fed holds rates steady - Reuters\n2. Oil slides - Bloomberg",
+            candidates: [{ groundingMetadata: { groundingChunks: [
+              { web: { uri: "https://www.reuters.com/fed", title: "Fed holds rates steady" } },
+              { web: { uri: "https://www.bloomberg.com/oil", title: "Oil slides" } }
+            ] } }]
+          };
+        });
+
+        const headlines = await fetchMarketHeadlines();
+
+        expect(headlines[0].sentiment).toEqual({ score: 0.7, label: 'positive', scorer: 'Gemini' });
+        expect(headlines[0].relevance).toBe(0.4);
+        // Left out by the model, so the lexicon fills in
+        expect(headlines[1].sentiment).toMatchObject({ label: 'negative', scorer: 'Lexicon' });
+      });
+    });
+  });
+
+  describe('analyzeStock', () => {
+    it('returns the parsed fields with the grounding and prompt lineage', async () => {
+      const chunks = [{ web: { uri: 'https://www.reuters.com/msft', title: 'reuters.com' } }];
+      mockGenerateContent.mockResolvedValueOnce({
+        text: '{"price": 420.5, "currency": "USD", "marketCap": {"amount": 3.1e12, "currency": "USD"}, "peRatio": null, "analysis": "Steady."}',
+        candidates: [{ groundingMetadata: { groundingChunks: chunks } }]
+      });
+
+      const result = await analyzeStock('MSFT');
+
+      expect(mockGenerateContent.mock.calls[0][0].config.tools).toEqual([{ googleSearch: {} }]);
+      expect(result).toMatchObject({
+        content: 'Steady.',
+        price: 420.5,
+        marketCap: { amount: 3.1e12, currency: 'USD' },
+        peRatio: null,
+        dividendYield: null,
+        news: [],
+        groundingChunks: chunks,
+        prompt: { templateId: 'stock-analysis', version: 2 },
+      });
+      expect(result.performance.oneWeek).toBeNull();
+    });
+  });
+
+  describe('request scheduling', () => {
+    beforeEach(() => {
+      // Skip real backoff delays and keep the shared per-minute budget out of the way
+      geminiScheduler.configure({ sleep: async () => {}, random: () => 0, callsPerMinute: 1000 });
+    });
+
+    const portfolio = (tickers: string[]): GeneratedPortfolio => ({
+      name: 'Test Fund',
+      description: 'Test',
+      narrative: 'Narrative',
+      metrics: { projectedReturn: '10%', projectedVolatility: 'Med', dividendYield: '1%', sharpeRatio: '1.0' },
+      positions: tickers.map(ticker => ({ ticker, weight: 100 / tickers.length } as StockPosition))
+    });
+
+    it('meters each call under its operation and stops calling once the budget is spent', async () => {
+      mockGenerateContent.mockResolvedValue({
+        text: '{"MSFT": {"price": 420.5}}',
+        usageMetadata: { promptTokenCount: 1_000_000, candidatesTokenCount: 0, totalTokenCount: 1_000_000 },
+      });
+      const before = usageMeter.sessionSummary().byOperation['market-data']?.calls || 0;
+      usageMeter.configure({ budgetUsd: 0.1 });
+
+      try {
+        await geminiMarketDataProvider.fetchQuotes(['MSFT']);
+        expect(usageMeter.sessionSummary().byOperation['market-data']?.calls).toBe(before + 1);
+
+        await expect(analyzeStock('MSFT')).rejects.toBeInstanceOf(BudgetExceededError);
+        expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+      } finally {
+        usageMeter.configure({ budgetUsd: null });
+      }
+    });
+
+    it('retries a rate-limited batch call and returns its data', async () => {
+      mockGenerateContent
+        .mockRejectedValueOnce({ status: 429, message: 'Resource exhausted' })
+        .mockResolvedValueOnce({ text: '{"MSFT": {"price": 420.5, "fiveYearChange": 150}}' });
+
+      const quotes = await geminiMarketDataProvider.fetchQuotes(['MSFT']);
+      expect(quotes).toEqual({
+        MSFT: { price: 420.5, fiveYearChange: 150, prompt: expect.objectContaining({ templateId: 'stock-batch-data', version: 2 }) }
+      });
+      expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+    });
+
+    it('attaches the grounding sources cited for each ticker', async () => {
+      mockGenerateContent.mockResolvedValueOnce({
+        text: '{"MSFT": {"price": 420.5}, "NEE": {"price": 70.1}}',
+        candidates: [{
+          groundingMetadata: {
+            groundingChunks: [{ web: { uri: 'https://reuters.com/msft', title: 'reuters.com' } }, { web: { uri: 'https://cnbc.com/nee', title: 'cnbc.com' } }],
+            groundingSupports: [
+              { segment: { text: '"MSFT": {"price": 420.5}' }, groundingChunkIndices: [0] },
+              { segment: { text: '"NEE": {"price": 70.1}' }, groundingChunkIndices: [1] },
+            ]
+          }
+        }]
+      });
+
+      const quotes = await geminiMarketDataProvider.fetchQuotes(['MSFT', 'NEE']);
+      expect(quotes.MSFT.sources).toEqual([{ uri: 'https://reuters.com/msft', title: 'reuters.com' }]);
+      expect(quotes.NEE.sources).toEqual([{ uri: 'https://cnbc.com/nee', title: 'cnbc.com' }]);
+    });
+
+    it('turns month-end closes into monthly returns per ticker', async () => {
+      mockGenerateContent.mockResolvedValueOnce({
+        text: '```json\n{"MSFT": {"2024-02": 110, "2024-01": 100, "2024-03": 99, "2024-04": "n/a"}, "NEE": {"2024-01": 70}}\n```'
+      });
+
+      const series = await geminiMarketDataProvider.fetchMonthlyReturns!(['MSFT', 'NEE'], 60);
+
+      expect(series.MSFT.returns.map(r => r.month)).toEqual(['2024-02', '2024-03']);
+      expect(series.MSFT.returns[1].return).toBeCloseTo(-10);
+      expect(series.MSFT.prompt).toMatchObject({ templateId: 'monthly-closes', version: 1 });
+      // A single close gives no return
+      expect(series.NEE).toBeUndefined();
+      expect(mockGenerateContent.mock.calls[0][0].contents).toContain('all 61 calendar months');
+    });
+
+    it('fails a refresh immediately on a fatal API error', async () => {
+      mockGenerateContent.mockRejectedValue({ status: 401, message: 'API key not valid' });
+
+      await expect(
+        refreshPortfolioPrices(portfolio(['MSFT']), undefined, { provider: geminiMarketDataProvider, cache: null })
+      ).rejects.toBeInstanceOf(FatalRequestError);
+    });
+
+    it('keeps other batches when one exhausts its retries', async () => {
+      mockGenerateContent.mockImplementation(async ({ contents }: { contents: string }) => {
+        if (contents.includes('S&P 500')) return { text: '{"oneYearChange": 12, "threeYearChange": 30, "fiveYearChange": 80}' };
+        if (contents.includes('NEE')) throw { status: 503, message: 'Service unavailable' };
+        return { text: '{"AAA": {"price": 10, "fiveYearChange": 20}, "BBB": {"price": 5, "fiveYearChange": 10}, "CCC": {"price": 1, "fiveYearChange": 5}, "DDD": {"price": 2, "fiveYearChange": 8}}' };
+      });
+
+      const refreshed = await refreshPortfolioPrices(
+        portfolio(['AAA', 'BBB', 'CCC', 'DDD', 'NEE']),
+        undefined,
+        { provider: geminiMarketDataProvider, cache: null }
+      );
+
+      expect(refreshed.positions[0].fiveYearChangePercent).toBe(20);
+      expect(refreshed.positions[4].fiveYearChangePercent).toBeUndefined();
+      expect(refreshed.metrics.benchmark5YearReturn).toBe(80);
+    });
+
+    it('passes the abort signal to the SDK and rejects a cancelled headlines fetch', async () => {
+      const controller = new AbortController();
+      mockGenerateContent.mockImplementation(({ config }: { config: { abortSignal?: AbortSignal } }) => new Promise((_, reject) => {
+        config.abortSignal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+      }));
+
+      const headlines = fetchMarketHeadlines(undefined, controller.signal);
+      await vi.waitFor(() => expect(mockGenerateContent).toHaveBeenCalled());
+      expect(mockGenerateContent.mock.calls[0][0].config.abortSignal).toBe(controller.signal);
+      controller.abort();
+
+      await expect(headlines).rejects.toBeInstanceOf(CancelledRequestError);
+    });
+
+    it('leaves the original portfolio untouched when a refresh is cancelled', async () => {
+      const controller = new AbortController();
+      mockGenerateContent.mockImplementation(async ({ contents }: { contents: string }) => {
+        if (contents.includes('S&P 500')) return { text: '{"oneYearChange": 12, "threeYearChange": 30, "fiveYearChange": 80}' };
+        controller.abort();
+        return { text: '{"MSFT": {"price": 420.5, "fiveYearChange": 150}}' };
+      });
+      const original = portfolio(['MSFT']);
+      const snapshot = JSON.parse(JSON.stringify(original));
+
+      await expect(
+        refreshPortfolioPrices(original, undefined, { provider: geminiMarketDataProvider, cache: null, signal: controller.signal })
+      ).rejects.toBeInstanceOf(CancelledRequestError);
+      expect(original).toEqual(snapshot);
+    });
   });
-});
\ No newline at end of file
+
+  describe('generateETFPortfolio screening', () => {
+    beforeEach(() => {
+      geminiScheduler.configure({ sleep: async () => {}, random: () => 0, callsPerMinute: 1000 });
+      // Stub providers share names between tests; quotes cached by one mustn't price another's tickers
+      marketDataCache.clear();
+      setCompanyReference({ companies: { XOM: { industry: 'Oil, Gas & Consumable Fuels' }, NEE: { industry: 'Electric Utilities' } } });
+      setMarketDataProvider({ name: 'Exclusion Stub', fetchQuotes: async () => ({}), fetchBenchmark: async () => ({}) });
+      setSymbolMaster(parseSymbolMasterCsv([
+        'ticker,exchange,name,listedOn,currency,sector',
+        ...Array.from({ length: 11 }, (_, i) => `OK${i},NYSE,OK${i},2000-01-03,USD,Tech`),
+        'NEE,NYSE,NextEra Energy Inc.,1950-01-03,USD,Utilities',
+        'XOM,NYSE,Exxon Mobil Corporation,1950-01-03,USD,Energy',
+        'CVX,NYSE,Chevron Corporation,1950-01-03,USD,Energy',
+      ].join('\n'), { complete: true }));
+    });
+
+    const structure = (tickers: string[]) => JSON.stringify({
+      name: 'ClimateShift Alpha',
+      description: 'Test',
+      narrative: 'Narrative',
+      metrics: { projectedReturn: '10%', projectedVolatility: 'Med', dividendYield: '1%', sharpeRatio: '1.0' },
+      positions: tickers.map(ticker => ({ ticker, name: ticker, weight: 100 / tickers.length, sector: 'Tech', reason: 'r', esgScore: 'AA', type: 'Core' })),
+    });
+    const compliantTickers = Array.from({ length: 11 }, (_, i) => `OK${i}`);
+
+    it('replaces a violating position with a compliant proposal', async () => {
+      mockGenerateContent.mockImplementation(async ({ config }: { config?: { responseSchema?: { type: string } } }) => {
+        if (config?.responseSchema?.type === 'OBJECT') return { text: structure([...compliantTickers, 'XOM']) };
+        if (config?.responseSchema?.type === 'ARRAY') {
+          return { text: JSON.stringify([{ ticker: 'NEE', name: 'NextEra', weight: 3, sector: 'Utilities', reason: 'r', esgScore: 'AA', type: 'Core' }]) };
+        }
+        return { text: '' };
+      });
+
+      const result = await generateETFPortfolio();
+      const tickers = result.positions.map(p => p.ticker);
+      expect(result.positions.find(p => p.ticker === 'NEE')?.listing?.exchange).toBe('NYSE');
+
+      expect(tickers).toContain('NEE');
+      expect(tickers).not.toContain('XOM');
+      // The replacement inherits the removed position's weight
+      expect(result.positions.find(p => p.ticker === 'NEE')?.weight).toBeCloseTo(100 / 12, 1);
+      expect(result.policyViolations).toEqual([
+        expect.objectContaining({ ticker: 'XOM', policyId: 'fossil-fuels', action: 'replaced', replacement: 'NEE' }),
+      ]);
+    });
+
+    it('removes a violator when the proposed replacement also violates the policy', async () => {
+      mockGenerateContent.mockImplementation(async ({ config }: { config?: { responseSchema?: { type: string } } }) => {
+        if (config?.responseSchema?.type === 'OBJECT') return { text: structure([...compliantTickers, 'XOM']) };
+        if (config?.responseSchema?.type === 'ARRAY') {
+          return { text: JSON.stringify([{ ticker: 'CVX', name: 'Chevron', weight: 3, sector: 'Energy', reason: 'r', esgScore: 'A', type: 'Core' }]) };
+        }
+        return { text: '' };
+      });
+
+      const result = await generateETFPortfolio();
+
+      expect(result.positions).toHaveLength(11);
+      expect(result.policyViolations?.[0]).toMatchObject({ ticker: 'XOM', action: 'removed' });
+      expect(result.corrections?.map(c => c.kind)).toContain('too-few-positions');
+      expect(result.positions.reduce((sum, p) => sum + p.weight, 0)).toBeCloseTo(100);
+    });
+
+    it('replaces a ticker missing from the symbol master', async () => {
+      mockGenerateContent.mockImplementation(async ({ config, contents }: { config?: { responseSchema?: { type: string } }; contents: string }) => {
+        if (config?.responseSchema?.type === 'OBJECT') return { text: structure([...compliantTickers, 'GRNX']) };
+        if (config?.responseSchema?.type === 'ARRAY') {
+          expect(contents).toContain('GRNX is not in the symbol master');
+          return { text: JSON.stringify([{ ticker: 'NEE', name: 'NextEra Energy', weight: 3, sector: 'Utilities', reason: 'r', esgScore: 'AA', type: 'Core' }]) };
+        }
+        return { text: '' };
+      });
+
+      const result = await generateETFPortfolio();
+
+      expect(result.positions.map(p => p.ticker)).not.toContain('GRNX');
+      expect(result.symbolIssues).toEqual([
+        expect.objectContaining({ ticker: 'GRNX', kind: 'unresolved', action: 'replaced', replacement: 'NEE' }),
+      ]);
+      expect(result.policyViolations).toEqual([]);
+    });
+
+    const quote = { price: 100, dayChange: 1, oneYearChange: 10, threeYearChange: 20, fiveYearChange: 50, dividendYield: 1 };
+    // Prices every ticker but the ones the model made up
+    const pricingAllBut = (invented: string[]) => setMarketDataProvider({
+      name: 'Pricing Stub',
+      fetchQuotes: async (tickers) => Object.fromEntries(tickers.filter(t => !invented.includes(t)).map(t => [t, quote])),
+      fetchBenchmark: async () => ({}),
+    });
+
+    it('keeps and flags a ticker missing from a partial symbol master', async () => {
+      setSymbolMaster(parseSymbolMasterCsv([
+        'ticker,exchange,name,listedOn,currency,sector',
+        ...compliantTickers.map(ticker => `${ticker},NYSE,${ticker},2000-01-03,USD,Tech`),
+      ].join('\n')));
+      pricingAllBut([]);
+      mockGenerateContent.mockImplementation(async ({ config }: { config?: { responseSchema?: { type: string } } }) => {
+        if (config?.responseSchema?.type === 'OBJECT') return { text: structure([...compliantTickers, 'GRNX']) };
+        return { text: '' };
+      });
+
+      const result = await generateETFPortfolio();
+
+      expect(result.positions).toHaveLength(12);
+      expect(result.symbolIssues).toEqual([
+        expect.objectContaining({ ticker: 'GRNX', kind: 'unlisted', action: 'flagged' }),
+      ]);
+      // Nothing was rejected, so no replacement was requested
+      expect(mockGenerateContent.mock.calls.some(([params]) => params.config?.responseSchema?.type === 'ARRAY')).toBe(false);
+    });
+
+    it('replaces a ticker missing from the bundled sample master once it gets no market data', async () => {
+      setSymbolMaster(parseSymbolMasterCsv(readFileSync(path.resolve(__dirname, '../public/reference-data/symbols.csv'), 'utf8')));
+      pricingAllBut(['GRNX']);
+      const listed = ['AAPL', 'MSFT', 'AMZN', 'NVDA', 'AMAT', 'LRCX', 'QCOM', 'TXN', 'ADBE', 'INTU', 'NEE'];
+      mockGenerateContent.mockImplementation(async ({ config, contents }: { config?: { responseSchema?: { type: string } }; contents: string }) => {
+        if (config?.responseSchema?.type === 'OBJECT') return { text: structure([...listed, 'GRNX']) };
+        if (config?.responseSchema?.type === 'ARRAY') {
+          expect(contents).toContain('no price or return history could be found');
+          return { text: JSON.stringify([{ ticker: 'CSCO', name: 'Cisco Systems', weight: 3, sector: 'Tech', reason: 'r', esgScore: 'A', type: 'Core' }]) };
+        }
+        return { text: '' };
+      });
+
+      const result = await generateETFPortfolio();
+
+      expect(result.positions.map(p => p.ticker)).toEqual([...listed, 'CSCO']);
+      expect(result.positions.find(p => p.ticker === 'CSCO')).toMatchObject({ currentPrice: 100, listing: { exchange: 'NASDAQ' } });
+      expect(result.positions.find(p => p.ticker === 'CSCO')?.weight).toBeCloseTo(100 / 12, 1);
+      // The structure names each holding by its ticker, so the listed ones are flagged as name mismatches
+      expect(result.symbolIssues?.filter(issue => issue.ticker === 'GRNX')).toEqual([
+        expect.objectContaining({ kind: 'unlisted', action: 'replaced', replacement: 'CSCO' }),
+      ]);
+    });
+
+    it('records the template versions and prompt hashes behind each task', async () => {
+      mockGenerateContent.mockImplementation(async ({ config }: { config?: { responseSchema?: { type: string } } }) => {
+        if (config?.responseSchema?.type === 'OBJECT') return { text: structure([...compliantTickers, 'NEE']) };
+        return { text: '' };
+      });
+      const prompt = { templateId: 'stock-batch-data', version: 3, hash: '0000000000abcd' };
+      setMarketDataProvider({
+        name: 'Prompted Stub',
+        fetchQuotes: async (tickers) => Object.fromEntries(tickers.map(ticker => [ticker, { price: 10, fiveYearChange: 20, prompt }])),
+        fetchBenchmark: async () => ({}),
+      });
+
+      const result = await generateETFPortfolio('More utilities');
+      const structureCall = mockGenerateContent.mock.calls[0][0];
+
+      expect(result.promptLineage?.structure?.map(entry => entry.templateId)).toEqual(['rebalance-context', 'portfolio-structure']);
+      expect(result.promptLineage?.structure?.[1].hash).toBe(hashPrompt(structureCall.contents));
+      expect(result.promptLineage?.enrichment).toEqual([prompt]);
+      expect(result.promptLineage?.headlines?.[0].templateId).toBe('portfolio-headlines');
+    });
+
+    it('queries news on the holdings and tags each headline onto the positions it mentions', async () => {
+      mockGenerateContent.mockImplementation(async ({ config, contents }: { config?: { responseSchema?: { type: string } }; contents: string }) => {
+        if (config?.responseSchema?.type === 'OBJECT') return { text: structure([...compliantTickers, 'NEE']) };
+        if (contents.includes('Company news:')) {
+          expect(contents).toContain('(NEE)');
+          expect(contents).toContain('sector news: Tech');
+          return {
+            text: '1. OK3 wins grid contract - Reuters\n2. Markets rally on rate hopes - Bloomberg',
+            candidates: [{ groundingMetadata: { groundingChunks: [
+              { web: { uri: 'https://www.reuters.com/business/ok3-grid', title: 'OK3 wins grid contract' } },
+              { web: { uri: 'https://www.bloomberg.com/news/markets-rally', title: 'Markets rally on rate hopes' } },
+            ] } }],
+          };
+        }
+        return { text: '' };
+      });
+
+      const result = await generateETFPortfolio();
+
+      expect(result.headlines?.map(h => h.tickers)).toEqual([['OK3'], undefined]);
+      expect(result.positions.find(p => p.ticker === 'OK3')?.headlines?.map(h => h.title)).toEqual(['OK3 wins grid contract']);
+      expect(result.positions.find(p => p.ticker === 'OK4')?.headlines).toBeUndefined();
+    });
+
+    describe('model settings', () => {
+      afterEach(() => setModelConfig(null));
+
+      it('calls each task with its configured model and records what was used', async () => {
+        setModelConfig({
+          ...DEFAULT_MODEL_CONFIG,
+          structure: { model: 'gemini-2.5-pro', temperature: 0.2, seed: 42 },
+          headlines: { model: 'gemini-2.5-flash-lite', maxOutputTokens: 1024 },
+        });
+        mockGenerateContent.mockImplementation(async ({ config }: { config?: { responseSchema?: { type: string } } }) => {
+          if (config?.responseSchema?.type === 'OBJECT') return { text: structure([...compliantTickers, 'NEE']) };
+          return { text: '' };
+        });
+
+        const result = await generateETFPortfolio();
+
+        const [structureCall] = mockGenerateContent.mock.calls[0];
+        expect(structureCall.model).toBe('gemini-2.5-pro');
+        expect(structureCall.config).toMatchObject({ temperature: 0.2, seed: 42 });
+        const headlinesCall = mockGenerateContent.mock.calls.map(([params]) => params).find(params => params.config?.tools);
+        expect(headlinesCall).toMatchObject({ model: 'gemini-2.5-flash-lite', config: { maxOutputTokens: 1024 } });
+
+        expect(result.modelUsage).toEqual({
+          structure: { model: 'gemini-2.5-pro', temperature: 0.2, seed: 42 },
+          headlines: { model: 'gemini-2.5-flash-lite', maxOutputTokens: 1024 },
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseHeadlineList,
+  matchHeadlines,
+  headlinesFromChunks,
+  titleSimilarity,
+  sourceForDomain,
+  sourceForName,
+  chunkDomain,
+  WHITELISTED_SOURCES,
+} from '../utils/headlineMatching';
+import { PROMPT_TEMPLATES } from '../utils/promptTemplates';
+
+const redirect = (id: string) => `https://vertexaisearch.cloud.google.com/grounding-api-redirect/${id}`;
+
+// Shaped like a real search-grounded answer: redirect uris titled with bare domains,
+// chunks in citation order rather than list order, an off-whitelist site and formatting noise
+const MESSY_ANSWER = `Here are the latest market-moving headlines:
+
+1. **Fed Holds Rates Steady, Signals Two Cuts in 2025** - Reuters
+2. Nvidia's market cap tops $4 trillion as AI rally extends – CNBC
+3.  [Oil prices slide on weak China demand](https://example.com) — Bloomberg
+4. Fed holds rates steady and signals two cuts in 2025 - The Wall Street Journal
+5. Crypto exchange halts withdrawals - ZeroHedge
+6. ECB's Lagarde warns on euro-area growth - Financial Times (FT)
+7. Treasury yields climb after strong jobs report - MarketWatch
+`;
+
+const MESSY_METADATA = {
+  groundingChunks: [
+    { web: { uri: redirect('a1'), title: 'bloomberg.com' } },
+    { web: { uri: redirect('b2'), title: 'reuters.com' } },
+    { web: { uri: redirect('c3'), title: 'zerohedge.com' } },
+    { web: { uri: redirect('d4'), title: 'cnbc.com' } },
+    { web: { uri: 'https://www.ft.com/content/lagarde-growth', title: "ECB's Lagarde warns on euro-area growth outlook" } },
+    { web: { uri: redirect('e5'), title: 'wsj.com' } },
+  ],
+  groundingSupports: [
+    { segment: { text: '1. **Fed Holds Rates Steady, Signals Two Cuts in 2025** - Reuters' }, groundingChunkIndices: [1] },
+    { segment: { text: "2. Nvidia's market cap tops $4 trillion as AI rally extends – CNBC" }, groundingChunkIndices: [3] },
+    { segment: { text: '3.  Oil prices slide on weak China demand — Bloomberg' }, groundingChunkIndices: [0] },
+    { segment: { text: '4. Fed holds rates steady and signals two cuts in 2025 - The Wall Street Journal' }, groundingChunkIndices: [5] },
+    { segment: { text: '5. Crypto exchange halts withdrawals - ZeroHedge' }, groundingChunkIndices: [2] },
+  ],
+};
+
+describe('parseHeadlineList', () => {
+  it('parses indented, bold, linked and dash-variant lines', () => {
+    expect(parseHeadlineList(MESSY_ANSWER)).toEqual([
+      { title: 'Fed Holds Rates Steady, Signals Two Cuts in 2025', source: 'Reuters' },
+      { title: "Nvidia's market cap tops $4 trillion as AI rally extends", source: 'CNBC' },
+      { title: 'Oil prices slide on weak China demand', source: 'Bloomberg' },
+      { title: 'Fed holds rates steady and signals two cuts in 2025', source: 'The Wall Street Journal' },
+      { title: 'Crypto exchange halts withdrawals', source: 'ZeroHedge' },
+      { title: "ECB's Lagarde warns on euro-area growth", source: 'Financial Times (FT)' },
+      { title: 'Treasury yields climb after strong jobs report', source: 'MarketWatch' },
+    ]);
+  });
+
+  it('splits on the last separator so hyphenated headlines survive', () => {
+    expect(parseHeadlineList('1. Buy-now-pay-later lenders face new rules - Reuters')).toEqual([
+      { title: 'Buy-now-pay-later lenders face new rules', source: 'Reuters' },
+    ]);
+  });
+
+  it('ignores prose and lines without a source', () => {
+    expect(parseHeadlineList('Markets were mixed today.\n1. Market Up')).toEqual([]);
+  });
+});
+
+describe('matchHeadlines', () => {
+  const matched = matchHeadlines(parseHeadlineList(MESSY_ANSWER), MESSY_METADATA);
+
+  it('links each headline to the article its line cites, regardless of chunk order', () => {
+    expect(matched[0]).toEqual({ title: 'Fed Holds Rates Steady, Signals Two Cuts in 2025', source: 'Reuters', url: redirect('b2'), verified: true });
+    expect(matched[1]).toMatchObject({ source: 'CNBC', url: redirect('d4'), verified: true });
+    expect(matched[2]).toMatchObject({ source: 'Bloomberg', url: redirect('a1'), verified: true });
+  });
+
+  it('matches by title similarity when no segment cites a chunk', () => {
+    expect(matched.find(h => h.title.startsWith("ECB's Lagarde"))).toMatchObject({ source: 'Financial Times', url: 'https://www.ft.com/content/lagarde-growth', verified: true });
+  });
+
+  it('collapses near-identical stories from different outlets', () => {
+    expect(matched.filter(h => /fed holds rates/i.test(h.title))).toHaveLength(1);
+  });
+
+  it('drops headlines from outlets off the whitelist', () => {
+    expect(matched.map(h => h.title)).not.toContain('Crypto exchange halts withdrawals');
+  });
+
+  it('keeps unmatched whitelisted headlines as unverified site searches', () => {
+    const treasury = matched.find(h => h.title.startsWith('Treasury yields'))!;
+    expect(treasury.verified).toBe(false);
+    expect(treasury.source).toBe('MarketWatch');
+    expect(decodeURIComponent(treasury.url)).toContain('site:marketwatch.com');
+  });
+
+  it('credits the domain of the cited article over the source the model claimed', () => {
+    const [headline] = matchHeadlines(
+      [{ title: 'Tesla deliveries miss estimates', source: 'Forbes' }],
+      { groundingChunks: [{ web: { uri: 'https://www.cnbc.com/2025/tesla-deliveries', title: 'Tesla deliveries miss estimates - CNBC' } }] }
+    );
+    expect(headline).toMatchObject({ source: 'CNBC', verified: true });
+  });
+
+  it('does not link an unrelated article from the claimed outlet', () => {
+    const [headline] = matchHeadlines(
+      [{ title: 'Gold hits record high', source: 'Reuters' }],
+      { groundingChunks: [{ web: { uri: 'https://www.reuters.com/technology/chip-export-rules', title: 'US tightens chip export rules' } }] }
+    );
+    expect(headline.verified).toBe(false);
+  });
+
+  it('uses each article for at most one headline', () => {
+    const result = matchHeadlines(
+      [{ title: 'Apple unveils new iPhone lineup', source: 'CNBC' }, { title: 'Apple unveils iPhone lineup, shares dip', source: 'CNBC' }],
+      { groundingChunks: [{ web: { uri: 'https://www.cnbc.com/apple-iphone', title: 'Apple unveils new iPhone lineup' } }] },
+      { duplicateSimilarity: 1 }
+    );
+    expect(result.filter(h => h.verified)).toHaveLength(1);
+  });
+});
+
+describe('headlinesFromChunks', () => {
+  it('keeps whitelisted chunks only and replaces placeholder titles', () => {
+    expect(headlinesFromChunks(MESSY_METADATA).map(h => [h.title, h.source])).toEqual([
+      ['Market Update', 'Bloomberg'],
+      ['Market Update', 'Reuters'],
+      ['Market Update', 'CNBC'],
+      ["ECB's Lagarde warns on euro-area growth outlook", 'Financial Times'],
+      ['Market Update', 'WSJ'],
+    ]);
+  });
+});
+
+describe('source lookup', () => {
+  it('resolves domains and subdomains', () => {
+    expect(sourceForDomain('markets.businessinsider.com')?.displayName).toBe('Business Insider');
+    expect(sourceForDomain('www.bbc.co.uk')?.displayName).toBe('BBC');
+    expect(sourceForDomain('notreuters.com')).toBeUndefined();
+  });
+
+  it('resolves the names models use for outlets', () => {
+    expect(sourceForName('WSJ')?.domains).toEqual(['wsj.com']);
+    expect(sourceForName('Reuters.com')?.displayName).toBe('Reuters');
+    expect(sourceForName('The New York Times (NYT)')?.displayName).toBe('NYT');
+    expect(sourceForName('ZeroHedge')).toBeUndefined();
+  });
+
+  it('reads the article domain from redirect chunks', () => {
+    expect(chunkDomain({ web: { uri: redirect('x'), title: 'www.ft.com' } })).toBe('ft.com');
+    expect(chunkDomain({ web: { uri: redirect('x'), title: 'Some Article' } })).toBeNull();
+  });
+
+  it('lists every whitelisted outlet in the headlines prompt', () => {
+    expect(WHITELISTED_SOURCES).toHaveLength(21);
+    WHITELISTED_SOURCES.forEach(source => expect(PROMPT_TEMPLATES['market-headlines'].template).toContain(`- ${source.name}`));
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('ignores case, punctuation and stopwords', () => {
+    expect(titleSimilarity('Fed Holds Rates Steady!', 'the fed holds rates steady')).toBe(1);
+    expect(titleSimilarity('Gold hits record high', 'US tightens chip export rules')).toBe(0);
+  });
+});
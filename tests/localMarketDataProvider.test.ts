@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseQuotesCsv,
+  parseHistoryCsv,
+  deriveReturnsFromHistory,
+  createLocalMarketDataProvider,
+  LocalMarketDataset
+} from '../services/localMarketDataProvider';
+import { refreshPortfolioPrices } from '../services/geminiService';
+import { createMarketDataCache } from '../services/marketDataCache';
+import { lastCompleteMonth, shiftMonth } from '../utils/riskModel';
+import { calculateRiskAnalytics } from '../utils/calculations';
+import { GeneratedPortfolio, StockPosition } from '../types';
+
+const dataset: LocalMarketDataset = {
+  benchmarkTicker: 'SPY',
+  quotes: {
+    SPY: { price: 500, oneYearChange: 12, threeYearChange: 30, fiveYearChange: 80 },
+    MSFT: { price: 400, oneYearChange: 20, threeYearChange: 50, fiveYearChange: 150, dividendYield: 0.7 },
+  },
+  history: {
+    NEE: [
+      { date: '2020-06-30', close: 50 },
+      { date: '2022-06-30', close: 80 },
+      { date: '2024-06-30', close: 60 },
+      { date: '2025-06-30', close: 75 },
+    ]
+  }
+};
+
+describe('parseQuotesCsv', () => {
+  it('parses numeric columns and skips blank cells', () => {
+    const csv = [
+      'ticker,price,oneYearChange,threeYearChange,fiveYearChange,dividendYield',
+      'msft,400.5,20,50,150,0.7',
+      'ENPH,36.4,-60.5,,,',
+    ].join('\n');
+
+    const quotes = parseQuotesCsv(csv);
+    expect(quotes.MSFT).toEqual({ price: 400.5, oneYearChange: 20, threeYearChange: 50, fiveYearChange: 150, dividendYield: 0.7 });
+    expect(quotes.ENPH).toEqual({ price: 36.4, oneYearChange: -60.5 });
+  });
+
+  it('ignores comment lines and returns empty for header-only input', () => {
+    expect(parseQuotesCsv('# comment\nticker,price')).toEqual({});
+  });
+});
+
+describe('parseHistoryCsv', () => {
+  it('groups rows by ticker and sorts by date', () => {
+    const history = parseHistoryCsv('ticker,date,close\nNEE,2024-01-01,70\nNEE,2023-01-01,60\nXYL,2024-01-01,bad');
+    expect(history.NEE.map(p => p.date)).toEqual(['2023-01-01', '2024-01-01']);
+    expect(history.XYL).toBeUndefined();
+  });
+});
+
+describe('deriveReturnsFromHistory', () => {
+  it('derives price and returns from the last close on or before each anchor date', () => {
+    const derived = deriveReturnsFromHistory(dataset.history!.NEE);
+    expect(derived.price).toBe(75);
+    expect(derived.oneYearChange).toBeCloseTo(25); // 60 -> 75
+    expect(derived.threeYearChange).toBeCloseTo(-6.25); // 80 -> 75
+    expect(derived.fiveYearChange).toBeCloseTo(50); // 50 -> 75
+  });
+
+  it('omits periods the series does not cover', () => {
+    const derived = deriveReturnsFromHistory([
+      { date: '2024-06-30', close: 10 },
+      { date: '2025-06-30', close: 12 },
+    ]);
+    expect(derived.oneYearChange).toBeCloseTo(20);
+    expect(derived.threeYearChange).toBeUndefined();
+    expect(derived.fiveYearChange).toBeUndefined();
+  });
+});
+
+describe('createLocalMarketDataProvider', () => {
+  const provider = createLocalMarketDataProvider(dataset);
+
+  it('returns quotes keyed by the requested ticker and omits unknown tickers', async () => {
+    const quotes = await provider.fetchQuotes(['msft', 'NEE', 'FAKE']);
+    expect(quotes.msft.price).toBe(400);
+    expect(quotes.NEE.fiveYearChange).toBeCloseTo(50);
+    expect(quotes.FAKE).toBeUndefined();
+  });
+
+  it('reads benchmark returns from the benchmark ticker', async () => {
+    expect(await provider.fetchBenchmark()).toEqual({ oneYearChange: 12, threeYearChange: 30, fiveYearChange: 80 });
+  });
+
+  it('drives refreshPortfolioPrices without any API calls', async () => {
+    const portfolio: GeneratedPortfolio = {
+      name: 'Test Fund',
+      description: 'Test',
+      narrative: 'Narrative',
+      metrics: { projectedReturn: '10%', projectedVolatility: 'Med', dividendYield: '1%', sharpeRatio: '1.0' },
+      positions: [
+        { ticker: 'MSFT', weight: 60 } as StockPosition,
+        { ticker: 'NEE', weight: 40 } as StockPosition,
+      ]
+    };
+
+    const refreshed = await refreshPortfolioPrices(portfolio, undefined, { provider, cache: null });
+
+    expect(refreshed.positions[0].currentPrice).toBe(400);
+    expect(refreshed.positions[0].dividendYieldPercent).toBe(0.7);
+    expect(refreshed.positions[1].fiveYearChangePercent).toBeCloseTo(50);
+    expect(refreshed.metrics.benchmark5YearReturn).toBe(80);
+    expect(refreshed.metrics.estimates?.dividendYield).toEqual({ source: 'computed', modelEstimate: '1%', computed: '0.70%', coverage: 60 });
+  });
+});
+
+describe('monthly return history', () => {
+  // 25 month-end closes through the last completed month: +2% one month, -1% the next
+  const monthlyCloses = (start: number, up: number, down: number) => {
+    let close = start;
+    return Array.from({ length: 25 }, (_, i) => {
+      if (i > 0) close *= 1 + (i % 2 ? up : down) / 100;
+      return { date: `${shiftMonth(lastCompleteMonth(), i - 24)}-28`, close };
+    });
+  };
+  const monthly: LocalMarketDataset = {
+    ...dataset,
+    history: { ...dataset.history, MSFT: monthlyCloses(300, 2, -1), AAPL: monthlyCloses(150, 3, -2), SPY: monthlyCloses(400, 1, -1) },
+  };
+
+  const portfolio: GeneratedPortfolio = {
+    name: 'Test Fund',
+    description: 'Test',
+    narrative: 'Narrative',
+    metrics: { projectedReturn: '10%', projectedVolatility: 'Med', dividendYield: '1%', sharpeRatio: '1.0' },
+    positions: [
+      { ticker: 'MSFT', weight: 60 } as StockPosition,
+      { ticker: 'AAPL', weight: 40 } as StockPosition,
+    ]
+  };
+
+  it('derives monthly returns from history.csv closes and omits tickers without consecutive months', async () => {
+    const series = await createLocalMarketDataProvider(monthly).fetchMonthlyReturns!(['MSFT', 'NEE'], 60);
+
+    expect(series.MSFT.returns).toHaveLength(24);
+    expect(series.MSFT.returns[0]).toEqual({ month: shiftMonth(lastCompleteMonth(), -23), return: expect.closeTo(2, 6) });
+    expect(series.MSFT.returns[1].return).toBeCloseTo(-1, 6);
+    // NEE's closes are a year or more apart
+    expect(series.NEE).toBeUndefined();
+  });
+
+  it('feeds the covariance volatility on refresh and is reused until a newer month closes', async () => {
+    const provider = createLocalMarketDataProvider(monthly);
+    const fetchMonthlyReturns = vi.spyOn(provider, 'fetchMonthlyReturns');
+    const memory = new Map<string, string>();
+    const cache = createMarketDataCache({
+      getItem: key => memory.get(key) ?? null,
+      setItem: (key, value) => { memory.set(key, value); },
+      removeItem: key => { memory.delete(key); },
+    });
+
+    const refreshed = await refreshPortfolioPrices(portfolio, undefined, { provider, cache });
+
+    expect(refreshed.positions[0].returnHistory?.returns).toHaveLength(24);
+    expect(refreshed.positions[0].returnHistory?.provenance).toMatchObject({ provider: 'Local Fixtures', pass: 'initial' });
+    expect(refreshed.metrics.estimates?.projectedVolatility).toMatchObject({ source: 'computed', coverage: 100 });
+
+    await refreshPortfolioPrices(refreshed, undefined, { provider, cache });
+    expect(fetchMonthlyReturns).toHaveBeenCalledTimes(1);
+  });
+
+  it('fetches the S&P 500 series for the benchmark risk statistics', async () => {
+    const refreshed = await refreshPortfolioPrices(portfolio, undefined, { provider: createLocalMarketDataProvider(monthly), cache: null });
+
+    expect(refreshed.metrics.benchmarkReturnHistory?.returns).toHaveLength(24);
+    expect(refreshed.metrics.benchmarkReturnHistory?.provenance).toMatchObject({ provider: 'Local Fixtures' });
+    // Both holdings rise when SPY does, so they track it perfectly
+    const risk = calculateRiskAnalytics(refreshed)!;
+    expect(risk.benchmark?.months).toHaveLength(24);
+    expect(risk.benchmark?.correlation).toBeCloseTo(1, 6);
+  });
+});
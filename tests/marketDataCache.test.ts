@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMarketDataCache } from '../services/marketDataCache';
+import { refreshPortfolioPrices } from '../services/geminiService';
+import { MarketDataProvider } from '../services/marketDataProvider';
+import { formatDataAge } from '../utils/formatting';
+import { GeneratedPortfolio, StockPosition } from '../types';
+
+const MINUTE = 60 * 1000;
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+describe('createMarketDataCache', () => {
+  it('returns only fields that are within their TTL', () => {
+    const cache = createMarketDataCache(createMemoryStorage(), { price: 10 * MINUTE, fiveYearChange: 60 * MINUTE });
+    const t0 = 1_000_000;
+    cache.write('MSFT', { price: 400, fiveYearChange: 150 }, { price: t0, fiveYearChange: t0 });
+
+    expect(cache.read('msft', t0 + 5 * MINUTE).quote).toEqual({ price: 400, fiveYearChange: 150 });
+
+    const later = cache.read('MSFT', t0 + 30 * MINUTE);
+    expect(later.quote).toEqual({ fiveYearChange: 150 });
+    expect(later.fetchedAt).toEqual({ fiveYearChange: t0 });
+  });
+
+  it('persists across instances sharing the same storage', () => {
+    const storage = createMemoryStorage();
+    createMarketDataCache(storage).write('NEE', { price: 80 }, { price: Date.now() });
+    expect(createMarketDataCache(storage).read('NEE').quote.price).toBe(80);
+  });
+
+  it('applies TTL overrides set after creation', () => {
+    const cache = createMarketDataCache(createMemoryStorage());
+    const t0 = 1_000_000;
+    cache.write('NEE', { price: 80 }, { price: t0 });
+    cache.setTtls({ price: MINUTE });
+    expect(cache.read('NEE', t0 + 2 * MINUTE).quote).toEqual({});
+  });
+
+  it('drops expired entries from storage as it is written and read', () => {
+    const storage = createMemoryStorage();
+    const cache = createMarketDataCache(storage, { price: 10 * MINUTE, fiveYearChange: 60 * MINUTE });
+    const stored = () => JSON.parse(storage.getItem('climateshift-market-cache')!);
+    const t0 = 1_000_000;
+    cache.write('AAA', { price: 10, fiveYearChange: 30 }, { price: t0, fiveYearChange: t0 });
+
+    cache.write('BBB', { price: 20 }, { price: t0 + 30 * MINUTE });
+    expect(Object.keys(stored().AAA)).toEqual(['fiveYearChange']);
+
+    cache.read('BBB', t0 + 90 * MINUTE);
+    expect(stored()).toEqual({});
+  });
+
+  it('remembers fields the provider had no value for until their TTL runs out', () => {
+    const cache = createMarketDataCache(createMemoryStorage(), { dividendYield: 60 * MINUTE });
+    const t0 = 1_000_000;
+    cache.write('RIVN', { price: 12 }, { price: t0 }, {}, { dividendYield: t0 });
+
+    const fresh = cache.read('RIVN', t0 + 5 * MINUTE);
+    expect(fresh.unavailable).toEqual(['dividendYield']);
+    expect(fresh.quote).toEqual({ price: 12 });
+    expect(cache.read('RIVN', t0 + 90 * MINUTE).unavailable).toEqual([]);
+  });
+});
+
+describe('refreshPortfolioPrices caching', () => {
+  const portfolio = (): GeneratedPortfolio => ({
+    name: 'Test Fund',
+    description: 'Test',
+    narrative: 'Narrative',
+    metrics: { projectedReturn: '10%', projectedVolatility: 'Med', dividendYield: '1%', sharpeRatio: '1.0' },
+    positions: [
+      { ticker: 'AAA', weight: 50 } as StockPosition,
+      { ticker: 'BBB', weight: 50 } as StockPosition,
+    ]
+  });
+
+  const fullQuote = { price: 10, dayChange: 0.4, oneYearChange: 5, threeYearChange: 15, fiveYearChange: 30, dividendYield: 1.5 };
+
+  it('only refetches tickers whose cached entries have expired', async () => {
+    const cache = createMarketDataCache(createMemoryStorage());
+    const fetchQuotes = vi.fn(async (tickers: string[]) =>
+      Object.fromEntries(tickers.map(t => [t, fullQuote]))
+    );
+    const fetchBenchmark = vi.fn(async () => ({ oneYearChange: 10, threeYearChange: 30, fiveYearChange: 80 }));
+    const provider: MarketDataProvider = { name: 'Stub', fetchQuotes, fetchBenchmark };
+
+    const first = await refreshPortfolioPrices(portfolio(), undefined, { provider, cache });
+    expect(fetchQuotes).toHaveBeenCalledTimes(1);
+    expect(typeof first.positions[0].fetchedAt?.currentPrice).toBe('number');
+
+    // Expire only AAA's price
+    const stored = cache.read('Stub:AAA');
+    cache.write('Stub:AAA', { price: 10 }, { price: stored.fetchedAt.price! - 60 * MINUTE });
+
+    const second = await refreshPortfolioPrices(portfolio(), undefined, { provider, cache });
+    expect(fetchQuotes).toHaveBeenCalledTimes(2);
+    expect(fetchQuotes).toHaveBeenLastCalledWith(['AAA'], undefined);
+    expect(fetchBenchmark).toHaveBeenCalledTimes(1);
+    expect(second.positions[1].fiveYearChangePercent).toBe(30);
+    expect(second.metrics.benchmark5YearReturn).toBe(80);
+  });
+
+  it('does not cache rejected values', async () => {
+    const cache = createMarketDataCache(createMemoryStorage());
+    const provider: MarketDataProvider = {
+      name: 'Stub',
+      fetchQuotes: async () => ({ AAA: { ...fullQuote, price: -1 }, BBB: fullQuote }),
+      fetchBenchmark: async () => ({}),
+    };
+
+    await refreshPortfolioPrices(portfolio(), undefined, { provider, cache });
+    expect(cache.read('Stub:AAA').quote.price).toBeUndefined();
+    expect(cache.read('Stub:BBB').quote.price).toBe(10);
+  });
+
+  it('neither repairs nor refetches a ticker that has no dividend or day change', async () => {
+    const cache = createMarketDataCache(createMemoryStorage());
+    const { dividendYield, dayChange, ...noDividend } = fullQuote;
+    const fetchQuotes = vi.fn(async (tickers: string[]) => Object.fromEntries(tickers.map(t => [t, t === 'AAA' ? noDividend : fullQuote])));
+    const provider: MarketDataProvider = { name: 'Stub', fetchQuotes, fetchBenchmark: async () => ({}) };
+
+    await refreshPortfolioPrices(portfolio(), undefined, { provider, cache });
+    // One initial batch, no repair pass
+    expect(fetchQuotes).toHaveBeenCalledTimes(1);
+    expect(cache.read('Stub:AAA').unavailable.sort()).toEqual(['dayChange', 'dividendYield']);
+
+    await refreshPortfolioPrices(portfolio(), undefined, { provider, cache });
+    expect(fetchQuotes).toHaveBeenCalledTimes(1);
+  });
+
+  it('repairs a rejected dividend yield and does not cache it as missing', async () => {
+    const cache = createMarketDataCache(createMemoryStorage());
+    const fetchQuotes = vi.fn()
+      .mockResolvedValueOnce({ AAA: { ...fullQuote, dividendYield: -3 }, BBB: fullQuote })
+      .mockResolvedValueOnce({ AAA: fullQuote });
+    const provider: MarketDataProvider = { name: 'Stub', fetchQuotes, fetchBenchmark: async () => ({}) };
+
+    const refreshed = await refreshPortfolioPrices(portfolio(), undefined, { provider, cache });
+    expect(fetchQuotes).toHaveBeenLastCalledWith(['AAA'], undefined);
+    expect(refreshed.positions[0].dividendYieldPercent).toBe(1.5);
+    expect(cache.read('Stub:AAA').unavailable).toEqual([]);
+  });
+});
+
+describe('formatDataAge', () => {
+  it('formats elapsed time compactly', () => {
+    const now = 10 * 24 * 60 * MINUTE;
+    expect(formatDataAge(undefined, now)).toBeNull();
+    expect(formatDataAge(now - 20 * 1000, now)).toBe('just now');
+    expect(formatDataAge(now - 12 * MINUTE, now)).toBe('12m ago');
+    expect(formatDataAge(now - 3 * 60 * MINUTE, now)).toBe('3h ago');
+    expect(formatDataAge(now - 50 * 60 * MINUTE, now)).toBe('2d ago');
+  });
+});
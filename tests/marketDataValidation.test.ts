@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { validateQuote, validateQuoteBatch, validateBenchmark } from '../utils/marketDataValidation';
+import { refreshPortfolioPrices } from '../services/geminiService';
+import { MarketDataProvider } from '../services/marketDataProvider';
+import { GeneratedPortfolio, StockPosition } from '../types';
+
+describe('validateQuote', () => {
+  it('accepts a plausible record unchanged', () => {
+    const result = validateQuote({ price: 420.25, oneYearChange: 18.2, threeYearChange: 52, fiveYearChange: 210.3, dividendYield: 0.7 });
+    expect(result.rejections).toEqual([]);
+    expect(result.quote).toEqual({ price: 420.25, oneYearChange: 18.2, threeYearChange: 52, fiveYearChange: 210.3, dividendYield: 0.7 });
+  });
+
+  it('rejects negative or zero prices', () => {
+    expect(validateQuote({ price: -5 }).rejections[0]).toMatchObject({ field: 'currentPrice', value: -5 });
+    expect(validateQuote({ price: 0 }).quote.price).toBeUndefined();
+  });
+
+  it('rejects returns at or below -100%', () => {
+    const result = validateQuote({ price: 10, fiveYearChange: -100, oneYearChange: -120 });
+    expect(result.quote).toEqual({ price: 10 });
+    expect(result.rejections.map(r => r.field).sort()).toEqual(['fiveYearChangePercent', 'oneYearChangePercent']);
+  });
+
+  it('accepts a zero yield and rejects impossible day changes and yields', () => {
+    const result = validateQuote({ price: 10, dayChange: -100, dividendYield: 40 });
+    expect(result.quote).toEqual({ price: 10 });
+    expect(result.rejections.map(r => r.field)).toEqual(['dayChangePercent', 'dividendYieldPercent']);
+    expect(validateQuote({ dayChange: -3.2, dividendYield: 0 }).quote).toEqual({ dayChange: -3.2, dividendYield: 0 });
+  });
+
+  it('rejects non-numeric values such as percentage strings', () => {
+    const result = validateQuote({ price: '185.50', oneYearChange: '25%' });
+    expect(result.quote).toEqual({});
+    expect(result.rejections).toHaveLength(2);
+    expect(result.rejections[0].reason).toMatch(/finite number/);
+  });
+
+  it('rejects a 1Y return that is implausible against the 5Y return', () => {
+    // +900% in 1Y with -50% over 5Y implies a 95% loss over the 4 years before
+    const result = validateQuote({ oneYearChange: 900, fiveYearChange: -50 });
+    expect(result.quote).toEqual({ fiveYearChange: -50 });
+    expect(result.rejections[0].field).toBe('oneYearChangePercent');
+    expect(result.rejections[0].reason).toMatch(/inconsistent with 5Y return/);
+  });
+
+  it('allows a strong 1Y recovery after a weak 5Y period', () => {
+    // 1Y +100% with 5Y -50% implies -75% before: painful but plausible
+    const result = validateQuote({ oneYearChange: 100, fiveYearChange: -50 });
+    expect(result.rejections).toEqual([]);
+  });
+
+  it('rejects records that are not objects', () => {
+    expect(validateQuote('n/a').rejections[0].field).toBe('record');
+  });
+});
+
+describe('validateQuoteBatch', () => {
+  it('returns an empty result for malformed batches', () => {
+    expect(validateQuoteBatch(null)).toEqual({});
+    expect(validateQuoteBatch([1, 2])).toEqual({});
+  });
+});
+
+describe('validateBenchmark', () => {
+  it('maps rejections onto benchmark metric fields', () => {
+    const result = validateBenchmark({ oneYearChange: 12, threeYearChange: 'unknown', fiveYearChange: 85 });
+    expect(result.benchmark).toEqual({ oneYearChange: 12, fiveYearChange: 85 });
+    expect(result.rejections[0].field).toBe('benchmark3YearReturn');
+  });
+});
+
+describe('refreshPortfolioPrices validation', () => {
+  const basePortfolio = (): GeneratedPortfolio => ({
+    name: 'Test Fund',
+    description: 'Test',
+    narrative: 'Narrative',
+    metrics: { projectedReturn: '10%', projectedVolatility: 'Med', dividendYield: '1%', sharpeRatio: '1.0', benchmark5YearReturn: 70 },
+    positions: [
+      { ticker: 'AAA', weight: 50, fiveYearChangePercent: 40 } as StockPosition,
+      { ticker: 'BBB', weight: 50 } as StockPosition,
+    ]
+  });
+
+  it('clears rejected fields and records the reasons on the position', async () => {
+    const provider: MarketDataProvider = {
+      name: 'Stub',
+      fetchQuotes: async () => ({
+        AAA: { price: -1, fiveYearChange: -140 },
+        BBB: { price: 50, fiveYearChange: 20 },
+      }),
+      fetchBenchmark: async () => ({ fiveYearChange: -150 }),
+    };
+
+    const refreshed = await refreshPortfolioPrices(basePortfolio(), undefined, { provider, cache: null });
+    const [aaa, bbb] = refreshed.positions;
+
+    expect(aaa.currentPrice).toBeUndefined();
+    expect(aaa.fiveYearChangePercent).toBeUndefined();
+    expect(aaa.dataRejections?.map(r => r.field)).toEqual(['currentPrice', 'fiveYearChangePercent']);
+    expect(bbb.fiveYearChangePercent).toBe(20);
+    expect(bbb.dataRejections).toBeUndefined();
+
+    expect(refreshed.metrics.benchmark5YearReturn).toBeUndefined();
+    expect(refreshed.metrics.benchmarkRejections?.[0].field).toBe('benchmark5YearReturn');
+  });
+
+  it('lets the repair pass resolve a field rejected in the first pass', async () => {
+    let call = 0;
+    const provider: MarketDataProvider = {
+      name: 'Stub',
+      fetchQuotes: async () => {
+        call++;
+        return call === 1
+          ? { AAA: { price: 10, fiveYearChange: -400 }, BBB: { price: 50, fiveYearChange: 20 } }
+          : { AAA: { fiveYearChange: 35 } };
+      },
+      fetchBenchmark: async () => ({}),
+    };
+
+    const refreshed = await refreshPortfolioPrices(basePortfolio(), undefined, { provider, cache: null });
+    expect(refreshed.positions[0].fiveYearChangePercent).toBe(35);
+    expect(refreshed.positions[0].dataRejections).toBeUndefined();
+    expect(refreshed.metrics.benchmark5YearReturn).toBe(70);
+  });
+
+  it('fills the day change and yield, repairing tickers that came back without them', async () => {
+    let call = 0;
+    const provider: MarketDataProvider = {
+      name: 'Stub',
+      fetchQuotes: async () => {
+        call++;
+        return call === 1
+          ? { AAA: { price: 10, dayChange: -1.5, fiveYearChange: 20 }, BBB: { price: 50, dayChange: 40000, fiveYearChange: 20, dividendYield: 2.1 } }
+          : { AAA: { dividendYield: 0 }, BBB: { dayChange: 0.8 } };
+      },
+      fetchBenchmark: async () => ({}),
+    };
+
+    const refreshed = await refreshPortfolioPrices(basePortfolio(), undefined, { provider, cache: null });
+    const [aaa, bbb] = refreshed.positions;
+
+    expect(call).toBe(2);
+    expect(aaa).toMatchObject({ dayChangePercent: -1.5, dividendYieldPercent: 0 });
+    expect(bbb).toMatchObject({ dayChangePercent: 0.8, dividendYieldPercent: 2.1 });
+    expect(bbb.dataRejections).toBeUndefined();
+    expect(bbb.provenance?.dayChangePercent?.pass).toBe('repair');
+  });
+});
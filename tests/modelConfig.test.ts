@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_MODEL_CONFIG,
+  sanitizeModelConfig,
+  getModelConfig,
+  setModelConfig,
+  modelRequestFor,
+  formatModelSettings,
+} from '../services/modelConfig';
+
+describe('sanitizeModelConfig', () => {
+  it('fills missing tasks with the defaults', () => {
+    const config = sanitizeModelConfig({ analysis: { model: 'gemini-2.5-pro' } });
+    expect(config.analysis).toEqual({ model: 'gemini-2.5-pro' });
+    expect(config.structure).toEqual(DEFAULT_MODEL_CONFIG.structure);
+  });
+
+  it('drops out-of-range parameters and rounds integer ones', () => {
+    const config = sanitizeModelConfig({
+      structure: { model: '  gemini-2.5-pro ', temperature: 3, seed: 41.7, maxOutputTokens: 0 },
+      headlines: { model: '', temperature: 0.4, maxOutputTokens: 2048.9 },
+    });
+    expect(config.structure).toEqual({ model: 'gemini-2.5-pro', seed: 41 });
+    expect(config.headlines).toEqual({ model: DEFAULT_MODEL_CONFIG.headlines.model, temperature: 0.4, maxOutputTokens: 2048 });
+  });
+
+  it('ignores input that is not an object', () => {
+    expect(sanitizeModelConfig('gemini')).toEqual(DEFAULT_MODEL_CONFIG);
+  });
+});
+
+describe('model settings store', () => {
+  afterEach(() => setModelConfig(null));
+
+  it('persists saved settings and resets to the defaults', () => {
+    setModelConfig({ ...DEFAULT_MODEL_CONFIG, analysis: { model: 'gemini-2.5-pro', temperature: 0.2 } });
+    expect(JSON.parse(localStorage.getItem('climateshift-model-config')!).analysis).toEqual({ model: 'gemini-2.5-pro', temperature: 0.2 });
+    expect(getModelConfig().analysis.model).toBe('gemini-2.5-pro');
+
+    setModelConfig(null);
+    expect(localStorage.getItem('climateshift-model-config')).toBeNull();
+    expect(getModelConfig()).toEqual(DEFAULT_MODEL_CONFIG);
+  });
+
+  it('builds request parameters from only the values that are set', () => {
+    setModelConfig({ ...DEFAULT_MODEL_CONFIG, enrichment: { model: 'gemini-2.5-flash-lite', seed: 7 } });
+    expect(modelRequestFor('enrichment')).toEqual({
+      model: 'gemini-2.5-flash-lite',
+      config: { seed: 7 },
+      settings: { model: 'gemini-2.5-flash-lite', seed: 7 },
+    });
+  });
+});
+
+describe('formatModelSettings', () => {
+  it('lists the model followed by each parameter that is set', () => {
+    expect(formatModelSettings({ model: 'gemini-2.5-pro' })).toBe('gemini-2.5-pro');
+    expect(formatModelSettings({ model: 'gemini-2.5-pro', temperature: 0, maxOutputTokens: 1024 }))
+      .toBe('gemini-2.5-pro · temp 0 · max 1024 tokens');
+  });
+});
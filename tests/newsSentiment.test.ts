@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  lexiconScore, sentimentLabel, headlineRelevance, portfolioSentiment, holdingSentiment,
+  HOLDING_RELEVANCE, SECTOR_RELEVANCE, MARKET_RELEVANCE,
+} from '../utils/newsSentiment';
+import { NewsHeadline } from '../types';
+
+const scored = (score: number, extra: Partial<NewsHeadline> = {}): NewsHeadline => ({
+  title: 't', source: 'Reuters', url: 'https://www.reuters.com/t',
+  sentiment: { score, label: sentimentLabel(score), scorer: 'Test' },
+  ...extra,
+});
+
+describe('lexiconScore', () => {
+  it('scores clearly good and bad news with the right sign', () => {
+    expect(lexiconScore('NextEra beats estimates, shares surge')).toBeGreaterThan(0.5);
+    expect(lexiconScore('Enphase plunges after guidance cut')).toBeLessThan(-0.5);
+    expect(lexiconScore('Utilities sector outlook for the week')).toBe(0);
+  });
+
+  it('matches phrases before their words', () => {
+    // "cut" alone is negative, a rate cut is not
+    expect(lexiconScore('Fed signals rate cut in March')).toBeGreaterThan(0);
+    expect(lexiconScore('Company lowers guidance')).toBeLessThan(lexiconScore('Company lowers costs'));
+  });
+
+  it('flips terms after a negator', () => {
+    expect(lexiconScore('Regulator did not approve merger')).toBeLessThan(0);
+    expect(lexiconScore('No layoffs planned at Vestas')).toBeGreaterThan(0);
+  });
+
+  it('stays within -1 and 1 and is deterministic', () => {
+    const title = 'Stocks soar, rally, surge and jump to record high on strong profits';
+    expect(lexiconScore(title)).toBeLessThanOrEqual(1);
+    expect(lexiconScore(title)).toBe(lexiconScore(title));
+  });
+});
+
+describe('sentimentLabel', () => {
+  it('treats small scores as neutral', () => {
+    expect(sentimentLabel(0.1)).toBe('neutral');
+    expect(sentimentLabel(0.15)).toBe('positive');
+    expect(sentimentLabel(-0.2)).toBe('negative');
+  });
+});
+
+describe('headlineRelevance', () => {
+  const positions = [{ sector: 'Utilities' }, { sector: 'Consumer Services' }];
+
+  it('ranks holding mentions over sector news over market news', () => {
+    expect(headlineRelevance({ ...scored(0), title: 'NextEra wins', tickers: ['NEE'] }, positions)).toBe(HOLDING_RELEVANCE);
+    expect(headlineRelevance({ ...scored(0), title: 'Utilities rally as yields fall' }, positions)).toBe(SECTOR_RELEVANCE);
+    expect(headlineRelevance({ ...scored(0), title: 'Oil prices rise' }, positions)).toBe(MARKET_RELEVANCE);
+  });
+
+  it('ignores generic sector words', () => {
+    expect(headlineRelevance({ ...scored(0), title: 'Consumer confidence dips' }, positions)).toBe(MARKET_RELEVANCE);
+  });
+});
+
+describe('portfolioSentiment', () => {
+  const positions = [{ ticker: 'BIG', weight: 80 }, { ticker: 'SML', weight: 20 }];
+
+  it('weights headlines by relevance and the weight of the holdings they mention', () => {
+    const result = portfolioSentiment([
+      scored(0.5, { tickers: ['BIG'], relevance: 1 }),
+      scored(-0.5, { tickers: ['SML'], relevance: 1 }),
+    ], positions);
+    // (0.5 * 80 - 0.5 * 20) / 100
+    expect(result).toEqual({ score: 0.3, label: 'positive', headlineCount: 2 });
+  });
+
+  it('counts market-wide news like an average holding', () => {
+    const result = portfolioSentiment([
+      scored(1, { tickers: ['SML'], relevance: 1 }),
+      scored(-1, { relevance: 0.4 }),
+    ], positions);
+    // Weights: 20 and 0.4 * 50
+    expect(result?.score).toBe(0);
+  });
+
+  it('ignores unscored headlines and returns null without any', () => {
+    expect(portfolioSentiment([{ title: 't', source: 's', url: 'u' }], positions)).toBeNull();
+  });
+});
+
+describe('holdingSentiment', () => {
+  it('is the relevance-weighted mean of the scored headlines', () => {
+    expect(holdingSentiment([scored(0.6, { relevance: 1 }), scored(-0.6, { relevance: 0.5 })])).toEqual({
+      score: 0.2, label: 'positive', headlineCount: 2,
+    });
+    expect(holdingSentiment([])).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { normalizePortfolio } from '../utils/portfolioNormalization';
+import { GeneratedPortfolio, StockPosition } from '../types';
+
+const position = (ticker: string, weight: number): StockPosition => ({
+  ticker,
+  weight,
+  name: ticker,
+  sector: 'Tech',
+  reason: 'Test',
+  esgScore: 'AA',
+  type: 'Core',
+});
+
+const portfolio = (positions: StockPosition[]): GeneratedPortfolio => ({
+  name: 'Test Fund',
+  description: 'Test',
+  narrative: 'Narrative',
+  metrics: { projectedReturn: '10%', projectedVolatility: 'Med', dividendYield: '1%', sharpeRatio: '1.0' },
+  positions,
+});
+
+// n equal positions T0..T(n-1)
+const equalPositions = (n: number, weight = 100 / n) =>
+  Array.from({ length: n }, (_, i) => position(`T${i}`, weight));
+
+const totalWeight = (result: GeneratedPortfolio) =>
+  Math.round(result.positions.reduce((sum, pos) => sum + pos.weight, 0) * 100) / 100;
+
+describe('normalizePortfolio', () => {
+  it('leaves a compliant portfolio unchanged with no corrections', () => {
+    const input = portfolio(equalPositions(12).map((pos, i) => ({ ...pos, weight: i < 4 ? 10 : 7.5 })));
+    const result = normalizePortfolio(input);
+    expect(result.corrections).toEqual([]);
+    expect(result.positions.map(p => p.weight)).toEqual(input.positions.map(p => p.weight));
+  });
+
+  it('rescales weights to exactly 100%', () => {
+    const result = normalizePortfolio(portfolio(equalPositions(12, 8)));
+    expect(totalWeight(result)).toBe(100);
+    expect(result.corrections?.map(c => c.kind)).toEqual(['weights-rescaled']);
+    expect(result.corrections?.[0].message).toBe('Weights summed to 96.00%; rescaled to 100%');
+  });
+
+  it('merges repeated tickers case-insensitively', () => {
+    const positions = [...equalPositions(12, 7.5), position(' t0', 5), position('T1', 5)];
+    const result = normalizePortfolio(portfolio(positions));
+
+    expect(result.positions).toHaveLength(12);
+    expect(result.positions[0].weight).toBe(12.5);
+    expect(result.corrections?.[0]).toMatchObject({ kind: 'duplicates-merged', tickers: ['T0', 'T1'] });
+    expect(totalWeight(result)).toBe(100);
+  });
+
+  it('drops the smallest positions beyond the maximum count', () => {
+    const positions = [...equalPositions(18, 5), position('SMALL1', 0.5), position('SMALL2', 0.4)];
+    const result = normalizePortfolio(portfolio(positions));
+
+    expect(result.positions).toHaveLength(18);
+    expect(result.corrections?.find(c => c.kind === 'positions-dropped')?.tickers).toEqual(['SMALL1', 'SMALL2']);
+  });
+
+  it('caps oversized positions and raises tiny ones within bounds', () => {
+    const positions = [position('BIG', 40), ...equalPositions(10, 5.99), position('TINY', 0.1)];
+    const result = normalizePortfolio(portfolio(positions));
+    const weights = Object.fromEntries(result.positions.map(pos => [pos.ticker, pos.weight]));
+
+    expect(weights.BIG).toBe(15);
+    expect(weights.TINY).toBe(1);
+    expect(totalWeight(result)).toBe(100);
+    result.positions.forEach(pos => {
+      expect(pos.weight).toBeGreaterThanOrEqual(1);
+      expect(pos.weight).toBeLessThanOrEqual(15);
+    });
+    expect(result.corrections?.map(c => c.kind)).toEqual(['weight-capped', 'weight-raised']);
+  });
+
+  it('removes unusable positions and warns when too few remain', () => {
+    const positions = [...equalPositions(10, 10), position('', 5), position('NEG', -2)];
+    const result = normalizePortfolio(portfolio(positions));
+
+    expect(result.positions).toHaveLength(10);
+    expect(result.corrections?.map(c => c.kind)).toEqual(['position-removed', 'too-few-positions']);
+    expect(result.corrections?.[0].tickers).toEqual(['(blank)', 'NEG']);
+  });
+
+  it('does not modify the input portfolio', () => {
+    const input = portfolio([...equalPositions(12, 8), position('T0', 4)]);
+    const snapshot = JSON.parse(JSON.stringify(input));
+    normalizePortfolio(input);
+    expect(input).toEqual(snapshot);
+  });
+});
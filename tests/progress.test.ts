@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { createProgressReporter, summarizeProgress, REFRESH_STAGES } from '../utils/progress';
+import { refreshPortfolioPrices } from '../services/geminiService';
+import { MarketDataProvider } from '../services/marketDataProvider';
+import { RetryableRequestError } from '../services/requestScheduler';
+import { GeneratedPortfolio, ProgressEvent, StockPosition } from '../types';
+
+const createClock = () => {
+  let time = 1000;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+};
+
+describe('createProgressReporter', () => {
+  it('derives the overall fraction from the stage index and batch completion', () => {
+    const events: ProgressEvent[] = [];
+    const clock = createClock();
+    const reporter = createProgressReporter(['initializing', 'market-data'], e => events.push(e), clock.now);
+
+    reporter.emit('initializing', 'Starting');
+    clock.advance(1500);
+    reporter.emit('market-data', 'Fetching', { batch: { completed: 1, total: 4 } });
+
+    expect(events[0]).toMatchObject({ stage: 'initializing', stageIndex: 0, stageCount: 2, fraction: 0, elapsedMs: 0 });
+    expect(events[1]).toMatchObject({ stageIndex: 1, fraction: 0.625, elapsedMs: 1500, batch: { completed: 1, total: 4 } });
+  });
+
+  it('maps forwarded events from a nested operation onto the outer stages', () => {
+    const outer: ProgressEvent[] = [];
+    const reporter = createProgressReporter(['structure', 'market-data', 'benchmark', 'news'], e => outer.push(e));
+    const inner = createProgressReporter(REFRESH_STAGES, reporter.forward);
+
+    inner.emit('market-data', 'Fetching', { batch: { completed: 2, total: 4 }, pendingTickers: ['NEE'] });
+
+    expect(outer[0]).toMatchObject({ stage: 'market-data', stageIndex: 1, stageCount: 4, pendingTickers: ['NEE'] });
+    expect(outer[0].fraction).toBeCloseTo(1.5 / 4);
+  });
+});
+
+describe('summarizeProgress', () => {
+  it('keeps the latest event per stage and marks earlier stages done', () => {
+    const events: ProgressEvent[] = [];
+    const reporter = createProgressReporter(REFRESH_STAGES, e => events.push(e));
+    reporter.emit('market-data', 'Fetching', { batch: { completed: 0, total: 2 } });
+    reporter.emit('market-data', 'Received', { batch: { completed: 2, total: 2 } });
+    reporter.emit('benchmark', 'Benchmark');
+
+    const summary = summarizeProgress(events);
+    expect(summary.map(s => [s.stage, s.status, s.latest.message])).toEqual([
+      ['market-data', 'done', 'Received'],
+      ['benchmark', 'active', 'Benchmark'],
+    ]);
+  });
+});
+
+describe('refreshPortfolioPrices progress events', () => {
+  it('reports pending tickers per batch and the tickers whose batch failed', async () => {
+    const portfolio: GeneratedPortfolio = {
+      name: 'Test Fund',
+      description: 'Test',
+      narrative: 'Narrative',
+      metrics: { projectedReturn: '10%', projectedVolatility: 'Med', dividendYield: '1%', sharpeRatio: '1.0' },
+      positions: ['AAA', 'BBB', 'CCC'].map(ticker => ({ ticker, weight: 33 } as StockPosition))
+    };
+    const provider: MarketDataProvider = {
+      name: 'Stub',
+      batchSize: 2,
+      fetchQuotes: async (tickers) => {
+        if (tickers.includes('CCC')) throw new RetryableRequestError('unavailable', 503);
+        return {
+          AAA: { price: 1, dayChange: 0.2, fiveYearChange: 10, dividendYield: 1 },
+          BBB: { price: 2, dayChange: -0.3, fiveYearChange: 20, dividendYield: 0 },
+        };
+      },
+      fetchBenchmark: async () => ({ fiveYearChange: 80 }),
+    };
+    const events: ProgressEvent[] = [];
+
+    await refreshPortfolioPrices(portfolio, e => events.push(e), { provider, cache: null });
+
+    const fetchEvents = events.filter(e => e.stage === 'market-data' && e.batch);
+    expect(fetchEvents[0]).toMatchObject({ batch: { completed: 0, total: 2 }, pendingTickers: ['AAA', 'BBB', 'CCC'] });
+    expect(fetchEvents[fetchEvents.length - 1]).toMatchObject({ batch: { completed: 2, total: 2 }, pendingTickers: [], failedTickers: ['CCC'] });
+
+    // The repair pass retries CCC, fails again, and reports it as unresolved
+    const lastRepair = events.filter(e => e.stage === 'repair').pop();
+    expect(lastRepair?.failedTickers).toEqual(['CCC']);
+    expect(lastRepair?.fraction).toBe(1);
+    expect(events.map(e => e.fraction)).toEqual([...events.map(e => e.fraction)].sort((a, b) => a - b));
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { PROMPT_TEMPLATES, PromptTemplateId, renderPrompt, hashPrompt, uniqueLineage, lineageOf, formatLineage } from '../utils/promptTemplates';
+
+describe('PROMPT_TEMPLATES', () => {
+  it('declares exactly the placeholders each template uses', () => {
+    Object.values(PROMPT_TEMPLATES).forEach(template => {
+      const used = Array.from(template.template.matchAll(/\{\{(\w+)\}\}/g), match => match[1]);
+      expect(new Set(used), template.id).toEqual(new Set(template.variables));
+    });
+  });
+});
+
+describe('renderPrompt', () => {
+  it('fills variables and records the template version and prompt hash', () => {
+    const { text, lineage } = renderPrompt('stock-analysis', { ticker: 'NEE' });
+    expect(text).toContain('Find real-time financial data for NEE.');
+    expect(lineage).toEqual({ templateId: 'stock-analysis', version: PROMPT_TEMPLATES['stock-analysis'].version, hash: hashPrompt(text) });
+  });
+
+  it('rejects missing and undeclared variables', () => {
+    expect(() => renderPrompt('stock-analysis')).toThrow(/missing \[ticker\]/);
+    expect(() => renderPrompt('benchmark-returns', { ticker: 'SPY' })).toThrow(/unknown \[ticker\]/);
+  });
+
+  it('does not expand placeholders inside variable values', () => {
+    const { text } = renderPrompt('rebalance-context', { userPreferences: 'more {{userPreferences}} please' });
+    expect(text).toContain('more {{userPreferences}} please');
+  });
+
+  it('gives the same prompt the same hash and a changed template a new one', () => {
+    const first = renderPrompt('market-headlines', { query: 'utilities' }).lineage.hash;
+    expect(renderPrompt('market-headlines', { query: 'utilities' }).lineage.hash).toBe(first);
+
+    const edited = {
+      ...PROMPT_TEMPLATES,
+      'market-headlines': { ...PROMPT_TEMPLATES['market-headlines'], version: 2, template: 'Headlines about {{query}}' },
+    } as typeof PROMPT_TEMPLATES;
+    const changed = renderPrompt('market-headlines' as PromptTemplateId, { query: 'utilities' }, edited).lineage;
+    expect(changed.version).toBe(2);
+    expect(changed.hash).not.toBe(first);
+  });
+});
+
+describe('lineage helpers', () => {
+  const a = { templateId: 'stock-batch-data', version: 1, hash: '000000000000aa' };
+  const b = { templateId: 'stock-batch-data', version: 1, hash: '000000000000bb' };
+
+  it('dedupes by hash in first-seen order', () => {
+    expect(uniqueLineage([a, b, a])).toEqual([a, b]);
+  });
+
+  it('reads well-formed lineage from provider records only', () => {
+    expect(lineageOf({ price: 10, prompt: a })).toEqual(a);
+    expect(lineageOf({ price: 10, prompt: { templateId: 'x' } })).toBeUndefined();
+    expect(lineageOf(null)).toBeUndefined();
+  });
+
+  it('formats a short label', () => {
+    expect(formatLineage(a)).toBe('stock-batch-data v1 #00000000');
+  });
+});
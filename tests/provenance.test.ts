@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { attributeSourcesToTickers, sanitizeSources, describeSource } from '../utils/provenance';
+import { refreshPortfolioPrices } from '../services/geminiService';
+import { createMarketDataCache } from '../services/marketDataCache';
+import { MarketDataProvider } from '../services/marketDataProvider';
+import { GeneratedPortfolio, StockPosition } from '../types';
+
+const createMemoryStorage = () => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, value); },
+    removeItem: (key: string) => { data.delete(key); },
+  };
+};
+
+describe('attributeSourcesToTickers', () => {
+  const metadata = {
+    groundingChunks: [
+      { web: { uri: 'https://reuters.com/msft', title: 'reuters.com' } },
+      { web: { uri: 'https://nasdaq.com/nee', title: 'nasdaq.com' } },
+      { web: { uri: 'https://example.com/market', title: 'example.com' } },
+    ],
+    groundingSupports: [
+      { segment: { text: '"MSFT": { "price": 420.25 }' }, groundingChunkIndices: [0] },
+      { segment: { text: '"NEE": { "fiveYearChange": 12.5 }' }, groundingChunkIndices: [1, 1] },
+    ],
+  };
+
+  it('assigns each ticker the chunks cited by segments that mention it', () => {
+    const sources = attributeSourcesToTickers(['MSFT', 'NEE'], metadata);
+    expect(sources.MSFT).toEqual([{ uri: 'https://reuters.com/msft', title: 'reuters.com' }]);
+    expect(sources.NEE).toEqual([{ uri: 'https://nasdaq.com/nee', title: 'nasdaq.com' }]);
+  });
+
+  it('falls back to every cited chunk for tickers no segment mentions', () => {
+    expect(attributeSourcesToTickers(['ED'], metadata).ED).toHaveLength(3);
+  });
+
+  it('does not match a ticker inside a longer symbol', () => {
+    const sources = attributeSourcesToTickers(['NE'], metadata);
+    expect(sources.NE).toHaveLength(3); // Fallback, not the NEE citation
+  });
+
+  it('returns empty sources without grounding metadata', () => {
+    expect(attributeSourcesToTickers(['MSFT'])).toEqual({ MSFT: [] });
+  });
+});
+
+describe('sanitizeSources', () => {
+  it('drops malformed entries and duplicate uris', () => {
+    expect(sanitizeSources([{ uri: 'https://a.com' }, { uri: 'https://a.com', title: 'A' }, { title: 'no uri' }, 'x'])).toEqual([
+      { uri: 'https://a.com' },
+    ]);
+    expect(sanitizeSources(undefined)).toEqual([]);
+  });
+
+  it('describes untitled sources by hostname', () => {
+    expect(describeSource({ uri: 'https://www.wsj.com/articles/x' })).toBe('wsj.com');
+  });
+});
+
+describe('refreshPortfolioPrices provenance', () => {
+  const portfolio = (): GeneratedPortfolio => ({
+    name: 'Test Fund',
+    description: 'Test',
+    narrative: 'Narrative',
+    metrics: { projectedReturn: '10%', projectedVolatility: 'Med', dividendYield: '1%', sharpeRatio: '1.0' },
+    positions: [{ ticker: 'AAA', weight: 100 } as StockPosition]
+  });
+
+  const createProvider = (): MarketDataProvider => {
+    let call = 0;
+    return {
+      name: 'Stub',
+      fetchQuotes: async () => {
+        call++;
+        return call === 1
+          ? { AAA: { price: 10, dayChange: 0.5, oneYearChange: 5, threeYearChange: 9, dividendYield: 1.2, sources: [{ uri: 'https://first.com', title: 'First' }] } }
+          : { AAA: { fiveYearChange: 30, sources: [{ uri: 'https://repair.com' }] } };
+      },
+      fetchBenchmark: async () => ({ oneYearChange: 12, threeYearChange: 30, fiveYearChange: 80, sources: [{ uri: 'https://spy.com' }] }),
+    };
+  };
+
+  it('records provider, pass and sources for every merged field', async () => {
+    const refreshed = await refreshPortfolioPrices(portfolio(), undefined, { provider: createProvider(), cache: null });
+    const { provenance, fetchedAt } = refreshed.positions[0];
+
+    expect(provenance?.currentPrice).toMatchObject({ provider: 'Stub', pass: 'initial', sources: [{ uri: 'https://first.com', title: 'First' }] });
+    expect(provenance?.fiveYearChangePercent).toMatchObject({ pass: 'repair', sources: [{ uri: 'https://repair.com' }] });
+    expect(provenance?.currentPrice?.fetchedAt).toBe(fetchedAt?.currentPrice);
+    expect(refreshed.metrics.benchmarkProvenance?.benchmark5YearReturn?.sources).toEqual([{ uri: 'https://spy.com' }]);
+  });
+
+  it('restores provenance from the cache and marks it as cached', async () => {
+    const cache = createMarketDataCache(createMemoryStorage());
+    const provider = createProvider();
+    await refreshPortfolioPrices(portfolio(), undefined, { provider, cache });
+
+    const second = await refreshPortfolioPrices(portfolio(), undefined, { provider, cache });
+    expect(second.positions[0].provenance?.fiveYearChangePercent).toMatchObject({
+      provider: 'Stub',
+      pass: 'repair',
+      fromCache: true,
+      sources: [{ uri: 'https://repair.com' }],
+    });
+  });
+});
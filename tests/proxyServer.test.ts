@@ -0,0 +1,244 @@
+// @vitest-environment node
+import path from 'node:path';
+import os from 'node:os';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { createProxyServer } from '../server/proxyServer';
+import { clientAddress, createRateLimiter, LOOPBACK_ADDRESSES } from '../server/rateLimiter';
+import { createMockGeminiBackend } from '../server/mockGemini';
+import { loadStaticData } from '../server/staticData';
+import { createFileStorage } from '../server/fileStorage';
+import { createProxyClient, ProxyClient } from '../services/proxyClient';
+import { geminiScheduler, setGeminiBackend } from '../services/geminiClient';
+import { DEFAULT_MODEL_CONFIG, setModelConfig } from '../services/modelConfig';
+import { setCompanyReference } from '../services/companyReference';
+import { setSymbolMaster } from '../services/symbolMaster';
+import { createUsageMeter, usageMeter } from '../services/usageMeter';
+import { createMarketDataCache } from '../services/marketDataCache';
+import { RetryableRequestError } from '../services/requestScheduler';
+import { ProgressEvent, StockPosition } from '../types';
+
+describe('createRateLimiter', () => {
+  it('allows a fixed number of requests per client per window', () => {
+    let now = 0;
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000, now: () => now });
+
+    expect(limiter.take('a')).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect(limiter.take('a').allowed).toBe(true);
+    now = 400;
+    expect(limiter.take('a')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 600 });
+    expect(limiter.take('b').allowed).toBe(true);
+
+    now = 1000;
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+});
+
+describe('clientAddress', () => {
+  it('keys on the address the trusted proxy forwarded, and ignores it from anyone else', () => {
+    expect(clientAddress('127.0.0.1', '203.0.113.7', LOOPBACK_ADDRESSES)).toBe('203.0.113.7');
+    // Earlier entries are whatever the client sent; the proxy appends the real one
+    expect(clientAddress('::1', ['10.0.0.1, 203.0.113.7', '198.51.100.2'], LOOPBACK_ADDRESSES)).toBe('198.51.100.2');
+    expect(clientAddress('127.0.0.1', undefined, LOOPBACK_ADDRESSES)).toBe('127.0.0.1');
+    expect(clientAddress('192.0.2.9', '203.0.113.7', LOOPBACK_ADDRESSES)).toBe('192.0.2.9');
+    expect(clientAddress(undefined, '203.0.113.7', LOOPBACK_ADDRESSES)).toBe('unknown');
+    // Not set up behind a proxy: the header is ignored, even from loopback
+    expect(clientAddress('127.0.0.1', '203.0.113.7', [])).toBe('127.0.0.1');
+  });
+});
+
+describe('createFileStorage', () => {
+  it('keeps items in a JSON file that a new storage reads back', () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'climateshift-'));
+    const file = path.join(dir, 'cache', 'market.json');
+    try {
+      const storage = createFileStorage(file);
+      expect(storage.getItem('a')).toBeNull();
+      storage.setItem('a', '1');
+      storage.setItem('b', '2');
+      storage.removeItem('b');
+
+      expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual({ a: '1' });
+      expect(createFileStorage(file).getItem('a')).toBe('1');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('proxy server', () => {
+  let server: Server;
+  let baseUrl: string;
+  let client: ProxyClient;
+  const serverMeter = createUsageMeter(null);
+  const serverCache = createMarketDataCache(null);
+
+  beforeAll(async () => {
+    setGeminiBackend(createMockGeminiBackend());
+    loadStaticData(path.resolve(__dirname, '../public'), {});
+    geminiScheduler.configure({ sleep: async () => {}, random: () => 0, callsPerMinute: 1000 });
+
+    // Set up as behind the dev proxy, which connects from loopback
+    server = createProxyServer({
+      rateLimiter: createRateLimiter({ limit: 10 }),
+      trustedProxies: LOOPBACK_ADDRESSES,
+      usageMeter: serverMeter,
+      marketDataCache: serverCache,
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    client = createProxyClient({ baseUrl });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    setGeminiBackend(null);
+    setCompanyReference(null);
+    setSymbolMaster(null);
+  });
+
+  afterEach(() => {
+    setModelConfig(null);
+    vi.restoreAllMocks();
+  });
+
+  it('reports health without counting toward the rate limit', async () => {
+    for (let i = 0; i < 10; i++) await client.health();
+    expect(await client.health()).toEqual({
+      status: 'ok', backend: 'Mock Gemini', configured: true, marketDataProvider: 'Gemini Search', verification: false,
+    });
+  });
+
+  it('streams progress and returns an enriched, screened portfolio with its usage', async () => {
+    const ingest = vi.spyOn(usageMeter, 'ingest');
+    const events: ProgressEvent[] = [];
+
+    const portfolio = await client.generateETFPortfolio(undefined, event => events.push(event), undefined, { verify: true });
+
+    expect(portfolio.positions).toHaveLength(13);
+    expect(portfolio.positions.every(p => typeof p.currentPrice === 'number' && p.listing)).toBe(true);
+    expect(portfolio.positions[0].verification?.currentPrice?.status).toBe('agreed');
+    expect(portfolio.metrics.estimates?.projectedReturn?.source).toBe('computed');
+    expect(portfolio.metrics.estimates?.projectedVolatility?.source).toBe('computed');
+    expect(portfolio.positions[0].returnHistory?.returns).toHaveLength(60);
+    expect(portfolio.metrics.benchmarkReturnHistory?.returns).toHaveLength(60);
+    expect(portfolio.headlines!.some(h => h.tickers?.includes('MSFT'))).toBe(true);
+    // Tasks without an output limit run with the server's
+    expect(portfolio.modelUsage?.structure).toEqual({ model: 'gemini-2.5-flash', maxOutputTokens: 65_536 });
+    expect(events[0].stage).toBe('initializing');
+    expect(events[events.length - 1].stage).toBe('finalizing');
+
+    const operations = ingest.mock.calls.flatMap(([records]) => records.map(r => r.operation));
+    expect(operations).toEqual(expect.arrayContaining(['structure', 'market-data', 'benchmark', 'headlines']));
+    // Quotes land in the cache the server was given
+    expect(serverCache.read(`Gemini Search:${portfolio.positions[0].ticker}`).quote.price).toBe(portfolio.positions[0].currentPrice);
+  });
+
+  it('runs each request with the model settings the browser sent', async () => {
+    setModelConfig({ ...DEFAULT_MODEL_CONFIG, analysis: { model: 'gemini-2.5-pro' } });
+    const ingest = vi.spyOn(usageMeter, 'ingest');
+
+    const analysis = await client.analyzeStock('nee');
+
+    expect(analysis.price).toBeGreaterThan(0);
+    expect(analysis.content).toContain('NEE is served by the mock backend');
+    expect(ingest.mock.calls[0][0]).toEqual([expect.objectContaining({ operation: 'analysis', model: 'gemini-2.5-pro' })]);
+  });
+
+  it('meters its calls with its own meter, not the browser\'s', async () => {
+    const browserCalls = usageMeter.sessionSummary().byOperation.analysis?.calls || 0;
+    const serverCalls = serverMeter.sessionSummary().byOperation.analysis?.calls || 0;
+    const ingest = vi.spyOn(usageMeter, 'ingest');
+
+    await client.analyzeStock('MSFT');
+
+    expect(serverMeter.sessionSummary().byOperation.analysis?.calls).toBe(serverCalls + 1);
+    // The browser only learns of the call from the response
+    expect(ingest).toHaveBeenCalledTimes(1);
+    expect(usageMeter.sessionSummary().byOperation.analysis?.calls).toBe(browserCalls + 1);
+  });
+
+  it('keeps its own meter when another server in the process starts and closes', async () => {
+    const otherMeter = createUsageMeter(null);
+    const other = createProxyServer({ usageMeter: otherMeter });
+    await new Promise<void>(resolve => other.listen(0, '127.0.0.1', resolve));
+    const otherClient = createProxyClient({ baseUrl: `http://127.0.0.1:${(other.address() as AddressInfo).port}/api` });
+    const serverCalls = serverMeter.sessionSummary().total.calls;
+
+    await otherClient.analyzeStock('NEE');
+    await new Promise(resolve => other.close(resolve));
+    await client.analyzeStock('MSFT');
+
+    expect(otherMeter.sessionSummary().total.calls).toBe(1);
+    expect(serverMeter.sessionSummary().total.calls).toBe(serverCalls + 1);
+  });
+
+  it('serves market and portfolio headlines', async () => {
+    const market = await client.fetchMarketHeadlines();
+    expect(market.length).toBeGreaterThan(0);
+    expect(market.every(h => h.verified && h.sentiment)).toBe(true);
+
+    const portfolio = await client.fetchPortfolioHeadlines([
+      { ticker: 'NEE', name: 'NextEra Energy, Inc.', sector: 'Utilities', weight: 100 } as StockPosition,
+    ]);
+    expect(portfolio[0]).toMatchObject({ tickers: ['NEE'], relevance: 1 });
+  });
+
+  it('refuses models the server doesn\'t allow and output limits over its cap', async () => {
+    setModelConfig({ ...DEFAULT_MODEL_CONFIG, analysis: { model: 'gemini-ultra-max' } });
+    await expect(client.analyzeStock('MSFT')).rejects.toThrow('"models.analysis.model" must be one of gemini-2.5-flash');
+
+    setModelConfig({ ...DEFAULT_MODEL_CONFIG, headlines: { model: 'gemini-2.5-flash', maxOutputTokens: 1_000_000 } });
+    await expect(client.fetchMarketHeadlines()).rejects.toThrow('"models.headlines.maxOutputTokens" must be a number from 1 to 65536');
+  });
+
+  it('rejects malformed requests and unknown routes', async () => {
+    await expect(client.analyzeStock('not a ticker')).rejects.toThrow('"ticker" must be a ticker symbol');
+
+    const response = await fetch(`${baseUrl}/refresh`, { method: 'POST', body: '{"portfolio": {}}' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.kind).toBe('bad-request');
+
+    expect((await fetch(`${baseUrl}/nope`, { method: 'POST' })).status).toBe(404);
+  });
+
+  it('limits clients behind the dev proxy separately', async () => {
+    const post = (client: string) => fetch(`${baseUrl}/analyze`, {
+      method: 'POST', body: '{}', headers: { 'X-Forwarded-For': client },
+    });
+    let response: Response | null = null;
+    for (let i = 0; i < 12 && response?.status !== 429; i++) response = await post('203.0.113.1');
+    expect(response!.status).toBe(429);
+
+    // Same socket address, different client: its own bucket, so the request reaches validation
+    expect((await post('203.0.113.2')).status).toBe(400);
+  });
+
+  it('ignores X-Forwarded-For unless set up behind the dev proxy', async () => {
+    const direct = createProxyServer({ rateLimiter: createRateLimiter({ limit: 1 }) });
+    await new Promise<void>(resolve => direct.listen(0, '127.0.0.1', resolve));
+    const post = (client: string) => fetch(`http://127.0.0.1:${(direct.address() as AddressInfo).port}/api/analyze`, {
+      method: 'POST', body: '{}', headers: { 'X-Forwarded-For': client },
+    });
+    try {
+      expect((await post('203.0.113.1')).status).toBe(400);
+      // A new claimed address is still the same local peer
+      expect((await post('203.0.113.2')).status).toBe(429);
+    } finally {
+      await new Promise(resolve => direct.close(resolve));
+    }
+  });
+
+  it('answers 429 with Retry-After once a client exceeds its limit', async () => {
+    let response: Response | null = null;
+    for (let i = 0; i < 12 && response?.status !== 429; i++) {
+      response = await fetch(`${baseUrl}/analyze`, { method: 'POST', body: '{}' });
+    }
+    expect(response!.status).toBe(429);
+    expect(Number(response!.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+    await expect(client.analyzeStock('MSFT')).rejects.toBeInstanceOf(RetryableRequestError);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createReferenceCache, fetchReferenceText, loadReferenceFile } from '../utils/referenceFiles';
+
+const respond = (body: string, contentType: string, status = 200) =>
+  new Response(body, { status, headers: { 'content-type': contentType } });
+
+describe('fetchReferenceText', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('returns the body of a served file', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => respond('ticker,exchange\nMSFT,NASDAQ', 'text/csv')));
+    expect(await fetchReferenceText('/reference-data/symbols.csv')).toBe('ticker,exchange\nMSFT,NASDAQ');
+  });
+
+  it('treats errors, network failures and the dev server\'s index.html as missing', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => respond('<!doctype html>', 'text/html; charset=utf-8')));
+    expect(await fetchReferenceText('/missing.csv')).toBeNull();
+
+    vi.stubGlobal('fetch', vi.fn(async () => respond('Not found', 'text/plain', 404)));
+    expect(await fetchReferenceText('/missing.csv')).toBeNull();
+
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    expect(await fetchReferenceText('/missing.csv')).toBeNull();
+    await expect(loadReferenceFile('/missing.csv', text => text, 'symbol master')).rejects.toThrow('No symbol master found at /missing.csv');
+  });
+});
+
+describe('createReferenceCache', () => {
+  it('loads once and shares the result', async () => {
+    const load = vi.fn(async () => ({ rows: 1 }));
+    const cache = createReferenceCache(load, () => ({ rows: 0 }));
+
+    const [a, b] = await Promise.all([cache.get(), cache.get()]);
+    expect(a).toBe(b);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back on a failed load and retries on the next call', async () => {
+    const load = vi.fn()
+      .mockRejectedValueOnce(new Error('No symbol master found'))
+      .mockResolvedValueOnce({ rows: 1 });
+    const cache = createReferenceCache<{ rows: number }>(load, () => ({ rows: 0 }));
+
+    expect(await cache.get()).toEqual({ rows: 0 });
+    expect(await cache.get()).toEqual({ rows: 1 });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves an installed value until reset', async () => {
+    const load = vi.fn(async () => ({ rows: 1 }));
+    const cache = createReferenceCache(load, () => ({ rows: 0 }));
+
+    cache.set({ rows: 5 });
+    expect(await cache.get()).toEqual({ rows: 5 });
+    cache.set(null);
+    expect(await cache.get()).toEqual({ rows: 1 });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createRequestScheduler,
+  classifyError,
+  RetryableRequestError,
+  FatalRequestError,
+  CancelledRequestError
+} from '../services/requestScheduler';
+
+// Deterministic clock: sleeping advances time instantly
+const createFakeClock = () => {
+  let time = 0;
+  const sleeps: number[] = [];
+  return {
+    now: () => time,
+    sleep: async (ms: number) => {
+      sleeps.push(ms);
+      time += ms;
+    },
+    sleeps,
+  };
+};
+
+describe('classifyError', () => {
+  it('treats rate limits, server errors and network failures as retryable', () => {
+    expect(classifyError({ status: 429, message: 'Too Many Requests' })).toBeInstanceOf(RetryableRequestError);
+    expect(classifyError(new Error('got status: 503 Service Unavailable'))).toBeInstanceOf(RetryableRequestError);
+    expect(classifyError(new TypeError('Failed to fetch'))).toBeInstanceOf(RetryableRequestError);
+  });
+
+  it('treats auth and bad-request errors as fatal', () => {
+    const error = classifyError({ status: 401, message: 'API key not valid' });
+    expect(error).toBeInstanceOf(FatalRequestError);
+    expect(error.status).toBe(401);
+    expect(classifyError(new Error('Unexpected token in JSON'))).toBeInstanceOf(FatalRequestError);
+  });
+
+  it('handles thrown values that are not error objects', () => {
+    expect(classifyError('socket hang up')).toMatchObject({ retryable: true, message: 'socket hang up' });
+    expect(classifyError(null)).toBeInstanceOf(FatalRequestError);
+    expect(classifyError({ name: 'AbortError' })).toBeInstanceOf(CancelledRequestError);
+    // A string code is not a status
+    expect(classifyError({ code: 'ENOTFOUND', message: 'lookup failed' }).status).toBeUndefined();
+  });
+});
+
+describe('createRequestScheduler', () => {
+  it('retries retryable errors with exponential backoff and jitter', async () => {
+    const clock = createFakeClock();
+    const scheduler = createRequestScheduler({ ...clock, random: () => 0.5, baseDelayMs: 1000, maxRetries: 3 });
+    const task = vi.fn()
+      .mockRejectedValueOnce({ status: 429, message: 'rate limited' })
+      .mockRejectedValueOnce({ status: 503, message: 'unavailable' })
+      .mockResolvedValue('ok');
+
+    await expect(scheduler.schedule(task)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+    // Equal jitter at random=0.5: 0.75 × 1000, then 0.75 × 2000
+    expect(clock.sleeps).toEqual([750, 1500]);
+  });
+
+  it('gives up after maxRetries with a RetryableRequestError', async () => {
+    const clock = createFakeClock();
+    const scheduler = createRequestScheduler({ ...clock, maxRetries: 2 });
+    const task = vi.fn().mockRejectedValue({ status: 500, message: 'boom' });
+
+    await expect(scheduler.schedule(task)).rejects.toBeInstanceOf(RetryableRequestError);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry fatal errors', async () => {
+    const clock = createFakeClock();
+    const scheduler = createRequestScheduler({ ...clock });
+    const task = vi.fn().mockRejectedValue({ status: 403, message: 'forbidden' });
+
+    await expect(scheduler.schedule(task)).rejects.toBeInstanceOf(FatalRequestError);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it('caps the number of tasks in flight', async () => {
+    const scheduler = createRequestScheduler({ concurrency: 2 });
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const task = async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => scheduler.schedule(task)));
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('waits for the per-minute budget to free up', async () => {
+    const clock = createFakeClock();
+    const scheduler = createRequestScheduler({ ...clock, callsPerMinute: 2, concurrency: 1 });
+    const startTimes: number[] = [];
+    const task = async () => { startTimes.push(clock.now()); };
+
+    await Promise.all([scheduler.schedule(task), scheduler.schedule(task), scheduler.schedule(task)]);
+    expect(startTimes).toEqual([0, 0, 60000]);
+  });
+
+  it('rejects queued tasks when their signal aborts, without running them', async () => {
+    const scheduler = createRequestScheduler({ concurrency: 1 });
+    let release: () => void = () => {};
+    const blocker = scheduler.schedule(() => new Promise<void>(resolve => { release = resolve; }));
+    const controller = new AbortController();
+    const queuedTask = vi.fn().mockResolvedValue('never');
+
+    const queued = scheduler.schedule(queuedTask, controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toBeInstanceOf(CancelledRequestError);
+    release();
+    await blocker;
+    expect(queuedTask).not.toHaveBeenCalled();
+  });
+
+  it('stops retrying once the signal aborts during backoff', async () => {
+    const controller = new AbortController();
+    const scheduler = createRequestScheduler({
+      sleep: async () => { controller.abort(); },
+      random: () => 0,
+    });
+    const task = vi.fn().mockRejectedValue({ status: 503, message: 'unavailable' });
+
+    await expect(scheduler.schedule(task, controller.signal)).rejects.toBeInstanceOf(CancelledRequestError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('frees the slot when an in-flight task is cancelled', async () => {
+    const scheduler = createRequestScheduler({ concurrency: 1 });
+    const controller = new AbortController();
+    const hanging = scheduler.schedule(() => new Promise(() => {}), controller.signal);
+    controller.abort();
+
+    await expect(hanging).rejects.toBeInstanceOf(CancelledRequestError);
+    await expect(scheduler.schedule(async () => 'next')).resolves.toBe('next');
+  });
+});
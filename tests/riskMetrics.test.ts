@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  annualizedReturn,
+  beta,
+  combineReturns,
+  correlation,
+  downsideDeviation,
+  historicalTailRisk,
+  informationRatio,
+  maxDrawdown,
+  normalQuantile,
+  parametricTailRisk,
+  sortinoRatio,
+  trackingError,
+} from '../utils/riskMetrics';
+
+describe('combineReturns and annualizedReturn', () => {
+  it('weights aligned rows month by month', () => {
+    expect(combineReturns([0.5, 0.5], [[2, 4], [0, 2]])).toEqual([1, 3]);
+  });
+
+  it('compounds monthly returns into an annual rate', () => {
+    expect(annualizedReturn(Array(12).fill(1))).toBeCloseTo((1.01 ** 12 - 1) * 100, 10);
+    // Two years that double the money: √2 - 1 a year
+    expect(annualizedReturn([...Array(23).fill(0), 100])).toBeCloseTo((Math.SQRT2 - 1) * 100, 10);
+  });
+});
+
+describe('maxDrawdown', () => {
+  it('finds the peak, trough and recovery of the wealth path', () => {
+    // 1 -> 1.1 -> 0.55 -> 1.1
+    expect(maxDrawdown([10, -50, 100])).toEqual({ maxDrawdown: -50, peak: 1, trough: 2, recovery: 3, recoveryMonths: 1 });
+  });
+
+  it('reports an unrecovered drawdown and a series without one', () => {
+    expect(maxDrawdown([10, -50, 10])).toMatchObject({ maxDrawdown: -50, recovery: null, recoveryMonths: null });
+    expect(maxDrawdown([1, 2, 0]).maxDrawdown).toBe(0);
+  });
+
+  it('keeps the deepest of several drawdowns', () => {
+    // -10% first, then -20% from the new high
+    const result = maxDrawdown([-10, 20, -20, 5]);
+    expect(result.maxDrawdown).toBeCloseTo(-20, 10);
+    expect([result.peak, result.trough]).toEqual([2, 3]);
+  });
+});
+
+describe('downside risk', () => {
+  it('annualizes the root mean square shortfall below the target', () => {
+    // Shortfalls 2 and 4 over four months: √((4 + 16) / 4 · 12)
+    expect(downsideDeviation([2, -2, 4, -4])).toBeCloseTo(Math.sqrt(60), 10);
+    expect(downsideDeviation([2, -2, 4, -4], 2)).toBeCloseTo(Math.sqrt((16 + 36) / 4 * 12), 10);
+  });
+
+  it('divides excess annual return by downside deviation, null without a shortfall', () => {
+    const returns = [3, -1, 3, -1];
+    expect(sortinoRatio(returns, 0)).toBeCloseTo(annualizedReturn(returns) / Math.sqrt(6), 10);
+    expect(sortinoRatio([1, 2], 0)).toBeNull();
+  });
+});
+
+describe('benchmark-relative statistics', () => {
+  const market = [1, -2, 3, -1, 2];
+
+  it('measures beta and correlation against the benchmark', () => {
+    expect(beta(market.map(r => 2 * r), market)).toBeCloseTo(2, 10);
+    expect(correlation(market.map(r => 2 * r + 1), market)).toBeCloseTo(1, 10);
+    expect(correlation(market.map(r => -r), market)).toBeCloseTo(-1, 10);
+    expect(beta(market, [1, 1, 1, 1, 1])).toBeNull();
+    expect(correlation([1, 1, 1, 1, 1], market)).toBeNull();
+  });
+
+  it('annualizes the spread of active returns and scores them per unit of it', () => {
+    // Active returns 2, 0, 2, 0: sample σ = √(4/3), so TE = √(4/3 · 12) = 4 and IR = 12 · 1 / 4
+    expect(trackingError([3, 1, 3, 1], [1, 1, 1, 1])).toBeCloseTo(4, 10);
+    expect(informationRatio([3, 1, 3, 1], [1, 1, 1, 1])).toBeCloseTo(3, 10);
+    expect(trackingError(market, market)).toBe(0);
+    expect(informationRatio(market, market)).toBeNull();
+  });
+});
+
+describe('tail risk', () => {
+  it('reads historical VaR and CVaR from the worst months', () => {
+    // Sixty months from -30 to 29: the three worst are -30, -29 and -28
+    const returns = Array.from({ length: 60 }, (_, i) => i - 30);
+    expect(historicalTailRisk(returns)).toEqual({ valueAtRisk: 28, expectedShortfall: 29 });
+    // At least one month even when the tail share rounds to nothing
+    expect(historicalTailRisk([1, -4, 2], 0.99)).toEqual({ valueAtRisk: 4, expectedShortfall: 4 });
+  });
+
+  it('inverts the standard normal CDF', () => {
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 10);
+    expect(normalQuantile(0.95)).toBeCloseTo(1.644854, 6);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 6);
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 6);
+  });
+
+  it('derives parametric VaR and CVaR from the mean and standard deviation', () => {
+    // Mean 1, sample σ = √(16/3)
+    const returns = [3, -1, 3, -1];
+    const sigma = Math.sqrt(16 / 3);
+    const result = parametricTailRisk(returns);
+    expect(result.valueAtRisk).toBeCloseTo(1.644854 * sigma - 1, 5);
+    // φ(1.6449) / 0.05 ≈ 2.062713
+    expect(result.expectedShortfall).toBeCloseTo(2.062713 * sigma - 1, 5);
+  });
+});
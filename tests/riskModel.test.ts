@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignReturnSeries,
+  annualizedVolatility,
+  covarianceMatrix,
+  lastCompleteMonth,
+  monthlyReturnsFromCloses,
+  portfolioVariance,
+  shiftMonth,
+  shrinkCovariance,
+} from '../utils/riskModel';
+
+describe('month helpers', () => {
+  it('steps across year boundaries', () => {
+    expect(shiftMonth('2024-11', 2)).toBe('2025-01');
+    expect(shiftMonth('2024-01', -60)).toBe('2019-01');
+    expect(lastCompleteMonth(new Date('2026-01-15T12:00:00Z'))).toBe('2025-12');
+  });
+});
+
+describe('monthlyReturnsFromCloses', () => {
+  it('uses the last close of each month and skips returns across missing months', () => {
+    const returns = monthlyReturnsFromCloses([
+      { date: '2024-01-15', close: 90 },
+      { date: '2024-01-31', close: 100 },
+      { date: '2024-02-29', close: 110 },
+      { date: '2024-03-28', close: 99 },
+      // April is missing, so there is no April or May return
+      { date: '2024-05-31', close: 120 },
+      { date: '2024-06-28', close: 0 },
+      { date: '2024-07-31', close: 132 },
+    ]);
+
+    expect(returns.map(r => r.month)).toEqual(['2024-02', '2024-03']);
+    expect(returns[0].return).toBeCloseTo(10);
+    expect(returns[1].return).toBeCloseTo(-10);
+  });
+
+  it('keeps only the latest months', () => {
+    const closes = Array.from({ length: 13 }, (_, i) => ({ date: shiftMonth('2024-01', i), close: 100 + i }));
+    expect(monthlyReturnsFromCloses(closes, 6).map(r => r.month)).toEqual(['2024-08', '2024-09', '2024-10', '2024-11', '2024-12', '2025-01']);
+  });
+});
+
+describe('alignReturnSeries', () => {
+  it('keeps the months every series shares, latest window only', () => {
+    const a = [{ month: '2024-01', return: 1 }, { month: '2024-02', return: 2 }, { month: '2024-03', return: 3 }];
+    const b = [{ month: '2024-03', return: 30 }, { month: '2024-02', return: 20 }, { month: '2024-04', return: 40 }];
+
+    expect(alignReturnSeries([a, b])).toEqual({ months: ['2024-02', '2024-03'], returns: [[2, 3], [20, 30]] });
+    expect(alignReturnSeries([a, b], 1)).toEqual({ months: ['2024-03'], returns: [[3], [30]] });
+  });
+});
+
+describe('covarianceMatrix', () => {
+  it('matches the sample covariance of known series', () => {
+    // b = 2a, c is uncorrelated with both
+    const a = [1, -1, 1, -1];
+    const b = [2, -2, 2, -2];
+    const c = [1, 1, -1, -1];
+    const matrix = covarianceMatrix([a, b, c]);
+
+    expect(matrix[0][0]).toBeCloseTo(4 / 3);
+    expect(matrix[0][1]).toBeCloseTo(8 / 3);
+    expect(matrix[1][1]).toBeCloseTo(16 / 3);
+    expect(matrix[0][2]).toBeCloseTo(0);
+    expect(matrix[2][1]).toBeCloseTo(0);
+  });
+});
+
+describe('shrinkCovariance', () => {
+  // Every variance is 4; assets 0 and 1 are perfectly correlated, asset 2 uncorrelated with both
+  const sample = [[4, 4, 0], [4, 4, 0], [0, 0, 4]];
+
+  it('moves every pair toward the average correlation and keeps the variances', () => {
+    // Average correlation is (1 + 0 + 0) / 3, so the target covariance is 4 / 3 for every pair
+    const full = shrinkCovariance(sample, 1);
+    expect(full[0][1]).toBeCloseTo(4 / 3);
+    expect(full[1][2]).toBeCloseTo(4 / 3);
+    expect(full[2][2]).toBe(4);
+
+    const half = shrinkCovariance(sample, 0.5);
+    expect(half[0][1]).toBeCloseTo(8 / 3);
+    expect(half[0][2]).toBeCloseTo(2 / 3);
+  });
+
+  it('returns a copy of the sample at zero intensity', () => {
+    const copy = shrinkCovariance(sample, 0);
+    expect(copy).toEqual(sample);
+    expect(copy[0]).not.toBe(sample[0]);
+  });
+});
+
+describe('annualizedVolatility', () => {
+  it('annualizes w\'Σw for uncorrelated, perfectly correlated and offsetting holdings', () => {
+    const uncorrelated = [[4, 0], [0, 4]];
+    // 0.25·4 + 0.25·4 = 2 per month
+    expect(portfolioVariance([0.5, 0.5], uncorrelated)).toBeCloseTo(2);
+    expect(annualizedVolatility([0.5, 0.5], uncorrelated)).toBeCloseTo(Math.sqrt(24));
+
+    // No diversification: the volatility of either holding
+    expect(annualizedVolatility([0.5, 0.5], [[4, 4], [4, 4]])).toBeCloseTo(2 * Math.sqrt(12));
+    // Perfect hedge
+    expect(annualizedVolatility([0.5, 0.5], [[4, -4], [-4, 4]])).toBeCloseTo(0);
+  });
+});
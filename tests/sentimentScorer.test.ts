@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { scoreHeadlines, lexiconSentimentScorer, SentimentScorer } from '../services/sentimentScorer';
+import { createSentimentHistory } from '../services/sentimentHistory';
+import { CancelledRequestError } from '../services/requestScheduler';
+import { NewsHeadline } from '../types';
+
+const headline = (title: string, tickers?: string[]): NewsHeadline => ({
+  title, source: 'Reuters', url: `https://www.reuters.com/${encodeURIComponent(title)}`, ...(tickers ? { tickers } : {}),
+});
+
+const positions = [{ ticker: 'NEE', name: 'NextEra Energy', sector: 'Utilities', weight: 50 }];
+
+describe('scoreHeadlines', () => {
+  it('adds sentiment and relevance from the lexicon scorer', async () => {
+    const [scored] = await scoreHeadlines([headline('NextEra shares surge', ['NEE'])], positions, undefined, lexiconSentimentScorer);
+    expect(scored.sentiment).toMatchObject({ label: 'positive', scorer: 'Lexicon' });
+    expect(scored.relevance).toBe(1);
+  });
+
+  it('clamps out-of-range scores and fills gaps with the lexicon', async () => {
+    const scorer: SentimentScorer = {
+      name: 'Stub',
+      scoreHeadlines: async () => [{ score: 3, relevance: -1 }, undefined, { score: NaN, relevance: 0.5 }],
+    };
+    const result = await scoreHeadlines(
+      [headline('A'), headline('Stocks plunge'), headline('Stocks soar')], positions, undefined, scorer
+    );
+
+    expect(result[0].sentiment).toEqual({ score: 1, label: 'positive', scorer: 'Stub' });
+    expect(result[0].relevance).toBe(0);
+    expect(result[1].sentiment).toMatchObject({ label: 'negative', scorer: 'Lexicon' });
+    expect(result[2].sentiment).toMatchObject({ label: 'positive', scorer: 'Lexicon' });
+  });
+
+  it('falls back to the lexicon when the scorer fails, but rejects on cancellation', async () => {
+    const failing: SentimentScorer = { name: 'Down', scoreHeadlines: async () => { throw new Error('503'); } };
+    const [scored] = await scoreHeadlines([headline('Stocks plunge')], positions, undefined, failing);
+    expect(scored.sentiment?.scorer).toBe('Lexicon');
+
+    const cancelled: SentimentScorer = { name: 'Cancelled', scoreHeadlines: async () => { throw new CancelledRequestError(); } };
+    await expect(scoreHeadlines([headline('x')], positions, undefined, cancelled)).rejects.toBeInstanceOf(CancelledRequestError);
+  });
+});
+
+describe('createSentimentHistory', () => {
+  const memoryStorage = () => {
+    const data = new Map<string, string>();
+    return {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: string) => { data.set(key, value); },
+      removeItem: (key: string) => { data.delete(key); },
+    };
+  };
+  const withSentiment = (score: number): NewsHeadline => ({
+    ...headline('t'), sentiment: { score, label: score > 0 ? 'positive' : 'negative', scorer: 'Test' }, relevance: 1,
+  });
+
+  it('records one snapshot per holding with scored news and persists across instances', () => {
+    const storage = memoryStorage();
+    let now = 1000;
+    const history = createSentimentHistory(storage, { now: () => now });
+
+    history.record([{ ticker: 'NEE', headlines: [withSentiment(0.5)] }, { ticker: 'ENPH' }]);
+    now = 2000;
+    history.record([{ ticker: 'NEE', headlines: [withSentiment(-0.4)] }]);
+
+    const reloaded = createSentimentHistory(storage);
+    expect(reloaded.history('NEE')).toEqual([
+      { at: 1000, score: 0.5, label: 'positive', headlineCount: 1 },
+      { at: 2000, score: -0.4, label: 'negative', headlineCount: 1 },
+    ]);
+    expect(reloaded.history('ENPH')).toEqual([]);
+  });
+
+  it('keeps only the newest entries per holding', () => {
+    let now = 0;
+    const history = createSentimentHistory(memoryStorage(), { maxEntries: 2, now: () => ++now });
+    [0.2, 0.4, 0.6].forEach(score => history.record([{ ticker: 'NEE', headlines: [withSentiment(score)] }]));
+
+    expect(history.history('NEE').map(entry => entry.score)).toEqual([0.4, 0.6]);
+    history.clear();
+    expect(history.history('NEE')).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { parseStockAnalysis, parseNumeric, parseMarketCap, emptyPerformance } from '../utils/stockAnalysisParser';
+
+const wellFormed = {
+  price: 420.5,
+  currency: 'USD',
+  marketCap: { amount: 3.1e12, currency: 'USD' },
+  peRatio: 35.2,
+  dividendYield: 0.7,
+  performance: { '1W': 1.2, '1M': -2.4, '3M': 5.5, '1Y': 12, '5Y': 150.3 },
+  news: [
+    { summary: 'Cloud revenue beat estimates', url: 'https://www.reuters.com/msft-cloud', source: 'Reuters' },
+    { summary: 'New AI partnership announced', url: null, source: null },
+  ],
+  analysis: 'Microsoft remains a core holding.',
+};
+
+describe('parseStockAnalysis', () => {
+  it('maps a well-formed answer onto every field', () => {
+    expect(parseStockAnalysis(JSON.stringify(wellFormed))).toEqual({
+      content: 'Microsoft remains a core holding.',
+      price: 420.5,
+      currency: 'USD',
+      marketCap: { amount: 3.1e12, currency: 'USD' },
+      peRatio: 35.2,
+      dividendYield: 0.7,
+      performance: { oneWeek: 1.2, oneMonth: -2.4, threeMonth: 5.5, oneYear: 12, fiveYear: 150.3 },
+      news: [
+        { summary: 'Cloud revenue beat estimates', url: 'https://www.reuters.com/msft-cloud', source: 'Reuters' },
+        { summary: 'New AI partnership announced', url: null, source: null },
+      ],
+    });
+  });
+
+  it('returns explicit nulls for every field when there is no JSON at all', () => {
+    const result = parseStockAnalysis('The stock trades at $1,234.56 with a $1,500.00 price target.');
+    expect(result).toEqual({
+      content: 'The stock trades at $1,234.56 with a $1,500.00 price target.',
+      price: null,
+      currency: null,
+      marketCap: null,
+      peRatio: null,
+      dividendYield: null,
+      performance: emptyPerformance(),
+      news: [],
+    });
+  });
+
+  it('never takes a price from the prose', () => {
+    const text = `Analysts see a $500.00 target. ${JSON.stringify({ ...wellFormed, price: null, analysis: undefined })}`;
+    const result = parseStockAnalysis(text);
+    expect(result.price).toBeNull();
+    expect(result.content).toBe('Analysts see a $500.00 target.');
+  });
+
+  it('accepts fenced JSON, surrounding prose and trailing commas', () => {
+    const text = 'Here is the data:\n```json\n{ "price": 10.5, "peRatio": 12, "performance": { "1Y": 4, }, }\n```\nThanks';
+    const result = parseStockAnalysis(text);
+    expect(result.price).toBe(10.5);
+    expect(result.peRatio).toBe(12);
+    expect(result.performance.oneYear).toBe(4);
+    expect(result.content).toBe('Here is the data:\n\nThanks');
+  });
+
+  it('keeps the whole text as content when the JSON is broken beyond repair', () => {
+    const text = 'Summary first. { "price": 10.5, "news": [ }';
+    const result = parseStockAnalysis(text);
+    expect(result.price).toBeNull();
+    expect(result.content).toBe(text);
+  });
+
+  it('ignores braces inside strings when finding the object', () => {
+    const result = parseStockAnalysis('{ "analysis": "Guidance {raised} again", "price": 99 } trailing {note}');
+    expect(result.content).toBe('Guidance {raised} again');
+    expect(result.price).toBe(99);
+  });
+
+  it('reads the legacy flat format', () => {
+    const result = parseStockAnalysis('Solid quarter.\n{ "1W": 1.2, "5Y": 40.5, "marketCap": "2.5T", "peRatio": 30.5, "dividendYield": 0.5 }');
+    expect(result.content).toBe('Solid quarter.');
+    expect(result.performance).toMatchObject({ oneWeek: 1.2, fiveYear: 40.5, oneMonth: null });
+    expect(result.marketCap).toEqual({ amount: 2.5e12, currency: 'USD' });
+  });
+
+  it('coerces numeric strings and rejects values that fail validation', () => {
+    const result = parseStockAnalysis(JSON.stringify({
+      price: '$1,234.50',
+      currency: 'eur',
+      peRatio: 'N/A',
+      dividendYield: '2.1%',
+      performance: { '1W': '-3.5%', '1M': 'n/a', '5Y': -120 },
+    }));
+    expect(result.price).toBe(1234.5);
+    expect(result.currency).toBe('EUR');
+    expect(result.peRatio).toBeNull();
+    expect(result.dividendYield).toBe(2.1);
+    expect(result.performance).toMatchObject({ oneWeek: -3.5, oneMonth: null, fiveYear: null });
+  });
+
+  it('rejects non-positive prices and out-of-range yields', () => {
+    const result = parseStockAnalysis(JSON.stringify({ price: 0, peRatio: -4, dividendYield: 150 }));
+    expect(result.price).toBeNull();
+    expect(result.peRatio).toBeNull();
+    expect(result.dividendYield).toBeNull();
+  });
+
+  it('drops malformed news items, non-http links and extra items', () => {
+    const result = parseStockAnalysis(JSON.stringify({
+      news: [
+        'Plain string bullet',
+        { summary: '', url: 'https://a.com' },
+        { title: 'Title instead of summary', url: 'javascript:alert(1)', source: ' ' },
+        42,
+        { summary: 'Three' }, { summary: 'Four' }, { summary: 'Five' }, { summary: 'Six' },
+      ],
+    }));
+    expect(result.news[0]).toEqual({ summary: 'Plain string bullet', url: null, source: null });
+    expect(result.news[1]).toEqual({ summary: 'Title instead of summary', url: null, source: null });
+    expect(result.news).toHaveLength(5);
+  });
+
+  it('treats a non-object JSON answer as missing data', () => {
+    const result = parseStockAnalysis('[1, 2, 3]');
+    expect(result.price).toBeNull();
+    expect(result.news).toEqual([]);
+    expect(parseStockAnalysis(undefined as unknown as string).content).toBe('');
+  });
+});
+
+describe('parseNumeric', () => {
+  it('parses plain and decorated numbers', () => {
+    expect(parseNumeric(12.5)).toBe(12.5);
+    expect(parseNumeric(' -2.4% ')).toBe(-2.4);
+    expect(parseNumeric('30.5x')).toBe(30.5);
+    expect(parseNumeric('€1,000')).toBe(1000);
+  });
+
+  it('expands scale suffixes only when allowed', () => {
+    expect(parseNumeric('2.5T')).toBeNull();
+    expect(parseNumeric('2.5T', true)).toBe(2.5e12);
+    expect(parseNumeric('310 billion', true)).toBe(3.1e11);
+    expect(parseNumeric('12 days', true)).toBeNull();
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseNumeric(NaN)).toBeNull();
+    expect(parseNumeric(null)).toBeNull();
+    expect(parseNumeric('about 12')).toBeNull();
+  });
+});
+
+describe('parseMarketCap', () => {
+  it('reads currencies from codes and symbols', () => {
+    expect(parseMarketCap('$2.5T', 'EUR')).toEqual({ amount: 2.5e12, currency: 'USD' });
+    expect(parseMarketCap('GBP 310bn', 'USD')).toEqual({ amount: 3.1e11, currency: 'GBP' });
+    expect(parseMarketCap({ amount: '45.2B' }, 'EUR')).toEqual({ amount: 4.52e10, currency: 'EUR' });
+    expect(parseMarketCap(1_000_000, 'USD')).toEqual({ amount: 1_000_000, currency: 'USD' });
+  });
+
+  it('is null for missing or non-positive amounts', () => {
+    expect(parseMarketCap({ currency: 'USD' }, 'USD')).toBeNull();
+    expect(parseMarketCap('-5B', 'USD')).toBeNull();
+    expect(parseMarketCap(null, 'USD')).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { resolveSymbol, namesMatch, requiresReplacement, describeSymbolIssue } from '../utils/symbolResolution';
+import { parseSymbolMasterCsv } from '../services/symbolMaster';
+
+const master = parseSymbolMasterCsv(`
+# comment lines are skipped
+ticker,exchange,name,listedOn,currency,sector
+MSFT,NASDAQ,Microsoft Corporation,1986-03-13,USD,Information Technology
+ASML,XAMS,ASML Holding N.V.,1995-03-15,EUR,Information Technology
+ASML,NASDAQ,ASML Holding N.V.,1995-03-15,USD,Information Technology
+PG,NYSE,"The Procter & Gamble Company",1950-01-03,USD,Consumer Staples
+XOM,NYSE,Exxon Mobil Corporation,1950-01-03,USD,"Oil, Gas & Consumable Fuels"
+GEV,NYSE,GE Vernova Inc.,2024-04-02,USD,Industrials
+`, { complete: true });
+
+const referenceDate = new Date('2026-10-16');
+
+describe('parseSymbolMasterCsv', () => {
+  it('groups listings by ticker and keeps quoted commas', () => {
+    expect(master.listings.ASML.map(l => l.exchange)).toEqual(['XAMS', 'NASDAQ']);
+    expect(master.listings.XOM[0].sector).toBe('Oil, Gas & Consumable Fuels');
+    expect(master.listings.PG[0].name).toBe('The Procter & Gamble Company');
+    expect(parseSymbolMasterCsv('ticker,exchange\nMSFT,NASDAQ').complete).toBe(false);
+  });
+});
+
+describe('namesMatch', () => {
+  it('ignores legal suffixes, articles and punctuation', () => {
+    expect(namesMatch('Procter & Gamble', 'The Procter & Gamble Company')).toBe(true);
+    expect(namesMatch('Microsoft', 'Microsoft Corporation')).toBe(true);
+  });
+
+  it('does not match on shared generic words alone', () => {
+    expect(namesMatch('Enphase Energy', 'NextEra Energy Inc.')).toBe(false);
+  });
+});
+
+describe('resolveSymbol', () => {
+  it('resolves a known ticker with no issues', () => {
+    const result = resolveSymbol({ ticker: 'msft', name: 'Microsoft Corp' }, master, { referenceDate });
+    expect(result.listing?.exchange).toBe('NASDAQ');
+    expect(result.issues).toEqual([]);
+  });
+
+  it('flags hallucinated tickers as unresolved', () => {
+    const result = resolveSymbol({ ticker: 'GRNX', name: 'Green Future Corp' }, master, { referenceDate });
+    expect(result.issues[0]).toMatchObject({ kind: 'unresolved', detail: 'GRNX is not in the symbol master' });
+    expect(requiresReplacement(result)).toBe(true);
+  });
+
+  it('only flags tickers missing from a partial master', () => {
+    const sample = { ...master, complete: false };
+    const result = resolveSymbol({ ticker: 'NEE', name: 'NextEra Energy' }, sample, { referenceDate });
+    expect(result.issues).toEqual([{ ticker: 'NEE', kind: 'unlisted', detail: 'NEE is not in the symbol master sample; listing not checked' }]);
+    expect(requiresReplacement(result)).toBe(false);
+  });
+
+  it('flags a company name that does not belong to the ticker', () => {
+    const result = resolveSymbol({ ticker: 'PG', name: 'Plug Power' }, master, { referenceDate });
+    expect(result.issues.map(i => i.kind)).toEqual(['name-mismatch']);
+    expect(requiresReplacement(result)).toBe(false);
+  });
+
+  it('prefers the USD listing of a multi-exchange ticker and flags the ambiguity', () => {
+    const result = resolveSymbol({ ticker: 'ASML', name: 'ASML Holding' }, master, { referenceDate });
+    expect(result.listing).toMatchObject({ exchange: 'NASDAQ', currency: 'USD' });
+    expect(result.issues[0].kind).toBe('ambiguous');
+  });
+
+  it('uses an exchange prefix to pick one listing', () => {
+    const result = resolveSymbol({ ticker: 'XAMS:ASML', name: 'ASML Holding' }, master, { referenceDate });
+    expect(result.ticker).toBe('ASML');
+    expect(result.listing?.currency).toBe('EUR');
+    expect(result.issues).toEqual([]);
+  });
+
+  it('rejects listings younger than five years', () => {
+    const result = resolveSymbol({ ticker: 'GEV', name: 'GE Vernova' }, master, { referenceDate });
+    expect(result.issues[0]).toMatchObject({ kind: 'too-new' });
+    expect(result.issues[0].detail).toMatch(/listed 2024-04-02 \(2\.5 years ago, minimum 5\)/);
+    expect(requiresReplacement(result)).toBe(true);
+  });
+});
+
+describe('describeSymbolIssue', () => {
+  it('states the action taken', () => {
+    const issue = { ticker: 'GRNX', kind: 'unresolved' as const, detail: 'GRNX is not in the symbol master' };
+    expect(describeSymbolIssue({ ...issue, action: 'replaced', replacement: 'NEE' })).toBe('Replaced GRNX with NEE: GRNX is not in the symbol master');
+    expect(describeSymbolIssue({ ...issue, action: 'flagged' })).toBe('Flagged GRNX: GRNX is not in the symbol master');
+  });
+});
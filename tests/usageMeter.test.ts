@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { createUsageMeter, summarizeUsage, estimateCost, BudgetExceededError, UsageRecord } from '../services/usageMeter';
+import { FatalRequestError } from '../services/requestScheduler';
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+const response = (promptTokenCount: number, candidatesTokenCount: number, thoughtsTokenCount = 0) => ({
+  text: '{}',
+  usageMetadata: { promptTokenCount, candidatesTokenCount, thoughtsTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount + thoughtsTokenCount },
+});
+
+describe('estimateCost', () => {
+  it('prices input and output tokens per million', () => {
+    const prices = { m: { inputPerMillion: 1, outputPerMillion: 4 } };
+    expect(estimateCost('m', 1_000_000, 500_000, prices)).toBeCloseTo(3);
+    expect(estimateCost('unknown', 10, 10, prices)).toBeNull();
+  });
+});
+
+describe('createUsageMeter', () => {
+  const prices = { 'gemini-2.5-flash': { inputPerMillion: 1, outputPerMillion: 10 } };
+
+  it('records tokens, latency and cost per operation, billing thinking tokens as output', async () => {
+    let clock = 0;
+    const meter = createUsageMeter(createMemoryStorage(), { prices, now: () => clock });
+
+    await meter.measure('structure', 'gemini-2.5-flash', async () => {
+      clock += 250;
+      return response(1000, 200, 100);
+    });
+    await meter.measure('market-data', 'gemini-2.5-flash', async () => response(500, 50));
+    await meter.measure('market-data', 'gemini-2.5-pro', async () => response(500, 50));
+
+    const { total, byOperation } = meter.sessionSummary();
+    expect(byOperation.structure).toMatchObject({ calls: 1, inputTokens: 1000, outputTokens: 300, latencyMs: 250 });
+    expect(byOperation.structure!.cost).toBeCloseTo(0.004);
+    expect(byOperation['market-data']).toMatchObject({ calls: 2, inputTokens: 1000, unpricedCalls: 1 });
+    expect(total.calls).toBe(3);
+    expect(total.cost).toBeCloseTo(0.004 + 0.001);
+  });
+
+  it('keeps session totals beyond the stored record cap, without storage', async () => {
+    const meter = createUsageMeter(null, { prices, maxRecords: 2, budgetUsd: 1 });
+    for (let i = 0; i < 5; i++) await meter.measure('market-data', 'gemini-2.5-flash', async () => response(1000, 0));
+
+    expect(meter.history()[0].summary.total.calls).toBe(2);
+    const summary = meter.sessionSummary();
+    expect(summary.total).toMatchObject({ calls: 5, inputTokens: 5000 });
+    expect(summary.total.cost).toBeCloseTo(0.005);
+    // The summary is a snapshot, not the running totals
+    summary.total.cost = 100;
+    expect(() => meter.checkBudget()).not.toThrow();
+  });
+
+  it('records failed calls without tokens and rethrows', async () => {
+    const meter = createUsageMeter(createMemoryStorage(), { prices });
+    await expect(meter.measure('headlines', 'gemini-2.5-flash', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(meter.sessionSummary().total).toMatchObject({ calls: 1, failedCalls: 1, totalTokens: 0, cost: 0 });
+  });
+
+  it('blocks calls once the session budget is spent', async () => {
+    const meter = createUsageMeter(createMemoryStorage(), { prices, budgetUsd: 0.005 });
+    await meter.measure('structure', 'gemini-2.5-flash', async () => response(1000, 500));
+
+    let called = false;
+    const blocked = meter.measure('analysis', 'gemini-2.5-flash', async () => {
+      called = true;
+      return response(1, 1);
+    });
+    await expect(blocked).rejects.toBeInstanceOf(BudgetExceededError);
+    await expect(blocked).rejects.toBeInstanceOf(FatalRequestError);
+    expect(called).toBe(false);
+
+    meter.configure({ budgetUsd: null });
+    await expect(meter.measure('analysis', 'gemini-2.5-flash', async () => response(1, 1))).resolves.toBeDefined();
+  });
+
+  it('charges unpriced models against the budget at the highest listed prices', async () => {
+    const meter = createUsageMeter(createMemoryStorage(), {
+      prices: { ...prices, 'gemini-2.5-pro': { inputPerMillion: 2, outputPerMillion: 20 } },
+      budgetUsd: 0.02,
+    });
+    await meter.measure('analysis', 'unknown-model', async () => response(1000, 1000));
+
+    // Reported without a cost, but counted at the priciest model's rates
+    expect(meter.sessionSummary().total).toMatchObject({ cost: 0, unpricedCalls: 1 });
+    expect(meter.budgetSpent()).toBeCloseTo(0.022);
+    await expect(meter.measure('analysis', 'unknown-model', async () => response(1, 1))).rejects.toBeInstanceOf(BudgetExceededError);
+  });
+
+  it('persists history and the budget, grouping records by session', async () => {
+    const storage = createMemoryStorage();
+    let clock = 1_000;
+    const first = createUsageMeter(storage, { prices, now: () => clock });
+    await first.measure('structure', 'gemini-2.5-flash', async () => response(100, 10));
+    first.configure({ budgetUsd: 2 });
+
+    clock = 5_000;
+    const second = createUsageMeter(storage, { prices, now: () => clock });
+    await second.measure('headlines', 'gemini-2.5-flash', async () => response(100, 10));
+
+    expect(second.options().budgetUsd).toBe(2);
+    expect(second.sessionSummary().total.calls).toBe(1);
+    expect(second.history().map(session => [session.sessionId, session.summary.total.calls])).toEqual([['5000', 1], ['1000', 1]]);
+
+    second.clearHistory();
+    expect(second.history()).toEqual([]);
+    expect(second.options().budgetUsd).toBe(2);
+  });
+
+  it('notifies subscribers of each recorded call', async () => {
+    const meter = createUsageMeter(createMemoryStorage(), { prices });
+    let notified = 0;
+    const unsubscribe = meter.subscribe(() => notified++);
+    await meter.measure('analysis', 'gemini-2.5-flash', async () => response(1, 1));
+    unsubscribe();
+    await meter.measure('analysis', 'gemini-2.5-flash', async () => response(1, 1));
+    expect(notified).toBe(1);
+  });
+
+  it('ingests records made elsewhere into this session and counts them toward the budget', () => {
+    const meter = createUsageMeter(createMemoryStorage(), { prices, budgetUsd: 0.01, now: () => 7_000 });
+    const remote: UsageRecord = {
+      sessionId: 'server', operation: 'market-data', model: 'gemini-2.5-flash', timestamp: 1,
+      inputTokens: 5000, outputTokens: 500, totalTokens: 5500, latencyMs: 40, cost: 0.01, failed: false,
+    };
+    const received: (UsageRecord | undefined)[] = [];
+    meter.subscribe(entry => received.push(entry));
+
+    expect(() => meter.checkBudget()).not.toThrow();
+    meter.ingest([remote]);
+
+    expect(received).toEqual([{ ...remote, sessionId: '7000' }]);
+    expect(meter.sessionSummary().byOperation['market-data']).toMatchObject({ calls: 1, cost: 0.01 });
+    expect(() => meter.checkBudget()).toThrow(BudgetExceededError);
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('returns zero totals for no records', () => {
+    expect(summarizeUsage([] as UsageRecord[])).toEqual({
+      total: { calls: 0, failedCalls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, latencyMs: 0, cost: 0, unpricedCalls: 0 },
+      byOperation: {},
+    });
+  });
+});
@@ -11,11 +11,73 @@ export interface StockPosition {
   
   // Real-time fetched data
   currentPrice?: number;
-  dayChangePercent?: number;
+  dayChangePercent?: number;      // Intraday change vs. previous close
   oneYearChangePercent?: number;   // New anchor
   threeYearChangePercent?: number; // New anchor
   fiveYearChangePercent?: number;
   dividendYieldPercent?: number;   // TTM dividend yield
+
+  // Fetched values that failed validation (the field itself is left unset)
+  dataRejections?: DataRejection[];
+  // When each enriched value was fetched (epoch ms)
+  fetchedAt?: Partial<Record<MarketDataField, number>>;
+  // Where each enriched value came from
+  provenance?: Partial<Record<MarketDataField, FieldProvenance>>;
+  // Cross-source check of each value against an independent fetch (verification mode only)
+  verification?: Partial<Record<MarketDataField, FieldVerification>>;
+  // Symbol master entry the ticker resolved to
+  listing?: ListingInfo;
+  // Portfolio headlines tagged with this ticker
+  headlines?: NewsHeadline[];
+  // Monthly total returns behind the covariance-based volatility
+  returnHistory?: ReturnHistory;
+}
+
+export interface ListingInfo {
+  exchange: string;
+  name: string;
+  listedOn: string; // ISO date
+  currency: string;
+}
+
+// StockPosition fields populated from market data
+export type MarketDataField =
+  | 'currentPrice'
+  | 'dayChangePercent'
+  | 'oneYearChangePercent'
+  | 'threeYearChangePercent'
+  | 'fiveYearChangePercent'
+  | 'dividendYieldPercent';
+
+export interface SourceReference {
+  uri: string;
+  title?: string;
+}
+
+export interface FieldProvenance {
+  provider: string;             // MarketDataProvider name
+  fetchedAt: number;            // Epoch ms
+  pass: 'initial' | 'repair';   // Fetch pass that produced the value
+  sources: SourceReference[];   // Grounding citations; empty for providers without them
+  fromCache?: boolean;          // Served from the market data cache on the last refresh
+}
+
+export interface FieldVerification {
+  // 'unverified' when the second fetch returned no usable value to compare against
+  status: 'agreed' | 'disagreed' | 'unverified';
+  provider: string;          // Provider of the second fetch
+  secondaryValue?: number;
+  difference?: number;       // % of price for prices, percentage points for returns
+  tolerance: number;         // Same unit as `difference`
+  checkedAt: number;         // Epoch ms
+}
+
+export type BenchmarkField = 'benchmark1YearReturn' | 'benchmark3YearReturn' | 'benchmark5YearReturn';
+
+export interface DataRejection {
+  field: string;   // StockPosition field (or benchmark field) the value was meant for
+  value: unknown;  // Raw value as received from the provider
+  reason: string;
 }
 
 export interface PortfolioMetrics {
@@ -26,19 +88,168 @@ export interface PortfolioMetrics {
   benchmark1YearReturn?: number; // Real fetched S&P 500 1Y return
   benchmark3YearReturn?: number; // Real fetched S&P 500 3Y return
   benchmark5YearReturn?: number; // Real fetched S&P 500 5Y return
+  benchmarkRejections?: DataRejection[];
+  benchmarkProvenance?: Partial<Record<BenchmarkField, FieldProvenance>>;
+  // S&P 500 monthly returns, for beta, correlation and tracking error
+  benchmarkReturnHistory?: ReturnHistory;
   isCalculated?: {
     projectedReturn: boolean;
     dividendYield: boolean;
     sharpeRatio: boolean;
   };
+  // Where each headline metric came from, with the model's estimate kept alongside
+  estimates?: Partial<Record<EstimatedMetric, MetricEstimate>>;
+}
+
+// Portfolio metrics the model estimates at construction and the app can compute from fetched data
+export type EstimatedMetric = 'projectedReturn' | 'projectedVolatility' | 'dividendYield' | 'sharpeRatio';
+
+export type MetricSource = 'computed' | 'model';
+
+export interface MetricEstimate {
+  source: MetricSource;     // Which value the metric currently shows
+  modelEstimate?: string;   // The model's construction-time guess, kept once overwritten
+  computed: string | null;  // Value computed from fetched data; null when coverage is too low
+  coverage: number;         // Percent of portfolio weight with usable inputs
+}
+
+// Raw market data as returned by a MarketDataProvider, before it is merged into a StockPosition
+export interface MarketQuote {
+  price?: number;
+  dayChange?: number;
+  oneYearChange?: number;
+  threeYearChange?: number;
+  fiveYearChange?: number;
+  dividendYield?: number;
+}
+
+export interface BenchmarkReturns {
+  oneYearChange?: number;
+  threeYearChange?: number;
+  fiveYearChange?: number;
+}
+
+// Provider answers may cite the sources they were read from
+// Which registered prompt template, at which version, produced a model call
+export interface PromptLineage {
+  templateId: string;
+  version: number;
+  hash: string; // Hash of the rendered prompt text
+}
+
+export interface SourcedQuote extends MarketQuote {
+  sources?: SourceReference[];
+  prompt?: PromptLineage; // Set by model-backed providers
+}
+
+export interface SourcedBenchmark extends BenchmarkReturns {
+  sources?: SourceReference[];
+  prompt?: PromptLineage;
+}
+
+// One calendar month's total return, from consecutive month-end closes
+export interface MonthlyReturn {
+  month: string;   // YYYY-MM
+  return: number;  // Percent
+}
+
+export interface SourcedReturnSeries {
+  returns: MonthlyReturn[]; // Oldest first
+  sources?: SourceReference[];
+  prompt?: PromptLineage;
+}
+
+export interface ReturnHistory {
+  returns: MonthlyReturn[]; // Oldest first, at most the covariance window
+  provenance: FieldProvenance;
 }
 
 export interface NewsHeadline {
   title: string;
   source: string;
   url: string;
+  verified?: boolean; // False when no cited article matched and `url` is a search link
+  tickers?: string[]; // Holdings the headline mentions, in portfolio order
+  sentiment?: HeadlineSentiment;
+  relevance?: number; // 0 (unrelated to the holdings) to 1 (directly about a holding)
+}
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface HeadlineSentiment {
+  score: number; // -1 (very negative) to 1 (very positive)
+  label: SentimentLabel;
+  scorer: string; // Name of the scorer that produced the score
+}
+
+// One holding's news sentiment at the time its headlines were fetched
+export interface SentimentSnapshot {
+  at: number; // Epoch ms
+  score: number;
+  label: SentimentLabel;
+  headlineCount: number;
+}
+
+// Market-wide news, or news queried from the portfolio's holdings and sectors
+export type NewsScope = 'market' | 'portfolio';
+
+export type PortfolioCorrectionKind =
+  | 'position-removed'     // Blank ticker or unusable weight
+  | 'duplicates-merged'
+  | 'positions-dropped'    // Smallest positions cut to meet the maximum count
+  | 'too-few-positions'    // Cannot be fixed deterministically; recorded as a warning
+  | 'weight-capped'
+  | 'weight-raised'
+  | 'weights-rescaled';
+
+// A deterministic fix applied to the model's portfolio structure
+export interface PortfolioCorrection {
+  kind: PortfolioCorrectionKind;
+  tickers: string[];
+  message: string;
+}
+
+export type SymbolIssueKind =
+  | 'unresolved'     // Not in a complete symbol master (hallucinated or delisted)
+  | 'unlisted'       // Not in a partial symbol master, so the listing could not be checked
+  | 'too-new'        // Listed for less than the required history
+  | 'ambiguous'      // Listed on several exchanges and the name did not single one out
+  | 'name-mismatch'; // Ticker exists but belongs to a different company
+
+export interface SymbolIssue {
+  ticker: string;
+  kind: SymbolIssueKind;
+  detail: string;
+  // Unresolved and too-new tickers are replaced or removed; the rest stay in the fund, flagged
+  action: 'flagged' | 'removed' | 'replaced';
+  replacement?: string;
+}
+
+export type ExclusionRuleKind = 'ticker' | 'industry' | 'revenue-flag' | 'listing-date';
+
+// A position that failed the code-enforced exclusion policy, and what was done about it
+export interface PolicyViolation {
+  ticker: string;
+  policyId: string;
+  policyLabel: string;
+  rule: ExclusionRuleKind;
+  detail: string;            // What matched, e.g. 'industry "Tobacco" matches "tobacco"'
+  action: 'removed' | 'replaced';
+  replacement?: string;      // Ticker that took over the weight
 }
 
+// Each kind of Gemini call can use its own model and sampling settings
+export type ModelTask = 'structure' | 'enrichment' | 'headlines' | 'analysis';
+
+export interface TaskModelSettings {
+  model: string;
+  temperature?: number;
+  seed?: number;
+  maxOutputTokens?: number;
+}
+
+export type ModelConfig = Record<ModelTask, TaskModelSettings>;
+
 export interface GeneratedPortfolio {
   name: string;
   description: string;
@@ -46,6 +257,11 @@ export interface GeneratedPortfolio {
   metrics: PortfolioMetrics;
   narrative: string;
   headlines?: NewsHeadline[]; // News chyron items
+  corrections?: PortfolioCorrection[]; // Post-processing applied to the generated structure
+  policyViolations?: PolicyViolation[]; // Positions removed or replaced by the exclusion policy
+  symbolIssues?: SymbolIssue[]; // Symbol master findings for generated tickers
+  modelUsage?: Partial<ModelConfig>; // Model and parameters behind each task that contributed
+  promptLineage?: Partial<Record<ModelTask, PromptLineage[]>>; // Prompts rendered for each task, distinct by hash
 }
 
 export interface GroundingChunk {
@@ -55,20 +271,60 @@ export interface GroundingChunk {
   };
 }
 
+// Percent change over each window; null when the source had no figure
 export interface StockPerformance {
-  oneWeek?: number;
-  oneMonth?: number;
-  threeMonth?: number;
-  oneYear?: number;
-  fiveYear?: number;
+  oneWeek: number | null;
+  oneMonth: number | null;
+  threeMonth: number | null;
+  oneYear: number | null;
+  fiveYear: number | null;
+}
+
+export interface MoneyAmount {
+  amount: number; // Absolute amount, e.g. 2.5e12 for "2.5T"
+  currency: string; // ISO 4217 code
 }
 
+export interface AnalysisNewsItem {
+  summary: string;
+  url: string | null; // http(s) only
+  source: string | null;
+}
+
+// Every field is always present; null (or an empty list) means the model did not supply a usable value
 export interface StockAnalysisResult {
-  content: string;
+  content: string; // Analysis text
+  price: number | null;
+  currency: string | null; // Currency of `price`
+  marketCap: MoneyAmount | null;
+  peRatio: number | null;
+  dividendYield: number | null; // Percent
+  performance: StockPerformance;
+  news: AnalysisNewsItem[];
   groundingChunks?: GroundingChunk[];
-  performance?: StockPerformance;
-  price?: number;
-  marketCap?: string;
-  peRatio?: number;
-  dividendYield?: number;
-}
\ No newline at end of file
+  prompt?: PromptLineage;
+}
+
+// Pipeline stages reported through onProgress, in execution order
+export type ProgressStage =
+  | 'initializing'
+  | 'structure'
+  | 'market-data'
+  | 'benchmark'
+  | 'repair'
+  | 'verification'
+  | 'news'
+  | 'finalizing';
+
+export interface ProgressEvent {
+  stage: ProgressStage;
+  stageIndex: number;       // 0-based position of the stage in the running operation
+  stageCount: number;
+  message: string;
+  fraction: number;         // Overall completion of the operation, 0-1
+  elapsedMs: number;        // Time since the operation started
+  batch?: { completed: number; total: number };
+  tickers?: string[];       // Tickers this step is working on
+  pendingTickers?: string[];
+  failedTickers?: string[];
+}
@@ -1,4 +1,10 @@
-import { GeneratedPortfolio } from '../types';
+import { GeneratedPortfolio, StockPosition, EstimatedMetric, MetricEstimate, PortfolioMetrics } from '../types';
+import { isLowConfidence } from './crossVerification';
+import { alignReturnSeries, annualizedVolatility, covarianceMatrix, shrinkCovariance, COVARIANCE_WINDOW_MONTHS, MIN_OVERLAP_MONTHS } from './riskModel';
+import {
+  beta, combineReturns, correlation, downsideDeviation, historicalTailRisk, informationRatio, maxDrawdown,
+  parametricTailRisk, sortinoRatio, trackingError, Drawdown, TailRisk
+} from './riskMetrics';
 
 export interface BacktestDataPoint {
   dateObj: Date;
@@ -11,7 +17,7 @@ export interface BacktestDataPoint {
 }
 
 // Constants for calculations
-const RISK_FREE_RATE = 4.25; // US 10-Year Treasury Yield (as percentage)
+export const RISK_FREE_RATE = 4.25; // US 10-Year Treasury Yield (as percentage)
 const EXPENSE_RATIO = 0.10; // 10 basis points
 
 export interface CalculatedMetrics {
@@ -21,6 +27,36 @@ export interface CalculatedMetrics {
   annualizedVolatility: number | null;
 }
 
+// How values flagged as disagreeing by cross-verification enter weighted averages
+export type LowConfidencePolicy = 'include' | 'downweight' | 'exclude';
+
+export interface ConfidenceOptions {
+  lowConfidence?: LowConfidencePolicy;
+  // Weight multiplier for flagged values under 'downweight'
+  downweightFactor?: number;
+}
+
+const DEFAULT_DOWNWEIGHT_FACTOR = 0.5;
+
+export interface RiskModelOptions {
+  // Shrinkage of the covariance toward constant correlation, 0 (none) to 1
+  shrinkage?: number;
+  // Most recent shared months the covariance is estimated from
+  windowMonths?: number;
+}
+
+type PositionMetricKey = 'oneYearChangePercent' | 'threeYearChangePercent' | 'fiveYearChangePercent' | 'dividendYieldPercent';
+
+/**
+ * Returns a position's value for a metric, or null if it is missing or was rejected by validation.
+ */
+const getUsableValue = (pos: StockPosition, key: PositionMetricKey): number | null => {
+  const value = pos[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  if (pos.dataRejections?.some(rejection => rejection.field === key)) return null;
+  return value;
+};
+
 /**
  * Calculates the weighted average dividend yield for the portfolio.
  * Returns null if valid weight coverage is < 50%.
@@ -30,8 +66,9 @@ export const calculateDividendYield = (portfolio: GeneratedPortfolio): number |
   let validWeight = 0;
 
   portfolio.positions.forEach(pos => {
-    if (typeof pos.dividendYieldPercent === 'number') {
-      weightedSum += (pos.weight / 100) * pos.dividendYieldPercent;
+    const dividendYield = getUsableValue(pos, 'dividendYieldPercent');
+    if (dividendYield !== null) {
+      weightedSum += (pos.weight / 100) * dividendYield;
       validWeight += pos.weight;
     }
   });
@@ -58,48 +95,53 @@ export const calculateProjectedReturn = (portfolio: GeneratedPortfolio): number
   return null;
 };
 
-/**
- * Estimates portfolio volatility using the spread between annualized returns.
- * This is a simplified estimation - true volatility requires daily return data.
- * Uses the standard deviation of individual position returns as a proxy.
- */
-export const estimateVolatility = (portfolio: GeneratedPortfolio): number | null => {
-  const returns: number[] = [];
-  let totalWeight = 0;
+// A position's monthly return series, if it is long enough to estimate covariance from
+const getUsableHistory = (pos: StockPosition) =>
+  (pos.returnHistory?.returns.length || 0) >= MIN_OVERLAP_MONTHS ? pos.returnHistory!.returns : null;
 
-  portfolio.positions.forEach(pos => {
-    if (typeof pos.oneYearChangePercent === 'number') {
-      returns.push(pos.oneYearChangePercent);
-      totalWeight += pos.weight;
-    }
-  });
+export interface AlignedHoldings {
+  holdings: StockPosition[]; // Holdings with a usable return history
+  weights: number[];         // Their weights renormalized to sum to 1
+  coveredWeight: number;     // Percent of portfolio weight they make up
+  months: string[];          // Months every one of them has, oldest first
+  returns: number[][];       // One row per holding, one column per month
+}
 
-  if (returns.length < 3 || totalWeight < 50) {
-    return null; // Not enough data for meaningful volatility estimate
-  }
+/**
+ * The holdings with a return history, their renormalized weights and their returns over the
+ * months they share (up to the last 60). Null if they cover < 50% of the weight or share
+ * fewer than 24 months.
+ */
+export const alignHoldingReturns = (portfolio: GeneratedPortfolio, options: RiskModelOptions = {}): AlignedHoldings | null => {
+  const holdings = portfolio.positions.filter(pos => pos.weight > 0 && getUsableHistory(pos));
+  const coveredWeight = holdings.reduce((sum, pos) => sum + pos.weight, 0);
+  if (coveredWeight <= 50) return null;
 
-  // Calculate mean
-  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const { months, returns } = alignReturnSeries(holdings.map(pos => getUsableHistory(pos)!), options.windowMonths ?? COVARIANCE_WINDOW_MONTHS);
+  if (months.length < MIN_OVERLAP_MONTHS) return null;
 
-  // Calculate standard deviation of returns as volatility proxy
-  const squaredDiffs = returns.map(r => Math.pow(r - mean, 2));
-  const variance = squaredDiffs.reduce((a, b) => a + b, 0) / returns.length;
-  const stdDev = Math.sqrt(variance);
+  return { holdings, weights: holdings.map(pos => pos.weight / coveredWeight), coveredWeight, months, returns };
+};
 
-  // Apply diversification benefit (typically 0.6-0.8x for a diversified portfolio)
-  // This accounts for imperfect correlation between holdings
-  const diversificationFactor = 0.7;
+/**
+ * Annualized portfolio volatility, σ = √(12 · w'Σw), where Σ is the covariance of the
+ * holdings' monthly returns over the months they share (see alignHoldingReturns).
+ */
+export const estimateVolatility = (portfolio: GeneratedPortfolio, options: RiskModelOptions = {}): number | null => {
+  const aligned = alignHoldingReturns(portfolio, options);
+  if (!aligned) return null;
 
-  return stdDev * diversificationFactor;
+  const covariance = shrinkCovariance(covarianceMatrix(aligned.returns), options.shrinkage ?? 0);
+  return annualizedVolatility(aligned.weights, covariance);
 };
 
 /**
  * Calculates the Sharpe Ratio: (Expected Return - Risk Free Rate) / Volatility
  * Returns null if we don't have enough data to estimate volatility.
  */
-export const calculateSharpeRatio = (portfolio: GeneratedPortfolio): number | null => {
+export const calculateSharpeRatio = (portfolio: GeneratedPortfolio, options: RiskModelOptions = {}): number | null => {
   const projectedReturn = calculateProjectedReturn(portfolio);
-  const volatility = estimateVolatility(portfolio);
+  const volatility = estimateVolatility(portfolio, options);
 
   if (projectedReturn === null || volatility === null || volatility === 0) {
     return null;
@@ -109,15 +151,83 @@ export const calculateSharpeRatio = (portfolio: GeneratedPortfolio): number | nu
   return excessReturn / volatility;
 };
 
+export interface BenchmarkRisk {
+  months: string[];          // Months shared with the benchmark series
+  beta: number | null;
+  correlation: number | null;
+  trackingError: number;     // Annualized, percent
+  informationRatio: number | null;
+}
+
+export interface RiskAnalytics {
+  holdings: AlignedHoldings;
+  returns: number[];         // Monthly portfolio returns over `holdings.months`
+  confidence: number;        // VaR/CVaR confidence level
+  drawdown: Drawdown;
+  downsideDeviation: number; // Annualized, below the monthly risk-free rate
+  sortinoRatio: number | null;
+  historical: TailRisk;
+  parametric: TailRisk;
+  benchmark: BenchmarkRisk | null; // Null without 24 months shared with the S&P 500 series
+}
+
+export interface RiskAnalyticsOptions extends RiskModelOptions {
+  confidence?: number;
+}
+
+const DEFAULT_CONFIDENCE = 0.95;
+
+/**
+ * Backward-looking risk statistics of the current weights applied to the holdings' monthly
+ * returns: drawdown, downside deviation, Sortino, one-month VaR/CVaR and, given the S&P 500
+ * series in `metrics.benchmarkReturnHistory`, beta, correlation, tracking error and
+ * information ratio. Null under the same coverage rules as the volatility.
+ */
+export const calculateRiskAnalytics = (portfolio: GeneratedPortfolio, options: RiskAnalyticsOptions = {}): RiskAnalytics | null => {
+  const holdings = alignHoldingReturns(portfolio, options);
+  if (!holdings) return null;
+
+  const confidence = options.confidence ?? DEFAULT_CONFIDENCE;
+  const returns = combineReturns(holdings.weights, holdings.returns);
+
+  let benchmark: BenchmarkRisk | null = null;
+  const benchmarkSeries = portfolio.metrics.benchmarkReturnHistory?.returns || [];
+  const { months, returns: [portfolioRow, benchmarkRow] } = alignReturnSeries(
+    [holdings.months.map((month, t) => ({ month, return: returns[t] })), benchmarkSeries],
+    holdings.months.length
+  );
+  if (months.length >= MIN_OVERLAP_MONTHS) {
+    benchmark = {
+      months,
+      beta: beta(portfolioRow, benchmarkRow),
+      correlation: correlation(portfolioRow, benchmarkRow),
+      trackingError: trackingError(portfolioRow, benchmarkRow),
+      informationRatio: informationRatio(portfolioRow, benchmarkRow),
+    };
+  }
+
+  return {
+    holdings,
+    returns,
+    confidence,
+    drawdown: maxDrawdown(returns),
+    downsideDeviation: downsideDeviation(returns, RISK_FREE_RATE / 12),
+    sortinoRatio: sortinoRatio(returns, RISK_FREE_RATE),
+    historical: historicalTailRisk(returns, confidence),
+    parametric: parametricTailRisk(returns, confidence),
+    benchmark,
+  };
+};
+
 /**
  * Calculates all portfolio metrics from real data.
  * Returns calculated values where possible, null otherwise.
  */
-export const calculateAllMetrics = (portfolio: GeneratedPortfolio): CalculatedMetrics => {
+export const calculateAllMetrics = (portfolio: GeneratedPortfolio, options: RiskModelOptions = {}): CalculatedMetrics => {
   const projectedReturnNum = calculateProjectedReturn(portfolio);
   const dividendYieldNum = calculateDividendYield(portfolio);
-  const sharpeRatioNum = calculateSharpeRatio(portfolio);
-  const volatility = estimateVolatility(portfolio);
+  const sharpeRatioNum = calculateSharpeRatio(portfolio, options);
+  const volatility = estimateVolatility(portfolio, options);
 
   return {
     projectedReturn: projectedReturnNum !== null
@@ -133,27 +243,107 @@ export const calculateAllMetrics = (portfolio: GeneratedPortfolio): CalculatedMe
   };
 };
 
+// Inputs a metric can be computed from: a fetched position field or the monthly return history
+export type CoverageInput = PositionMetricKey | 'returnHistory';
+
+// Inputs each metric is computed from; the Sharpe ratio needs both the return and the volatility
+const METRIC_INPUTS: Record<EstimatedMetric, CoverageInput[]> = {
+  projectedReturn: ['oneYearChangePercent'],
+  projectedVolatility: ['returnHistory'],
+  dividendYield: ['dividendYieldPercent'],
+  sharpeRatio: ['oneYearChangePercent', 'returnHistory'],
+};
+
+export const ESTIMATED_METRICS = Object.keys(METRIC_INPUTS) as EstimatedMetric[];
+
+// Shown when a metric can neither be computed nor fall back to a model estimate
+const UNAVAILABLE_METRIC = 'N/A';
+
+/**
+ * Percent of portfolio weight whose value for `key` is present and passed validation.
+ * For the return history, the series must also be long enough to estimate covariance from.
+ */
+export const calculateCoverage = (portfolio: GeneratedPortfolio, key: CoverageInput): number => {
+  const usable = (pos: StockPosition) => (key === 'returnHistory' ? getUsableHistory(pos) : getUsableValue(pos, key)) !== null;
+  const covered = portfolio.positions.reduce((sum, pos) => (usable(pos) ? sum + pos.weight : sum), 0);
+  return Math.round(Math.min(covered, 100) * 10) / 10;
+};
+
+/**
+ * Replaces the model's metric estimates with values computed from fetched data wherever
+ * coverage allows. The model estimate is kept in `metrics.estimates`, and a metric falls
+ * back to it when a later refresh can no longer compute it. Returns a new portfolio.
+ */
+export const applyCalculatedMetrics = (portfolio: GeneratedPortfolio, options: RiskModelOptions = {}): GeneratedPortfolio => {
+  const calculated = calculateAllMetrics(portfolio, options);
+  const computedValues: Record<EstimatedMetric, string | null> = {
+    projectedReturn: calculated.projectedReturn,
+    projectedVolatility: calculated.annualizedVolatility !== null ? `${calculated.annualizedVolatility.toFixed(1)}%` : null,
+    dividendYield: calculated.dividendYield,
+    sharpeRatio: calculated.sharpeRatio,
+  };
+
+  const metrics: PortfolioMetrics = { ...portfolio.metrics };
+  const estimates: Partial<Record<EstimatedMetric, MetricEstimate>> = {};
+
+  ESTIMATED_METRICS.forEach(metric => {
+    const previous = portfolio.metrics.estimates?.[metric];
+    // Until the pipeline has run once, the metric still holds the model's own value
+    const modelEstimate = previous ? previous.modelEstimate : portfolio.metrics[metric] || undefined;
+    const computed = computedValues[metric];
+
+    metrics[metric] = computed ?? modelEstimate ?? UNAVAILABLE_METRIC;
+    estimates[metric] = {
+      source: computed !== null ? 'computed' : 'model',
+      ...(modelEstimate !== undefined ? { modelEstimate } : {}),
+      computed,
+      coverage: Math.min(...METRIC_INPUTS[metric].map(input => calculateCoverage(portfolio, input))),
+    };
+  });
+
+  metrics.estimates = estimates;
+  metrics.isCalculated = {
+    projectedReturn: estimates.projectedReturn!.source === 'computed',
+    dividendYield: estimates.dividendYield!.source === 'computed',
+    sharpeRatio: estimates.sharpeRatio!.source === 'computed',
+  };
+
+  return { ...portfolio, metrics };
+};
+
 /**
  * Calculates the weighted average return for a specific timeframe (1Y, 3Y, 5Y).
+ * Low-confidence values are included, down-weighted or excluded per `options`.
  * Returns null if valid weight coverage is < 50%.
  */
 export const calculateWeightedReturn = (
   portfolio: GeneratedPortfolio, 
-  key: 'oneYearChangePercent' | 'threeYearChangePercent' | 'fiveYearChangePercent'
+  key: 'oneYearChangePercent' | 'threeYearChangePercent' | 'fiveYearChangePercent',
+  options: ConfidenceOptions = {}
 ): number | null => {
+  const policy = options.lowConfidence || 'include';
+  const downweightFactor = options.downweightFactor ?? DEFAULT_DOWNWEIGHT_FACTOR;
   let weightedSum = 0;
+  let effectiveWeight = 0;
   let validWeight = 0;
   
   portfolio.positions.forEach(pos => {
-    if (typeof pos[key] === 'number') {
-      weightedSum += (pos.weight / 100) * (pos[key] as number);
-      validWeight += pos.weight;
-    }
+    const value = getUsableValue(pos, key);
+    if (value === null) return;
+
+    const flagged = isLowConfidence(pos, key);
+    if (flagged && policy === 'exclude') return;
+
+    // Down-weighting shifts the average but the value still counts towards coverage
+    const weight = flagged && policy === 'downweight' ? pos.weight * downweightFactor : pos.weight;
+    weightedSum += (weight / 100) * value;
+    effectiveWeight += weight;
+    validWeight += pos.weight;
   });
 
   // Normalize if we have >50% of data coverage
-  if (validWeight > 50) {
-    return (weightedSum / validWeight) * 100;
+  if (validWeight > 50 && effectiveWeight > 0) {
+    return (weightedSum / effectiveWeight) * 100;
   }
   return null;
 };
@@ -161,16 +351,18 @@ export const calculateWeightedReturn = (
 /**
  * Generates a 5-year monthly backtest simulation based on real historical anchors.
  * Uses piecewise exponential interpolation between 5Y, 3Y, 1Y, and Current points.
+ * `options` controls how low-confidence (cross-source disagreeing) returns enter the fund anchors.
  */
 export const generateBacktestData = (
   portfolio: GeneratedPortfolio,
-  referenceDate: Date = new Date() // Allow injecting date for testing
+  referenceDate: Date = new Date(), // Allow injecting date for testing
+  options: ConfidenceOptions = {}
 ): BacktestDataPoint[] => {
   const { benchmark1YearReturn, benchmark3YearReturn, benchmark5YearReturn } = portfolio.metrics;
   
-  const fund1Y = calculateWeightedReturn(portfolio, 'oneYearChangePercent');
-  const fund3Y = calculateWeightedReturn(portfolio, 'threeYearChangePercent');
-  const fund5Y = calculateWeightedReturn(portfolio, 'fiveYearChangePercent');
+  const fund1Y = calculateWeightedReturn(portfolio, 'oneYearChangePercent', options);
+  const fund3Y = calculateWeightedReturn(portfolio, 'threeYearChangePercent', options);
+  const fund5Y = calculateWeightedReturn(portfolio, 'fiveYearChangePercent', options);
 
   const hasEnoughData = typeof fund5Y === 'number' && typeof benchmark5YearReturn === 'number';
 
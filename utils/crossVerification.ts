@@ -0,0 +1,85 @@
+import { MarketQuote, MarketDataField, FieldVerification, StockPosition } from '../types';
+import { QUOTE_TO_POSITION_FIELD } from './marketDataValidation';
+import { MARKET_DATA_FIELD_LABELS, formatFieldValue } from './provenance';
+
+type VerifiedQuoteField = 'price' | 'dayChange' | 'oneYearChange' | 'threeYearChange' | 'fiveYearChange' | 'dividendYield';
+
+// Price tolerance is relative (% of the primary price); the others are absolute percentage points
+export type VerificationTolerances = Record<VerifiedQuoteField, number>;
+
+// Intraday drift between two fetches moves prices a little; trailing returns depend on the exact anchor date
+export const DEFAULT_VERIFICATION_TOLERANCES: VerificationTolerances = {
+  price: 2,
+  dayChange: 1,
+  oneYearChange: 5,
+  threeYearChange: 10,
+  fiveYearChange: 20,
+  dividendYield: 0.5,
+};
+
+const VERIFIED_FIELDS: VerifiedQuoteField[] = ['price', 'dayChange', 'oneYearChange', 'threeYearChange', 'fiveYearChange', 'dividendYield'];
+
+/**
+ * Compares a primary quote against an independently fetched one, field by field.
+ * Only fields present in the primary quote are checked.
+ */
+export const compareQuotes = (
+  primary: MarketQuote,
+  secondary: MarketQuote | undefined,
+  context: { provider: string; checkedAt: number; tolerances?: Partial<VerificationTolerances> }
+): Partial<Record<MarketDataField, FieldVerification>> => {
+  const tolerances = { ...DEFAULT_VERIFICATION_TOLERANCES, ...context.tolerances };
+  const result: Partial<Record<MarketDataField, FieldVerification>> = {};
+
+  VERIFIED_FIELDS.forEach(field => {
+    const value = primary[field];
+    if (typeof value !== 'number') return;
+
+    const tolerance = tolerances[field];
+    const base = { provider: context.provider, tolerance, checkedAt: context.checkedAt };
+    const secondaryValue = secondary?.[field];
+    if (typeof secondaryValue !== 'number') {
+      result[QUOTE_TO_POSITION_FIELD[field]] = { ...base, status: 'unverified' };
+      return;
+    }
+
+    const difference = field === 'price'
+      ? Math.abs(value - secondaryValue) / value * 100
+      : Math.abs(value - secondaryValue);
+    result[QUOTE_TO_POSITION_FIELD[field]] = {
+      ...base,
+      status: difference <= tolerance ? 'agreed' : 'disagreed',
+      secondaryValue,
+      difference,
+    };
+  });
+
+  return result;
+};
+
+export const isLowConfidence = (pos: StockPosition, field: MarketDataField): boolean =>
+  pos.verification?.[field]?.status === 'disagreed';
+
+/**
+ * Overall confidence for a position: 'low' if any value disagreed, 'verified' if every
+ * checked value agreed, null when it was never cross-checked.
+ */
+export const getConfidenceLevel = (pos: StockPosition): 'verified' | 'low' | null => {
+  const checks = Object.values(pos.verification || {});
+  if (checks.some(check => check?.status === 'disagreed')) return 'low';
+  if (checks.length > 0 && checks.every(check => check?.status === 'agreed')) return 'verified';
+  return null;
+};
+
+/**
+ * One-line explanation of a cross-verification check, e.g.
+ * "5Y return: 45.00% vs 80.00% from Local Fixtures (35.0pp apart, tolerance 20pp)".
+ */
+export const describeVerification = (field: MarketDataField, value: number | undefined, check: FieldVerification): string => {
+  const label = MARKET_DATA_FIELD_LABELS[field];
+  if (check.status === 'unverified') return `${label}: no value from ${check.provider} to compare`;
+
+  const unit = field === 'currentPrice' ? '%' : 'pp';
+  return `${label}: ${formatFieldValue(field, value)} vs ${formatFieldValue(field, check.secondaryValue)} from ${check.provider}`
+    + ` (${check.difference!.toFixed(1)}${unit} apart, tolerance ${check.tolerance}${unit})`;
+};
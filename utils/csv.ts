@@ -0,0 +1,52 @@
+/**
+ * Splits one CSV line into trimmed cells. Double-quoted cells may contain commas;
+ * a doubled quote inside them stands for a literal quote.
+ */
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' && current.trim() === '') {
+      quoted = true;
+      current = '';
+    } else if (char === ',') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+/**
+ * Parses CSV text with a header row into one record per line.
+ * Blank lines and lines starting with '#' are skipped; missing cells become ''.
+ */
+export const parseCsvRows = (text: string): Record<string, string>[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0 && !line.trim().startsWith('#'));
+  if (lines.length < 2) return [];
+
+  const header = splitCsvLine(lines[0]);
+  return lines.slice(1).map(line => {
+    const cells = splitCsvLine(line);
+    const row: Record<string, string> = {};
+    header.forEach((column, i) => {
+      row[column] = cells[i] ?? '';
+    });
+    return row;
+  });
+};
@@ -0,0 +1,150 @@
+import { ExclusionRuleKind, PolicyViolation, StockPosition } from '../types';
+
+// Reference facts about a listed company, independent of what the model claims
+export interface CompanyReference {
+  name?: string;
+  sector?: string;
+  industry?: string;
+  listedOn?: string;        // ISO date of first listing
+  revenueFlags?: string[];  // e.g. 'fossil-fuels', 'pre-revenue'
+}
+
+export interface CompanyReferenceDataset {
+  asOf?: string;
+  companies: Record<string, CompanyReference>;
+}
+
+/**
+ * One exclusion category. A position violates it when its ticker is blocklisted, its sector
+ * or industry contains one of the terms (whole words, case-insensitive) or the reference
+ * dataset carries one of the revenue flags.
+ */
+export interface ExclusionPolicy {
+  id: string;
+  label: string;
+  tickers?: string[];
+  industryTerms?: string[];
+  revenueFlags?: string[];
+}
+
+export interface ExclusionRules {
+  policies: ExclusionPolicy[];
+  // Companies listed more recently lack the history the backtest needs
+  minListingYears: number;
+}
+
+export const DEFAULT_EXCLUSION_RULES: ExclusionRules = {
+  policies: [
+    {
+      id: 'fossil-fuels',
+      label: 'Fossil fuels',
+      tickers: ['XOM', 'CVX', 'COP', 'OXY', 'EOG', 'SLB', 'HAL', 'PSX', 'MPC', 'VLO', 'KMI', 'WMB', 'BTU'],
+      industryTerms: ['oil', 'gas', 'coal', 'petroleum', 'pipelines', 'drilling', 'refining'],
+      revenueFlags: ['fossil-fuels'],
+    },
+    {
+      id: 'weapons',
+      label: 'Weapons',
+      tickers: ['LMT', 'RTX', 'NOC', 'GD', 'LHX', 'HII', 'RGR', 'SWBI'],
+      industryTerms: ['defense', 'defence', 'weapons', 'firearms', 'munitions', 'ammunition'],
+      revenueFlags: ['weapons'],
+    },
+    {
+      id: 'tobacco',
+      label: 'Tobacco',
+      tickers: ['MO', 'PM', 'BTI'],
+      industryTerms: ['tobacco', 'cigarettes', 'vaping'],
+      revenueFlags: ['tobacco'],
+    },
+    {
+      id: 'predatory-lending',
+      label: 'Predatory lending',
+      industryTerms: ['payday', 'subprime', 'pawn'],
+      revenueFlags: ['predatory-lending'],
+    },
+    {
+      id: 'ai-obsolete',
+      label: 'AI-obsolete business model',
+      industryTerms: ['business process outsourcing', 'call center', 'call centre', 'data entry', 'translation services'],
+      revenueFlags: ['ai-obsolete'],
+    },
+    {
+      id: 'pre-revenue',
+      label: 'Pre-revenue / speculative',
+      revenueFlags: ['pre-revenue'],
+    },
+  ],
+  minListingYears: 5,
+};
+
+export type PolicyMatch = Omit<PolicyViolation, 'action' | 'replacement'>;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findTerm = (text: string | undefined, terms: string[]): string | undefined =>
+  text ? terms.find(term => new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i').test(text)) : undefined;
+
+const yearsBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+
+/**
+ * Lists every rule a position breaks. The model's own sector label is checked alongside
+ * the reference dataset, so unknown tickers are still screened by ticker and sector.
+ */
+export const checkPosition = (
+  pos: StockPosition,
+  reference: CompanyReferenceDataset,
+  rules: ExclusionRules = DEFAULT_EXCLUSION_RULES,
+  referenceDate: Date = new Date()
+): PolicyMatch[] => {
+  const ticker = String(pos.ticker ?? '').trim().toUpperCase();
+  const company = ticker ? reference.companies[ticker] : undefined;
+  const matches: PolicyMatch[] = [];
+
+  const fire = (policy: Pick<ExclusionPolicy, 'id' | 'label'>, rule: ExclusionRuleKind, detail: string) =>
+    matches.push({ ticker, policyId: policy.id, policyLabel: policy.label, rule, detail });
+
+  rules.policies.forEach(policy => {
+    if (policy.tickers?.includes(ticker)) {
+      fire(policy, 'ticker', `${ticker} is on the blocklist`);
+      return;
+    }
+
+    const industryTerms = policy.industryTerms || [];
+    const labels: [string, string | undefined][] = [
+      ['industry', company?.industry],
+      ['sector', company?.sector],
+      ['reported sector', pos.sector],
+    ];
+    const labelMatch = labels
+      .map(([kind, text]) => ({ kind, text, term: findTerm(text, industryTerms) }))
+      .find(match => match.term);
+    if (labelMatch) {
+      fire(policy, 'industry', `${labelMatch.kind} "${labelMatch.text}" matches "${labelMatch.term}"`);
+      return;
+    }
+
+    const flag = company?.revenueFlags?.find(f => policy.revenueFlags?.includes(f));
+    if (flag) fire(policy, 'revenue-flag', `reference data flags "${flag}"`);
+  });
+
+  if (company?.listedOn) {
+    const listedOn = new Date(company.listedOn);
+    const age = yearsBetween(listedOn, referenceDate);
+    if (Number.isFinite(age) && age < rules.minListingYears) {
+      fire(
+        { id: 'listing-age', label: `Listed under ${rules.minListingYears} years` },
+        'listing-date',
+        `listed ${company.listedOn} (${age.toFixed(1)} years ago)`
+      );
+    }
+  }
+
+  return matches;
+};
+
+export const describeViolation = (violation: PolicyViolation): string => {
+  const action = violation.action === 'replaced' && violation.replacement
+    ? `Replaced ${violation.ticker} with ${violation.replacement}`
+    : `Removed ${violation.ticker}`;
+  return `${action}: ${violation.policyLabel} (${violation.detail})`;
+};
@@ -0,0 +1,40 @@
+import { MoneyAmount } from '../types';
+
+/**
+ * Formats how long ago a value was fetched, e.g. "just now", "12m ago", "3h ago", "2d ago".
+ * Returns null when the timestamp is unknown.
+ */
+export const formatDataAge = (fetchedAt: number | undefined, now: number = Date.now()): string | null => {
+  if (typeof fetchedAt !== 'number') return null;
+
+  const minutes = Math.floor(Math.max(0, now - fetchedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+/**
+ * Formats an elapsed duration compactly, e.g. "8s" or "1m 05s".
+ */
+export const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+  const seconds = totalSeconds % 60;
+  return `${Math.floor(totalSeconds / 60)}m ${seconds.toString().padStart(2, '0')}s`;
+};
+
+/**
+ * Formats a large amount compactly with its currency, e.g. "$2.5T" or "EUR 310B".
+ */
+export const formatMoneyAmount = ({ amount, currency }: MoneyAmount): string => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, notation: 'compact', maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    // Not a currency Intl knows
+    return `${currency} ${new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 }).format(amount)}`;
+  }
+};
@@ -0,0 +1,241 @@
+import { GroundingChunk, NewsHeadline } from '../types';
+import { GroundingMetadataLike } from './provenance';
+
+export interface WhitelistedSource {
+  name: string;          // As listed in the headlines prompt
+  displayName: string;   // Shown in the news ticker
+  domains: string[];     // Matched exactly or as a parent domain
+  aliases: string[];     // Lowercase names the model uses for the outlet
+}
+
+// The headline whitelist, enforced on article domains rather than on the model's word
+export const WHITELISTED_SOURCES: WhitelistedSource[] = [
+  { name: 'The Wall Street Journal (WSJ)', displayName: 'WSJ', domains: ['wsj.com'], aliases: ['wall street journal', 'the wall street journal', 'wsj'] },
+  { name: 'Reuters', displayName: 'Reuters', domains: ['reuters.com'], aliases: ['reuters'] },
+  { name: 'Financial Times (FT)', displayName: 'Financial Times', domains: ['ft.com'], aliases: ['financial times', 'the financial times', 'ft'] },
+  { name: 'Bloomberg', displayName: 'Bloomberg', domains: ['bloomberg.com'], aliases: ['bloomberg', 'bloomberg news'] },
+  { name: 'The Economist', displayName: 'The Economist', domains: ['economist.com'], aliases: ['the economist', 'economist'] },
+  { name: "Barron's", displayName: "Barron's", domains: ['barrons.com'], aliases: ["barron's", 'barrons'] },
+  { name: 'CNBC', displayName: 'CNBC', domains: ['cnbc.com'], aliases: ['cnbc'] },
+  { name: 'Forbes', displayName: 'Forbes', domains: ['forbes.com'], aliases: ['forbes'] },
+  { name: 'Fortune', displayName: 'Fortune', domains: ['fortune.com'], aliases: ['fortune'] },
+  { name: 'MarketWatch', displayName: 'MarketWatch', domains: ['marketwatch.com'], aliases: ['marketwatch', 'market watch'] },
+  { name: 'The New York Times (NYT)', displayName: 'NYT', domains: ['nytimes.com'], aliases: ['the new york times', 'new york times', 'nyt'] },
+  // Businessweek lives under bloomberg.com, so its articles resolve to Bloomberg
+  { name: 'Bloomberg Businessweek', displayName: 'Businessweek', domains: [], aliases: ['bloomberg businessweek', 'businessweek'] },
+  { name: 'Yahoo Finance', displayName: 'Yahoo Finance', domains: ['finance.yahoo.com', 'yahoo.com'], aliases: ['yahoo finance', 'yahoo'] },
+  { name: 'CNN Business', displayName: 'CNN Business', domains: ['cnn.com'], aliases: ['cnn business', 'cnn'] },
+  { name: 'The Motley Fool', displayName: 'Motley Fool', domains: ['fool.com'], aliases: ['the motley fool', 'motley fool'] },
+  { name: 'Seeking Alpha', displayName: 'Seeking Alpha', domains: ['seekingalpha.com'], aliases: ['seeking alpha', 'seekingalpha'] },
+  { name: 'TheStreet', displayName: 'TheStreet', domains: ['thestreet.com'], aliases: ['thestreet', 'the street'] },
+  { name: 'BBC Business', displayName: 'BBC', domains: ['bbc.com', 'bbc.co.uk'], aliases: ['bbc business', 'bbc', 'bbc news'] },
+  { name: 'Business Insider', displayName: 'Business Insider', domains: ['businessinsider.com'], aliases: ['business insider', 'insider'] },
+  { name: 'Vox', displayName: 'Vox', domains: ['vox.com'], aliases: ['vox'] },
+  { name: 'The Washington Post', displayName: 'Washington Post', domains: ['washingtonpost.com'], aliases: ['the washington post', 'washington post'] },
+];
+
+export interface ParsedHeadline {
+  title: string;
+  source: string;
+}
+
+export interface HeadlineMatchOptions {
+  minSimilarity: number;   // Title similarity needed to accept a chunk without a citation
+  duplicateSimilarity: number; // Headlines at least this similar are the same story
+  limit: number;
+}
+
+export const DEFAULT_HEADLINE_MATCH_OPTIONS: HeadlineMatchOptions = {
+  minSimilarity: 0.5,
+  duplicateSimilarity: 0.75,
+  limit: 10,
+};
+
+// Grounding chunk uris point at this redirector; the chunk title then carries the article's domain
+const GROUNDING_REDIRECT_HOSTS = ['vertexaisearch.cloud.google.com'];
+const TOOL_TITLES = ['vertex ai search', 'google search', 'search result'];
+
+const STOPWORDS = new Set(['a', 'an', 'the', 'of', 'to', 'in', 'on', 'for', 'and', 'or', 'as', 'at', 'by', 'with', 'is', 'are', 'its', 'after', 'from', 'amid']);
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[*_`]/g, '').replace(/\.(com|co\.uk)$/, '').trim();
+
+/**
+ * Whitelisted outlet for a hostname, matching the domain itself or any subdomain of it.
+ */
+export const sourceForDomain = (hostname: string): WhitelistedSource | undefined => {
+  const host = hostname.toLowerCase().replace(/^www\./, '');
+  return WHITELISTED_SOURCES.find(source =>
+    source.domains.some(domain => host === domain || host.endsWith(`.${domain}`)));
+};
+
+/**
+ * Whitelisted outlet for a source name as the model wrote it ("WSJ", "Reuters.com", "The Economist").
+ */
+export const sourceForName = (name: string): WhitelistedSource | undefined => {
+  const normalized = normalizeName(name.replace(/\s*\(.*\)\s*$/, ''));
+  return WHITELISTED_SOURCES.find(source =>
+    source.aliases.includes(normalized) || normalizeName(source.name) === normalized);
+};
+
+const hostnameOf = (uri: string): string | null => {
+  try {
+    return new URL(uri).hostname.toLowerCase();
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * The article domain behind a grounding chunk: the uri's host, or the chunk title
+ * when the uri is a grounding redirect and the title is a bare domain.
+ */
+export const chunkDomain = (chunk: GroundingChunk): string | null => {
+  const host = chunk.web?.uri ? hostnameOf(chunk.web.uri) : null;
+  if (host && !GROUNDING_REDIRECT_HOSTS.includes(host)) return host.replace(/^www\./, '');
+  const title = chunk.web?.title?.trim().toLowerCase() || '';
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(title) ? title.replace(/^www\./, '') : null;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase()
+    .replace(/&amp;/g, '&')
+    .replace(/['’]s\b/g, '')
+    .split(/[^\p{L}\p{N}&%$]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+
+/**
+ * Dice coefficient over significant words, 0 (nothing shared) to 1 (same words).
+ */
+export const titleSimilarity = (a: string, b: string): number => {
+  const left = new Set(tokenize(a));
+  const right = new Set(tokenize(b));
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = Array.from(left).filter(token => right.has(token)).length;
+  return (2 * shared) / (left.size + right.size);
+};
+
+const cleanTitle = (title: string) => title.replace(/\*\*|__/g, '').replace(/^["“]|["”]$/g, '').trim();
+
+/**
+ * Parses the numbered "Headline - Source" list the headlines prompt asks for.
+ * Tolerates indentation, bullets, bold markers, markdown links and en/em dashes,
+ * and splits on the last dash so hyphens inside a headline survive.
+ */
+export const parseHeadlineList = (text: string): ParsedHeadline[] => {
+  const headlines: ParsedHeadline[] = [];
+  text.split('\n').forEach(line => {
+    const item = line.match(/^\s*(?:\d+[.)]|[-*•])\s+(.+)$/);
+    if (!item) return;
+    const body = item[1].replace(/\[([^\]]+)\]\([^)]*\)/g, '$1').replace(/\*\*/g, '').trim();
+    const split = body.match(/^(.+)\s+[-–—|]\s+(.+)$/);
+    if (!split) return;
+    const title = cleanTitle(split[1]);
+    const source = split[2].replace(/^\((.*)\)$/, '$1').trim();
+    if (title && source) headlines.push({ title, source });
+  });
+  return headlines;
+};
+
+const searchUrl = (headline: ParsedHeadline, source?: WhitelistedSource) =>
+  `https://www.google.com/search?q=${encodeURIComponent(`${headline.title}${source?.domains[0] ? ` site:${source.domains[0]}` : ` ${headline.source}`}`)}`;
+
+interface Candidate {
+  headline: number;
+  chunk: number;
+  score: number;
+}
+
+/**
+ * Pairs parsed headlines with grounding chunks by content instead of list position.
+ * A chunk is a candidate for a headline when an answer segment containing the headline cites it,
+ * or when its title is similar enough; agreeing source domains break ties. Pairs are assigned
+ * best-first, one chunk per headline. Only chunks on whitelisted domains are used.
+ * Matched headlines take the outlet of the article's domain. Unmatched headlines from a
+ * whitelisted outlet are kept with a site search link and `verified: false`; the rest are dropped.
+ * Near-identical stories are collapsed, keeping the verified one.
+ */
+export const matchHeadlines = (
+  parsed: ParsedHeadline[],
+  metadata?: GroundingMetadataLike,
+  options: Partial<HeadlineMatchOptions> = {}
+): NewsHeadline[] => {
+  const { minSimilarity, duplicateSimilarity, limit } = { ...DEFAULT_HEADLINE_MATCH_OPTIONS, ...options };
+  const chunks = metadata?.groundingChunks || [];
+  const supports = metadata?.groundingSupports || [];
+
+  const chunkSources = chunks.map(chunk => {
+    const domain = chunkDomain(chunk);
+    return chunk.web?.uri && domain ? sourceForDomain(domain) : undefined;
+  });
+
+  const candidates: Candidate[] = [];
+  parsed.forEach((headline, h) => {
+    const claimed = sourceForName(headline.source);
+    const cited = new Set(supports
+      .filter(support => titleSimilarity(support.segment?.text || '', headline.title) >= 0.8 || (support.segment?.text || '').includes(headline.title))
+      .flatMap(support => support.groundingChunkIndices || []));
+
+    chunks.forEach((chunk, c) => {
+      const source = chunkSources[c];
+      if (!source) return;
+      const similarity = titleSimilarity(headline.title, chunk.web?.title || '');
+      const isCited = cited.has(c);
+      if (!isCited && similarity < minSimilarity) return;
+      const score = (isCited ? 1 : 0) + similarity + (claimed === source ? 0.25 : 0);
+      candidates.push({ headline: h, chunk: c, score });
+    });
+  });
+
+  const assigned = new Map<number, number>();
+  const usedChunks = new Set<number>();
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ headline, chunk }) => {
+      if (assigned.has(headline) || usedChunks.has(chunk)) return;
+      assigned.set(headline, chunk);
+      usedChunks.add(chunk);
+    });
+
+  const results: NewsHeadline[] = [];
+  parsed.forEach((headline, h) => {
+    const chunk = assigned.get(h);
+    let item: NewsHeadline | null = null;
+    if (chunk !== undefined) {
+      item = { title: headline.title, source: chunkSources[chunk]!.displayName, url: chunks[chunk].web!.uri, verified: true };
+    } else {
+      const claimed = sourceForName(headline.source);
+      if (claimed) item = { title: headline.title, source: claimed.displayName, url: searchUrl(headline, claimed), verified: false };
+    }
+    if (!item) return;
+
+    const duplicate = results.findIndex(existing =>
+      (item!.verified && existing.url === item!.url) || titleSimilarity(existing.title, item!.title) >= duplicateSimilarity);
+    if (duplicate === -1) {
+      results.push(item);
+    } else if (item.verified && !results[duplicate].verified) {
+      results[duplicate] = item;
+    }
+  });
+
+  return results.slice(0, limit);
+};
+
+/**
+ * Headlines built from the grounding chunks alone, for answers whose list couldn't be parsed.
+ * Only whitelisted domains are kept; tool names and bare domains are not used as titles.
+ */
+export const headlinesFromChunks = (metadata?: GroundingMetadataLike, limit = DEFAULT_HEADLINE_MATCH_OPTIONS.limit): NewsHeadline[] => {
+  const results: NewsHeadline[] = [];
+  (metadata?.groundingChunks || []).forEach(chunk => {
+    const domain = chunkDomain(chunk);
+    const source = domain ? sourceForDomain(domain) : undefined;
+    if (!chunk.web?.uri || !source) return;
+
+    const rawTitle = chunk.web.title?.trim() || '';
+    const isPlaceholder = !rawTitle || TOOL_TITLES.includes(rawTitle.toLowerCase()) || rawTitle.toLowerCase() === domain;
+    const title = isPlaceholder ? 'Market Update' : cleanTitle(rawTitle);
+    if (results.some(existing => existing.url === chunk.web!.uri || (!isPlaceholder && titleSimilarity(existing.title, title) >= DEFAULT_HEADLINE_MATCH_OPTIONS.duplicateSimilarity))) return;
+    results.push({ title, source: source.displayName, url: chunk.web.uri, verified: true });
+  });
+  return results.slice(0, limit);
+};
@@ -0,0 +1,183 @@
+import { MarketQuote, BenchmarkReturns, DataRejection, MarketDataField, BenchmarkField, MonthlyReturn } from '../types';
+import { isRecord } from './typeGuards';
+
+export interface ValidatedQuote {
+  quote: MarketQuote;
+  rejections: DataRejection[];
+}
+
+export interface ValidatedBenchmark {
+  benchmark: BenchmarkReturns;
+  rejections: DataRejection[];
+}
+
+type ReturnField = 'oneYearChange' | 'threeYearChange' | 'fiveYearChange';
+
+interface FieldRule {
+  min: number;
+  max: number;
+  minInclusive: boolean;
+  label: string;
+}
+
+// A listed stock cannot lose 100% and still have a price, so -100 itself is rejected
+const FIELD_RULES: Record<keyof MarketQuote, FieldRule> = {
+  price: { min: 0, max: 1_000_000, minInclusive: false, label: 'Price' },
+  dayChange: { min: -100, max: 500, minInclusive: false, label: 'Day change' },
+  oneYearChange: { min: -100, max: 1_000, minInclusive: false, label: '1Y return' },
+  threeYearChange: { min: -100, max: 5_000, minInclusive: false, label: '3Y return' },
+  fiveYearChange: { min: -100, max: 10_000, minInclusive: false, label: '5Y return' },
+  dividendYield: { min: 0, max: 25, minInclusive: true, label: 'Dividend yield' },
+};
+
+// Field names on StockPosition that each quote field is merged into
+export const QUOTE_TO_POSITION_FIELD: Record<keyof MarketQuote, MarketDataField> = {
+  price: 'currentPrice',
+  dayChange: 'dayChangePercent',
+  oneYearChange: 'oneYearChangePercent',
+  threeYearChange: 'threeYearChangePercent',
+  fiveYearChange: 'fiveYearChangePercent',
+  dividendYield: 'dividendYieldPercent',
+};
+
+// Metric names on PortfolioMetrics that each benchmark return is merged into
+export const BENCHMARK_FIELD: Record<ReturnField, BenchmarkField> = {
+  oneYearChange: 'benchmark1YearReturn',
+  threeYearChange: 'benchmark3YearReturn',
+  fiveYearChange: 'benchmark5YearReturn',
+};
+
+const RETURN_PERIODS: { field: ReturnField; years: number }[] = [
+  { field: 'oneYearChange', years: 1 },
+  { field: 'threeYearChange', years: 3 },
+  { field: 'fiveYearChange', years: 5 },
+];
+
+/**
+ * Lowest total return the earlier part of a longer window may imply.
+ * e.g. 1Y = +400% with 5Y = -50% means the stock lost 90% over the 4 years before that.
+ */
+const MIN_IMPLIED_PRIOR_RETURN = -90;
+
+const checkField = (field: keyof MarketQuote, value: unknown): string | null => {
+  const rule = FIELD_RULES[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return `${rule.label} must be a finite number`;
+  }
+  const belowMin = rule.minInclusive ? value < rule.min : value <= rule.min;
+  if (belowMin) {
+    return `${rule.label} of ${value} is ${rule.minInclusive ? 'below' : 'at or below'} ${rule.min}`;
+  }
+  if (value > rule.max) {
+    return `${rule.label} of ${value} exceeds ${rule.max}`;
+  }
+  return null;
+};
+
+/**
+ * Compares each shorter return window against each longer one.
+ * Returns the shorter field when the combination implies an impossible loss before it.
+ */
+const findInconsistentReturns = (returns: Partial<Record<ReturnField, number>>): { field: ReturnField; reason: string }[] => {
+  const issues: { field: ReturnField; reason: string }[] = [];
+
+  RETURN_PERIODS.forEach((shorter, i) => {
+    RETURN_PERIODS.slice(i + 1).forEach(longer => {
+      const shortValue = returns[shorter.field];
+      const longValue = returns[longer.field];
+      if (typeof shortValue !== 'number' || typeof longValue !== 'number') return;
+      if (issues.some(issue => issue.field === shorter.field)) return;
+
+      const impliedPrior = ((1 + longValue / 100) / (1 + shortValue / 100) - 1) * 100;
+      if (impliedPrior < MIN_IMPLIED_PRIOR_RETURN) {
+        issues.push({
+          field: shorter.field,
+          reason: `${FIELD_RULES[shorter.field].label} of ${shortValue}% is inconsistent with ${FIELD_RULES[longer.field].label} of ${longValue}% (implies ${impliedPrior.toFixed(1)}% over the preceding ${longer.years - shorter.years}Y)`,
+        });
+      }
+    });
+  });
+
+  return issues;
+};
+
+const validateFields = <K extends keyof MarketQuote>(
+  raw: unknown,
+  fields: K[],
+  fieldNames: Record<K, string>
+): { values: Partial<Record<K, number>>; rejections: DataRejection[] } => {
+  if (!isRecord(raw)) {
+    return { values: {}, rejections: [{ field: 'record', value: raw, reason: 'Expected an object of numeric fields' }] };
+  }
+
+  const values: Partial<Record<K, number>> = {};
+  const rejections: DataRejection[] = [];
+
+  fields.forEach(field => {
+    if (!(field in raw) || raw[field] === null || raw[field] === undefined) return;
+    const reason = checkField(field, raw[field]);
+    if (reason) {
+      rejections.push({ field: fieldNames[field], value: raw[field], reason });
+    } else {
+      values[field] = raw[field] as number;
+    }
+  });
+
+  findInconsistentReturns(values as Partial<Record<ReturnField, number>>).forEach(issue => {
+    const field = issue.field as K;
+    if (!(field in fieldNames)) return;
+    rejections.push({ field: fieldNames[field], value: values[field], reason: issue.reason });
+    delete values[field];
+  });
+
+  return { values, rejections };
+};
+
+/**
+ * Validates a single ticker record from a provider.
+ * Only fields that pass are returned; every dropped field gets a rejection reason.
+ */
+export const validateQuote = (raw: unknown): ValidatedQuote => {
+  const fields = Object.keys(FIELD_RULES) as (keyof MarketQuote)[];
+  const { values, rejections } = validateFields(raw, fields, QUOTE_TO_POSITION_FIELD);
+  return { quote: values, rejections };
+};
+
+/**
+ * Validates a provider batch response ({ TICKER: { ...fields } }).
+ * A malformed response yields an empty result instead of throwing.
+ */
+export const validateQuoteBatch = (raw: unknown): Record<string, ValidatedQuote> => {
+  const result: Record<string, ValidatedQuote> = {};
+  if (!isRecord(raw)) return result;
+
+  Object.entries(raw).forEach(([ticker, record]) => {
+    result[ticker] = validateQuote(record);
+  });
+  return result;
+};
+
+export const validateBenchmark = (raw: unknown): ValidatedBenchmark => {
+  const fields: ReturnField[] = ['oneYearChange', 'threeYearChange', 'fiveYearChange'];
+  const { values, rejections } = validateFields(raw, fields, BENCHMARK_FIELD);
+  return { benchmark: values, rejections };
+};
+
+/**
+ * Keeps the well-formed entries of a provider's monthly return series: a YYYY-MM month,
+ * a finite return above -100% and each month once. Returned oldest first.
+ */
+export const validateReturnSeries = (raw: unknown): MonthlyReturn[] => {
+  if (!Array.isArray(raw)) return [];
+
+  const byMonth = new Map<string, number>();
+  raw.forEach(point => {
+    if (!isRecord(point)) return;
+    const { month, return: value } = point;
+    if (typeof month !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) return;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= -100) return;
+    byMonth.set(month, value);
+  });
+
+  return Array.from(byMonth.keys()).sort().map(month => ({ month, return: byMonth.get(month)! }));
+};
@@ -0,0 +1,143 @@
+import { NewsHeadline, SentimentLabel, StockPosition } from '../types';
+
+// Word weights for market news; inflections are listed rather than stemmed so matches stay predictable
+const LEXICON: Record<string, number> = {
+  beat: 1.5, beats: 1.5, tops: 1.2, exceeds: 1.2, exceeded: 1.2,
+  surge: 2, surges: 2, surged: 2, soar: 2, soars: 2, soared: 2,
+  jump: 1.5, jumps: 1.5, jumped: 1.5, rally: 1.5, rallies: 1.5, rallied: 1.5,
+  gain: 1, gains: 1, gained: 1, rise: 1, rises: 1, rose: 1, climb: 1, climbs: 1, climbed: 1,
+  rebound: 1.2, rebounds: 1.2, rebounded: 1.2, recovery: 1, recovers: 1,
+  record: 1, upgrade: 1.5, upgrades: 1.5, upgraded: 1.5, outperform: 1.2, outperforms: 1.2,
+  boost: 1, boosts: 1, boosted: 1, strong: 1, stronger: 1, robust: 1, growth: 0.8,
+  profit: 0.8, profits: 0.8, profitable: 1, win: 1, wins: 1, won: 1,
+  approval: 1, approve: 1, approves: 1, approved: 1, expands: 0.8, expansion: 0.8,
+  optimism: 1, optimistic: 1, bullish: 1.5, upbeat: 1.2,
+  miss: -1.5, misses: -1.5, missed: -1.5,
+  fall: -1, falls: -1, fell: -1, drop: -1, drops: -1, dropped: -1, decline: -1, declines: -1, declined: -1,
+  slide: -1.2, slides: -1.2, slid: -1.2, sink: -1.5, sinks: -1.5, sank: -1.5,
+  plunge: -2, plunges: -2, plunged: -2, tumble: -2, tumbles: -2, tumbled: -2, slump: -1.5, slumps: -1.5, slumped: -1.5,
+  crash: -2, crashes: -2, selloff: -1.5,
+  downgrade: -1.5, downgrades: -1.5, downgraded: -1.5, underperform: -1.2,
+  cut: -1, cuts: -1, lowers: -1, lowered: -1, loss: -1, losses: -1,
+  weak: -1, weaker: -1, weakness: -1, warns: -1.2, warning: -1, delay: -1, delays: -1, delayed: -1,
+  halt: -1.2, halts: -1.2, halted: -1.2, recall: -1.2, recalls: -1.2,
+  lawsuit: -1.2, sues: -1.2, sued: -1.2, probe: -1.2, investigation: -1.2, fine: -1, fined: -1.2,
+  fraud: -2, scandal: -2, bankruptcy: -2.5, default: -2, layoffs: -1.2,
+  bearish: -1.5, concern: -0.8, concerns: -0.8, fears: -1, gloomy: -1.2,
+};
+
+// Multi-word phrases take precedence over their words, e.g. a rate cut is good news for stocks
+const PHRASES: Record<string, number> = {
+  'rate cut': 1, 'rate cuts': 1, 'raises guidance': 2, 'raised guidance': 2, 'lifts guidance': 2,
+  'cuts guidance': -2, 'lowers guidance': -2, 'price target cut': -1.5, 'sell off': -1.5,
+  'beats estimates': 2, 'misses estimates': -2, 'record high': 1.5, 'record low': -1.5,
+  'job cuts': -1.2, 'fails to': -1, 'rate hike': -0.8, 'rate hikes': -0.8,
+};
+const MAX_PHRASE_WORDS = 3;
+
+const NEGATORS = new Set(['not', 'no', 'never', 'without', 'nor', 'isnt', 'doesnt', 'didnt', 'wont', 'cant', 'fails']);
+const NEGATION_WINDOW = 2;
+
+// Scores within this distance of zero read as neutral
+const NEUTRAL_BAND = 0.15;
+// Normalization constant: one strong word lands around +-0.6, several push toward +-1
+const NORMALIZATION_ALPHA = 4;
+
+// Relevance of a headline that names a holding, its sector, or neither
+export const HOLDING_RELEVANCE = 1;
+export const SECTOR_RELEVANCE = 0.6;
+export const MARKET_RELEVANCE = 0.3;
+
+const GENERIC_SECTOR_WORDS = new Set(['and', 'services', 'goods', 'products', 'consumer', 'other']);
+
+const words = (text: string): string[] =>
+  text.toLowerCase().replace(/['’]/g, '').replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+
+export const sentimentLabel = (score: number): SentimentLabel =>
+  score >= NEUTRAL_BAND ? 'positive' : score <= -NEUTRAL_BAND ? 'negative' : 'neutral';
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Deterministic lexicon score from -1 to 1. Phrases are matched before single words,
+ * and a negator up to two words earlier flips a term ("not a miss").
+ */
+export const lexiconScore = (text: string): number => {
+  const tokens = words(text);
+  let total = 0;
+
+  for (let i = 0; i < tokens.length; ) {
+    let weight: number | undefined;
+    let span = 1;
+    for (let size = Math.min(MAX_PHRASE_WORDS, tokens.length - i); size >= 2 && weight === undefined; size--) {
+      const phrase = PHRASES[tokens.slice(i, i + size).join(' ')];
+      if (phrase !== undefined) {
+        weight = phrase;
+        span = size;
+      }
+    }
+    if (weight === undefined) weight = LEXICON[tokens[i]];
+
+    if (weight !== undefined) {
+      const negated = tokens.slice(Math.max(0, i - NEGATION_WINDOW), i).some(token => NEGATORS.has(token));
+      total += negated ? -weight : weight;
+    }
+    i += span;
+  }
+
+  return total === 0 ? 0 : round(total / Math.sqrt(total * total + NORMALIZATION_ALPHA));
+};
+
+/**
+ * How directly a headline concerns the portfolio: it names a holding, one of the
+ * portfolio's sectors, or neither (market-wide news).
+ */
+export const headlineRelevance = (headline: NewsHeadline, positions: Pick<StockPosition, 'sector'>[]): number => {
+  if (headline.tickers && headline.tickers.length > 0) return HOLDING_RELEVANCE;
+
+  const titleWords = new Set(words(headline.title));
+  const sectorWords = positions.flatMap(p => words(p.sector || '')).filter(w => w.length >= 4 && !GENERIC_SECTOR_WORDS.has(w));
+  return sectorWords.some(word => titleWords.has(word)) ? SECTOR_RELEVANCE : MARKET_RELEVANCE;
+};
+
+export interface AggregateSentiment {
+  score: number;
+  label: SentimentLabel;
+  headlineCount: number; // Scored headlines that contributed
+}
+
+const weightedMean = (entries: { score: number; weight: number }[]): AggregateSentiment | null => {
+  const totalWeight = entries.reduce((sum, e) => sum + e.weight, 0);
+  if (entries.length === 0 || totalWeight <= 0) return null;
+  const score = round(entries.reduce((sum, e) => sum + e.score * e.weight, 0) / totalWeight);
+  return { score, label: sentimentLabel(score), headlineCount: entries.length };
+};
+
+/**
+ * Portfolio news sentiment: each scored headline counts by its relevance times the weight
+ * of the holdings it mentions. Market-wide headlines count like an average-sized holding.
+ * Null when no headline has been scored.
+ */
+export const portfolioSentiment = (
+  headlines: NewsHeadline[],
+  positions: Pick<StockPosition, 'ticker' | 'weight'>[]
+): AggregateSentiment | null => {
+  const weights = new Map(positions.map(p => [p.ticker, p.weight]));
+  const averageWeight = positions.length > 0 ? 100 / positions.length : 1;
+
+  return weightedMean(headlines.filter(h => h.sentiment).map(h => {
+    const exposure = h.tickers?.length
+      ? h.tickers.reduce((sum, ticker) => sum + (weights.get(ticker) ?? 0), 0)
+      : averageWeight;
+    return { score: h.sentiment!.score, weight: (h.relevance ?? MARKET_RELEVANCE) * exposure };
+  }));
+};
+
+/**
+ * One holding's sentiment: the relevance-weighted mean of its scored headlines, or null.
+ */
+export const holdingSentiment = (headlines: NewsHeadline[]): AggregateSentiment | null =>
+  weightedMean(headlines.filter(h => h.sentiment).map(h => ({
+    score: h.sentiment!.score,
+    weight: h.relevance ?? HOLDING_RELEVANCE,
+  })));
@@ -0,0 +1,121 @@
+import { NewsHeadline, StockPosition } from '../types';
+import { nameTokens } from './symbolResolution';
+import { guardUserText, SEARCH_QUERY_GUARD } from './promptGuard';
+
+// Tickers that are also everyday words or abbreviations: a bare mention says nothing,
+// so they only count as "$AI" / "(AI)" or alongside the company name
+const AMBIGUOUS_TICKERS = new Set([
+  'AI', 'ALL', 'AM', 'ARE', 'BE', 'BIG', 'CAN', 'CEO', 'CPI', 'ECB', 'ESG', 'EU', 'EV', 'FED', 'FOR', 'GDP',
+  'GO', 'IPO', 'IT', 'KEY', 'NET', 'NEW', 'NOW', 'ON', 'ONE', 'OR', 'PM', 'RUN', 'SO', 'TV', 'UK', 'US', 'USA',
+]);
+
+// Leading name words that are too common to identify a company on their own,
+// e.g. "First Solar" needs both words, "Tesla" does not
+const GENERIC_NAME_WORDS = new Set([
+  'first', 'american', 'general', 'national', 'international', 'global', 'united', 'new', 'energy', 'solar',
+  'water', 'waste', 'wind', 'power', 'clean', 'green', 'renewable', 'applied', 'advanced', 'digital', 'public',
+  'service', 'royal', 'china', 'capital', 'financial',
+]);
+
+const LEGAL_SUFFIX = /[,.]?\s+(?:inc|incorporated|corp|corporation|co|company|ltd|limited|plc|n\.?v|s\.?a|ag|se|holdings?|group)\.?$/i;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalizeText = (text: string): string =>
+  ` ${text.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+/**
+ * Company name without trailing legal forms, e.g. "NextEra Energy, Inc." -> "NextEra Energy".
+ */
+export const shortCompanyName = (name: string): string => {
+  let short = name.trim();
+  while (LEGAL_SUFFIX.test(short)) short = short.replace(LEGAL_SUFFIX, '').trim();
+  return short || name.trim();
+};
+
+/**
+ * The lower-cased phrase a headline must contain to mention the company by name,
+ * or null when the name has nothing distinctive enough to match on.
+ */
+export const namePhrase = (name: string): string | null => {
+  const tokens = nameTokens(name ?? '');
+  if (tokens.length === 0) return null;
+  if (!GENERIC_NAME_WORDS.has(tokens[0]) && tokens[0].length >= 3) return tokens[0];
+  return tokens.length >= 2 ? `${tokens[0]} ${tokens[1]}` : null;
+};
+
+/**
+ * True when the headline names the holding: by ticker (case-sensitive, whole word),
+ * as "$TICKER" or "(TICKER)", or by its company name.
+ */
+export const mentionsPosition = (title: string, position: Pick<StockPosition, 'ticker' | 'name'>): boolean => {
+  const ticker = position.ticker.trim().toUpperCase();
+  if (ticker) {
+    const symbol = escapeRegExp(ticker);
+    if (new RegExp(`\\$${symbol}(?![A-Za-z0-9])|[(:]\\s*${symbol}\\s*\\)`).test(title)) return true;
+    const bareAllowed = ticker.length >= 2 && !AMBIGUOUS_TICKERS.has(ticker);
+    if (bareAllowed && new RegExp(`(?:^|[^A-Za-z0-9])${symbol}(?![A-Za-z0-9])`).test(title)) return true;
+  }
+
+  const phrase = namePhrase(position.name);
+  return phrase !== null && normalizeText(title).includes(` ${phrase} `);
+};
+
+/**
+ * Tags each headline with the holdings it mentions, in portfolio order.
+ * Re-tagging replaces earlier tags, so it is safe to run again after positions change.
+ */
+export const tagHeadlines = (
+  headlines: NewsHeadline[],
+  positions: Pick<StockPosition, 'ticker' | 'name'>[]
+): NewsHeadline[] =>
+  headlines.map(({ tickers: _previous, ...headline }) => {
+    const tickers = positions.filter(position => mentionsPosition(headline.title, position)).map(p => p.ticker);
+    return tickers.length > 0 ? { ...headline, tickers } : headline;
+  });
+
+export const headlinesForTicker = (headlines: NewsHeadline[], ticker: string): NewsHeadline[] =>
+  headlines.filter(headline => headline.tickers?.includes(ticker));
+
+/**
+ * Stores each position's tagged headlines on the position; positions without news carry none.
+ */
+export const attachHeadlines = (positions: StockPosition[], headlines: NewsHeadline[]): StockPosition[] =>
+  positions.map(({ headlines: _previous, ...position }) => {
+    const matched = headlinesForTicker(headlines, position.ticker);
+    return matched.length > 0 ? { ...position, headlines: matched } : position;
+  });
+
+/**
+ * Search topic for news on the largest holdings and the portfolio's sectors, within
+ * `maxLength` characters. Holdings are added by weight until the next one no longer fits.
+ * Falls back to tickers only if the names trip the query guard; empty without positions.
+ */
+export const buildPortfolioNewsQuery = (
+  positions: Pick<StockPosition, 'ticker' | 'name' | 'sector' | 'weight'>[],
+  maxLength: number = SEARCH_QUERY_GUARD.maxLength
+): string => {
+  const ranked = [...positions].filter(p => p.ticker).sort((a, b) => b.weight - a.weight);
+  if (ranked.length === 0) return '';
+
+  // Joins as many items as fit in `budget` characters after the prefix
+  const fit = (prefix: string, items: string[], budget: number): string => {
+    const chosen: string[] = [];
+    for (const item of items) {
+      if (`${prefix}${[...chosen, item].join(', ')}`.length > budget) break;
+      chosen.push(item);
+    }
+    return chosen.length > 0 ? `${prefix}${chosen.join(', ')}` : '';
+  };
+
+  const sectors = Array.from(new Set(ranked.map(p => p.sector?.trim()).filter((s): s is string => !!s)));
+  // Sectors get up to a third of the query so a long holdings list can't crowd them out
+  const sectorPart = fit('; sector news: ', sectors, Math.floor(maxLength / 3));
+  const companies = fit('Company news: ', ranked.map(p => `${shortCompanyName(p.name || p.ticker)} (${p.ticker})`), maxLength - sectorPart.length);
+  const withSectors = companies && `${companies}${sectorPart}`;
+
+  if (withSectors && guardUserText(withSectors, SEARCH_QUERY_GUARD).classification === 'safe') return withSectors;
+
+  const tickersOnly = fit('Company news: ', ranked.map(p => p.ticker), maxLength);
+  return guardUserText(tickersOnly, SEARCH_QUERY_GUARD).classification === 'safe' ? tickersOnly : '';
+};
@@ -0,0 +1,176 @@
+import { GeneratedPortfolio, PortfolioCorrection, StockPosition } from '../types';
+
+export interface NormalizationRules {
+  minPositions: number;
+  maxPositions: number;
+  minWeight: number; // Percent
+  maxWeight: number; // Percent
+}
+
+export const DEFAULT_NORMALIZATION_RULES: NormalizationRules = {
+  minPositions: 12,
+  maxPositions: 18,
+  minWeight: 1,
+  maxWeight: 15,
+};
+
+const WEIGHT_PRECISION = 100; // Weights are stored with two decimals
+const EPSILON = 1e-6;
+
+const round = (value: number) => Math.round(value * WEIGHT_PRECISION) / WEIGHT_PRECISION;
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const formatWeight = (value: number) => `${value.toFixed(2)}%`;
+
+/**
+ * Rescales weights to sum to 100 within [min, max]: bounded positions are pinned to
+ * the bound and the remainder is spread proportionally over the rest until nothing violates.
+ */
+const fitWeights = (weights: number[], min: number, max: number): number[] => {
+  const result = [...weights];
+  const pinned = new Array(weights.length).fill(false);
+
+  for (let pass = 0; pass <= weights.length; pass++) {
+    const free = result.map((_, i) => i).filter(i => !pinned[i]);
+    const remaining = 100 - sum(result.filter((_, i) => pinned[i]));
+    const freeTotal = sum(free.map(i => weights[i]));
+    free.forEach(i => {
+      result[i] = freeTotal > 0 ? weights[i] / freeTotal * remaining : remaining / free.length;
+    });
+
+    const violations = free.filter(i => result[i] > max + EPSILON || result[i] < min - EPSILON);
+    if (violations.length === 0) break;
+    violations.forEach(i => {
+      result[i] = result[i] > max ? max : min;
+      pinned[i] = true;
+    });
+  }
+  return result;
+};
+
+/**
+ * Rounds to two decimals and puts the rounding residual on the largest position that
+ * stays within bounds, so the weights sum to exactly 100.
+ */
+const roundToHundred = (weights: number[], min: number, max: number): number[] => {
+  const rounded = weights.map(round);
+  const residual = round(100 - sum(rounded));
+  if (residual === 0) return rounded;
+
+  const order = rounded.map((_, i) => i).sort((a, b) => rounded[b] - rounded[a]);
+  const target = order.find(i => rounded[i] + residual <= max + EPSILON && rounded[i] + residual >= min - EPSILON) ?? order[0];
+  rounded[target] = round(rounded[target] + residual);
+  return rounded;
+};
+
+/**
+ * Deterministically repairs the model's portfolio structure: normalizes and dedupes tickers
+ * (merging weights), drops unusable positions, trims to the maximum position count, and
+ * rescales weights to exactly 100% within the min/max position weight.
+ * Returns a new portfolio listing every correction applied; the input is not modified.
+ */
+export const normalizePortfolio = (
+  portfolio: GeneratedPortfolio,
+  rules: NormalizationRules = DEFAULT_NORMALIZATION_RULES
+): GeneratedPortfolio => {
+  const corrections: PortfolioCorrection[] = [];
+
+  // 1. Drop positions with no ticker or a weight that cannot be allocated
+  const usable: StockPosition[] = [];
+  const removed: string[] = [];
+  portfolio.positions.forEach(pos => {
+    const ticker = typeof pos.ticker === 'string' ? pos.ticker.trim().toUpperCase() : '';
+    if (!ticker || typeof pos.weight !== 'number' || !Number.isFinite(pos.weight) || pos.weight <= 0) {
+      removed.push(ticker || '(blank)');
+      return;
+    }
+    usable.push({ ...pos, ticker });
+  });
+  if (removed.length > 0) {
+    corrections.push({
+      kind: 'position-removed',
+      tickers: removed,
+      message: `Removed ${removed.length} position${removed.length === 1 ? '' : 's'} with a missing ticker or non-positive weight: ${removed.join(', ')}`,
+    });
+  }
+
+  // 2. Merge repeated tickers, keeping the first entry's details
+  const byTicker = new Map<string, StockPosition>();
+  const duplicated = new Set<string>();
+  usable.forEach(pos => {
+    const existing = byTicker.get(pos.ticker);
+    if (existing) {
+      existing.weight += pos.weight;
+      duplicated.add(pos.ticker);
+    } else {
+      byTicker.set(pos.ticker, pos);
+    }
+  });
+  if (duplicated.size > 0) {
+    corrections.push({
+      kind: 'duplicates-merged',
+      tickers: Array.from(duplicated),
+      message: `Merged repeated tickers into single positions: ${Array.from(duplicated).join(', ')}`,
+    });
+  }
+  let positions = Array.from(byTicker.values());
+
+  // 3. Enforce the position count: keep the largest holdings, in their original order
+  if (positions.length > rules.maxPositions) {
+    const kept = new Set([...positions]
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, rules.maxPositions)
+      .map(pos => pos.ticker));
+    const dropped = positions.filter(pos => !kept.has(pos.ticker)).map(pos => pos.ticker);
+    positions = positions.filter(pos => kept.has(pos.ticker));
+    corrections.push({
+      kind: 'positions-dropped',
+      tickers: dropped,
+      message: `Dropped the ${dropped.length} smallest position${dropped.length === 1 ? '' : 's'} to stay within ${rules.maxPositions} holdings: ${dropped.join(', ')}`,
+    });
+  }
+  if (positions.length < rules.minPositions) {
+    corrections.push({
+      kind: 'too-few-positions',
+      tickers: [],
+      message: `Only ${positions.length} positions were generated; the strategy targets ${rules.minPositions}-${rules.maxPositions}`,
+    });
+  }
+  if (positions.length === 0) return { ...portfolio, positions, corrections };
+
+  // 4. Rescale to 100% within the weight bounds (widened if too few positions make them infeasible)
+  const maxWeight = Math.max(rules.maxWeight, 100 / positions.length);
+  const minWeight = Math.min(rules.minWeight, 100 / positions.length);
+  const rawWeights = positions.map(pos => pos.weight);
+  const rawTotal = sum(rawWeights);
+  const weights = roundToHundred(fitWeights(rawWeights, minWeight, maxWeight), minWeight, maxWeight);
+
+  const capped = positions.filter((pos, i) => pos.weight / rawTotal * 100 > maxWeight + EPSILON && weights[i] <= maxWeight + EPSILON);
+  const raised = positions.filter((pos, i) => pos.weight / rawTotal * 100 < minWeight - EPSILON && weights[i] >= minWeight - EPSILON);
+  if (capped.length > 0) {
+    corrections.push({
+      kind: 'weight-capped',
+      tickers: capped.map(pos => pos.ticker),
+      message: `Capped ${capped.map(pos => pos.ticker).join(', ')} at the ${formatWeight(maxWeight)} maximum position weight`,
+    });
+  }
+  if (raised.length > 0) {
+    corrections.push({
+      kind: 'weight-raised',
+      tickers: raised.map(pos => pos.ticker),
+      message: `Raised ${raised.map(pos => pos.ticker).join(', ')} to the ${formatWeight(minWeight)} minimum position weight`,
+    });
+  }
+  if (Math.abs(rawTotal - 100) >= 0.005) {
+    corrections.push({
+      kind: 'weights-rescaled',
+      tickers: [],
+      message: `Weights summed to ${formatWeight(rawTotal)}; rescaled to 100%`,
+    });
+  }
+
+  return {
+    ...portfolio,
+    positions: positions.map((pos, i) => ({ ...pos, weight: weights[i] })),
+    corrections,
+  };
+};
@@ -0,0 +1,93 @@
+import { ProgressEvent, ProgressStage } from '../types';
+
+export const STAGE_LABELS: Record<ProgressStage, string> = {
+  initializing: 'Initialize',
+  structure: 'Select constituents',
+  'market-data': 'Market data',
+  benchmark: 'S&P 500 benchmark',
+  repair: 'Repair pass',
+  verification: 'Cross-verification',
+  news: 'News',
+  finalizing: 'Finalize',
+};
+
+export const GENERATION_STAGES: ProgressStage[] = ['initializing', 'structure', 'market-data', 'benchmark', 'repair', 'verification', 'news', 'finalizing'];
+export const REFRESH_STAGES: ProgressStage[] = ['market-data', 'benchmark', 'repair'];
+export const VERIFIED_REFRESH_STAGES: ProgressStage[] = [...REFRESH_STAGES, 'verification'];
+
+export type ProgressDetail = Pick<ProgressEvent, 'batch' | 'tickers' | 'pendingTickers' | 'failedTickers'> & {
+  // Completion within the stage, 0-1; derived from `batch` when omitted
+  stageFraction?: number;
+};
+
+export interface ProgressReporter {
+  emit: (stage: ProgressStage, message: string, detail?: ProgressDetail) => void;
+  // Re-emits an event from a nested operation against this reporter's stages and clock
+  forward: (event: ProgressEvent) => void;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Turns stage updates into ProgressEvents with an overall completion fraction.
+ * Each stage is an equal share of the bar; batches fill their stage's share as they complete.
+ */
+export const createProgressReporter = (
+  stages: ProgressStage[],
+  onProgress?: (event: ProgressEvent) => void,
+  now: () => number = Date.now
+): ProgressReporter => {
+  const startedAt = now();
+
+  const emit = (stage: ProgressStage, message: string, detail: ProgressDetail = {}) => {
+    if (!onProgress) return;
+    const { stageFraction, ...rest } = detail;
+    const stageIndex = Math.max(0, stages.indexOf(stage));
+    const withinStage = stageFraction ?? (rest.batch && rest.batch.total > 0 ? rest.batch.completed / rest.batch.total : 0);
+
+    onProgress({
+      stage,
+      stageIndex,
+      stageCount: stages.length,
+      message,
+      fraction: clamp01((stageIndex + clamp01(withinStage)) / stages.length),
+      elapsedMs: now() - startedAt,
+      ...rest,
+    });
+  };
+
+  const forward = (event: ProgressEvent) => {
+    const { stage, message, batch, tickers, pendingTickers, failedTickers } = event;
+    emit(stage, message, {
+      batch,
+      tickers,
+      pendingTickers,
+      failedTickers,
+      stageFraction: event.fraction * event.stageCount - event.stageIndex,
+    });
+  };
+
+  return { emit, forward };
+};
+
+export interface StageSummary {
+  stage: ProgressStage;
+  status: 'done' | 'active';
+  latest: ProgressEvent;
+}
+
+/**
+ * Collapses an event log into one entry per stage (latest event wins), in the order stages started.
+ * Every stage before the most recent one is done.
+ */
+export const summarizeProgress = (events: ProgressEvent[]): StageSummary[] => {
+  const latestByStage = new Map<ProgressStage, ProgressEvent>();
+  events.forEach(event => latestByStage.set(event.stage, event));
+
+  const current = events[events.length - 1]?.stage;
+  return Array.from(latestByStage.entries()).map(([stage, latest]) => ({
+    stage,
+    status: stage === current && latest.fraction < 1 ? 'active' : 'done',
+    latest,
+  }));
+};
@@ -0,0 +1,155 @@
+/**
+ * Layered checks for free text that ends up inside a prompt: length, charset,
+ * injection patterns and delimiters. Text that passes is embedded as quoted data.
+ */
+
+export type GuardClassification = 'safe' | 'suspicious' | 'blocked';
+
+export type GuardLayer = 'length' | 'charset' | 'pattern' | 'delimiter';
+
+export interface GuardFinding {
+  layer: GuardLayer;
+  rule: string;
+  severity: 'warn' | 'block';
+  message: string;
+}
+
+export interface GuardResult {
+  classification: GuardClassification;
+  findings: GuardFinding[];
+  sanitized: string;  // Trimmed, whitespace-collapsed text with disallowed characters removed
+}
+
+export interface GuardProfile {
+  minLength: number;
+  maxLength: number;
+}
+
+export const PREFERENCES_GUARD: GuardProfile = { minLength: 1, maxLength: 500 };
+export const SEARCH_QUERY_GUARD: GuardProfile = { minLength: 3, maxLength: 200 };
+
+interface PatternRule {
+  id: string;
+  pattern: RegExp;
+  severity: 'warn' | 'block';
+  message: string;
+}
+
+const OVERRIDE_TARGET = '(?:the\\s+|your\\s+|any\\s+|all\\s+)?(?:[a-z-]+\\s+)?(?:previous|prior|above|earlier|all|safety|system|instructions?|rules?|guidelines?|polic(?:y|ies)|constraints?)';
+
+export const INJECTION_RULES: PatternRule[] = [
+  {
+    id: 'override-instructions',
+    pattern: new RegExp(`\\b(?:ignore|disregard|override|forget|bypass)\\s+${OVERRIDE_TARGET}`, 'i'),
+    severity: 'block',
+    message: 'Asks the model to ignore or override its instructions',
+  },
+  {
+    id: 'do-not-follow',
+    pattern: /\bdo\s+not\s+(?:follow|obey|apply)\b|\bdon'?t\s+(?:follow|obey|apply)\b/i,
+    severity: 'block',
+    message: 'Tells the model not to follow its instructions',
+  },
+  {
+    id: 'role-reassignment',
+    pattern: /\byou\s+are\s+now\b|\bpretend\s+(?:to\s+be|you\s+are)\b|\bfrom\s+now\s+on\b|\bnew\s+instructions?\b/i,
+    severity: 'block',
+    message: 'Tries to give the model a new role or instructions',
+  },
+  {
+    id: 'prompt-disclosure',
+    pattern: /\b(?:reveal|print|show|repeat|output)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+)?(?:prompt|instructions)\b|\bsystem\s+prompt\b|\bdeveloper\s+mode\b|\bjailbreak/i,
+    severity: 'block',
+    message: 'Asks for the hidden prompt or a jailbreak mode',
+  },
+  {
+    id: 'role-marker',
+    pattern: /(?:^|\n)\s*(?:system|assistant|user|model)\s*:/i,
+    severity: 'block',
+    message: 'Contains a chat role marker',
+  },
+  // Common in honest requests ("utilities instead of tech"), so only flagged
+  {
+    id: 'instead-of',
+    pattern: /\binstead\s*(?:of\b|,)/i,
+    severity: 'warn',
+    message: 'Redirects the request ("instead of")',
+  },
+];
+
+// Markup that could close or fake the block the text is embedded in
+const DELIMITER_PATTERN = /```|"""|<\/?[a-z_][\w-]*\s*>|^\s*(?:#{2,}|-{3,}|={3,})/im;
+
+// Control characters other than tab/newline, zero-width and bidi override characters
+const INVISIBLE_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+// Letters, marks, digits, whitespace, dashes, curly quotes and ordinary punctuation
+const ALLOWED_CHAR = /[\p{L}\p{M}\p{N}\p{Pd}\p{Pi}\p{Pf}\s.,;:!?'"%&()\[\]/+\-*$€£¥#@=<>`_]/u;
+
+const removeDisallowed = (text: string): { text: string; removed: string[] } => {
+  const removed = new Set<string>();
+  const kept = Array.from(text).filter(char => {
+    if (ALLOWED_CHAR.test(char)) return true;
+    removed.add(char);
+    return false;
+  });
+  return { text: kept.join(''), removed: Array.from(removed) };
+};
+
+/**
+ * Classifies free text and returns a sanitized copy.
+ * Any blocking finding makes the text 'blocked'; only warnings make it 'suspicious'.
+ * Patterns are matched after invisible characters are removed so they can't split keywords.
+ */
+export const guardUserText = (input: string, profile: GuardProfile = PREFERENCES_GUARD): GuardResult => {
+  const findings: GuardFinding[] = [];
+  const raw = typeof input === 'string' ? input : '';
+
+  // Length is judged on what the user typed; the limit also bounds the work below
+  if (raw.trim().length < profile.minLength) {
+    findings.push({ layer: 'length', rule: 'too-short', severity: 'block', message: raw.trim().length === 0 ? 'Text is empty' : `Text must be at least ${profile.minLength} characters` });
+  }
+  if (raw.length > profile.maxLength) {
+    findings.push({ layer: 'length', rule: 'too-long', severity: 'block', message: `Text must be under ${profile.maxLength} characters` });
+  }
+
+  const normalized = raw.normalize('NFKC');
+  const text = normalized.replace(INVISIBLE_CHARS, '');
+  if (text !== normalized) {
+    findings.push({ layer: 'charset', rule: 'invisible-characters', severity: 'warn', message: 'Removed invisible or control characters' });
+  }
+  const { text: visible, removed } = removeDisallowed(text);
+  if (removed.length > 0) {
+    findings.push({ layer: 'charset', rule: 'disallowed-characters', severity: 'warn', message: `Removed unsupported characters: ${removed.slice(0, 5).join(' ')}` });
+  }
+
+  INJECTION_RULES.forEach(rule => {
+    if (rule.pattern.test(visible)) {
+      findings.push({ layer: 'pattern', rule: rule.id, severity: rule.severity, message: rule.message });
+    }
+  });
+
+  if (DELIMITER_PATTERN.test(visible)) {
+    findings.push({ layer: 'delimiter', rule: 'markup-delimiters', severity: 'warn', message: 'Contains prompt delimiters or markup; they are escaped' });
+  }
+
+  const classification: GuardClassification = findings.some(f => f.severity === 'block')
+    ? 'blocked'
+    : findings.length > 0 ? 'suspicious' : 'safe';
+
+  return { classification, findings, sanitized: visible.trim().replace(/\s+/g, ' ') };
+};
+
+/**
+ * Embeds sanitized text as a JSON string literal inside a labelled data block.
+ * Angle brackets are escaped so the text can never close the block it sits in.
+ */
+export const embedUserText = (label: string, text: string): string => {
+  const literal = JSON.stringify(text).replace(/</g, '\\u003c').replace(/>/g, '\\u003e');
+  return `<user_data label="${label}">\n${literal}\n</user_data>`;
+};
+
+/**
+ * One-line explanation of why text was blocked or flagged.
+ */
+export const describeFindings = (findings: GuardFinding[]): string =>
+  findings.map(f => f.message).join('; ');
@@ -0,0 +1,93 @@
+import { GroundingChunk, MarketDataField, SourceReference } from '../types';
+
+export const MARKET_DATA_FIELD_LABELS: Record<MarketDataField, string> = {
+  currentPrice: 'Price',
+  dayChangePercent: 'Day change',
+  oneYearChangePercent: '1Y return',
+  threeYearChangePercent: '3Y return',
+  fiveYearChangePercent: '5Y return',
+  dividendYieldPercent: 'Dividend yield',
+};
+
+// Subset of Gemini's groundingMetadata used for attribution
+export interface GroundingMetadataLike {
+  groundingChunks?: GroundingChunk[];
+  groundingSupports?: {
+    segment?: { text?: string };
+    groundingChunkIndices?: number[];
+  }[];
+}
+
+/**
+ * Keeps well-formed { uri, title? } entries, deduplicated by uri.
+ */
+export const sanitizeSources = (raw: unknown): SourceReference[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const sources: SourceReference[] = [];
+
+  raw.forEach(entry => {
+    const uri = entry?.uri;
+    if (typeof uri !== 'string' || uri.length === 0 || seen.has(uri)) return;
+    seen.add(uri);
+    sources.push(typeof entry.title === 'string' && entry.title ? { uri, title: entry.title } : { uri });
+  });
+  return sources;
+};
+
+const chunkToSource = (chunk?: GroundingChunk): SourceReference | null =>
+  chunk?.web?.uri ? { uri: chunk.web.uri, title: chunk.web.title || undefined } : null;
+
+/**
+ * Every web source cited anywhere in a grounded response.
+ */
+export const collectGroundingSources = (metadata?: GroundingMetadataLike): SourceReference[] =>
+  sanitizeSources((metadata?.groundingChunks || []).map(chunkToSource));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Maps grounding citations onto the tickers they support.
+ * A ticker gets the chunks cited by answer segments that mention it; tickers no segment
+ * mentions fall back to every chunk of the response, since the answer as a whole relied on them.
+ */
+export const attributeSourcesToTickers = (
+  tickers: string[],
+  metadata?: GroundingMetadataLike
+): Record<string, SourceReference[]> => {
+  const chunks = metadata?.groundingChunks || [];
+  const supports = metadata?.groundingSupports || [];
+  const allSources = collectGroundingSources(metadata);
+  const result: Record<string, SourceReference[]> = {};
+
+  tickers.forEach(ticker => {
+    const mention = new RegExp(`(^|[^A-Z0-9.])${escapeRegExp(ticker.toUpperCase())}($|[^A-Z0-9])`);
+    const cited = supports
+      .filter(support => mention.test((support.segment?.text || '').toUpperCase()))
+      .flatMap(support => (support.groundingChunkIndices || []).map(index => chunkToSource(chunks[index])));
+    const sources = sanitizeSources(cited);
+    result[ticker] = sources.length > 0 ? sources : allSources;
+  });
+
+  return result;
+};
+
+/**
+ * Short label for a source: its title, or the hostname of its uri.
+ */
+export const describeSource = (source: SourceReference): string => {
+  if (source.title) return source.title;
+  try {
+    return new URL(source.uri).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return source.uri;
+  }
+};
+
+/**
+ * Formats a market data value for display next to its provenance.
+ */
+export const formatFieldValue = (field: MarketDataField, value: number | undefined): string | undefined => {
+  if (typeof value !== 'number') return undefined;
+  return field === 'currentPrice' ? `$${value.toFixed(2)}` : `${value.toFixed(2)}%`;
+};
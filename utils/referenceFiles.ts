@@ -0,0 +1,54 @@
+/**
+ * Fetches a static file served from public/ as text. Resolves to null when the file is
+ * missing: a failed response, a network error, or HTML, which is what the dev server
+ * answers unknown paths with.
+ */
+export const fetchReferenceText = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok || (response.headers.get('content-type') || '').includes('text/html')) {
+      return null;
+    }
+    return await response.text();
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Fetches and parses a static reference file, rejecting when it is missing.
+ */
+export const loadReferenceFile = async <T>(url: string, parse: (text: string) => T, description: string): Promise<T> => {
+  const text = await fetchReferenceText(url);
+  if (text === null) throw new Error(`No ${description} found at ${url}`);
+  return parse(text);
+};
+
+export interface ReferenceCache<T> {
+  get: () => Promise<T>;
+  // Installs a value in place of loading; null goes back to loading on the next get()
+  set: (value: T | null) => void;
+}
+
+/**
+ * Shares one lazily loaded value between callers. A failed load resolves to `fallback(error)`
+ * (which may rethrow) and is not kept, so the next get() tries again.
+ */
+export const createReferenceCache = <T>(load: () => Promise<T>, fallback: (error: unknown) => T): ReferenceCache<T> => {
+  let promise: Promise<T> | null = null;
+
+  return {
+    get: () => {
+      if (!promise) {
+        promise = load().catch(error => {
+          promise = null;
+          return fallback(error);
+        });
+      }
+      return promise;
+    },
+    set: (value) => {
+      promise = value !== null ? Promise.resolve(value) : null;
+    },
+  };
+};
@@ -0,0 +1,190 @@
+// Risk and performance statistics over monthly return series in percent (1.5 means +1.5%).
+// Two-series functions expect both series aligned on the same months.
+
+const MONTHS_PER_YEAR = 12;
+
+export interface Drawdown {
+  maxDrawdown: number;            // Percent, <= 0
+  peak: number;                   // Index into the wealth path; 0 is before the first return
+  trough: number;
+  recovery: number | null;        // First index back at the peak's level; null if not recovered
+  recoveryMonths: number | null;  // Trough to recovery
+}
+
+export interface TailRisk {
+  valueAtRisk: number;        // One-month loss, percent, positive for a loss
+  expectedShortfall: number;  // Average loss beyond the VaR (CVaR)
+}
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// Sample standard deviation (n - 1 denominator)
+const stdDev = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+};
+
+const covariance = (a: number[], b: number[]): number => {
+  if (a.length < 2) return 0;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, value, t) => sum + (value - meanA) * (b[t] - meanB), 0) / (a.length - 1);
+};
+
+/**
+ * Weighted sum of aligned return rows (one row per holding), month by month.
+ */
+export const combineReturns = (weights: number[], returns: number[][]): number[] =>
+  (returns[0] || []).map((_, t) => weights.reduce((sum, weight, i) => sum + weight * returns[i][t], 0));
+
+/**
+ * Compound annual growth rate of a monthly series, in percent.
+ */
+export const annualizedReturn = (returns: number[]): number => {
+  if (returns.length === 0) return 0;
+  const growth = returns.reduce((wealth, r) => wealth * (1 + r / 100), 1);
+  return (Math.pow(growth, MONTHS_PER_YEAR / returns.length) - 1) * 100;
+};
+
+/**
+ * Largest peak-to-trough fall of the compounded wealth path, and how many months it took
+ * from the trough to climb back to the peak.
+ */
+export const maxDrawdown = (returns: number[]): Drawdown => {
+  let wealth = 1;
+  let peakWealth = 1;
+  let peakIndex = 0;
+  let worst: Drawdown = { maxDrawdown: 0, peak: 0, trough: 0, recovery: null, recoveryMonths: null };
+  const path = [1];
+
+  returns.forEach((r, t) => {
+    wealth *= 1 + r / 100;
+    path.push(wealth);
+    if (wealth >= peakWealth) {
+      peakWealth = wealth;
+      peakIndex = t + 1;
+    } else {
+      const drawdown = (wealth / peakWealth - 1) * 100;
+      if (drawdown < worst.maxDrawdown) worst = { maxDrawdown: drawdown, peak: peakIndex, trough: t + 1, recovery: null, recoveryMonths: null };
+    }
+  });
+
+  if (worst.maxDrawdown < 0) {
+    const recovery = path.findIndex((value, index) => index > worst.trough && value >= path[worst.peak]);
+    if (recovery !== -1) {
+      worst.recovery = recovery;
+      worst.recoveryMonths = recovery - worst.trough;
+    }
+  }
+  return worst;
+};
+
+/**
+ * Annualized downside deviation: root mean square of the shortfalls below a monthly target
+ * return, with months above it counting as zero.
+ */
+export const downsideDeviation = (returns: number[], targetMonthly: number = 0): number => {
+  if (returns.length === 0) return 0;
+  const squares = returns.reduce((sum, r) => sum + Math.min(r - targetMonthly, 0) ** 2, 0);
+  return Math.sqrt((squares / returns.length) * MONTHS_PER_YEAR);
+};
+
+/**
+ * Sortino ratio: annualized return in excess of the risk-free rate per unit of downside
+ * deviation below the monthly risk-free rate. Null when the series never falls below it.
+ */
+export const sortinoRatio = (returns: number[], riskFreeAnnual: number): number | null => {
+  const downside = downsideDeviation(returns, riskFreeAnnual / MONTHS_PER_YEAR);
+  if (downside === 0) return null;
+  return (annualizedReturn(returns) - riskFreeAnnual) / downside;
+};
+
+/**
+ * Pearson correlation of two aligned series; null if either is flat.
+ */
+export const correlation = (a: number[], b: number[]): number | null => {
+  const spread = stdDev(a) * stdDev(b);
+  return spread > 0 ? covariance(a, b) / spread : null;
+};
+
+/**
+ * Beta of a series to its benchmark: Cov(r, b) / Var(b). Null for a flat benchmark.
+ */
+export const beta = (returns: number[], benchmark: number[]): number | null => {
+  const variance = stdDev(benchmark) ** 2;
+  return variance > 0 ? covariance(returns, benchmark) / variance : null;
+};
+
+const activeReturns = (returns: number[], benchmark: number[]): number[] =>
+  returns.map((r, t) => r - benchmark[t]);
+
+/**
+ * Annualized standard deviation of the monthly return difference to the benchmark.
+ */
+export const trackingError = (returns: number[], benchmark: number[]): number =>
+  stdDev(activeReturns(returns, benchmark)) * Math.sqrt(MONTHS_PER_YEAR);
+
+/**
+ * Annualized mean active return per unit of tracking error. Null when tracking error is zero.
+ */
+export const informationRatio = (returns: number[], benchmark: number[]): number | null => {
+  const error = trackingError(returns, benchmark);
+  if (error === 0) return null;
+  return (mean(activeReturns(returns, benchmark)) * MONTHS_PER_YEAR) / error;
+};
+
+/**
+ * How many of `count` months form the tail beyond a confidence level; at least one.
+ */
+export const tailMonthCount = (count: number, confidence: number): number =>
+  // The epsilon keeps float noise (1 - 0.95 is slightly above 0.05) from adding a month
+  Math.max(1, Math.ceil((1 - confidence) * count - 1e-9));
+
+/**
+ * One-month historical VaR and CVaR: the loss at the worst (1 - confidence) share of months,
+ * and the average of those months. With 60 months at 95% that is the third-worst month.
+ */
+export const historicalTailRisk = (returns: number[], confidence: number = 0.95): TailRisk => {
+  if (returns.length === 0) return { valueAtRisk: 0, expectedShortfall: 0 };
+  const sorted = [...returns].sort((a, b) => a - b);
+  const tail = sorted.slice(0, tailMonthCount(sorted.length, confidence));
+  return { valueAtRisk: -tail[tail.length - 1], expectedShortfall: -mean(tail) };
+};
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9).
+ */
+export const normalQuantile = (p: number): number => {
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+  const low = 0.02425;
+
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    const tail = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < low ? tail : -tail;
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+/**
+ * One-month parametric (normal) VaR and CVaR from the series' mean and standard deviation.
+ */
+export const parametricTailRisk = (returns: number[], confidence: number = 0.95): TailRisk => {
+  const mu = mean(returns);
+  const sigma = stdDev(returns);
+  const z = normalQuantile(confidence);
+  const density = Math.exp(-(z ** 2) / 2) / Math.sqrt(2 * Math.PI);
+  return {
+    valueAtRisk: z * sigma - mu,
+    expectedShortfall: (sigma * density) / (1 - confidence) - mu,
+  };
+};
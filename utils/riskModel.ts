@@ -0,0 +1,129 @@
+import { MonthlyReturn } from '../types';
+
+// Five years of monthly returns, the usual window for an equity covariance estimate
+export const COVARIANCE_WINDOW_MONTHS = 60;
+// Fewer shared months than this make the covariance too noisy to report
+export const MIN_OVERLAP_MONTHS = 24;
+
+const MONTHS_PER_YEAR = 12;
+
+export interface ClosePoint {
+  date: string; // ISO date (YYYY-MM-DD) or month (YYYY-MM)
+  close: number;
+}
+
+export interface AlignedReturns {
+  months: string[];    // Months shared by every series, oldest first
+  returns: number[][]; // One row per input series, one column per month
+}
+
+/**
+ * The last fully completed calendar month before `now`, as YYYY-MM.
+ */
+export const lastCompleteMonth = (now: Date = new Date()): string => {
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return date.toISOString().slice(0, 7);
+};
+
+/**
+ * The YYYY-MM month `offset` months after (or, if negative, before) `month`.
+ */
+export const shiftMonth = (month: string, offset: number): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1 + offset, 1)).toISOString().slice(0, 7);
+};
+
+/**
+ * Monthly total returns (percent) from a close series, using the last close of each month.
+ * Months with no usable close leave a gap rather than a return spanning two months.
+ * Returns at most the latest `months` returns, oldest first.
+ */
+export const monthlyReturnsFromCloses = (closes: ClosePoint[], months: number = COVARIANCE_WINDOW_MONTHS): MonthlyReturn[] => {
+  const monthEnd = new Map<string, number>();
+  [...closes]
+    .filter(point => Number.isFinite(point.close) && point.close > 0 && /^\d{4}-\d{2}/.test(point.date))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(point => monthEnd.set(point.date.slice(0, 7), point.close));
+
+  const ordered = Array.from(monthEnd.keys()).sort();
+  const returns: MonthlyReturn[] = [];
+  ordered.slice(1).forEach((month, i) => {
+    const previous = ordered[i];
+    if (shiftMonth(previous, 1) !== month) return;
+    returns.push({ month, return: (monthEnd.get(month)! / monthEnd.get(previous)! - 1) * 100 });
+  });
+
+  return returns.slice(-months);
+};
+
+/**
+ * Lines series up on the months they all share, keeping the latest `windowMonths` of them.
+ */
+export const alignReturnSeries = (series: MonthlyReturn[][], windowMonths: number = COVARIANCE_WINDOW_MONTHS): AlignedReturns => {
+  if (series.length === 0) return { months: [], returns: [] };
+
+  const lookups = series.map(points => new Map(points.map(point => [point.month, point.return])));
+  const months = Array.from(lookups[0].keys())
+    .filter(month => lookups.every(lookup => Number.isFinite(lookup.get(month))))
+    .sort()
+    .slice(-windowMonths);
+
+  return { months, returns: lookups.map(lookup => months.map(month => lookup.get(month)!)) };
+};
+
+/**
+ * Sample covariance matrix (n - 1 denominator) of aligned series, one row per asset.
+ */
+export const covarianceMatrix = (returns: number[][]): number[][] => {
+  const observations = returns[0]?.length || 0;
+  if (observations < 2) return returns.map(() => returns.map(() => 0));
+
+  const means = returns.map(row => row.reduce((sum, value) => sum + value, 0) / observations);
+  return returns.map((rowA, i) => returns.map((rowB, j) => {
+    let sum = 0;
+    for (let t = 0; t < observations; t++) sum += (rowA[t] - means[i]) * (rowB[t] - means[j]);
+    return sum / (observations - 1);
+  }));
+};
+
+/**
+ * Shrinks a sample covariance toward a constant-correlation target: every pair gets the
+ * average sample correlation, variances are kept. `intensity` runs from 0 (sample) to 1 (target).
+ * This tames the noisy pairwise estimates a few years of monthly data give for many holdings.
+ */
+export const shrinkCovariance = (matrix: number[][], intensity: number): number[][] => {
+  const delta = Math.min(Math.max(intensity, 0), 1);
+  const size = matrix.length;
+  if (delta === 0 || size < 2) return matrix.map(row => [...row]);
+
+  const stdDevs = matrix.map((row, i) => Math.sqrt(Math.max(row[i], 0)));
+  let correlationSum = 0;
+  let pairs = 0;
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      if (stdDevs[i] > 0 && stdDevs[j] > 0) {
+        correlationSum += matrix[i][j] / (stdDevs[i] * stdDevs[j]);
+        pairs++;
+      }
+    }
+  }
+  const averageCorrelation = pairs > 0 ? correlationSum / pairs : 0;
+
+  return matrix.map((row, i) => row.map((value, j) => {
+    const target = i === j ? value : averageCorrelation * stdDevs[i] * stdDevs[j];
+    return delta * target + (1 - delta) * value;
+  }));
+};
+
+/**
+ * w'Σw for weights and a covariance matrix in the same asset order.
+ */
+export const portfolioVariance = (weights: number[], matrix: number[][]): number =>
+  weights.reduce((sum, wi, i) => sum + weights.reduce((inner, wj, j) => inner + wi * wj * matrix[i][j], 0), 0);
+
+/**
+ * Annualized portfolio volatility, σ = √(12 · w'Σw), from a covariance of monthly returns.
+ * Weights are fractions summing to 1; the result is in the returns' unit (percent here).
+ */
+export const annualizedVolatility = (weights: number[], matrix: number[][]): number =>
+  Math.sqrt(Math.max(portfolioVariance(weights, matrix), 0) * MONTHS_PER_YEAR);
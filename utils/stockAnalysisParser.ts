@@ -0,0 +1,197 @@
+import { AnalysisNewsItem, MoneyAmount, StockAnalysisResult, StockPerformance } from '../types';
+import { isRecord } from './typeGuards';
+
+export type ParsedStockAnalysis = Omit<StockAnalysisResult, 'groundingChunks' | 'prompt'>;
+
+const MAX_NEWS_ITEMS = 5;
+
+// Keys the model may use for each performance window; the short forms are what older prompts asked for
+const PERFORMANCE_KEYS: Record<keyof StockPerformance, string[]> = {
+  oneWeek: ['1W', 'oneWeek'],
+  oneMonth: ['1M', 'oneMonth'],
+  threeMonth: ['3M', 'threeMonth'],
+  oneYear: ['1Y', 'oneYear'],
+  fiveYear: ['5Y', 'fiveYear'],
+};
+
+const SCALE_SUFFIXES: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mn: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+  t: 1e12, tn: 1e12, trillion: 1e12,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY' };
+
+export const emptyPerformance = (): StockPerformance => ({
+  oneWeek: null, oneMonth: null, threeMonth: null, oneYear: null, fiveYear: null,
+});
+
+/**
+ * Reads a number from a JSON value: plain numbers, or strings like "$1,234.50", "-2.4%", "30.5x".
+ * With `allowScale`, suffixes such as "2.5T" or "310 billion" are expanded. Anything else is null.
+ */
+export const parseNumeric = (value: unknown, allowScale: boolean = false): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const match = value
+    .replace(/,/g, '')
+    .trim()
+    .match(/^(?:[A-Z]{3}\s*)?[$€£¥]?\s*([+-]?\d+(?:\.\d+)?)\s*([a-z]+)?\s*(?:%|x)?$/i);
+  if (!match) return null;
+
+  const number = parseFloat(match[1]);
+  const suffix = match[2]?.toLowerCase();
+  if (!suffix || suffix === 'x') return number;
+  if (!allowScale || !(suffix in SCALE_SUFFIXES)) return null;
+  return number * SCALE_SUFFIXES[suffix];
+};
+
+const currencyCode = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (/^[A-Za-z]{3}$/.test(trimmed)) return trimmed.toUpperCase();
+  return CURRENCY_SYMBOLS[trimmed] || null;
+};
+
+// Currency written into an amount string, e.g. "$2.5T" or "EUR 310bn"
+const currencyInText = (value: string): string | null => {
+  const code = value.trim().match(/^([A-Z]{3})\s*\d/);
+  if (code) return code[1];
+  const symbol = value.trim().match(/^[+-]?([$€£¥])/);
+  return symbol ? CURRENCY_SYMBOLS[symbol[1]] : null;
+};
+
+const positive = (value: number | null): number | null => (value !== null && value > 0 ? value : null);
+
+/**
+ * Market cap from `{ amount, currency }`, a bare number, or a string such as "2.5T" or "$310 billion".
+ * Falls back to `defaultCurrency` when the value names none.
+ */
+export const parseMarketCap = (value: unknown, defaultCurrency: string): MoneyAmount | null => {
+  if (isRecord(value)) {
+    const amount = positive(parseNumeric(value.amount ?? value.value, true));
+    if (amount === null) return null;
+    const currency = currencyCode(value.currency)
+      || (typeof value.amount === 'string' ? currencyInText(value.amount) : null)
+      || defaultCurrency;
+    return { amount, currency };
+  }
+
+  const amount = positive(parseNumeric(value, true));
+  if (amount === null) return null;
+  return { amount, currency: (typeof value === 'string' ? currencyInText(value) : null) || defaultCurrency };
+};
+
+const parsePerformance = (source: Record<string, unknown>): StockPerformance => {
+  const nested = isRecord(source.performance) ? source.performance : source;
+  const performance = emptyPerformance();
+  (Object.keys(PERFORMANCE_KEYS) as (keyof StockPerformance)[]).forEach(field => {
+    const key = PERFORMANCE_KEYS[field].find(k => nested[k] !== undefined);
+    const change = key ? parseNumeric(nested[key]) : null;
+    // A stock can't lose more than everything
+    performance[field] = change !== null && change > -100 ? change : null;
+  });
+  return performance;
+};
+
+const httpUrl = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseNews = (value: unknown): AnalysisNewsItem[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item): AnalysisNewsItem | null => {
+      if (typeof item === 'string') return item.trim() ? { summary: item.trim(), url: null, source: null } : null;
+      if (!isRecord(item)) return null;
+      const summary = typeof item.summary === 'string' ? item.summary.trim() : typeof item.title === 'string' ? item.title.trim() : '';
+      if (!summary) return null;
+      return {
+        summary,
+        url: httpUrl(item.url),
+        source: typeof item.source === 'string' && item.source.trim() ? item.source.trim() : null,
+      };
+    })
+    .filter((item): item is AnalysisNewsItem => item !== null)
+    .slice(0, MAX_NEWS_ITEMS);
+};
+
+/**
+ * Finds the first balanced `{...}` block, ignoring braces inside strings.
+ * Returns its bounds so the surrounding prose can be kept.
+ */
+const findJsonObject = (text: string): { start: number; end: number } | null => {
+  const start = text.indexOf('{');
+  if (start < 0) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return { start, end: i + 1 };
+    }
+  }
+  return null;
+};
+
+const parseJsonLoosely = (json: string): unknown => {
+  try {
+    return JSON.parse(json);
+  } catch {
+    // Trailing commas are the most common defect in model-written JSON
+    try {
+      return JSON.parse(json.replace(/,\s*([}\]])/g, '$1'));
+    } catch {
+      return null;
+    }
+  }
+};
+
+/**
+ * Turns the analysis prompt's answer into a fully populated result. The answer should be one JSON
+ * object, but fenced, prose-wrapped, trailing-comma and legacy "text + {"1W": ...}" answers are
+ * accepted too. Fields that are missing or fail validation come back as null; never throws.
+ */
+export const parseStockAnalysis = (text: string): ParsedStockAnalysis => {
+  const raw = typeof text === 'string' ? text : '';
+  const unfenced = raw.replace(/```(?:json)?/gi, '');
+  const bounds = findJsonObject(unfenced);
+  const parsed = bounds ? parseJsonLoosely(unfenced.slice(bounds.start, bounds.end)) : null;
+  const source = isRecord(parsed) ? parsed : {};
+
+  // Prose outside a valid JSON object is kept as the analysis text when the object has none
+  const outside = bounds && isRecord(parsed)
+    ? `${unfenced.slice(0, bounds.start)}${unfenced.slice(bounds.end)}`.replace(/\n{3,}/g, '\n\n').trim()
+    : unfenced.trim();
+  const analysis = typeof source.analysis === 'string' ? source.analysis.trim() : '';
+
+  const currency = currencyCode(source.currency);
+  const dividendYield = parseNumeric(source.dividendYield);
+
+  return {
+    content: analysis || outside,
+    price: positive(parseNumeric(source.price)),
+    currency,
+    marketCap: parseMarketCap(source.marketCap, currency || 'USD'),
+    peRatio: positive(parseNumeric(source.peRatio)),
+    dividendYield: dividendYield !== null && dividendYield >= 0 && dividendYield < 100 ? dividendYield : null,
+    performance: parsePerformance(source),
+    news: parseNews(source.news),
+  };
+};
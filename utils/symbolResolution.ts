@@ -0,0 +1,116 @@
+import { ListingInfo, StockPosition, SymbolIssue, SymbolIssueKind } from '../types';
+
+export interface SymbolListing extends ListingInfo {
+  ticker: string;
+  sector: string;
+}
+
+// Listings keyed by upper-case ticker; a ticker can trade on several exchanges
+export interface SymbolMaster {
+  listings: Record<string, SymbolListing[]>;
+  // A full exchange listing, so a ticker missing from it does not exist. A partial master
+  // (like the bundled sample) can only confirm the tickers it has.
+  complete?: boolean;
+}
+
+export interface SymbolResolution {
+  ticker: string;
+  listing?: SymbolListing;
+  issues: Omit<SymbolIssue, 'action' | 'replacement'>[];
+}
+
+// Kinds that leave a position without usable data or history
+const BLOCKING_ISSUES: SymbolIssueKind[] = ['unresolved', 'too-new'];
+
+// Legal-form and filler words that say nothing about which company a name refers to
+const NAME_NOISE = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'ltd', 'limited', 'plc', 'nv', 'sa', 'ag', 'se',
+  'as', 'lp', 'holding', 'holdings', 'group', 'the', 'class', 'and', 'of', 'com',
+]);
+
+/**
+ * Lower-cased distinctive words of a company name, without legal forms and filler.
+ */
+export const nameTokens = (name: string): string[] =>
+  name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token.length > 1 && !NAME_NOISE.has(token));
+
+/**
+ * Loose company-name comparison: the names match when the leading distinctive word of
+ * either appears in the other, so "Procter & Gamble" matches "The Procter & Gamble Company".
+ */
+export const namesMatch = (a: string, b: string): boolean => {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return true;
+  return tokensB.includes(tokensA[0]) || tokensA.includes(tokensB[0]);
+};
+
+const yearsSince = (isoDate: string, referenceDate: Date) =>
+  (referenceDate.getTime() - new Date(isoDate).getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+
+/**
+ * Resolves a position's ticker (optionally exchange-qualified, e.g. "NASDAQ:ASML") against the
+ * symbol master. Multiple listings are narrowed by exchange and company name; if that still
+ * leaves several, the first USD listing is used and the position is flagged as ambiguous.
+ */
+export const resolveSymbol = (
+  pos: Pick<StockPosition, 'ticker' | 'name'>,
+  master: SymbolMaster,
+  options: { minListingYears?: number; referenceDate?: Date } = {}
+): SymbolResolution => {
+  const { minListingYears = 5, referenceDate = new Date() } = options;
+  const raw = String(pos.ticker ?? '').trim().toUpperCase();
+  const [exchange, symbol] = raw.includes(':') ? raw.split(':', 2) : [undefined, raw];
+  const ticker = symbol || raw;
+  const issues: SymbolResolution['issues'] = [];
+
+  let candidates = master.listings[ticker] || [];
+  if (exchange) candidates = candidates.filter(listing => listing.exchange.toUpperCase() === exchange);
+  if (candidates.length === 0) {
+    issues.push(master.complete
+      ? { ticker, kind: 'unresolved', detail: `${raw || '(blank)'} is not in the symbol master` }
+      : { ticker, kind: 'unlisted', detail: `${raw || '(blank)'} is not in the symbol master sample; listing not checked` });
+    return { ticker, issues };
+  }
+
+  const named = pos.name ? candidates.filter(listing => namesMatch(pos.name, listing.name)) : candidates;
+  const pool = named.length > 0 ? named : candidates;
+  const listing = pool.find(l => l.currency === 'USD') || pool[0];
+
+  if (pos.name && named.length === 0) {
+    issues.push({ ticker, kind: 'name-mismatch', detail: `${ticker} is listed as "${listing.name}", not "${pos.name}"` });
+  }
+  if (pool.length > 1) {
+    issues.push({
+      ticker,
+      kind: 'ambiguous',
+      detail: `${ticker} trades on ${pool.map(l => l.exchange).join(', ')}; using ${listing.exchange} (${listing.currency})`,
+    });
+  }
+
+  const age = yearsSince(listing.listedOn, referenceDate);
+  if (Number.isFinite(age) && age < minListingYears) {
+    issues.push({ ticker, kind: 'too-new', detail: `${ticker} listed ${listing.listedOn} (${age.toFixed(1)} years ago, minimum ${minListingYears})` });
+  }
+
+  return { ticker, listing, issues };
+};
+
+export const isBlockingIssue = (issue: Pick<SymbolIssue, 'kind'>): boolean => BLOCKING_ISSUES.includes(issue.kind);
+
+export const requiresReplacement = (resolution: SymbolResolution): boolean => resolution.issues.some(isBlockingIssue);
+
+export const toListingInfo = ({ exchange, name, listedOn, currency }: SymbolListing): ListingInfo =>
+  ({ exchange, name, listedOn, currency });
+
+export const describeSymbolIssue = (issue: SymbolIssue): string => {
+  const action = issue.action === 'replaced' && issue.replacement
+    ? `Replaced ${issue.ticker} with ${issue.replacement}`
+    : issue.action === 'removed' ? `Removed ${issue.ticker}` : `Flagged ${issue.ticker}`;
+  return `${action}: ${issue.detail}`;
+};
@@ -0,0 +1,5 @@
+/**
+ * True for plain objects parsed from JSON or thrown as errors; arrays and null are excluded.
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -8,12 +8,13 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Model calls go through the proxy server (npm run server), which holds the API key
+        proxy: {
+          // xfwd passes the browser's address on, so a server run with TRUST_DEV_PROXY=true limits each client separately
+          '/api': { target: `http://127.0.0.1:${env.PROXY_PORT || 8787}`, xfwd: true },
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),